@@ -6,14 +6,20 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Index from "./pages/Index";
 import Register from "./pages/Register";
 import Login from "./pages/Login";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
+import VerifyEmail from "./pages/VerifyEmail";
 import Volunteer from "./pages/Volunteer";
 import Calendar from "./pages/Calendar";
 import Sports from "./pages/Sports";
 import Communities from "./pages/Communities";
+import Venue from "./pages/Venue";
 import NotFound from "./pages/NotFound";
 import ThankYou from "./pages/ThankYou";
 import Contact from "./pages/Contact";
 import { AuthProvider, useAuth } from "./hooks/api/useAuth";
+import { useLiveUpdates } from "./hooks/api/useLiveUpdates";
+import type { Role } from "./types";
 import { Footer } from "./components/Footer";
 import AdminDashboard from "./pages/admin/Dashboard";
 import CommunityAdmin from "./pages/admin/CommunityAdmin";
@@ -21,10 +27,11 @@ import SportsAdmin from "./pages/admin/SportsAdmin";
 import VolunteerAdmin from "./pages/admin/VolunteerAdmin";
 import UserDashboard from "./pages/user/Dashboard";
 import Leaderboard from "./pages/Leaderboard";
+import CheckIn from "./pages/CheckIn";
 import { Analytics } from '@vercel/analytics/react';
 
 // Minimal protected route gate by role
-function ProtectedRoute({ children, role }: { children: React.ReactNode; role: "admin" | "community_admin" | "sports_admin" | "volunteer_admin" }) {
+function ProtectedRoute({ children, role }: { children: React.ReactNode; role: Exclude<Role, null> | Exclude<Role, null>[] }) {
   const { user, loading } = useAuth();
   if (loading) {
     return (
@@ -36,7 +43,8 @@ function ProtectedRoute({ children, role }: { children: React.ReactNode; role: "
       </div>
     );
   }
-  if (!user || user.role !== role) return <Navigate to="/login" replace />;
+  const allowed = Array.isArray(role) ? role : [role];
+  if (!user || !allowed.includes(user.role)) return <Navigate to="/login" replace />;
   return <>{children}</>;
 }
 
@@ -83,11 +91,18 @@ function GuestRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>;
 }
 
+// Subscribes the shared query cache to live server updates
+function LiveUpdates() {
+  useLiveUpdates();
+  return null;
+}
+
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <Analytics />
+    <LiveUpdates />
     <TooltipProvider>
       <Toaster />
       <Sonner />
@@ -99,9 +114,13 @@ const App = () => (
             <Route path="/thank-you" element={<ThankYou />} />
             <Route path="/contact" element={<Contact />} />
             <Route path="/login" element={<GuestRoute><Login /></GuestRoute>} />
+            <Route path="/forgot-password" element={<GuestRoute><ForgotPassword /></GuestRoute>} />
+            <Route path="/reset-password" element={<GuestRoute><ResetPassword /></GuestRoute>} />
+            <Route path="/verify-email" element={<VerifyEmail />} />
             <Route path="/volunteer" element={<Volunteer />} />
             <Route path="/calendar" element={<Calendar />} />
             <Route path="/sports" element={<Sports />} />
+            <Route path="/venues/:id" element={<Venue />} />
             <Route path="/communities" element={<Communities />} />
             <Route path="/leaderboard" element={<Leaderboard />} />
 
@@ -110,6 +129,7 @@ const App = () => (
             <Route path="/sports-admin" element={<ProtectedRoute role="sports_admin"><SportsAdmin /></ProtectedRoute>} />
             <Route path="/volunteer-admin" element={<ProtectedRoute role="volunteer_admin"><VolunteerAdmin /></ProtectedRoute>} />
             <Route path="/dashboard" element={<AuthProtectedRoute><UserDashboard /></AuthProtectedRoute>} />
+            <Route path="/check-in" element={<ProtectedRoute role={["admin", "sports_admin", "volunteer_admin", "volunteer"]}><CheckIn /></ProtectedRoute>} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -1,10 +1,12 @@
 // API client for backend server
 
 // Import types from shared types file
-import type { Role, User, Participant, VolunteerEntry, SportRecord, CommunityRecord, DepartmentRecord, CalendarItem, SettingsRecord, CommunityContact, Convenor, TournamentFormat, LeaderboardEntry, LeaderboardRanking, SportLeaderboardEntry, BulkUploadResult } from "@/types";
+import type { Role, User, Participant, VolunteerEntry, SportRecord, SportEligibility, CommunityRecord, DepartmentRecord, DepartmentInput, Venue, VenueInput, VenueDetail, Shift, ShiftInput, VolunteerAvailability, SuggestionKind, VolunteerSuggestion, AcceptSuggestionsResult, CheckInCredential, CheckInResult, AttendanceRecord, CalendarItem, CalendarItemInput, ScheduleCheckInput, ScheduleCheckResult, SettingsRecord, CommunityContact, Convenor, TournamentFormat, PointsRules, LeaderboardEntry, LeaderboardRanking, SportLeaderboardEntry, BulkUploadResult, ParticipantImportField, ParticipantImportData, ParticipantImportRow, ParticipantImportPreview, ParticipantImportResult, ExportFormat, DrawFormat, DrawEntrantType, MatchRecord, MatchResultType, MatchResultInput, SetScore, TieBreaker, StandingsRow, GroupStandings, SportStandings, SportDraw, Team, TeamInput, AuditEvent, AuditEventFilters, EmailStatus, OutboxEmail, OutboxPage, OutboxFilters, EmailTemplate, EmailTemplateContent, EmailTemplatePreview, CampaignAudienceType, CampaignAudience, CampaignPreview, EmailCampaign, EmailCampaignReport } from "@/types";
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3000/api";
 
+const EXPORT_EXTENSIONS = { csv: "csv", excel: "xlsx", pdf: "pdf" } as const;
+
 export interface CreateParticipantInput {
   firstName: string;
   middleName?: string;
@@ -50,9 +52,75 @@ function setToken(token: string): void {
   localStorage.setItem("auth_token", token);
 }
 
-// Remove auth token from localStorage
+// Get refresh token from localStorage
+function getRefreshToken(): string | null {
+  return localStorage.getItem("refresh_token");
+}
+
+// Set refresh token in localStorage
+function setRefreshToken(refreshToken: string): void {
+  localStorage.setItem("refresh_token", refreshToken);
+}
+
+// Remove auth and refresh tokens from localStorage
 function removeToken(): void {
   localStorage.removeItem("auth_token");
+  localStorage.removeItem("refresh_token");
+}
+
+// Refresh tokens rotate on every use, so concurrent 401s share a single refresh
+let refreshPromise: Promise<boolean> | null = null;
+
+async function refreshAccessToken(): Promise<boolean> {
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) {
+    return false;
+  }
+
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refreshToken }),
+        });
+        if (!response.ok) {
+          // The session was revoked or has expired; the user must log in again
+          removeToken();
+          return false;
+        }
+        const data: { token: string; refreshToken: string } = await response.json();
+        setToken(data.token);
+        setRefreshToken(data.refreshToken);
+        return true;
+      } catch {
+        return false;
+      } finally {
+        refreshPromise = null;
+      }
+    })();
+  }
+
+  return refreshPromise;
+}
+
+// Fetch with the access token, renewing it once if the server rejects it
+async function fetchWithAuth(url: string, options: RequestInit = {}): Promise<Response> {
+  const send = () => {
+    const headers = new Headers(options.headers);
+    const token = getToken();
+    if (token) {
+      headers.set("Authorization", `Bearer ${token}`);
+    }
+    return fetch(url, { ...options, headers });
+  };
+
+  const response = await send();
+  if (response.status === 401 && getToken() && (await refreshAccessToken())) {
+    return send();
+  }
+  return response;
 }
 
 // API request helper
@@ -60,21 +128,16 @@ async function request<T>(
   endpoint: string,
   options: RequestInit = {}
 ): Promise<T> {
-  const token = getToken();
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
     ...(options.headers as Record<string, string> || {}),
   };
 
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
-  }
-
   const url = `${API_BASE_URL}${endpoint}`;
   console.log(`[API] ${options.method || "GET"} ${url}`, options.body ? JSON.parse(options.body as string) : "");
 
   try {
-    const response = await fetch(url, {
+    const response = await fetchWithAuth(url, {
       ...options,
       headers,
     });
@@ -102,17 +165,18 @@ async function request<T>(
 }
 
 // Re-export types for convenience
-export type { Role, User, Participant, VolunteerEntry, SportRecord, CommunityRecord, DepartmentRecord, CalendarItem, SettingsRecord, CommunityContact, Convenor, TournamentFormat, LeaderboardEntry, LeaderboardRanking, SportLeaderboardEntry, BulkUploadResult };
+export type { Role, User, Participant, VolunteerEntry, SportRecord, SportEligibility, CommunityRecord, DepartmentRecord, DepartmentInput, Venue, VenueInput, VenueDetail, Shift, ShiftInput, VolunteerAvailability, SuggestionKind, VolunteerSuggestion, AcceptSuggestionsResult, CheckInCredential, CheckInResult, AttendanceRecord, CalendarItem, CalendarItemInput, ScheduleCheckInput, ScheduleCheckResult, SettingsRecord, CommunityContact, Convenor, TournamentFormat, PointsRules, LeaderboardEntry, LeaderboardRanking, SportLeaderboardEntry, BulkUploadResult, ParticipantImportField, ParticipantImportData, ParticipantImportRow, ParticipantImportPreview, ParticipantImportResult, ExportFormat, DrawFormat, DrawEntrantType, MatchRecord, MatchResultType, MatchResultInput, SetScore, TieBreaker, StandingsRow, GroupStandings, SportStandings, SportDraw, Team, TeamInput, AuditEvent, AuditEventFilters, EmailStatus, OutboxEmail, OutboxPage, OutboxFilters, EmailTemplate, EmailTemplateContent, EmailTemplatePreview, CampaignAudienceType, CampaignAudience, CampaignPreview, EmailCampaign, EmailCampaignReport };
 
 // API methods
 export const api = {
   // Auth
   async login(username: string, password: string): Promise<User> {
-    const response = await request<{ user: User; token: string }>("/auth/login", {
+    const response = await request<{ user: User; token: string; refreshToken: string }>("/auth/login", {
       method: "POST",
       body: JSON.stringify({ username, password }),
     });
     setToken(response.token);
+    setRefreshToken(response.refreshToken);
     return response.user;
   },
 
@@ -145,11 +209,12 @@ export const api = {
     password: string,
     extra?: { communityId?: string; volunteerId?: string }
   ): Promise<User> {
-    const response = await request<{ user: User; token: string }>("/auth/signup", {
+    const response = await request<{ user: User; token: string; refreshToken: string }>("/auth/signup", {
       method: "POST",
       body: JSON.stringify({ role, username, password, ...extra }),
     });
     setToken(response.token);
+    setRefreshToken(response.refreshToken);
     return response.user;
   },
 
@@ -160,6 +225,35 @@ export const api = {
     return response.available;
   },
 
+  async forgotPassword(identifier: string): Promise<string> {
+    const response = await request<{ message: string }>("/auth/forgot-password", {
+      method: "POST",
+      body: JSON.stringify({ identifier }),
+    });
+    return response.message;
+  },
+
+  async resetPassword(token: string, password: string): Promise<string> {
+    const response = await request<{ message: string }>("/auth/reset-password", {
+      method: "POST",
+      body: JSON.stringify({ token, password }),
+    });
+    return response.message;
+  },
+
+  async verifyEmail(token: string): Promise<string> {
+    const response = await request<{ message: string }>("/auth/verify-email", {
+      method: "POST",
+      body: JSON.stringify({ token }),
+    });
+    return response.message;
+  },
+
+  async resendVerificationEmail(): Promise<string> {
+    const response = await request<{ message: string }>("/auth/resend-verification", { method: "POST" });
+    return response.message;
+  },
+
   // Participants
   async listParticipants(): Promise<Participant[]> {
     return request<Participant[]>("/participants");
@@ -266,6 +360,35 @@ export const api = {
     });
   },
 
+  async getMyAvailability(): Promise<VolunteerAvailability> {
+    return request<VolunteerAvailability>("/volunteers/me/availability");
+  },
+
+  async updateMyAvailability(input: VolunteerAvailability): Promise<VolunteerAvailability> {
+    return request<VolunteerAvailability>("/volunteers/me/availability", {
+      method: "PUT",
+      body: JSON.stringify(input),
+    });
+  },
+
+  async listVolunteerSuggestions(filters: { kind?: SuggestionKind; from?: string; to?: string } = {}): Promise<VolunteerSuggestion[]> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    const query = params.toString() ? `?${params.toString()}` : "";
+    return request<VolunteerSuggestion[]>(`/volunteers/suggestions${query}`);
+  },
+
+  async acceptVolunteerSuggestions(
+    suggestions: Array<Pick<VolunteerSuggestion, "kind" | "targetId" | "volunteerId">>
+  ): Promise<AcceptSuggestionsResult> {
+    return request<AcceptSuggestionsResult>("/volunteers/suggestions/accept", {
+      method: "POST",
+      body: JSON.stringify({ suggestions }),
+    });
+  },
+
   // Sports
   async listSports(): Promise<SportRecord[]> {
     return request<SportRecord[]>("/sports");
@@ -283,6 +406,16 @@ export const api = {
     return request<SportRecord>(`/sports/${id}`);
   },
 
+  async getSportStandings(id: string): Promise<SportStandings> {
+    return request<SportStandings>(`/sports/${id}/standings`);
+  },
+
+  async checkSportEligibility(id: string, dob: string, gender?: "male" | "female"): Promise<SportEligibility> {
+    const params = new URLSearchParams({ dob });
+    if (gender) params.set("gender", gender);
+    return request<SportEligibility>(`/sports/${id}/eligibility?${params.toString()}`);
+  },
+
   async createSport(input: Omit<SportRecord, "id">): Promise<SportRecord> {
     return request<SportRecord>("/sports", {
       method: "POST",
@@ -361,11 +494,116 @@ export const api = {
     return true;
   },
 
+  async revokeUserSessions(id: string): Promise<number> {
+    const response = await request<{ success: boolean; revoked: number }>(`/users/${id}/revoke-sessions`, {
+      method: "POST",
+    });
+    return response.revoked;
+  },
+
   // Departments
   async listDepartments(): Promise<DepartmentRecord[]> {
     return request<DepartmentRecord[]>("/departments");
   },
 
+  async createDepartment(input: DepartmentInput): Promise<DepartmentRecord> {
+    return request<DepartmentRecord>("/departments", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+  },
+
+  async updateDepartment(id: string, input: Partial<DepartmentInput>): Promise<DepartmentRecord> {
+    return request<DepartmentRecord>(`/departments/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(input),
+    });
+  },
+
+  async deleteDepartment(id: string): Promise<boolean> {
+    await request(`/departments/${id}`, { method: "DELETE" });
+    return true;
+  },
+
+  // Venues
+  async listVenues(): Promise<Venue[]> {
+    return request<Venue[]>("/venues");
+  },
+
+  async getVenue(id: string): Promise<VenueDetail> {
+    return request<VenueDetail>(`/venues/${id}`);
+  },
+
+  async createVenue(input: VenueInput): Promise<Venue> {
+    return request<Venue>("/venues", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+  },
+
+  async updateVenue(id: string, input: Partial<VenueInput>): Promise<Venue> {
+    return request<Venue>(`/venues/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(input),
+    });
+  },
+
+  async mergeVenues(id: string, venueIds: string[]): Promise<Venue> {
+    return request<Venue>(`/venues/${id}/merge`, {
+      method: "POST",
+      body: JSON.stringify({ venueIds }),
+    });
+  },
+
+  async deleteVenue(id: string): Promise<boolean> {
+    await request(`/venues/${id}`, { method: "DELETE" });
+    return true;
+  },
+
+  // Shifts
+  async listShifts(filters: { departmentId?: string; sportId?: string; from?: string; to?: string } = {}): Promise<Shift[]> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    const query = params.toString() ? `?${params.toString()}` : "";
+    return request<Shift[]>(`/shifts${query}`);
+  },
+
+  async getMyShifts(): Promise<Shift[]> {
+    return request<Shift[]>("/shifts/me");
+  },
+
+  async createShift(input: ShiftInput): Promise<Shift> {
+    return request<Shift>("/shifts", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+  },
+
+  async updateShift(id: string, input: Partial<Omit<ShiftInput, "volunteerIds">>): Promise<Shift> {
+    return request<Shift>(`/shifts/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(input),
+    });
+  },
+
+  async deleteShift(id: string): Promise<boolean> {
+    await request(`/shifts/${id}`, { method: "DELETE" });
+    return true;
+  },
+
+  async assignShiftVolunteers(id: string, volunteerIds: string[]): Promise<Shift> {
+    return request<Shift>(`/shifts/${id}/assignments`, {
+      method: "POST",
+      body: JSON.stringify({ volunteerIds }),
+    });
+  },
+
+  async unassignShiftVolunteer(id: string, volunteerId: string): Promise<Shift> {
+    return request<Shift>(`/shifts/${id}/assignments/${volunteerId}`, { method: "DELETE" });
+  },
+
   // Calendar
   async listCalendar(): Promise<CalendarItem[]> {
     return request<CalendarItem[]>("/calendar");
@@ -375,8 +613,149 @@ export const api = {
     return request<Array<{ sportId: string; time: string; date: string; venue: string }>>("/calendar/timing");
   },
 
-  async listDraws(): Promise<Array<{ sportId: string; url: string }>> {
-    return request<Array<{ sportId: string; url: string }>>("/calendar/draws");
+  async listDraws(sportId?: string): Promise<SportDraw[]> {
+    const query = sportId ? `?sportId=${sportId}` : "";
+    return request<SportDraw[]>(`/calendar/draws${query}`);
+  },
+
+  // Absolute URL of an iCal feed: "all", "sports/<id>", "communities/<id>" or "users/<token>"
+  calendarFeedUrl(feed: string): string {
+    return new URL(`${API_BASE_URL}/calendar/feeds/${feed}.ics`, window.location.origin).toString();
+  },
+
+  // Absolute URL of the server-sent event stream of leaderboard, result and calendar changes
+  liveEventsUrl(): string {
+    return new URL(`${API_BASE_URL}/events`, window.location.origin).toString();
+  },
+
+  async getMyCalendarFeed(): Promise<{ token: string }> {
+    return request<{ token: string }>("/calendar/feeds/me");
+  },
+
+  async resetMyCalendarFeed(): Promise<{ token: string }> {
+    return request<{ token: string }>("/calendar/feeds/me/reset", { method: "POST" });
+  },
+
+  // Check-in
+  async getMyCredential(): Promise<CheckInCredential> {
+    return request<CheckInCredential>("/check-in/credential");
+  },
+
+  async downloadBadge(): Promise<void> {
+    const url = `${API_BASE_URL}/check-in/credential/badge`;
+    const response = await fetchWithAuth(url);
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: "Failed to download badge" }));
+      throw new Error(error.error || "Failed to download badge");
+    }
+    const blob = await response.blob();
+    const downloadUrl = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = downloadUrl;
+    a.download = "badge.pdf";
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(downloadUrl);
+    document.body.removeChild(a);
+  },
+
+  async checkIn(token: string, calendarItemId: string): Promise<CheckInResult> {
+    return request<CheckInResult>("/check-in", {
+      method: "POST",
+      body: JSON.stringify({ token, calendarItemId }),
+    });
+  },
+
+  async listAttendance(calendarItemId: string): Promise<AttendanceRecord[]> {
+    return request<AttendanceRecord[]>(`/check-in/attendance?calendarItemId=${calendarItemId}`);
+  },
+
+  // Matches
+  async listMatches(sportId?: string): Promise<MatchRecord[]> {
+    const query = sportId ? `?sportId=${sportId}` : "";
+    return request<MatchRecord[]>(`/matches${query}`);
+  },
+
+  async generateDraw(input: {
+    sportId: string;
+    format: DrawFormat;
+    entrantType?: DrawEntrantType;
+    groupCount?: number;
+    shuffle?: boolean;
+    replace?: boolean;
+  }): Promise<MatchRecord[]> {
+    return request<MatchRecord[]>("/matches/generate", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+  },
+
+  async updateMatch(
+    id: string,
+    input: Partial<Pick<MatchRecord, "venue" | "scheduledAt" | "status" | "homeCommunityId" | "awayCommunityId" | "homeParticipantId" | "awayParticipantId" | "homeTeamId" | "awayTeamId">>
+  ): Promise<MatchRecord> {
+    return request<MatchRecord>(`/matches/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(input),
+    });
+  },
+
+  async recordMatchResult(id: string, input: MatchResultInput): Promise<MatchRecord> {
+    return request<MatchRecord>(`/matches/${id}/result`, {
+      method: "PUT",
+      body: JSON.stringify(input),
+    });
+  },
+
+  async clearMatchResult(id: string): Promise<MatchRecord> {
+    return request<MatchRecord>(`/matches/${id}/result`, { method: "DELETE" });
+  },
+
+  async deleteDraw(sportId: string): Promise<boolean> {
+    await request(`/matches/sport/${sportId}`, { method: "DELETE" });
+    return true;
+  },
+
+  // Teams
+  async listTeams(filters: { sportId?: string; communityId?: string } = {}): Promise<Team[]> {
+    const params = new URLSearchParams();
+    if (filters.sportId) params.set("sportId", filters.sportId);
+    if (filters.communityId) params.set("communityId", filters.communityId);
+    const query = params.toString() ? `?${params.toString()}` : "";
+    return request<Team[]>(`/teams${query}`);
+  },
+
+  async getTeam(id: string): Promise<Team> {
+    return request<Team>(`/teams/${id}`);
+  },
+
+  async createTeam(input: TeamInput): Promise<Team> {
+    return request<Team>("/teams", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+  },
+
+  async updateTeam(id: string, input: Partial<Omit<TeamInput, "communityId" | "sportId">>): Promise<Team> {
+    return request<Team>(`/teams/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(input),
+    });
+  },
+
+  async deleteTeam(id: string): Promise<boolean> {
+    await request(`/teams/${id}`, { method: "DELETE" });
+    return true;
+  },
+
+  // Audit log
+  async listAuditEvents(filters: AuditEventFilters = {}): Promise<{ events: AuditEvent[]; total: number }> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") params.set(key, String(value));
+    });
+    const query = params.toString() ? `?${params.toString()}` : "";
+    return request<{ events: AuditEvent[]; total: number }>(`/audit${query}`);
   },
 
   // Settings
@@ -399,24 +778,89 @@ export const api = {
     return true;
   },
 
-  async sendRegistrationConfirmation(to: string): Promise<boolean> {
-    await request("/email/registration-confirmation", {
+  async sendContactMessage(name: string, email: string, message: string): Promise<boolean> {
+    await request("/email/contact", {
       method: "POST",
-      body: JSON.stringify({ to }),
+      body: JSON.stringify({ name, email, message }),
     });
     return true;
   },
 
-  async sendContactMessage(name: string, email: string, message: string): Promise<boolean> {
-    await request("/email/contact", {
+  async listOutbox(filters: OutboxFilters = {}): Promise<OutboxPage> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined) params.set(key, String(value));
+    });
+    const query = params.toString() ? `?${params.toString()}` : "";
+    return request<OutboxPage>(`/email/outbox${query}`);
+  },
+
+  async resendEmail(id: string): Promise<OutboxEmail> {
+    return request<OutboxEmail>(`/email/outbox/${id}/resend`, {
       method: "POST",
-      body: JSON.stringify({ name, email, message }),
+    });
+  },
+
+  // Email templates
+  async listEmailTemplates(): Promise<EmailTemplate[]> {
+    return request<EmailTemplate[]>("/email-templates");
+  },
+
+  async updateEmailTemplate(key: string, content: EmailTemplateContent): Promise<EmailTemplate> {
+    return request<EmailTemplate>(`/email-templates/${key}`, {
+      method: "PUT",
+      body: JSON.stringify(content),
+    });
+  },
+
+  async resetEmailTemplate(key: string): Promise<EmailTemplate> {
+    return request<EmailTemplate>(`/email-templates/${key}`, {
+      method: "DELETE",
+    });
+  },
+
+  async previewEmailTemplate(key: string, draft: Partial<EmailTemplateContent> = {}): Promise<EmailTemplatePreview> {
+    return request<EmailTemplatePreview>(`/email-templates/${key}/preview`, {
+      method: "POST",
+      body: JSON.stringify(draft),
+    });
+  },
+
+  async sendTestEmail(key: string, to: string, draft: Partial<EmailTemplateContent> = {}): Promise<boolean> {
+    await request(`/email-templates/${key}/test`, {
+      method: "POST",
+      body: JSON.stringify({ ...draft, to }),
     });
     return true;
   },
 
-  async listOutbox(): Promise<Array<{ id: string; to: string; from: string; subject: string; body: string; createdAt: string }>> {
-    return request<Array<{ id: string; to: string; from: string; subject: string; body: string; createdAt: string }>>("/email/outbox");
+  // Bulk email campaigns
+  async previewCampaign(audience: CampaignAudience, message: { subject?: string; body?: string } = {}): Promise<CampaignPreview> {
+    return request<CampaignPreview>("/email-campaigns/preview", {
+      method: "POST",
+      body: JSON.stringify({ ...audience, ...message }),
+    });
+  },
+
+  async createCampaign(audience: CampaignAudience, message: { subject: string; body: string }): Promise<EmailCampaign> {
+    return request<EmailCampaign>("/email-campaigns", {
+      method: "POST",
+      body: JSON.stringify({ ...audience, ...message }),
+    });
+  },
+
+  async listCampaigns(): Promise<EmailCampaign[]> {
+    return request<EmailCampaign[]>("/email-campaigns");
+  },
+
+  async getCampaign(id: string): Promise<EmailCampaignReport> {
+    return request<EmailCampaignReport>(`/email-campaigns/${id}`);
+  },
+
+  async retryCampaign(id: string): Promise<{ requeued: number }> {
+    return request<{ requeued: number }>(`/email-campaigns/${id}/retry`, {
+      method: "POST",
+    });
   },
 
   // Community Contacts
@@ -448,14 +892,14 @@ export const api = {
     return request<CalendarItem>(`/calendar/${id}`);
   },
 
-  async createCalendarItem(input: Omit<CalendarItem, "id">): Promise<CalendarItem> {
+  async createCalendarItem(input: CalendarItemInput): Promise<CalendarItem> {
     return request<CalendarItem>("/calendar", {
       method: "POST",
       body: JSON.stringify(input),
     });
   },
 
-  async updateCalendarItem(id: string, input: Partial<Omit<CalendarItem, "id">>): Promise<CalendarItem> {
+  async updateCalendarItem(id: string, input: Partial<CalendarItemInput>): Promise<CalendarItem> {
     return request<CalendarItem>(`/calendar/${id}`, {
       method: "PATCH",
       body: JSON.stringify(input),
@@ -467,6 +911,17 @@ export const api = {
     return true;
   },
 
+  async checkCalendarSchedule(input: ScheduleCheckInput): Promise<ScheduleCheckResult> {
+    return request<ScheduleCheckResult>("/calendar/check", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+  },
+
+  async getCalendarClashes(): Promise<ScheduleCheckResult> {
+    return request<ScheduleCheckResult>("/calendar/clashes");
+  },
+
   // Convenors
   async listConvenors(): Promise<Convenor[]> {
     return request<Convenor[]>("/convenors");
@@ -559,9 +1014,10 @@ export const api = {
   async createLeaderboardEntry(input: {
     communityId: string;
     sportId: string;
-    score: number;
+    score?: number;
     position?: number | null;
     medalType?: "gold" | "silver" | "bronze" | "none";
+    teamId?: string | null;
     notes?: string | null;
   }): Promise<LeaderboardEntry> {
     return request<LeaderboardEntry>("/leaderboard", {
@@ -578,6 +1034,7 @@ export const api = {
       score: number;
       position: number | null;
       medalType: "gold" | "silver" | "bronze" | "none";
+      teamId: string | null;
       notes: string | null;
     }>
   ): Promise<LeaderboardEntry> {
@@ -592,35 +1049,32 @@ export const api = {
     return true;
   },
 
+  async recomputeLeaderboardScores(sportId?: string): Promise<{ updated: number; total: number }> {
+    return request<{ updated: number; total: number }>("/leaderboard/recompute", {
+      method: "POST",
+      body: JSON.stringify({ sportId }),
+    });
+  },
+
   // Export functions
-  async exportUsers(format: "csv" | "excel"): Promise<void> {
-    const token = getToken();
+  async exportUsers(format: ExportFormat): Promise<void> {
     const url = `${API_BASE_URL}/users/export/${format}`;
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    });
+    const response = await fetchWithAuth(url);
     if (!response.ok) throw new Error("Export failed");
     const blob = await response.blob();
     const downloadUrl = window.URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = downloadUrl;
-    a.download = `users.${format === "csv" ? "csv" : "xlsx"}`;
+    a.download = `users.${EXPORT_EXTENSIONS[format]}`;
     document.body.appendChild(a);
     a.click();
     window.URL.revokeObjectURL(downloadUrl);
     document.body.removeChild(a);
   },
 
-  async exportParticipants(format: "csv" | "excel"): Promise<void> {
-    const token = getToken();
+  async exportParticipants(format: ExportFormat): Promise<void> {
     const url = `${API_BASE_URL}/participants/export/${format}`;
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    });
+    const response = await fetchWithAuth(url);
     if (!response.ok) throw new Error("Export failed");
     const blob = await response.blob();
     const downloadUrl = window.URL.createObjectURL(blob);
@@ -628,8 +1082,8 @@ export const api = {
     a.href = downloadUrl;
     const contentDisposition = response.headers.get("content-disposition");
     const filename = contentDisposition
-      ? contentDisposition.split("filename=")[1]?.replace(/"/g, "") || `participants.${format === "csv" ? "csv" : "xlsx"}`
-      : `participants.${format === "csv" ? "csv" : "xlsx"}`;
+      ? contentDisposition.split("filename=")[1]?.replace(/"/g, "") || `participants.${EXPORT_EXTENSIONS[format]}`
+      : `participants.${EXPORT_EXTENSIONS[format]}`;
     a.download = filename;
     document.body.appendChild(a);
     a.click();
@@ -637,60 +1091,60 @@ export const api = {
     document.body.removeChild(a);
   },
 
-  async exportVolunteers(format: "csv" | "excel"): Promise<void> {
-    const token = getToken();
+  async exportVolunteers(format: ExportFormat): Promise<void> {
     const url = `${API_BASE_URL}/volunteers/export/${format}`;
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    });
+    const response = await fetchWithAuth(url);
     if (!response.ok) throw new Error("Export failed");
     const blob = await response.blob();
     const downloadUrl = window.URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = downloadUrl;
-    a.download = `volunteers.${format === "csv" ? "csv" : "xlsx"}`;
+    a.download = `volunteers.${EXPORT_EXTENSIONS[format]}`;
     document.body.appendChild(a);
     a.click();
     window.URL.revokeObjectURL(downloadUrl);
     document.body.removeChild(a);
   },
 
-  async exportSports(format: "csv" | "excel"): Promise<void> {
-    const token = getToken();
+  async exportSports(format: ExportFormat): Promise<void> {
     const url = `${API_BASE_URL}/sports/export/${format}`;
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    });
+    const response = await fetchWithAuth(url);
     if (!response.ok) throw new Error("Export failed");
     const blob = await response.blob();
     const downloadUrl = window.URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = downloadUrl;
-    a.download = `sports.${format === "csv" ? "csv" : "xlsx"}`;
+    a.download = `sports.${EXPORT_EXTENSIONS[format]}`;
     document.body.appendChild(a);
     a.click();
     window.URL.revokeObjectURL(downloadUrl);
     document.body.removeChild(a);
   },
 
-  async exportCommunities(format: "csv" | "excel"): Promise<void> {
-    const token = getToken();
+  async exportTeams(format: ExportFormat): Promise<void> {
+    const url = `${API_BASE_URL}/teams/export/${format}`;
+    const response = await fetchWithAuth(url);
+    if (!response.ok) throw new Error("Export failed");
+    const blob = await response.blob();
+    const downloadUrl = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = downloadUrl;
+    a.download = `teams.${EXPORT_EXTENSIONS[format]}`;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(downloadUrl);
+    document.body.removeChild(a);
+  },
+
+  async exportCommunities(format: ExportFormat): Promise<void> {
     const url = `${API_BASE_URL}/communities/export/${format}`;
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-      },
-    });
+    const response = await fetchWithAuth(url);
     if (!response.ok) throw new Error("Export failed");
     const blob = await response.blob();
     const downloadUrl = window.URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = downloadUrl;
-    a.download = `communities.${format === "csv" ? "csv" : "xlsx"}`;
+    a.download = `communities.${EXPORT_EXTENSIONS[format]}`;
     document.body.appendChild(a);
     a.click();
     window.URL.revokeObjectURL(downloadUrl);
@@ -698,38 +1152,59 @@ export const api = {
   },
 
   async bulkUploadParticipants(file: File): Promise<BulkUploadResult> {
-    const token = getToken();
-    const formData = new FormData();
-    formData.append("file", file);
+    return uploadSheet<BulkUploadResult>("/participants/bulk-upload", file);
+  },
 
-    const url = `${API_BASE_URL}/participants/bulk-upload`;
-    console.log(`[API] POST ${url} (bulk upload)`);
+  // Check a sheet without importing it; the preview's importId is used to import it
+  async validateBulkUpload(file: File): Promise<ParticipantImportPreview> {
+    return uploadSheet<ParticipantImportPreview>("/participants/bulk-upload/validate", file);
+  },
 
-    try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-        body: formData,
-      });
-
-      console.log(`[API] Response status: ${response.status} ${response.statusText}`);
-
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({ error: response.statusText }));
-        console.error(`[API] Error response:`, error);
-        const errorMessage = error.error || error.message || `HTTP ${response.status}`;
-        throw new Error(errorMessage);
-      }
+  async recheckBulkUpload(importId: string, rows: Array<Pick<ParticipantImportRow, "row" | "data">>): Promise<ParticipantImportPreview> {
+    return request<ParticipantImportPreview>(`/participants/bulk-upload/${importId}/validate`, {
+      method: "POST",
+      body: JSON.stringify({ rows }),
+    });
+  },
 
-      const data = await response.json();
-      console.log(`[API] Success:`, data);
-      return data;
-    } catch (error: any) {
-      console.error(`[API] Request failed:`, error);
-      throw error;
-    }
+  // Import the given rows of a checked upload, all or none
+  async commitBulkUpload(importId: string, rows: Array<Pick<ParticipantImportRow, "row" | "data">>): Promise<ParticipantImportResult> {
+    return request<ParticipantImportResult>(`/participants/bulk-upload/${importId}/commit`, {
+      method: "POST",
+      body: JSON.stringify({ rows }),
+    });
   },
 };
 
+// Send a spreadsheet as multipart form data
+async function uploadSheet<T>(endpoint: string, file: File): Promise<T> {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const url = `${API_BASE_URL}${endpoint}`;
+  console.log(`[API] POST ${url} (bulk upload)`);
+
+  try {
+    const response = await fetchWithAuth(url, {
+      method: "POST",
+      body: formData,
+    });
+
+    console.log(`[API] Response status: ${response.status} ${response.statusText}`);
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: response.statusText }));
+      console.error(`[API] Error response:`, error);
+      const errorMessage = error.error || error.message || `HTTP ${response.status}`;
+      throw new Error(errorMessage);
+    }
+
+    const data = await response.json();
+    console.log(`[API] Success:`, data);
+    return data;
+  } catch (error: any) {
+    console.error(`[API] Request failed:`, error);
+    throw error;
+  }
+}
+
@@ -5,13 +5,70 @@ export type {
   Participant,
   VolunteerEntry,
   SportRecord,
+  SportEligibility,
   CommunityRecord,
   DepartmentRecord,
+  DepartmentInput,
+  Venue,
+  VenueInput,
+  VenueDetail,
+  Shift,
+  ShiftAssignment,
+  ShiftInput,
+  AvailabilityWindow,
+  VolunteerAvailability,
+  SuggestionKind,
+  VolunteerSuggestion,
+  AcceptSuggestionsResult,
+  CheckInCredential,
+  CheckInHolder,
+  CheckInResult,
+  AttendanceRecord,
   CalendarItem,
+  CalendarItemInput,
+  ScheduleItem,
+  VenueConflict,
+  ParticipantClash,
+  ScheduleCheckInput,
+  ScheduleCheckResult,
   SettingsRecord,
   CommunityContact,
   Convenor,
   TournamentFormat,
+  PointsRules,
+  DrawEntrantType,
+  MatchRecord,
+  MatchResultType,
+  MatchResultInput,
+  SetScore,
+  TieBreaker,
+  StandingsRow,
+  GroupStandings,
+  SportStandings,
+  SportDraw,
+  Team,
+  TeamInput,
+  AuditAction,
+  AuditEvent,
+  AuditEventFilters,
+  EmailStatus,
+  OutboxEmail,
+  OutboxPage,
+  OutboxFilters,
+  EmailTemplate,
+  EmailTemplateContent,
+  EmailTemplatePreview,
+  CampaignAudienceType,
+  CampaignAudience,
+  CampaignPreview,
+  EmailCampaign,
+  EmailCampaignReport,
+  ParticipantImportField,
+  ParticipantImportData,
+  ParticipantImportRow,
+  ParticipantImportPreview,
+  ParticipantImportResult,
+  ExportFormat,
 } from "@/types";
 
 export type { CreateParticipantInput } from "./client";
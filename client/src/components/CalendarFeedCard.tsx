@@ -0,0 +1,126 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { toWebcal } from "@/lib/calendar";
+import { CalendarPlus, Copy, RefreshCw } from "lucide-react";
+
+interface CalendarFeedCardProps {
+  description?: string;
+}
+
+export function CalendarFeedCard({ description }: CalendarFeedCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: feed, isLoading } = useQuery({
+    queryKey: ["myCalendarFeed"],
+    queryFn: api.getMyCalendarFeed,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: api.resetMyCalendarFeed,
+    onSuccess: (data) => {
+      queryClient.setQueryData(["myCalendarFeed"], data);
+      toast({
+        title: "Success",
+        description: "Feed link replaced. Re-subscribe with the new link.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset calendar feed",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const feedUrl = feed ? api.calendarFeedUrl(`users/${feed.token}`) : "";
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({
+        title: "Success",
+        description: "Feed link copied",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Couldn't copy the link. Select it and copy it manually.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar Feed</CardTitle>
+        <CardDescription>
+          {description ||
+            "Subscribe from your phone or desktop calendar to keep your schedule up to date. Changes to fixtures appear automatically."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-10 w-full" />
+        ) : (
+          <div className="flex gap-2">
+            <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} aria-label="Calendar feed link" />
+            <Button variant="outline" onClick={handleCopy} disabled={!feedUrl} title="Copy link">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        <p className="text-sm text-muted-foreground">
+          Keep this link private: anyone who has it can see your schedule.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="hero" asChild disabled={!feedUrl}>
+            <a href={toWebcal(feedUrl)}>
+              <CalendarPlus className="mr-2 h-4 w-4" />
+              Subscribe
+            </a>
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" disabled={!feedUrl || resetMutation.isPending}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Reset Link
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Reset your feed link?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Calendars subscribed with the current link will stop updating. You&apos;ll need to subscribe again
+                  with the new link.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => resetMutation.mutate()}>Reset</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
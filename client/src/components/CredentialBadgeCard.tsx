@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/api";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { Download, QrCode } from "lucide-react";
+
+export function CredentialBadgeCard() {
+  const { toast } = useToast();
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const { data: credential, isLoading, error } = useQuery({
+    queryKey: ["myCredential"],
+    queryFn: api.getMyCredential,
+    retry: false,
+  });
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      await api.downloadBadge();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to download badge",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>My Badge</CardTitle>
+        <CardDescription>
+          Show this QR code at the venue to check in, or download the badge and print it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex flex-col items-center gap-3">
+            <Skeleton className="h-64 w-64" />
+            <Skeleton className="h-4 w-40" />
+          </div>
+        ) : credential ? (
+          <div className="flex flex-col items-center gap-3">
+            <img src={credential.qrCode} alt="Check-in QR code" className="h-64 w-64 rounded-md border" />
+            <div className="text-center">
+              <p className="text-lg font-semibold">{credential.name}</p>
+              <p className="text-sm text-muted-foreground capitalize">{credential.type}</p>
+              {credential.details.map((line) => (
+                <p key={line} className="text-sm text-muted-foreground">{line}</p>
+              ))}
+            </div>
+            <Button variant="hero" onClick={handleDownload} disabled={isDownloading}>
+              <Download className="mr-2 h-4 w-4" />
+              {isDownloading ? "Preparing..." : "Download PDF Badge"}
+            </Button>
+          </div>
+        ) : (
+          <div className="flex flex-col items-center gap-2 text-center text-muted-foreground">
+            <QrCode className="h-10 w-10" />
+            <p>{error instanceof Error ? error.message : "Your badge isn't available yet."}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
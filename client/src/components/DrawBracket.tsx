@@ -0,0 +1,159 @@
+import { MatchRecord } from "@/types";
+import { Badge } from "@/components/ui/badge";
+import { Clock, MapPin, Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { sideLabel } from "@/lib/draws";
+
+const bracketTitles: Record<MatchRecord["bracket"], string> = {
+  winners: "Winners Bracket",
+  losers: "Losers Bracket",
+  grand_final: "Grand Final",
+  group: "Group Stage",
+};
+
+const bracketOrder: MatchRecord["bracket"][] = ["winners", "losers", "grand_final", "group"];
+
+const resultLabels: Partial<Record<NonNullable<MatchRecord["resultType"]>, string>> = {
+  walkover: "walkover",
+  forfeit: "forfeit",
+  abandoned: "abandoned",
+};
+
+function SideRow({ match, side, matches }: { match: MatchRecord; side: "home" | "away"; matches: MatchRecord[] }) {
+  const score = side === "home" ? match.homeScore : match.awayScore;
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className={cn(match.winnerSlot === side ? "font-bold" : "font-medium")}>{sideLabel(match, side, matches)}</span>
+      {score !== null && score !== undefined && <span className="tabular-nums font-semibold">{score}</span>}
+    </div>
+  );
+}
+
+function MatchCard({
+  match,
+  matches,
+  onSelect,
+}: {
+  match: MatchRecord;
+  matches: MatchRecord[];
+  onSelect?: (match: MatchRecord) => void;
+}) {
+  const resultLabel = match.resultType ? resultLabels[match.resultType] : undefined;
+  return (
+    <div
+      className={cn(
+        "rounded-md border bg-card p-3 text-sm space-y-2",
+        onSelect && "cursor-pointer transition-colors hover:border-primary"
+      )}
+      onClick={onSelect ? () => onSelect(match) : undefined}
+    >
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>M{match.matchNumber}</span>
+        <div className="flex gap-1">
+          {resultLabel && <Badge variant="outline">{resultLabel}</Badge>}
+          {match.status !== "scheduled" && (
+            <Badge variant={match.status === "completed" ? "default" : "secondary"}>{match.status.replace("_", " ")}</Badge>
+          )}
+        </div>
+      </div>
+      <SideRow match={match} side="home" matches={matches} />
+      <div className="text-xs text-muted-foreground">vs</div>
+      <SideRow match={match} side="away" matches={matches} />
+      {match.sets && match.sets.length > 0 && (
+        <div className="text-xs text-muted-foreground tabular-nums">
+          {match.sets.map((set) => `${set.home}-${set.away}`).join(", ")}
+        </div>
+      )}
+      {match.mvp && (
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Star className="h-3 w-3" />
+          MVP: {match.mvp.firstName} {match.mvp.lastName}
+        </div>
+      )}
+      {(match.scheduledAt || match.venue) && (
+        <div className="space-y-1 pt-1 text-xs text-muted-foreground">
+          {match.scheduledAt && (
+            <div className="flex items-center gap-1">
+              <Clock className="h-3 w-3" />
+              {new Date(match.scheduledAt).toLocaleString()}
+            </div>
+          )}
+          {match.venue && (
+            <div className="flex items-center gap-1">
+              <MapPin className="h-3 w-3" />
+              {match.venue}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RoundColumns({
+  matches,
+  allMatches,
+  onMatchSelect,
+}: {
+  matches: MatchRecord[];
+  allMatches: MatchRecord[];
+  onMatchSelect?: (match: MatchRecord) => void;
+}) {
+  const rounds = Array.from(new Set(matches.map((m) => m.round))).sort((a, b) => a - b);
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {rounds.map((round) => (
+        <div key={round} className="min-w-[200px] space-y-3">
+          <h4 className="text-sm font-semibold text-muted-foreground">Round {round}</h4>
+          {matches
+            .filter((m) => m.round === round)
+            .map((match) => (
+              <MatchCard key={match.id} match={match} matches={allMatches} onSelect={onMatchSelect} />
+            ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function DrawBracket({
+  matches,
+  onMatchSelect,
+}: {
+  matches: MatchRecord[];
+  onMatchSelect?: (match: MatchRecord) => void; // Makes match cards clickable, e.g. to enter results
+}) {
+  if (matches.length === 0) {
+    return <p className="text-sm text-muted-foreground">No draw has been generated yet.</p>;
+  }
+
+  const brackets = bracketOrder.filter((bracket) => matches.some((m) => m.bracket === bracket));
+
+  return (
+    <div className="space-y-6">
+      {brackets.map((bracket) => {
+        const bracketMatches = matches.filter((m) => m.bracket === bracket);
+        if (bracket !== "group") {
+          return (
+            <div key={bracket} className="space-y-3">
+              {brackets.length > 1 && <h3 className="font-semibold">{bracketTitles[bracket]}</h3>}
+              <RoundColumns matches={bracketMatches} allMatches={matches} onMatchSelect={onMatchSelect} />
+            </div>
+          );
+        }
+
+        const groups = Array.from(new Set(bracketMatches.map((m) => m.group ?? "")));
+        return groups.map((group) => (
+          <div key={`group-${group}`} className="space-y-3">
+            <h3 className="font-semibold">{group || bracketTitles.group}</h3>
+            <RoundColumns
+              matches={bracketMatches.filter((m) => (m.group ?? "") === group)}
+              allMatches={matches}
+              onMatchSelect={onMatchSelect}
+            />
+          </div>
+        ));
+      })}
+    </div>
+  );
+}
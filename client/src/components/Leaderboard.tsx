@@ -30,7 +30,9 @@ import {
   PaginationPrevious,
 } from "@/components/ui/pagination";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { SportSelect } from "@/components/ui/sport-select";
+import { StandingsTable } from "@/components/StandingsTable";
 import {
   Popover,
   PopoverContent,
@@ -108,6 +110,7 @@ export function Leaderboard() {
         <TabsList>
           <TabsTrigger value="overall">Overall Leaderboard</TabsTrigger>
           <TabsTrigger value="per-sport">Per-Sport Leaderboard</TabsTrigger>
+          <TabsTrigger value="standings">Group Standings</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overall" className="space-y-4">
@@ -195,11 +198,64 @@ export function Leaderboard() {
         <TabsContent value="per-sport" className="space-y-4">
           <PerSportLeaderboard sports={sports} isAdmin={isAdmin} />
         </TabsContent>
+
+        <TabsContent value="standings" className="space-y-4">
+          <GroupStandings />
+        </TabsContent>
       </Tabs>
     </div>
   );
 }
 
+// Points tables for the sports whose draws have a group stage
+function GroupStandings() {
+  const [sportId, setSportId] = useState("");
+
+  const { data: draws = [], isLoading } = useQuery({
+    queryKey: ["draws"],
+    queryFn: () => api.listDraws(),
+  });
+
+  const groupDraws = draws.filter((draw) => draw.matches.some((match) => match.bracket === "group"));
+  const selectedSportId = sportId || groupDraws[0]?.sportId || "";
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <CardTitle>Group Standings</CardTitle>
+          {groupDraws.length > 0 && (
+            <Select value={selectedSportId} onValueChange={setSportId}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Select sport..." />
+              </SelectTrigger>
+              <SelectContent>
+                {groupDraws.map((draw) => (
+                  <SelectItem key={draw.sportId} value={draw.sportId}>
+                    {draw.sportName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : groupDraws.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No sports are being played in groups yet.</p>
+        ) : (
+          <StandingsTable sportId={selectedSportId} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function PerSportLeaderboard({ sports, isAdmin }: { sports: SportRecord[]; isAdmin: boolean }) {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingSportId, setEditingSportId] = useState<string | null>(null);
@@ -296,6 +352,11 @@ function PerSportLeaderboard({ sports, isAdmin }: { sports: SportRecord[]; isAdm
   );
 }
 
+// Community name, with the team that earned the place for team sports
+function placeLabel(entry: SportLeaderboardEntry) {
+  return entry.teamName ? `${entry.communityName} (${entry.teamName})` : entry.communityName;
+}
+
 function SportLeaderboardRow({
   sportId,
   sportName,
@@ -346,21 +407,21 @@ function SportLeaderboardRow({
       <TableCell className="font-medium">{sportName}</TableCell>
       <TableCell className="text-center">
         {firstPlace ? (
-          <span className="font-semibold">{firstPlace.communityName}</span>
+          <span className="font-semibold">{placeLabel(firstPlace)}</span>
         ) : (
           <span className="text-muted-foreground">-</span>
         )}
       </TableCell>
       <TableCell className="text-center">
         {secondPlace ? (
-          <span className="font-semibold">{secondPlace.communityName}</span>
+          <span className="font-semibold">{placeLabel(secondPlace)}</span>
         ) : (
           <span className="text-muted-foreground">-</span>
         )}
       </TableCell>
       <TableCell className="text-center">
         {thirdPlace ? (
-          <span className="font-semibold">{thirdPlace.communityName}</span>
+          <span className="font-semibold">{placeLabel(thirdPlace)}</span>
         ) : (
           <span className="text-muted-foreground">-</span>
         )}
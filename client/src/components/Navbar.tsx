@@ -120,6 +120,11 @@ function getDashboardRoute(role: string): string | null {
   }
 }
 
+// Staff who scan QR badges at venues
+function canCheckIn(role: string): boolean {
+  return ["admin", "sports_admin", "volunteer_admin", "volunteer"].includes(role);
+}
+
 function DesktopActions() {
   const auth = useAuth();
   const user = auth?.user || null;
@@ -135,6 +140,11 @@ function DesktopActions() {
               <Link to={dashboardRoute}>Dashboard</Link>
             </Button>
           )}
+          {canCheckIn(user.role) && (
+            <Button variant="ghost" asChild>
+              <Link to="/check-in">Check-in</Link>
+            </Button>
+          )}
           <Button variant="outline" onClick={() => logout()}>Logout</Button>
         </>
       ) : (
@@ -166,6 +176,11 @@ function MobileActions({ onClick }: { onClick: () => void }) {
               <Link to={dashboardRoute} onClick={onClick}>Dashboard</Link>
             </Button>
           )}
+          {canCheckIn(user.role) && (
+            <Button variant="ghost" asChild>
+              <Link to="/check-in" onClick={onClick}>Check-in</Link>
+            </Button>
+          )}
           <Button variant="outline" onClick={() => { logout(); onClick() }}>Logout</Button>
         </>
       ) : (
@@ -0,0 +1,100 @@
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/api";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { tieBreakerLabels } from "@/lib/draws";
+import { StandingsRow } from "@/types";
+
+// Display name for a standings row: the participant, team or community it belongs to
+function rowLabel(row: StandingsRow) {
+  if (row.participant) return `${row.participant.firstName} ${row.participant.lastName}`;
+  if (row.team) return row.community ? `${row.team.name} (${row.community.name})` : row.team.name;
+  return row.community?.name ?? "Unknown";
+}
+
+export function StandingsTable({ sportId }: { sportId: string }) {
+  const { data: standings, isLoading } = useQuery({
+    queryKey: ["standings", sportId],
+    queryFn: () => api.getSportStandings(sportId),
+    enabled: !!sportId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+    );
+  }
+
+  if (!standings || standings.groups.length === 0) {
+    return <p className="text-sm text-muted-foreground">No group games have been drawn for this sport.</p>;
+  }
+
+  const showFairPlay = standings.tieBreakers.includes("fair_play");
+
+  return (
+    <div className="space-y-6">
+      {standings.groups.map((group) => (
+        <div key={group.group ?? "group"} className="space-y-2">
+          <div className="flex items-center gap-2">
+            <h3 className="font-semibold">{group.group ?? "Group Stage"}</h3>
+            {group.complete && <Badge variant="secondary">Final</Badge>}
+          </div>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>Entrant</TableHead>
+                  <TableHead className="text-right" title="Played">P</TableHead>
+                  <TableHead className="text-right" title="Won">W</TableHead>
+                  <TableHead className="text-right" title="Drawn">D</TableHead>
+                  <TableHead className="text-right" title="Lost">L</TableHead>
+                  <TableHead className="text-right" title="Scored">F</TableHead>
+                  <TableHead className="text-right" title="Conceded">A</TableHead>
+                  <TableHead className="text-right" title="Difference">+/-</TableHead>
+                  {showFairPlay && (
+                    <TableHead className="text-right" title="Disciplinary points">FP</TableHead>
+                  )}
+                  <TableHead className="text-right">Pts</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {group.rows.map((row, index) => (
+                  <TableRow key={`${row.community?.id}-${row.team?.id}-${row.participant?.id}`}>
+                    <TableCell className="font-semibold">
+                      {index > 0 && group.rows[index - 1].position === row.position ? "=" : row.position}
+                    </TableCell>
+                    <TableCell className="font-medium">{rowLabel(row)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{row.played}</TableCell>
+                    <TableCell className="text-right tabular-nums">{row.won}</TableCell>
+                    <TableCell className="text-right tabular-nums">{row.drawn}</TableCell>
+                    <TableCell className="text-right tabular-nums">{row.lost}</TableCell>
+                    <TableCell className="text-right tabular-nums">{row.scoreFor}</TableCell>
+                    <TableCell className="text-right tabular-nums">{row.scoreAgainst}</TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {row.difference > 0 ? `+${row.difference}` : row.difference}
+                    </TableCell>
+                    {showFairPlay && <TableCell className="text-right tabular-nums">{row.fairPlay}</TableCell>}
+                    <TableCell className="text-right font-semibold tabular-nums">{row.points}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        3 points for a win, 1 for a draw.
+        {standings.tieBreakers.length > 0 &&
+          ` Entrants level on points are separated by ${standings.tieBreakers
+            .map((tieBreaker) => tieBreakerLabels[tieBreaker].toLowerCase())
+            .join(", then ")}.`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api } from "@/api";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2 } from "lucide-react";
+
+// Windows are edited as <input type="datetime-local"> values, which are local time without a zone
+interface WindowDraft {
+  startTime: string;
+  endTime: string;
+}
+
+const toLocalInput = (value: string) => format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
+export function VolunteerAvailabilityCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [windows, setWindows] = useState<WindowDraft[]>([]);
+  const [preferredDepartmentIds, setPreferredDepartmentIds] = useState<string[]>([]);
+  const [preferredSportIds, setPreferredSportIds] = useState<string[]>([]);
+
+  const { data: availability, isLoading } = useQuery({
+    queryKey: ["myAvailability"],
+    queryFn: api.getMyAvailability,
+  });
+
+  const { data: departments = [] } = useQuery({
+    queryKey: ["departments"],
+    queryFn: api.listDepartments,
+  });
+
+  const { data: sports = [] } = useQuery({
+    queryKey: ["sports"],
+    queryFn: api.listSports,
+  });
+
+  useEffect(() => {
+    if (!availability) return;
+    setWindows(
+      availability.windows.map((window) => ({
+        startTime: toLocalInput(window.startTime),
+        endTime: toLocalInput(window.endTime),
+      }))
+    );
+    setPreferredDepartmentIds(availability.preferredDepartmentIds);
+    setPreferredSportIds(availability.preferredSportIds);
+  }, [availability]);
+
+  const saveMutation = useMutation({
+    mutationFn: api.updateMyAvailability,
+    onSuccess: (data) => {
+      queryClient.setQueryData(["myAvailability"], data);
+      toast({
+        title: "Success",
+        description: "Availability saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save availability",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateWindow = (index: number, field: keyof WindowDraft, value: string) => {
+    setWindows((current) => current.map((window, i) => (i === index ? { ...window, [field]: value } : window)));
+  };
+
+  const toggle = (setter: React.Dispatch<React.SetStateAction<string[]>>, id: string, checked: boolean) => {
+    setter((current) => (checked ? [...current, id] : current.filter((existing) => existing !== id)));
+  };
+
+  const handleSave = () => {
+    const incomplete = windows.some((window) => !window.startTime || !window.endTime);
+    const backwards = windows.some((window) => new Date(window.endTime) <= new Date(window.startTime));
+    if (incomplete || backwards) {
+      toast({
+        title: "Error",
+        description: incomplete ? "Fill in a start and end for every window" : "Each window must end after it starts",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({
+      windows: windows.map((window) => ({
+        startTime: new Date(window.startTime).toISOString(),
+        endTime: new Date(window.endTime).toISOString(),
+      })),
+      preferredDepartmentIds,
+      preferredSportIds,
+    });
+  };
+
+  const parentSports = sports.filter((sport) => !sport.parentId && sport.active);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Availability &amp; Preferences</CardTitle>
+        <CardDescription>
+          Tell the volunteer admin when you can work and where you&apos;d like to help. You&apos;ll only be
+          suggested for shifts that fall inside one of your windows.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="text-center text-muted-foreground">Loading availability...</div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>When I&apos;m available</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setWindows((current) => [...current, { startTime: "", endTime: "" }])}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Window
+                </Button>
+              </div>
+              {windows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No availability added yet.</p>
+              ) : (
+                windows.map((window, index) => (
+                  <div key={index} className="flex flex-col md:flex-row md:items-center gap-2">
+                    <Input
+                      type="datetime-local"
+                      aria-label="From"
+                      value={window.startTime}
+                      onChange={(e) => updateWindow(index, "startTime", e.target.value)}
+                    />
+                    <span className="text-sm text-muted-foreground">to</span>
+                    <Input
+                      type="datetime-local"
+                      aria-label="Until"
+                      value={window.endTime}
+                      onChange={(e) => updateWindow(index, "endTime", e.target.value)}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      title="Remove window"
+                      onClick={() => setWindows((current) => current.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label>Preferred departments</Label>
+                {departments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No departments set up yet.</p>
+                ) : (
+                  <div className="rounded-md border p-3 space-y-2 max-h-60 overflow-y-auto">
+                    {departments.map((department) => (
+                      <label key={department.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={preferredDepartmentIds.includes(department.id)}
+                          onCheckedChange={(checked) =>
+                            toggle(setPreferredDepartmentIds, department.id, checked === true)
+                          }
+                        />
+                        {department.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Preferred sports</Label>
+                <div className="rounded-md border p-3 space-y-2 max-h-60 overflow-y-auto">
+                  {parentSports.map((sport) => (
+                    <label key={sport.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={preferredSportIds.includes(sport.id)}
+                        onCheckedChange={(checked) => toggle(setPreferredSportIds, sport.id, checked === true)}
+                      />
+                      {sport.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button variant="hero" onClick={handleSave} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save Availability"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
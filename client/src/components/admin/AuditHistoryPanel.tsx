@@ -0,0 +1,319 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/api";
+import { AuditAction, AuditEvent, AuditEventFilters } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronDown, ChevronRight } from "lucide-react";
+
+const PAGE_SIZE = 25;
+const ALL = "all";
+
+const entityTypes = [
+  { value: "participant", label: "Participant" },
+  { value: "sport", label: "Sport" },
+  { value: "community", label: "Community" },
+  { value: "user", label: "User" },
+  { value: "settings", label: "Settings" },
+  { value: "leaderboardEntry", label: "Leaderboard entry" },
+  { value: "team", label: "Team" },
+  { value: "match", label: "Match" },
+  { value: "draw", label: "Draw" },
+  { value: "tournamentFormat", label: "Tournament format" },
+  { value: "department", label: "Department" },
+  { value: "shift", label: "Shift" },
+  { value: "venue", label: "Venue" },
+  { value: "convenor", label: "Convenor" },
+  { value: "communityContact", label: "Community contact" },
+  { value: "image", label: "Uploaded image" },
+  { value: "calendarItem", label: "Calendar item" },
+  { value: "volunteer", label: "Volunteer" },
+  { value: "emailTemplate", label: "Email template" },
+  { value: "emailCampaign", label: "Email campaign" },
+];
+
+const actionStyles: Record<AuditAction, string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "-";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function AuditHistoryPanel() {
+  const [entityType, setEntityType] = useState(ALL);
+  const [entityId, setEntityId] = useState("");
+  const [actorId, setActorId] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const filters: AuditEventFilters = {
+    entityType: entityType === ALL ? undefined : entityType,
+    entityId: entityId.trim() || undefined,
+    actorId: actorId === ALL ? undefined : actorId,
+    action: action === ALL ? undefined : (action as AuditAction),
+    // Date inputs are whole days, so the range runs to the end of the "to" day
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+    limit: PAGE_SIZE,
+    offset: page * PAGE_SIZE,
+  };
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["audit-events", filters],
+    queryFn: () => api.listAuditEvents(filters),
+  });
+
+  const { data: users = [] } = useQuery({
+    queryKey: ["users"],
+    queryFn: api.listUsers,
+  });
+
+  const events = data?.events ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const resetFilters = () => {
+    setEntityType(ALL);
+    setEntityId("");
+    setActorId(ALL);
+    setAction(ALL);
+    setFrom("");
+    setTo("");
+    setPage(0);
+  };
+
+  const entityLabel = (event: AuditEvent) =>
+    entityTypes.find((type) => type.value === event.entityType)?.label || event.entityType;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Audit History</h2>
+        <Button variant="outline" onClick={resetFilters}>
+          Clear Filters
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Entity Type</Label>
+          <Select value={entityType} onValueChange={updateFilter(setEntityType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All entities</SelectItem>
+              {entityTypes.map((type) => (
+                <SelectItem key={type.value} value={type.value}>
+                  {type.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="audit-entity-id">Entity ID</Label>
+          <Input
+            id="audit-entity-id"
+            value={entityId}
+            onChange={(e) => updateFilter(setEntityId)(e.target.value)}
+            placeholder="Any"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Changed By</Label>
+          <Select value={actorId} onValueChange={updateFilter(setActorId)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Anyone</SelectItem>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Action</Label>
+          <Select value={action} onValueChange={updateFilter(setAction)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All actions</SelectItem>
+              <SelectItem value="create">Create</SelectItem>
+              <SelectItem value="update">Update</SelectItem>
+              <SelectItem value="delete">Delete</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="audit-from">From</Label>
+          <Input
+            id="audit-from"
+            type="date"
+            value={from}
+            onChange={(e) => updateFilter(setFrom)(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="audit-to">To</Label>
+          <Input
+            id="audit-to"
+            type="date"
+            value={to}
+            onChange={(e) => updateFilter(setTo)(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>When</TableHead>
+              <TableHead>Changed By</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Entity</TableHead>
+              <TableHead>Fields</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell />
+                  <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                  <TableCell><Skeleton className="h-4 w-24" /></TableCell>
+                  <TableCell><Skeleton className="h-4 w-16" /></TableCell>
+                  <TableCell><Skeleton className="h-4 w-40" /></TableCell>
+                  <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                </TableRow>
+              ))
+            ) : events.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No audit events match these filters.
+                </TableCell>
+              </TableRow>
+            ) : (
+              events.map((event) => {
+                const fields = Object.keys(event.changes);
+                const isExpanded = expanded === event.id;
+                return (
+                  <React.Fragment key={event.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpanded(isExpanded ? null : event.id)}
+                    >
+                      <TableCell>
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(event.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        {event.actorUsername || "System"}
+                        {event.actorRole && (
+                          <span className="ml-2 text-xs text-muted-foreground">{event.actorRole}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-1 rounded text-xs ${actionStyles[event.action]}`}>
+                          {event.action}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{entityLabel(event)}</div>
+                        <div className="text-xs text-muted-foreground font-mono">{event.entityId}</div>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {fields.length > 3 ? `${fields.slice(0, 3).join(", ")} +${fields.length - 3} more` : fields.join(", ") || "-"}
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={5}>
+                          <div className="grid grid-cols-[minmax(8rem,auto)_1fr_1fr] gap-x-4 gap-y-1 text-sm">
+                            <div className="font-medium">Field</div>
+                            <div className="font-medium">Before</div>
+                            <div className="font-medium">After</div>
+                            {fields.map((field) => (
+                              <React.Fragment key={field}>
+                                <div className="font-mono">{field}</div>
+                                <div className="break-all text-muted-foreground">{formatValue(event.changes[field].before)}</div>
+                                <div className="break-all">{formatValue(event.changes[field].after)}</div>
+                              </React.Fragment>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </React.Fragment>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {total} event{total === 1 ? "" : "s"}
+        </p>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <span className="text-sm">
+            Page {page + 1} of {pageCount}
+          </span>
+          <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
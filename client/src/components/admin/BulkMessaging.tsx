@@ -0,0 +1,548 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import type { CampaignAudience, CampaignAudienceType, CampaignPreview, EmailStatus, Role } from "@/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/api/useAuth";
+import { Eye, RotateCcw, Send, Users } from "lucide-react";
+
+const ALL = "all";
+
+const audienceLabels: Record<CampaignAudienceType, string> = {
+  participants: "Participants",
+  volunteers: "Volunteers",
+  community_contacts: "Community contacts",
+  users: "User accounts",
+};
+
+const participantStatusLabels = {
+  pending: "Pending",
+  accepted: "Accepted",
+  rejected: "Rejected",
+};
+
+const roleLabels: Record<Exclude<Role, null>, string> = {
+  admin: "Admin",
+  community_admin: "Community Admin",
+  sports_admin: "Sports Admin",
+  volunteer_admin: "Volunteer Admin",
+  volunteer: "Volunteer",
+  user: "User",
+};
+
+const statusStyles: Record<EmailStatus, string> = {
+  queued: "bg-yellow-100 text-yellow-800",
+  sending: "bg-blue-100 text-blue-800",
+  sent: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const placeholders = ["name", "firstName", "community", "sports", "siteTitle"];
+
+interface FilterSelectProps {
+  label: string;
+  value: string;
+  allLabel: string;
+  options: Array<{ value: string; label: string }>;
+  onChange: (value: string) => void;
+}
+
+function FilterSelect({ label, value, allLabel, options, onChange }: FilterSelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>{allLabel}</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+export function BulkMessaging() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const role = user?.role;
+  const isAdmin = role === "admin";
+
+  const [filters, setFilters] = useState({
+    audience: "participants" as CampaignAudienceType,
+    communityId: ALL,
+    sportId: ALL,
+    status: "accepted",
+    departmentId: ALL,
+    role: ALL,
+  });
+  const [message, setMessage] = useState({ subject: "", body: "" });
+  const [sample, setSample] = useState<CampaignPreview | null>(null);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [reportId, setReportId] = useState<string | null>(null);
+
+  // Community and sports admins are limited to their own participants by the server
+  const audience: CampaignAudience = { audience: filters.audience };
+  if (filters.communityId !== ALL) audience.communityId = filters.communityId;
+  if (filters.sportId !== ALL) audience.sportId = filters.sportId;
+  if (filters.status !== ALL) audience.status = filters.status as CampaignAudience["status"];
+  if (filters.departmentId !== ALL) audience.departmentId = filters.departmentId;
+  if (filters.role !== ALL) audience.role = filters.role as CampaignAudience["role"];
+
+  const { data: communities = [] } = useQuery({
+    queryKey: ["communities"],
+    queryFn: api.listCommunities,
+    enabled: isAdmin || role === "sports_admin",
+  });
+
+  const { data: sports = [] } = useQuery({
+    queryKey: ["sports"],
+    queryFn: api.listSports,
+    enabled: isAdmin || role === "community_admin",
+  });
+
+  const { data: departments = [] } = useQuery({
+    queryKey: ["departments"],
+    queryFn: api.listDepartments,
+    enabled: isAdmin,
+  });
+
+  const { data: preview, isFetching: isCounting } = useQuery({
+    queryKey: ["campaign-preview", audience],
+    queryFn: () => api.previewCampaign(audience),
+    enabled: !!role,
+  });
+
+  const { data: campaigns = [], isLoading: isLoadingCampaigns } = useQuery({
+    queryKey: ["email-campaigns"],
+    queryFn: api.listCampaigns,
+    // Delivery totals change as the outbox works through a campaign
+    refetchInterval: 15000,
+  });
+
+  const { data: report } = useQuery({
+    queryKey: ["email-campaign", reportId],
+    queryFn: () => api.getCampaign(reportId!),
+    enabled: !!reportId,
+    refetchInterval: 15000,
+  });
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const sampleMutation = useMutation({
+    mutationFn: () => api.previewCampaign(audience, message),
+    onSuccess: setSample,
+    onError: onError("Failed to preview message"),
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: () => api.createCampaign(audience, message),
+    onSuccess: (campaign) => {
+      queryClient.invalidateQueries({ queryKey: ["email-campaigns"] });
+      setMessage({ subject: "", body: "" });
+      setSample(null);
+      toast({
+        title: "Success",
+        description: `Message queued for ${campaign.recipientCount} recipient${campaign.recipientCount === 1 ? "" : "s"}`,
+      });
+    },
+    onError: onError("Failed to send message"),
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: api.retryCampaign,
+    onSuccess: ({ requeued }) => {
+      queryClient.invalidateQueries({ queryKey: ["email-campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["email-campaign", reportId] });
+      toast({
+        title: "Success",
+        description: `${requeued} message${requeued === 1 ? "" : "s"} queued again`,
+      });
+    },
+    onError: onError("Failed to retry messages"),
+  });
+
+  const updateFilter = (key: keyof typeof filters) => (value: string) => {
+    setFilters({ ...filters, [key]: value });
+    setSample(null);
+  };
+
+  const changeAudience = (value: string) => {
+    setFilters({
+      audience: value as CampaignAudienceType,
+      communityId: ALL,
+      sportId: ALL,
+      status: value === "participants" ? "accepted" : ALL,
+      departmentId: ALL,
+      role: ALL,
+    });
+    setSample(null);
+  };
+
+  const communityOptions = communities.map((community) => ({ value: community.id, label: community.name }));
+  const sportOptions = sports.map((sport) => ({ value: sport.id, label: sport.name }));
+  const count = preview?.count ?? 0;
+  const canSend = !!message.subject.trim() && !!message.body.trim() && count > 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Bulk Email</CardTitle>
+          <CardDescription>
+            {isAdmin
+              ? "Choose who to email, then write one message. Each recipient gets their own copy with the placeholders filled in."
+              : role === "community_admin"
+                ? "Email participants in your community. Each recipient gets their own copy with the placeholders filled in."
+                : "Email the entrants in your sport. Each recipient gets their own copy with the placeholders filled in."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {isAdmin && (
+              <div className="space-y-2">
+                <Label>Recipients</Label>
+                <Select value={filters.audience} onValueChange={changeAudience}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(audienceLabels) as CampaignAudienceType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {audienceLabels[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {filters.audience === "participants" && (
+              <>
+                {role !== "community_admin" && (
+                  <FilterSelect
+                    label="Community"
+                    value={filters.communityId}
+                    allLabel="All communities"
+                    options={communityOptions}
+                    onChange={updateFilter("communityId")}
+                  />
+                )}
+                {role !== "sports_admin" && (
+                  <FilterSelect
+                    label="Sport"
+                    value={filters.sportId}
+                    allLabel="All sports"
+                    options={sportOptions}
+                    onChange={updateFilter("sportId")}
+                  />
+                )}
+                <FilterSelect
+                  label="Participant Status"
+                  value={filters.status}
+                  allLabel="Any status"
+                  options={Object.entries(participantStatusLabels).map(([value, label]) => ({ value, label }))}
+                  onChange={updateFilter("status")}
+                />
+              </>
+            )}
+
+            {filters.audience === "volunteers" && (
+              <>
+                <FilterSelect
+                  label="Department"
+                  value={filters.departmentId}
+                  allLabel="All departments"
+                  options={departments.map((department) => ({ value: department.id, label: department.name }))}
+                  onChange={updateFilter("departmentId")}
+                />
+                <FilterSelect
+                  label="Sport"
+                  value={filters.sportId}
+                  allLabel="All sports"
+                  options={sportOptions}
+                  onChange={updateFilter("sportId")}
+                />
+              </>
+            )}
+
+            {filters.audience === "community_contacts" && (
+              <FilterSelect
+                label="Community"
+                value={filters.communityId}
+                allLabel="All communities"
+                options={communityOptions}
+                onChange={updateFilter("communityId")}
+              />
+            )}
+
+            {filters.audience === "users" && (
+              <>
+                <FilterSelect
+                  label="Role"
+                  value={filters.role}
+                  allLabel="All roles"
+                  options={Object.entries(roleLabels).map(([value, label]) => ({ value, label }))}
+                  onChange={updateFilter("role")}
+                />
+                <FilterSelect
+                  label="Community"
+                  value={filters.communityId}
+                  allLabel="All communities"
+                  options={communityOptions}
+                  onChange={updateFilter("communityId")}
+                />
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2 rounded-md border p-3 text-sm">
+            <Users className="h-4 w-4 text-muted-foreground" />
+            {isCounting && !preview ? (
+              <Skeleton className="h-4 w-32" />
+            ) : (
+              <span>
+                <span className="font-semibold">{count}</span> recipient{count === 1 ? "" : "s"}
+                {preview && preview.recipients.length > 0 && (
+                  <span className="text-muted-foreground">
+                    {" "}
+                    including {preview.recipients.slice(0, 3).map((recipient) => recipient.name).join(", ")}
+                    {count > 3 ? " and others" : ""}
+                  </span>
+                )}
+              </span>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="campaignSubject">Subject</Label>
+            <Input
+              id="campaignSubject"
+              value={message.subject}
+              onChange={(e) => setMessage({ ...message, subject: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="campaignBody">Message</Label>
+            <Textarea
+              id="campaignBody"
+              value={message.body}
+              onChange={(e) => setMessage({ ...message, body: e.target.value })}
+              rows={10}
+              placeholder={"Dear {{firstName}},\n\n..."}
+            />
+            <div className="flex flex-wrap gap-2">
+              {placeholders.map((name) => (
+                <Button
+                  key={name}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setMessage({ ...message, body: `${message.body}{{${name}}}` })}
+                >
+                  {`{{${name}}}`}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => sampleMutation.mutate()}
+              disabled={!message.subject.trim() || !message.body.trim() || sampleMutation.isPending}
+            >
+              <Eye className="mr-2 h-4 w-4" />
+              Preview
+            </Button>
+            <Button onClick={() => setConfirmOpen(true)} disabled={!canSend || sendMutation.isPending}>
+              <Send className="mr-2 h-4 w-4" />
+              Send to {count} recipient{count === 1 ? "" : "s"}
+            </Button>
+          </div>
+
+          {sample && (
+            <div className="space-y-2 rounded-md border p-4">
+              {sample.unknownPlaceholders.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Unknown placeholders: {sample.unknownPlaceholders.map((name) => `{{${name}}}`).join(", ")}
+                </p>
+              )}
+              {sample.sample ? (
+                <>
+                  <div className="text-sm text-muted-foreground">
+                    As {sample.recipients[0]?.name} ({sample.recipients[0]?.email}) will see it
+                  </div>
+                  <div className="font-medium">{sample.sample.subject}</div>
+                  <pre className="whitespace-pre-wrap font-sans text-sm">{sample.sample.body}</pre>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">No recipients match these filters.</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sent Messages</CardTitle>
+          <CardDescription>Open a message to see who it reached and which deliveries failed.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Subject</TableHead>
+                  {isAdmin && <TableHead>From</TableHead>}
+                  <TableHead className="text-right">Recipients</TableHead>
+                  <TableHead className="text-right">Delivered</TableHead>
+                  <TableHead className="text-right">Waiting</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoadingCampaigns ? (
+                  <TableRow>
+                    <TableCell colSpan={7}>
+                      <Skeleton className="h-4 w-full" />
+                    </TableCell>
+                  </TableRow>
+                ) : campaigns.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No bulk messages sent yet.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  campaigns.map((campaign) => (
+                    <TableRow key={campaign.id} className="cursor-pointer" onClick={() => setReportId(campaign.id)}>
+                      <TableCell className="whitespace-nowrap">{new Date(campaign.createdAt).toLocaleString()}</TableCell>
+                      <TableCell className="font-medium">{campaign.subject}</TableCell>
+                      {isAdmin && <TableCell>{campaign.senderUsername || "-"}</TableCell>}
+                      <TableCell className="text-right tabular-nums">{campaign.recipientCount}</TableCell>
+                      <TableCell className="text-right tabular-nums">{campaign.counts.sent}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {campaign.counts.queued + campaign.counts.sending}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {campaign.counts.failed > 0 ? (
+                          <span className="font-semibold text-destructive">{campaign.counts.failed}</span>
+                        ) : (
+                          0
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Send this message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{message.subject}" will be emailed to {count} recipient{count === 1 ? "" : "s"}. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => sendMutation.mutate()}>Send</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!reportId} onOpenChange={(open) => !open && setReportId(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{report?.subject ?? "Message report"}</DialogTitle>
+            <DialogDescription>
+              {report
+                ? `${report.counts.sent} delivered, ${report.counts.queued + report.counts.sending} waiting and ${report.counts.failed} failed of ${report.recipientCount}.`
+                : "Loading..."}
+            </DialogDescription>
+          </DialogHeader>
+          {report && (
+            <div className="space-y-4">
+              {report.counts.failed > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => retryMutation.mutate(report.id)}
+                  disabled={retryMutation.isPending}
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Retry Failed
+                </Button>
+              )}
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Recipient</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.emails.map((email) => (
+                      <TableRow key={email.id}>
+                        <TableCell>{email.to}</TableCell>
+                        <TableCell>
+                          <span className={`px-2 py-1 rounded text-xs ${statusStyles[email.status]}`}>{email.status}</span>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {email.status === "sent" && email.sentAt
+                            ? new Date(email.sentAt).toLocaleString()
+                            : email.lastError || "-"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
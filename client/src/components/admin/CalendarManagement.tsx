@@ -1,8 +1,11 @@
 import React, { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/api";
-import { CalendarItem, SportRecord } from "@/types";
+import { CalendarItem, ScheduleCheckResult } from "@/types";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Dialog,
@@ -16,6 +19,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { SportSelect } from "@/components/ui/sport-select";
+import { VenueSelect } from "@/components/ui/venue-select";
 import {
   Table,
   TableBody,
@@ -34,27 +38,85 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Plus, Edit, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Trash2, AlertTriangle, CheckCircle2 } from "lucide-react";
 import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
 import * as z from "zod";
 
-const calendarItemSchema = z.object({
-  sportId: z.string().min(1, "Please select a sport"),
-  date: z.string().min(1, "Date is required"),
-  time: z.string().min(1, "Time is required"),
-  venue: z.string().min(1, "Venue is required"),
-  type: z.string().min(1, "Type is required"),
-});
+const calendarItemSchema = z
+  .object({
+    sportId: z.string().min(1, "Please select a sport"),
+    date: z.string().min(1, "Date is required"),
+    startTime: z.string().min(1, "Start time is required"),
+    endTime: z.string().min(1, "End time is required"),
+    venueId: z.string().min(1, "Please select a venue"),
+    type: z.string().min(1, "Type is required"),
+  })
+  .refine((data) => data.endTime > data.startTime, {
+    message: "End time must be after the start time",
+    path: ["endTime"],
+  });
 
 type CalendarItemFormData = z.infer<typeof calendarItemSchema>;
 
+// The form edits local wall-clock times on a single day; the API stores exact instants
+const toInstant = (date: string, time: string) => new Date(`${date}T${time}`).toISOString();
+
+const toPayload = (data: CalendarItemFormData) => ({
+  sportId: data.sportId,
+  date: data.date,
+  time: `${data.startTime} - ${data.endTime}`,
+  startTime: toInstant(data.date, data.startTime),
+  endTime: toInstant(data.date, data.endTime),
+  venueId: data.venueId,
+  type: data.type,
+});
+
+const formatWindow = (item: { startTime: string; endTime: string }) =>
+  `${format(new Date(item.startTime), "EEE d MMM, HH:mm")} – ${format(new Date(item.endTime), "HH:mm")}`;
+
+function ScheduleConflictList({ result }: { result: ScheduleCheckResult }) {
+  return (
+    <div className="space-y-3 text-sm">
+      {result.venueConflicts.length > 0 && (
+        <div className="space-y-1">
+          <p className="font-medium">Venue double-bookings</p>
+          <ul className="list-disc pl-5 space-y-1">
+            {result.venueConflicts.map(({ venue, items: [a, b] }) => (
+              <li key={`${a.id}:${b.id}`}>
+                {venue}: {a.sportName} {a.type} ({formatWindow(a)}) overlaps {b.sportName} {b.type} (
+                {formatWindow(b)})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {result.participantClashes.length > 0 && (
+        <div className="space-y-1">
+          <p className="font-medium">Participants entered in both sports</p>
+          <ul className="list-disc pl-5 space-y-1">
+            {result.participantClashes.map(({ participant, items: [a, b] }) => (
+              <li key={`${participant.participantId}:${a.id}:${b.id}`}>
+                {participant.name} ({participant.community}): {a.sportName} {a.type} and {b.sportName} {b.type},{" "}
+                {formatWindow(a)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function CalendarManagement() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<CalendarItem | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [itemToDelete, setItemToDelete] = useState<CalendarItem | null>(null);
   const queryClient = useQueryClient();
+  const { toast } = useToast();
 
   const { data: calendarItems = [], isLoading: isLoadingItems } = useQuery({
     queryKey: ["calendar"],
@@ -66,50 +128,90 @@ export function CalendarManagement() {
     queryFn: api.listSports,
   });
 
+  const { data: clashReport, isLoading: isLoadingClashes } = useQuery({
+    queryKey: ["calendar-clashes"],
+    queryFn: api.getCalendarClashes,
+  });
+
   const form = useForm<CalendarItemFormData>({
     resolver: zodResolver(calendarItemSchema),
     defaultValues: {
       sportId: "",
       date: "",
-      time: "",
-      venue: "",
+      startTime: "",
+      endTime: "",
+      venueId: "",
       type: "",
     },
   });
 
+  // Check the draft against the schedule as it is edited, so clashes show before saving
+  const draft = form.watch();
+  const draftIsComplete =
+    !!draft.sportId && !!draft.venueId && !!draft.date && !!draft.startTime && draft.endTime > draft.startTime;
+  const draftCheck = draftIsComplete
+    ? {
+        id: editingItem?.id,
+        sportId: draft.sportId,
+        type: draft.type,
+        venueId: draft.venueId,
+        startTime: toInstant(draft.date, draft.startTime),
+        endTime: toInstant(draft.date, draft.endTime),
+      }
+    : null;
+
+  const { data: check, isFetching: isChecking } = useQuery({
+    queryKey: ["calendar-check", draftCheck],
+    queryFn: () => api.checkCalendarSchedule(draftCheck!),
+    enabled: dialogOpen && !!draftCheck,
+  });
+
+  const hasVenueConflicts = !!draftCheck && (check?.venueConflicts.length ?? 0) > 0;
+  const hasClashes = hasVenueConflicts || (!!draftCheck && (check?.participantClashes.length ?? 0) > 0);
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ["calendar"] });
+    queryClient.invalidateQueries({ queryKey: ["calendar-clashes"] });
+    queryClient.invalidateQueries({ queryKey: ["venues"] });
+  };
+
   const createMutation = useMutation({
     mutationFn: (data: CalendarItemFormData) => {
-      return api.createCalendarItem({
-        sportId: data.sportId,
-        date: data.date,
-        time: data.time,
-        venue: data.venue,
-        type: data.type,
-      });
+      return api.createCalendarItem({ ...toPayload(data), force: hasVenueConflicts });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["calendar"] });
+      onSaved();
       setDialogOpen(false);
       form.reset();
     },
+    onError: onError("Failed to create calendar item"),
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<CalendarItemFormData> }) => {
-      return api.updateCalendarItem(id, data);
+    mutationFn: ({ id, data }: { id: string; data: CalendarItemFormData }) => {
+      return api.updateCalendarItem(id, { ...toPayload(data), force: hasVenueConflicts });
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["calendar"] });
+      onSaved();
       setDialogOpen(false);
       setEditingItem(null);
       form.reset();
     },
+    onError: onError("Failed to update calendar item"),
   });
 
   const deleteMutation = useMutation({
     mutationFn: (id: string) => api.deleteCalendarItem(id),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["calendar"] });
+      onSaved();
       setDeleteDialogOpen(false);
       setItemToDelete(null);
     },
@@ -118,12 +220,15 @@ export function CalendarManagement() {
   const handleOpenDialog = (item?: CalendarItem) => {
     if (item) {
       setEditingItem(item);
-      const dateStr = new Date(item.date).toISOString().split("T")[0];
+      // Items from before structured times only have the date and a free-text start
+      const start = item.startTime ? new Date(item.startTime) : null;
+      const end = item.endTime ? new Date(item.endTime) : null;
       form.reset({
         sportId: item.sportId,
-        date: dateStr,
-        time: item.time,
-        venue: item.venue,
+        date: start ? format(start, "yyyy-MM-dd") : new Date(item.date).toISOString().split("T")[0],
+        startTime: start ? format(start, "HH:mm") : /^\d{2}:\d{2}$/.test(item.time) ? item.time : "",
+        endTime: end ? format(end, "HH:mm") : "",
+        venueId: item.venueId ?? "",
         type: item.type,
       });
     } else {
@@ -201,7 +306,7 @@ export function CalendarManagement() {
                 )}
               </div>
 
-              <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-3 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="date">Date *</Label>
                   <Input id="date" type="date" {...form.register("date")} />
@@ -210,19 +315,37 @@ export function CalendarManagement() {
                   )}
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="time">Time *</Label>
-                  <Input id="time" type="time" {...form.register("time")} />
-                  {form.formState.errors.time && (
-                    <p className="text-sm text-destructive">{form.formState.errors.time.message}</p>
+                  <Label htmlFor="startTime">Start *</Label>
+                  <Input id="startTime" type="time" {...form.register("startTime")} />
+                  {form.formState.errors.startTime && (
+                    <p className="text-sm text-destructive">{form.formState.errors.startTime.message}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="endTime">End *</Label>
+                  <Input id="endTime" type="time" {...form.register("endTime")} />
+                  {form.formState.errors.endTime && (
+                    <p className="text-sm text-destructive">{form.formState.errors.endTime.message}</p>
                   )}
                 </div>
               </div>
 
               <div className="space-y-2">
                 <Label htmlFor="venue">Venue *</Label>
-                <Input id="venue" {...form.register("venue")} placeholder="e.g., Main Stadium" />
-                {form.formState.errors.venue && (
-                  <p className="text-sm text-destructive">{form.formState.errors.venue.message}</p>
+                <Controller
+                  name="venueId"
+                  control={form.control}
+                  render={({ field }) => (
+                    <VenueSelect value={field.value} onValueChange={field.onChange} placeholder="Select a venue" />
+                  )}
+                />
+                {editingItem && !editingItem.venueId && (
+                  <p className="text-sm text-muted-foreground">
+                    Currently "{editingItem.venue}", which isn&apos;t a registered venue.
+                  </p>
+                )}
+                {form.formState.errors.venueId && (
+                  <p className="text-sm text-destructive">{form.formState.errors.venueId.message}</p>
                 )}
               </div>
 
@@ -234,12 +357,33 @@ export function CalendarManagement() {
                 )}
               </div>
 
+              {draftCheck && check && !isChecking && (
+                hasClashes ? (
+                  <Alert variant={hasVenueConflicts ? "destructive" : "default"}>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Schedule clashes</AlertTitle>
+                    <AlertDescription>
+                      <ScheduleConflictList result={check} />
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    No venue or participant clashes.
+                  </p>
+                )
+              )}
+
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
                   Cancel
                 </Button>
-                <Button type="submit" disabled={createMutation.isPending || updateMutation.isPending}>
-                  {editingItem ? "Update" : "Create"}
+                <Button
+                  type="submit"
+                  variant={hasVenueConflicts ? "destructive" : "default"}
+                  disabled={createMutation.isPending || updateMutation.isPending}
+                >
+                  {hasVenueConflicts ? "Save Anyway" : editingItem ? "Update" : "Create"}
                 </Button>
               </DialogFooter>
             </form>
@@ -284,7 +428,18 @@ export function CalendarManagement() {
                   <TableRow key={item.id}>
                     <TableCell className="font-medium">{getSportName(item.sportId)}</TableCell>
                     <TableCell>{date.toLocaleDateString()}</TableCell>
-                    <TableCell>{item.time}</TableCell>
+                    <TableCell>
+                      {item.startTime && item.endTime ? (
+                        `${format(new Date(item.startTime), "HH:mm")} - ${format(new Date(item.endTime), "HH:mm")}`
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          {item.time}
+                          <Badge variant="outline" title="Edit the item to set a start and end so it can be checked for clashes">
+                            Not checked
+                          </Badge>
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell>{item.venue}</TableCell>
                     <TableCell>{item.type}</TableCell>
                     <TableCell className="text-right">
@@ -305,6 +460,24 @@ export function CalendarManagement() {
         </Table>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Clash Report</CardTitle>
+          <CardDescription>
+            Venues booked twice at the same time, and participants entered in two sports that overlap.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingClashes ? (
+            <Skeleton className="h-16 w-full" />
+          ) : clashReport && (clashReport.venueConflicts.length > 0 || clashReport.participantClashes.length > 0) ? (
+            <ScheduleConflictList result={clashReport} />
+          ) : (
+            <p className="text-sm text-muted-foreground">No clashes in the schedule.</p>
+          )}
+        </CardContent>
+      </Card>
+
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -383,6 +383,8 @@ export function CommunityManagement() {
           <ExportButton
             onExportCSV={() => api.exportCommunities("csv")}
             onExportExcel={() => api.exportCommunities("excel")}
+            onExportPDF={() => api.exportCommunities("pdf")}
+            pdfLabel="Registration summaries (PDF)"
             disabled={false}
           />
           <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
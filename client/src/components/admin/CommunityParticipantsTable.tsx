@@ -6,14 +6,15 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Button } from "@/components/ui/button";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Check, X, Trash2, Upload, Download, Loader2 } from "lucide-react";
+import { Check, X, Trash2, Upload, Download, Loader2, MailCheck, MailWarning } from "lucide-react";
 import * as XLSX from "xlsx";
 import { useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { ExportButton } from "@/components/ui/export-button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import type { BulkUploadResult } from "@/types";
+import { ParticipantImportGrid } from "@/components/admin/ParticipantImportGrid";
+import type { ParticipantImportData, ParticipantImportField, ParticipantImportPreview, ParticipantImportResult, ParticipantImportRow } from "@/types";
 
 export function CommunityParticipantsTable() {
   const { user } = useAuth();
@@ -21,8 +22,13 @@ export function CommunityParticipantsTable() {
   const { toast } = useToast();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState<{ open: boolean; participantId: string | null }>({ open: false, participantId: null });
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
-  const [uploadResult, setUploadResult] = useState<BulkUploadResult | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [importPreview, setImportPreview] = useState<ParticipantImportPreview | null>(null);
+  // Values changed in the preview grid since it was last checked, by sheet row
+  const [importEdits, setImportEdits] = useState<Record<number, Partial<ParticipantImportData>>>({});
+  // Rows unticked in the preview; every other row without errors is imported
+  const [excludedRows, setExcludedRows] = useState<number[]>([]);
+  const [importResult, setImportResult] = useState<ParticipantImportResult | null>(null);
   
   const { data: participants = [], isLoading: isLoadingParticipants } = useQuery({
     queryKey: ["participants"],
@@ -68,25 +74,91 @@ export function CommunityParticipantsTable() {
     },
   });
 
-  const uploadMutation = useMutation({
-    mutationFn: (file: File) => api.bulkUploadParticipants(file),
+  const importRows = importPreview?.rows ?? [];
+  const selectedRows = new Set(
+    importRows.filter((row) => row.errors.length === 0 && !excludedRows.includes(row.row)).map((row) => row.row)
+  );
+  const hasImportEdits = Object.keys(importEdits).length > 0;
+  const rowWithEdits = (row: ParticipantImportRow) => ({ row: row.row, data: { ...row.data, ...importEdits[row.row] } });
+
+  const resetUpload = () => {
+    setSelectedFile(null);
+    setImportPreview(null);
+    setImportEdits({});
+    setExcludedRows([]);
+    setImportResult(null);
+  };
+
+  const validateMutation = useMutation({
+    mutationFn: (file: File) => api.validateBulkUpload(file),
+    onSuccess: (preview) => {
+      setImportPreview(preview);
+      setImportEdits({});
+      setExcludedRows([]);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload Failed",
+        description: error.message || "Failed to check the file. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const recheckMutation = useMutation({
+    mutationFn: () =>
+      api.recheckBulkUpload(
+        importPreview!.importId,
+        importRows.filter((row) => importEdits[row.row]).map(rowWithEdits)
+      ),
+    onSuccess: (preview) => {
+      setImportPreview(preview);
+      setImportEdits({});
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Check Failed",
+        description: error.message || "Failed to check the rows. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: () =>
+      api.commitBulkUpload(
+        importPreview!.importId,
+        importRows.filter((row) => selectedRows.has(row.row)).map(rowWithEdits)
+      ),
     onSuccess: (result) => {
-      setUploadResult(result);
+      setImportResult(result);
       queryClient.invalidateQueries({ queryKey: ["participants"] });
       toast({
-        title: "Upload Complete",
-        description: `Successfully uploaded ${result.successCount} participant(s). ${result.skippedCount} skipped, ${result.errorCount} errors.`,
+        title: "Import Complete",
+        description: `Imported ${result.importedCount} participant(s).`,
       });
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast({
-        title: "Upload Failed",
-        description: error?.message || "Failed to upload participants. Please try again.",
+        title: "Import Failed",
+        description: error.message || "Failed to import participants. Please try again.",
         variant: "destructive",
       });
+      // Rows that stopped failing validation since the last check are shown again
+      if ((error as Error & { originalError?: { rows?: unknown } }).originalError?.rows) {
+        recheckMutation.mutate();
+      }
     },
   });
 
+  const handleImportEdit = (row: number, field: ParticipantImportField, value: string) => {
+    setImportEdits({ ...importEdits, [row]: { ...importEdits[row], [field]: value } });
+  };
+
+  const handleImportToggle = (row: number, selected: boolean) => {
+    setExcludedRows(selected ? excludedRows.filter((excluded) => excluded !== row) : [...excludedRows, row]);
+  };
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -112,7 +184,7 @@ export function CommunityParticipantsTable() {
       });
       return;
     }
-    uploadMutation.mutate(selectedFile);
+    validateMutation.mutate(selectedFile);
   };
 
   const handleDownloadTemplate = () => {
@@ -247,7 +319,8 @@ export function CommunityParticipantsTable() {
       [""],
       ["IMPORTANT NOTES:"],
       ["- All uploaded participants are automatically ACCEPTED (no manual approval needed)"],
-      ["- Duplicate usernames will be SKIPPED (emails can repeat)"],
+      ["- Every row is checked before import; you can correct or leave out rows in the preview"],
+      ["- Usernames must be unique; emails can repeat but are flagged as possible duplicates"],
       ["- Community is automatically set to your community (no need to specify)"],
       ["- Date formats: Use YYYY-MM-DD (recommended), DD/MM/YYYY, or MM/DD/YYYY"],
       ["- Sports Format (also see 'Sports Reference' sheet):"],
@@ -342,11 +415,9 @@ export function CommunityParticipantsTable() {
         const sport = ps.sport;
         if (!sport) return null;
         // If it's a child sport, show parent - child format
-        if (sport.parentId) {
-          const parent = sports.find((s: any) => s.id === sport.parentId);
-          return parent ? `${parent.name} - ${sport.name}` : sport.name;
-        }
-        return sport.name;
+        const parent = sport.parentId ? sports.find((s: any) => s.id === sport.parentId) : null;
+        const name = parent ? `${parent.name} - ${sport.name}` : sport.name;
+        return ps.status === "waitlisted" ? `${name} (waitlist #${ps.waitlistPosition ?? "-"})` : name;
       }).filter(Boolean);
     }
     
@@ -385,6 +456,8 @@ export function CommunityParticipantsTable() {
             <ExportButton
               onExportCSV={() => api.exportParticipants("csv")}
               onExportExcel={() => api.exportParticipants("excel")}
+              onExportPDF={() => api.exportParticipants("pdf")}
+              pdfLabel="Accreditation badges (PDF)"
               disabled={isLoading}
             />
           </div>
@@ -432,7 +505,20 @@ export function CommunityParticipantsTable() {
                       <TableCell className="font-medium">
                         {p.firstName} {p.middleName ? p.middleName + " " : ""}{p.lastName}
                       </TableCell>
-                      <TableCell>{p.email}</TableCell>
+                      <TableCell>
+                        <div>{p.email}</div>
+                        {p.emailVerified ? (
+                          <Badge variant="outline" className="mt-1 text-green-700 border-green-300">
+                            <MailCheck className="h-3 w-3 mr-1" />
+                            Verified
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="mt-1 text-orange-600 border-orange-300">
+                            <MailWarning className="h-3 w-3 mr-1" />
+                            Not verified
+                          </Badge>
+                        )}
+                      </TableCell>
                       <TableCell>{p.phone}</TableCell>
                       <TableCell>
                         <div className="space-y-1">
@@ -446,7 +532,11 @@ export function CommunityParticipantsTable() {
                           <div className="flex flex-wrap gap-1">
                             {participantSports.length > 0 ? (
                               participantSports.map((sportName, idx) => (
-                                <Badge key={idx} variant={hasPendingSports ? "default" : "secondary"}>
+                                <Badge
+                                  key={idx}
+                                  variant={hasPendingSports ? "default" : "secondary"}
+                                  className={sportName?.includes("(waitlist #") ? "bg-orange-100 text-orange-800" : undefined}
+                                >
                                   {sportName}
                                 </Badge>
                               ))
@@ -486,6 +576,7 @@ export function CommunityParticipantsTable() {
                                 onClick={() => handleAccept(p.id)}
                                 disabled={updateStatusMutation.isPending}
                                 className="text-green-600 hover:text-green-700"
+                                title={p.emailVerified ? undefined : "This participant has not verified their email address yet"}
                               >
                                 <Check className="h-4 w-4 mr-1" />
                                 Accept
@@ -548,19 +639,71 @@ export function CommunityParticipantsTable() {
       <Dialog open={uploadDialogOpen} onOpenChange={(open) => {
         setUploadDialogOpen(open);
         if (!open) {
-          setSelectedFile(null);
-          setUploadResult(null);
+          resetUpload();
         }
       }}>
-        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogContent className={`${importPreview && !importResult ? "max-w-6xl" : "max-w-2xl"} max-h-[90vh] overflow-y-auto`}>
           <DialogHeader>
             <DialogTitle>Bulk Upload Participants</DialogTitle>
             <DialogDescription>
-              Upload a CSV or Excel file to bulk import participants. All uploaded participants will be automatically accepted.
+              Upload a CSV or Excel file to bulk import participants. Every row is checked first so you can correct or leave out rows before anything is imported. All imported participants will be automatically accepted.
             </DialogDescription>
           </DialogHeader>
 
-          {!uploadResult ? (
+          {importResult ? (
+            <div className="space-y-4">
+              <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
+                <div className="text-2xl font-bold text-green-600 dark:text-green-400">{importResult.importedCount}</div>
+                <div className="text-sm text-muted-foreground">Participants Imported</div>
+              </div>
+
+              {importResult.waitlisted.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-semibold text-sm">Waitlisted (sport full):</h4>
+                  <div className="max-h-48 overflow-y-auto border rounded p-2">
+                    {importResult.waitlisted.map((item) => (
+                      <div key={item.row} className="text-sm py-1">
+                        Row {item.row}: {item.sports.join(", ")}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          ) : importPreview ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
+                  <div className="text-2xl font-bold text-green-600 dark:text-green-400">{selectedRows.size}</div>
+                  <div className="text-sm text-muted-foreground">Selected to Import</div>
+                </div>
+                <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+                  <div className="text-2xl font-bold text-yellow-600 dark:text-yellow-400">
+                    {importRows.filter((row) => row.errors.length === 0 && row.warnings.length > 0).length}
+                  </div>
+                  <div className="text-sm text-muted-foreground">With Warnings</div>
+                </div>
+                <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg">
+                  <div className="text-2xl font-bold text-red-600 dark:text-red-400">
+                    {importRows.filter((row) => row.errors.length > 0).length}
+                  </div>
+                  <div className="text-sm text-muted-foreground">With Errors</div>
+                </div>
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                {importPreview.fileName}: correct any value in the grid and recheck, or untick rows to leave them out. Rows with errors are not imported.
+              </p>
+
+              <ParticipantImportGrid
+                rows={importRows}
+                edits={importEdits}
+                selectedRows={selectedRows}
+                onEdit={handleImportEdit}
+                onToggle={handleImportToggle}
+              />
+            </div>
+          ) : (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <Button
@@ -592,91 +735,76 @@ export function CommunityParticipantsTable() {
                 </p>
               </div>
             </div>
-          ) : (
-            <div className="space-y-4">
-              <div className="grid grid-cols-3 gap-4">
-                <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
-                  <div className="text-2xl font-bold text-green-600 dark:text-green-400">{uploadResult.successCount}</div>
-                  <div className="text-sm text-muted-foreground">Successfully Uploaded</div>
-                </div>
-                <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
-                  <div className="text-2xl font-bold text-yellow-600 dark:text-yellow-400">{uploadResult.skippedCount}</div>
-                  <div className="text-sm text-muted-foreground">Skipped</div>
-                </div>
-                <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg">
-                  <div className="text-2xl font-bold text-red-600 dark:text-red-400">{uploadResult.errorCount}</div>
-                  <div className="text-sm text-muted-foreground">Errors</div>
-                </div>
-              </div>
-
-              {uploadResult.skipped.length > 0 && (
-                <div className="space-y-2">
-                  <h4 className="font-semibold text-sm">Skipped Participants:</h4>
-                  <div className="max-h-32 overflow-y-auto border rounded p-2">
-                    {uploadResult.skipped.map((item, idx) => (
-                      <div key={idx} className="text-sm py-1">
-                        Row {item.row}: {item.email} - {item.reason}
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
-
-              {uploadResult.errors.length > 0 && (
-                <div className="space-y-2">
-                  <h4 className="font-semibold text-sm">Errors:</h4>
-                  <div className="max-h-48 overflow-y-auto border rounded p-2">
-                    {uploadResult.errors.map((item, idx) => (
-                      <div key={idx} className="text-sm py-1 border-b last:border-b-0">
-                        <div className="font-medium">Row {item.row}: {item.email || "No email"}</div>
-                        <ul className="list-disc list-inside ml-2 text-muted-foreground">
-                          {item.errors.map((error, errIdx) => (
-                            <li key={errIdx}>{error}</li>
-                          ))}
-                        </ul>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )}
-            </div>
           )}
 
           <DialogFooter>
-            {!uploadResult ? (
+            {importResult ? (
+              <Button onClick={() => {
+                setUploadDialogOpen(false);
+                resetUpload();
+              }}>
+                Close
+              </Button>
+            ) : importPreview ? (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={resetUpload}
+                  disabled={commitMutation.isPending}
+                >
+                  Choose Another File
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => recheckMutation.mutate()}
+                  disabled={!hasImportEdits || recheckMutation.isPending || commitMutation.isPending}
+                >
+                  {recheckMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Recheck
+                </Button>
+                <Button
+                  onClick={() => commitMutation.mutate()}
+                  disabled={hasImportEdits || selectedRows.size === 0 || commitMutation.isPending}
+                >
+                  {commitMutation.isPending ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Importing...
+                    </>
+                  ) : (
+                    <>
+                      <Upload className="h-4 w-4 mr-2" />
+                      Import {selectedRows.size} Participant{selectedRows.size === 1 ? "" : "s"}
+                    </>
+                  )}
+                </Button>
+              </>
+            ) : (
               <>
                 <Button
                   variant="outline"
                   onClick={() => setUploadDialogOpen(false)}
-                  disabled={uploadMutation.isPending}
+                  disabled={validateMutation.isPending}
                 >
                   Cancel
                 </Button>
                 <Button
                   onClick={handleUpload}
-                  disabled={!selectedFile || uploadMutation.isPending}
+                  disabled={!selectedFile || validateMutation.isPending}
                 >
-                  {uploadMutation.isPending ? (
+                  {validateMutation.isPending ? (
                     <>
                       <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                      Uploading...
+                      Checking...
                     </>
                   ) : (
                     <>
                       <Upload className="h-4 w-4 mr-2" />
-                      Upload
+                      Check File
                     </>
                   )}
                 </Button>
               </>
-            ) : (
-              <Button onClick={() => {
-                setUploadDialogOpen(false);
-                setSelectedFile(null);
-                setUploadResult(null);
-              }}>
-                Close
-              </Button>
             )}
           </DialogFooter>
         </DialogContent>
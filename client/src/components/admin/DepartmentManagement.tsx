@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { DepartmentInput, DepartmentRecord } from "@/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Trash2 } from "lucide-react";
+
+export function DepartmentManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingDepartment, setEditingDepartment] = useState<DepartmentRecord | null>(null);
+  const [departmentToDelete, setDepartmentToDelete] = useState<DepartmentRecord | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [volunteerIds, setVolunteerIds] = useState<string[]>([]);
+
+  const { data: departments = [], isLoading } = useQuery({
+    queryKey: ["departments"],
+    queryFn: api.listDepartments,
+  });
+
+  const { data: volunteers = [] } = useQuery({
+    queryKey: ["volunteers"],
+    queryFn: () => api.listVolunteers(),
+  });
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (input: DepartmentInput) =>
+      editingDepartment ? api.updateDepartment(editingDepartment.id, input) : api.createDepartment(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["departments"] });
+      queryClient.invalidateQueries({ queryKey: ["volunteers"] });
+      setDialogOpen(false);
+      toast({
+        title: "Success",
+        description: editingDepartment ? "Department updated successfully" : "Department created successfully",
+      });
+    },
+    onError: onError("Failed to save department"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.deleteDepartment(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["departments"] });
+      queryClient.invalidateQueries({ queryKey: ["volunteers"] });
+      queryClient.invalidateQueries({ queryKey: ["shifts"] });
+      setDepartmentToDelete(null);
+      toast({
+        title: "Success",
+        description: "Department deleted successfully",
+      });
+    },
+    onError: onError("Failed to delete department"),
+  });
+
+  const handleOpenDialog = (department?: DepartmentRecord) => {
+    setEditingDepartment(department ?? null);
+    setName(department?.name ?? "");
+    setDescription(department?.description ?? "");
+    setVolunteerIds(department?.volunteers?.map((volunteer) => volunteer.id) ?? []);
+    setDialogOpen(true);
+  };
+
+  const toggleVolunteer = (volunteerId: string, checked: boolean) => {
+    setVolunteerIds((current) =>
+      checked ? [...current, volunteerId] : current.filter((id) => id !== volunteerId)
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast({
+        title: "Error",
+        description: "Department name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({
+      name: name.trim(),
+      description: description.trim() || null,
+      volunteerIds,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Departments ({departments.length})</CardTitle>
+        <Button size="sm" onClick={() => handleOpenDialog()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Department
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Department</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Volunteers</TableHead>
+                <TableHead>Shifts</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                Array.from({ length: 3 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-48" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-40" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-8" /></TableCell>
+                    <TableCell className="text-right"><Skeleton className="h-8 w-16 ml-auto" /></TableCell>
+                  </TableRow>
+                ))
+              ) : departments.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No departments yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                departments.map((department) => (
+                  <TableRow key={department.id}>
+                    <TableCell className="font-medium">{department.name}</TableCell>
+                    <TableCell className="text-muted-foreground">{department.description || "-"}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {department.volunteers && department.volunteers.length > 0 ? (
+                          department.volunteers.map((volunteer) => (
+                            <Badge key={volunteer.id} variant="secondary">
+                              {volunteer.firstName} {volunteer.lastName}
+                            </Badge>
+                          ))
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{department._count?.shifts ?? 0}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleOpenDialog(department)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="destructive" size="sm" onClick={() => setDepartmentToDelete(department)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingDepartment ? "Edit Department" : "Create Department"}</DialogTitle>
+            <DialogDescription>
+              A volunteer belongs to at most one department. Ticking someone here moves them from their current one.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="departmentName">Name *</Label>
+              <Input
+                id="departmentName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Medical, Logistics"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="departmentDescription">Description</Label>
+              <Textarea
+                id="departmentDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Volunteers ({volunteerIds.length} selected)</Label>
+              {volunteers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No volunteers registered yet.</p>
+              ) : (
+                <div className="rounded-md border p-3 space-y-2 max-h-60 overflow-y-auto">
+                  {volunteers.map((volunteer) => (
+                    <label key={volunteer.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={volunteerIds.includes(volunteer.id)}
+                        onCheckedChange={(checked) => toggleVolunteer(volunteer.id, checked === true)}
+                      />
+                      {volunteer.firstName} {volunteer.lastName}
+                      {volunteer.department && volunteer.department.id !== editingDepartment?.id && (
+                        <Badge variant="outline" className="ml-1">{volunteer.department.name}</Badge>
+                      )}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {editingDepartment ? "Update" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!departmentToDelete} onOpenChange={(open) => !open && setDepartmentToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete department?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will delete "{departmentToDelete?.name}" and all of its shifts. Its volunteers stay registered without a department.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => departmentToDelete && deleteMutation.mutate(departmentToDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,223 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { EmailStatus, OutboxEmail } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronDown, ChevronRight, RefreshCw } from "lucide-react";
+
+const PAGE_SIZE = 25;
+const ALL = "all";
+
+const statusLabels: Record<EmailStatus, string> = {
+  queued: "Queued",
+  sending: "Sending",
+  sent: "Sent",
+  failed: "Failed",
+};
+
+const statusStyles: Record<EmailStatus, string> = {
+  queued: "bg-yellow-100 text-yellow-800",
+  sending: "bg-blue-100 text-blue-800",
+  sent: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+// What happens next for a message, shown under its status
+function deliveryNote(email: OutboxEmail) {
+  if (email.status === "sent" && email.sentAt) return `Sent ${new Date(email.sentAt).toLocaleString()}`;
+  if (email.status === "queued" && email.attempts > 0) {
+    return `Retry ${new Date(email.nextAttemptAt).toLocaleString()}`;
+  }
+  if (email.status === "failed") return `Gave up after ${email.attempts} attempts`;
+  return null;
+}
+
+export function EmailOutbox() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState(ALL);
+  const [page, setPage] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const filters = {
+    status: status === ALL ? undefined : (status as EmailStatus),
+    limit: PAGE_SIZE,
+    offset: page * PAGE_SIZE,
+  };
+
+  const { data, isLoading, isFetching, refetch } = useQuery({
+    queryKey: ["email-outbox", filters],
+    queryFn: () => api.listOutbox(filters),
+    // Keep delivery state current while messages are waiting to go out
+    refetchInterval: 15000,
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: api.resendEmail,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["email-outbox"] });
+      toast({
+        title: "Success",
+        description: "Email queued for delivery",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resend email",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const emails = data?.emails ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Email Outbox</h2>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Each status total doubles as a filter; click it again to show everything */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {(Object.keys(statusLabels) as EmailStatus[]).map((key) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => {
+              setStatus(status === key ? ALL : key);
+              setPage(0);
+            }}
+            className={`rounded-lg border p-4 text-left transition-colors hover:bg-muted ${status === key ? "border-primary" : ""}`}
+          >
+            <div className="text-sm text-muted-foreground">{statusLabels[key]}</div>
+            <div className="text-2xl font-bold">{data ? data.counts[key] : "-"}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>Queued</TableHead>
+              <TableHead>To</TableHead>
+              <TableHead>Subject</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell />
+                  <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                  <TableCell><Skeleton className="h-4 w-40" /></TableCell>
+                  <TableCell><Skeleton className="h-4 w-48" /></TableCell>
+                  <TableCell><Skeleton className="h-4 w-16" /></TableCell>
+                  <TableCell />
+                </TableRow>
+              ))
+            ) : emails.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No emails match this filter.
+                </TableCell>
+              </TableRow>
+            ) : (
+              emails.map((email) => {
+                const isExpanded = expanded === email.id;
+                const note = deliveryNote(email);
+                return (
+                  <React.Fragment key={email.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpanded(isExpanded ? null : email.id)}
+                    >
+                      <TableCell>
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(email.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>{email.to}</TableCell>
+                      <TableCell className="font-medium">{email.subject}</TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-1 rounded text-xs ${statusStyles[email.status]}`}>
+                          {statusLabels[email.status]}
+                        </span>
+                        {note && <div className="mt-1 text-xs text-muted-foreground">{note}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(email.status === "failed" || email.status === "queued") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              resendMutation.mutate(email.id);
+                            }}
+                            disabled={resendMutation.isPending}
+                          >
+                            {email.status === "failed" ? "Resend" : "Send Now"}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={5} className="space-y-2 text-sm">
+                          <div className="text-muted-foreground">
+                            From {email.from} · {email.attempts} attempt{email.attempts === 1 ? "" : "s"}
+                          </div>
+                          {email.lastError && <div className="text-destructive">Last error: {email.lastError}</div>}
+                          <pre className="whitespace-pre-wrap font-sans">{email.body}</pre>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </React.Fragment>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {total} email{total === 1 ? "" : "s"}
+        </p>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <span className="text-sm">
+            Page {page + 1} of {pageCount}
+          </span>
+          <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
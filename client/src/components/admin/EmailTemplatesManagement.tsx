@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import type { EmailTemplate, EmailTemplateContent, EmailTemplatePreview } from "@/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/api/useAuth";
+import { Eye, RotateCcw, Send } from "lucide-react";
+
+type TemplateForm = { subject: string; textBody: string; htmlBody: string };
+
+function formFor(template: EmailTemplate) {
+  return { subject: template.subject, textBody: template.textBody, htmlBody: template.htmlBody ?? "" };
+}
+
+export function EmailTemplatesManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  // Unsaved edits to the selected template; null shows its saved wording
+  const [edits, setEdits] = useState<TemplateForm | null>(null);
+  const [preview, setPreview] = useState<EmailTemplatePreview | null>(null);
+  const [testAddress, setTestAddress] = useState<string | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ["email-templates"],
+    queryFn: api.listEmailTemplates,
+  });
+
+  const selected = templates.find((template) => template.key === selectedKey) ?? templates[0];
+  const form = edits ?? (selected ? formFor(selected) : { subject: "", textBody: "", htmlBody: "" });
+  // Test sends go to the signed-in admin unless another address is typed
+  const testRecipient = (testAddress ?? user?.email ?? "").trim();
+
+  const draft: EmailTemplateContent = {
+    subject: form.subject,
+    textBody: form.textBody,
+    htmlBody: form.htmlBody.trim() || null,
+  };
+  const isDirty = !!selected && !!edits && JSON.stringify(edits) !== JSON.stringify(formFor(selected));
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const onSaved = (template: EmailTemplate, message: string) => {
+    queryClient.setQueryData<EmailTemplate[]>(["email-templates"], (current = []) =>
+      current.map((existing) => (existing.key === template.key ? template : existing))
+    );
+    setEdits(null);
+    setPreview(null);
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => api.updateEmailTemplate(selected!.key, draft),
+    onSuccess: (template) => onSaved(template, "Template saved"),
+    onError: onError("Failed to save template"),
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: () => api.resetEmailTemplate(selected!.key),
+    onSuccess: (template) => onSaved(template, "Template reset to the default wording"),
+    onError: onError("Failed to reset template"),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => api.previewEmailTemplate(selected!.key, draft),
+    onSuccess: setPreview,
+    onError: onError("Failed to preview template"),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: () => api.sendTestEmail(selected!.key, testRecipient, draft),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["email-outbox"] });
+      toast({
+        title: "Success",
+        description: `Test email queued for ${testRecipient}`,
+      });
+    },
+    onError: onError("Failed to send test email"),
+  });
+
+  const insertPlaceholder = (name: string) => {
+    setEdits({ ...form, textBody: `${form.textBody}{{${name}}}` });
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Email Templates</CardTitle>
+          <CardDescription>Wording of the emails the site sends</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-32" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!selected) {
+    return null;
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[16rem_1fr]">
+      <div className="space-y-1">
+        <h2 className="mb-3 text-2xl font-bold">Email Templates</h2>
+        {templates.map((template) => (
+          <button
+            key={template.key}
+            type="button"
+            onClick={() => {
+              setSelectedKey(template.key);
+              setEdits(null);
+              setPreview(null);
+            }}
+            className={`w-full rounded-md px-3 py-2 text-left text-sm transition-colors hover:bg-muted ${
+              template.key === selected.key ? "bg-muted font-medium" : ""
+            }`}
+          >
+            {template.name}
+            {template.customized && <span className="ml-2 text-xs text-muted-foreground">edited</span>}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {selected.name}
+              {selected.customized ? <Badge>Edited</Badge> : <Badge variant="secondary">Default</Badge>}
+            </CardTitle>
+            <CardDescription>{selected.description}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Placeholders</Label>
+              <div className="flex flex-wrap gap-2">
+                {selected.placeholders.map((name) => (
+                  <Button key={name} type="button" variant="outline" size="sm" onClick={() => insertPlaceholder(name)}>
+                    {`{{${name}}}`}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Click to add one to the end of the text version. {"{{siteTitle}}"} comes from Settings.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="templateSubject">Subject</Label>
+              <Input
+                id="templateSubject"
+                value={form.subject}
+                onChange={(e) => setEdits({ ...form, subject: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="templateText">Text version</Label>
+              <Textarea
+                id="templateText"
+                value={form.textBody}
+                onChange={(e) => setEdits({ ...form, textBody: e.target.value })}
+                rows={14}
+                className="font-mono text-sm"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="templateHtml">HTML version</Label>
+              <Textarea
+                id="templateHtml"
+                value={form.htmlBody}
+                onChange={(e) => setEdits({ ...form, htmlBody: e.target.value })}
+                rows={8}
+                className="font-mono text-sm"
+                placeholder="Optional. Leave blank to send the text version with line breaks."
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={() => saveMutation.mutate()} disabled={!isDirty || saveMutation.isPending}>
+                Save Template
+              </Button>
+              <Button variant="outline" onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending}>
+                <Eye className="mr-2 h-4 w-4" />
+                Preview
+              </Button>
+              {isDirty && (
+                <Button variant="ghost" onClick={() => setEdits(null)}>
+                  Discard Changes
+                </Button>
+              )}
+              {selected.customized && (
+                <Button
+                  variant="ghost"
+                  onClick={() => resetMutation.mutate()}
+                  disabled={resetMutation.isPending}
+                  className="ml-auto"
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Reset to Default
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {preview && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Preview</CardTitle>
+              <CardDescription>Filled in with sample values. Unsaved changes are included.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {preview.unknownPlaceholders.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Unknown placeholders will be left blank and cannot be saved:{" "}
+                  {preview.unknownPlaceholders.map((name) => `{{${name}}}`).join(", ")}
+                </p>
+              )}
+              <div>
+                <div className="text-sm text-muted-foreground">Subject</div>
+                <div className="font-medium">{preview.subject}</div>
+              </div>
+              <Tabs defaultValue={preview.html ? "html" : "text"}>
+                <TabsList>
+                  <TabsTrigger value="text">Text</TabsTrigger>
+                  <TabsTrigger value="html" disabled={!preview.html}>
+                    HTML
+                  </TabsTrigger>
+                </TabsList>
+                <TabsContent value="text">
+                  <pre className="whitespace-pre-wrap rounded-md border p-4 font-sans text-sm">{preview.body}</pre>
+                </TabsContent>
+                {preview.html && (
+                  <TabsContent value="html">
+                    <iframe
+                      title="HTML preview"
+                      sandbox=""
+                      srcDoc={preview.html}
+                      className="h-96 w-full rounded-md border bg-white"
+                    />
+                  </TabsContent>
+                )}
+              </Tabs>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Send a Test</CardTitle>
+            <CardDescription>
+              Queues this template, with any unsaved changes, filled in with sample values.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="flex flex-col gap-2 sm:flex-row"
+              onSubmit={(e) => {
+                e.preventDefault();
+                testMutation.mutate();
+              }}
+            >
+              <Input
+                type="email"
+                value={testAddress ?? user?.email ?? ""}
+                onChange={(e) => setTestAddress(e.target.value)}
+                placeholder="you@example.org"
+                required
+              />
+              <Button type="submit" disabled={testMutation.isPending}>
+                <Send className="mr-2 h-4 w-4" />
+                Send Test
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { SportSelect } from "@/components/ui/sport-select";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Table,
   TableBody,
@@ -35,7 +36,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Plus, Edit, Trash2 } from "lucide-react";
+import { Plus, Edit, Trash2, RefreshCw } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -47,9 +48,12 @@ const leaderboardEntrySchema = z.object({
   score: z.number().int().min(0, "Score must be a non-negative integer"),
   position: z.number().int().positive().optional().nullable(),
   medalType: z.enum(["gold", "silver", "bronze", "none"]).optional(),
+  teamId: z.string().optional().nullable(),
   notes: z.string().optional().nullable(),
 });
 
+const noTeam = "none";
+
 type LeaderboardEntryFormData = z.infer<typeof leaderboardEntrySchema>;
 
 export function LeaderboardManagement() {
@@ -75,6 +79,19 @@ export function LeaderboardManagement() {
     queryFn: api.listSports,
   });
 
+  const { data: teams = [] } = useQuery({
+    queryKey: ["teams"],
+    queryFn: () => api.listTeams(),
+  });
+
+  const { data: pointsFormat } = useQuery({
+    queryKey: ["tournament-formats", "points_system"],
+    queryFn: () => api.getTournamentFormatByCategory("points_system"),
+  });
+
+  // When a points table is configured the server derives scores from medal/position
+  const scoresDerived = !!pointsFormat?.rules;
+
   const form = useForm<LeaderboardEntryFormData>({
     resolver: zodResolver(leaderboardEntrySchema),
     defaultValues: {
@@ -83,10 +100,16 @@ export function LeaderboardManagement() {
       score: 0,
       position: null,
       medalType: "none",
+      teamId: null,
       notes: null,
     },
   });
 
+  // Teams the selected community entered in the selected sport
+  const entryTeams = teams.filter(
+    (team) => team.communityId === form.watch("communityId") && team.sportId === form.watch("sportId")
+  );
+
   const createMutation = useMutation({
     mutationFn: (data: LeaderboardEntryFormData) => api.createLeaderboardEntry(data),
     onSuccess: () => {
@@ -131,6 +154,25 @@ export function LeaderboardManagement() {
     },
   });
 
+  const recomputeMutation = useMutation({
+    mutationFn: () => api.recomputeLeaderboardScores(),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["leaderboard-entries"] });
+      queryClient.invalidateQueries({ queryKey: ["leaderboard"] });
+      toast({
+        title: "Success",
+        description: `Recomputed scores: ${result.updated} of ${result.total} entries changed`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to recompute scores",
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: (id: string) => api.deleteLeaderboardEntry(id),
     onSuccess: () => {
@@ -161,6 +203,7 @@ export function LeaderboardManagement() {
         score: entry.score,
         position: entry.position ?? null,
         medalType: entry.medalType,
+        teamId: entry.teamId ?? null,
         notes: entry.notes ?? null,
       });
     } else {
@@ -171,6 +214,7 @@ export function LeaderboardManagement() {
         score: 0,
         position: null,
         medalType: "none",
+        teamId: null,
         notes: null,
       });
     }
@@ -178,10 +222,13 @@ export function LeaderboardManagement() {
   };
 
   const handleSubmit = (data: LeaderboardEntryFormData) => {
+    // Drop a team left over from a different community or sport selection
+    const teamId = entryTeams.some((team) => team.id === data.teamId) ? data.teamId : null;
+    const payload = scoresDerived ? { ...data, teamId, score: undefined } : { ...data, teamId };
     if (editingEntry) {
-      updateMutation.mutate({ id: editingEntry.id, data });
+      updateMutation.mutate({ id: editingEntry.id, data: payload });
     } else {
-      createMutation.mutate(data);
+      createMutation.mutate(payload);
     }
   };
 
@@ -213,150 +260,188 @@ export function LeaderboardManagement() {
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold">Leaderboard Management</h2>
-        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => handleOpenDialog()}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Score
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl">
-            <DialogHeader>
-              <DialogTitle>
-                {editingEntry ? "Edit Score Entry" : "Add New Score Entry"}
-              </DialogTitle>
-              <DialogDescription>
-                {editingEntry
-                  ? "Update the score entry details below."
-                  : "Fill in the details to add a new score entry for a community in a sport."}
-              </DialogDescription>
-            </DialogHeader>
-            <form
-              onSubmit={(e) => {
-                e.preventDefault();
-                e.stopPropagation();
-                form.handleSubmit(handleSubmit)(e);
-              }}
-              className="space-y-4"
+        <div className="flex gap-2">
+          {scoresDerived && (
+            <Button
+              variant="outline"
+              onClick={() => recomputeMutation.mutate()}
+              disabled={recomputeMutation.isPending}
             >
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="communityId">Community *</Label>
-                  <Select
-                    value={form.watch("communityId")}
-                    onValueChange={(value) => form.setValue("communityId", value)}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select community" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {communities.map((community) => (
-                        <SelectItem key={community.id} value={community.id}>
-                          {community.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  {form.formState.errors.communityId && (
-                    <p className="text-sm text-destructive">
-                      {form.formState.errors.communityId.message}
-                    </p>
-                  )}
-                </div>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Recompute Scores
+            </Button>
+          )}
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => handleOpenDialog()}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Score
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingEntry ? "Edit Score Entry" : "Add New Score Entry"}
+                </DialogTitle>
+                <DialogDescription>
+                  {editingEntry
+                    ? "Update the score entry details below."
+                    : "Fill in the details to add a new score entry for a community in a sport."}
+                </DialogDescription>
+              </DialogHeader>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  form.handleSubmit(handleSubmit)(e);
+                }}
+                className="space-y-4"
+              >
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="communityId">Community *</Label>
+                    <Select
+                      value={form.watch("communityId")}
+                      onValueChange={(value) => form.setValue("communityId", value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select community" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {communities.map((community) => (
+                          <SelectItem key={community.id} value={community.id}>
+                            {community.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {form.formState.errors.communityId && (
+                      <p className="text-sm text-destructive">
+                        {form.formState.errors.communityId.message}
+                      </p>
+                    )}
+                  </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="sportId">Sport *</Label>
-                  <SportSelect
-                    value={form.watch("sportId")}
-                    onValueChange={(value) => form.setValue("sportId", value)}
-                    placeholder="Select sport"
-                  />
-                  {form.formState.errors.sportId && (
-                    <p className="text-sm text-destructive">
-                      {form.formState.errors.sportId.message}
-                    </p>
-                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="sportId">Sport *</Label>
+                    <SportSelect
+                      value={form.watch("sportId")}
+                      onValueChange={(value) => form.setValue("sportId", value)}
+                      placeholder="Select sport"
+                    />
+                    {form.formState.errors.sportId && (
+                      <p className="text-sm text-destructive">
+                        {form.formState.errors.sportId.message}
+                      </p>
+                    )}
+                  </div>
                 </div>
-              </div>
 
-              <div className="grid grid-cols-3 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="score">Score *</Label>
-                  <Input
-                    id="score"
-                    type="number"
-                    min="0"
-                    {...form.register("score", { valueAsNumber: true })}
-                    placeholder="0"
-                  />
-                  {form.formState.errors.score && (
-                    <p className="text-sm text-destructive">
-                      {form.formState.errors.score.message}
-                    </p>
-                  )}
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="score">Score {scoresDerived ? "" : "*"}</Label>
+                    <Input
+                      id="score"
+                      type="number"
+                      min="0"
+                      readOnly={scoresDerived}
+                      {...form.register("score", { valueAsNumber: true })}
+                      placeholder="0"
+                    />
+                    {scoresDerived && (
+                      <p className="text-xs text-muted-foreground">Calculated from the points system</p>
+                    )}
+                    {form.formState.errors.score && (
+                      <p className="text-sm text-destructive">
+                        {form.formState.errors.score.message}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="position">Position</Label>
+                    <Input
+                      id="position"
+                      type="number"
+                      min="1"
+                      {...form.register("position", { valueAsNumber: true })}
+                      placeholder="1, 2, 3..."
+                    />
+                    {form.formState.errors.position && (
+                      <p className="text-sm text-destructive">
+                        {form.formState.errors.position?.message}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="medalType">Medal Type</Label>
+                    <Select
+                      value={form.watch("medalType") || "none"}
+                      onValueChange={(value) =>
+                        form.setValue("medalType", value as "gold" | "silver" | "bronze" | "none")
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select medal" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        <SelectItem value="gold">Gold</SelectItem>
+                        <SelectItem value="silver">Silver</SelectItem>
+                        <SelectItem value="bronze">Bronze</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
 
+                {entryTeams.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Team</Label>
+                    <Select
+                      value={form.watch("teamId") || noTeam}
+                      onValueChange={(value) => form.setValue("teamId", value === noTeam ? null : value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={noTeam}>Whole community</SelectItem>
+                        {entryTeams.map((team) => (
+                          <SelectItem key={team.id} value={team.id}>
+                            {team.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div className="space-y-2">
-                  <Label htmlFor="position">Position</Label>
-                  <Input
-                    id="position"
-                    type="number"
-                    min="1"
-                    {...form.register("position", { valueAsNumber: true })}
-                    placeholder="1, 2, 3..."
+                  <Label htmlFor="notes">Notes</Label>
+                  <Textarea
+                    id="notes"
+                    {...form.register("notes")}
+                    placeholder="Additional notes about this score entry..."
+                    rows={3}
                   />
-                  {form.formState.errors.position && (
-                    <p className="text-sm text-destructive">
-                      {form.formState.errors.position?.message}
-                    </p>
-                  )}
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="medalType">Medal Type</Label>
-                  <Select
-                    value={form.watch("medalType") || "none"}
-                    onValueChange={(value) =>
-                      form.setValue("medalType", value as "gold" | "silver" | "bronze" | "none")
-                    }
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={createMutation.isPending || updateMutation.isPending}
                   >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select medal" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="none">None</SelectItem>
-                      <SelectItem value="gold">Gold</SelectItem>
-                      <SelectItem value="silver">Silver</SelectItem>
-                      <SelectItem value="bronze">Bronze</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="notes">Notes</Label>
-                <Textarea
-                  id="notes"
-                  {...form.register("notes")}
-                  placeholder="Additional notes about this score entry..."
-                  rows={3}
-                />
-              </div>
-
-              <DialogFooter>
-                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button
-                  type="submit"
-                  disabled={createMutation.isPending || updateMutation.isPending}
-                >
-                  {editingEntry ? "Update" : "Create"}
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+                    {editingEntry ? "Update" : "Create"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <div className="rounded-md border">
@@ -391,6 +476,7 @@ export function LeaderboardManagement() {
                   <TableRow key={entry.id}>
                     <TableCell className="font-medium">
                       {entry.community?.name || entry.communityId}
+                      {entry.team && <span className="text-muted-foreground font-normal"> ({entry.team.name})</span>}
                     </TableCell>
                     <TableCell>{entry.sport?.name || entry.sportId}</TableCell>
                     <TableCell className="font-semibold">{entry.score}</TableCell>
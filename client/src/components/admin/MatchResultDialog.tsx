@@ -0,0 +1,365 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { sideLabel } from "@/lib/draws";
+import { useToast } from "@/hooks/use-toast";
+import { MatchRecord, MatchResultInput, MatchResultType, SetScore } from "@/types";
+import { Plus, Trash2 } from "lucide-react";
+
+const resultTypeLabels: Record<MatchResultType, string> = {
+  normal: "Played",
+  walkover: "Walkover",
+  forfeit: "Forfeit",
+  abandoned: "Abandoned",
+};
+
+const NONE = "none";
+
+const emptyForm = {
+  resultType: "normal" as MatchResultType,
+  homeScore: "",
+  awayScore: "",
+  sets: [] as Array<{ home: string; away: string }>,
+  winner: NONE,
+  mvpParticipantId: NONE,
+  resultNotes: "",
+  homeFairPlay: "",
+  awayFairPlay: "",
+};
+
+function parseScore(value: string) {
+  return value.trim() === "" ? null : Number(value);
+}
+
+interface MatchResultDialogProps {
+  match: MatchRecord | null;
+  matches: MatchRecord[];
+  onOpenChange: (open: boolean) => void;
+}
+
+export function MatchResultDialog({ match, matches, onOpenChange }: MatchResultDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: participants = [] } = useQuery({
+    queryKey: ["participants"],
+    queryFn: api.listParticipants,
+    enabled: !!match,
+  });
+
+  useEffect(() => {
+    if (!match) return;
+    setForm(
+      match.resultType
+        ? {
+            resultType: match.resultType,
+            homeScore: match.homeScore?.toString() ?? "",
+            awayScore: match.awayScore?.toString() ?? "",
+            sets: (match.sets ?? []).map((set) => ({ home: set.home.toString(), away: set.away.toString() })),
+            winner: match.winnerSlot ?? NONE,
+            mvpParticipantId: match.mvpParticipantId ?? NONE,
+            resultNotes: match.resultNotes ?? "",
+            homeFairPlay: match.homeFairPlay?.toString() ?? "",
+            awayFairPlay: match.awayFairPlay?.toString() ?? "",
+          }
+        : emptyForm
+    );
+  }, [match]);
+
+  // MVP candidates: accepted participants from either side's community
+  const mvpOptions = participants.filter(
+    (participant) =>
+      participant.status === "accepted" &&
+      (participant.communityId === match?.homeCommunityId || participant.communityId === match?.awayCommunityId)
+  );
+
+  const invalidateResults = () => {
+    if (!match) return;
+    queryClient.invalidateQueries({ queryKey: ["matches", match.sportId] });
+    queryClient.invalidateQueries({ queryKey: ["draws"] });
+    queryClient.invalidateQueries({ queryKey: ["standings", match.sportId] });
+    queryClient.invalidateQueries({ queryKey: ["leaderboard"] });
+    queryClient.invalidateQueries({ queryKey: ["leaderboard-entries"] });
+    queryClient.invalidateQueries({ queryKey: ["leaderboard-sport", match.sportId] });
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (input: MatchResultInput) => api.recordMatchResult(match!.id, input),
+    onSuccess: () => {
+      invalidateResults();
+      onOpenChange(false);
+      toast({
+        title: "Success",
+        description: "Result saved",
+      });
+    },
+    onError: onError("Failed to save result"),
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => api.clearMatchResult(match!.id),
+    onSuccess: () => {
+      invalidateResults();
+      onOpenChange(false);
+      toast({
+        title: "Success",
+        description: "Result cleared",
+      });
+    },
+    onError: onError("Failed to clear result"),
+  });
+
+  const updateSet = (index: number, side: keyof SetScore, value: string) => {
+    setForm((current) => ({
+      ...current,
+      sets: current.sets.map((set, i) => (i === index ? { ...set, [side]: value } : set)),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Walkovers and forfeits have no score; an abandoned match has no winner
+    const scored = form.resultType !== "walkover" && form.resultType !== "forfeit";
+    const sets = form.sets
+      .filter((set) => set.home.trim() !== "" || set.away.trim() !== "")
+      .map((set) => ({ home: Number(set.home) || 0, away: Number(set.away) || 0 }));
+    saveMutation.mutate({
+      resultType: form.resultType,
+      homeScore: scored ? parseScore(form.homeScore) : null,
+      awayScore: scored ? parseScore(form.awayScore) : null,
+      sets: scored && sets.length > 0 ? sets : null,
+      winner: form.winner === NONE || form.resultType === "abandoned" ? null : (form.winner as "home" | "away"),
+      mvpParticipantId: form.mvpParticipantId === NONE ? null : form.mvpParticipantId,
+      resultNotes: form.resultNotes.trim() || null,
+      homeFairPlay: parseScore(form.homeFairPlay),
+      awayFairPlay: parseScore(form.awayFairPlay),
+    });
+  };
+
+  if (!match) {
+    return null;
+  }
+
+  const homeLabel = sideLabel(match, "home", matches);
+  const awayLabel = sideLabel(match, "away", matches);
+  const showScores = form.resultType !== "walkover" && form.resultType !== "forfeit";
+
+  return (
+    <Dialog open={!!match} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {homeLabel} vs {awayLabel}
+          </DialogTitle>
+          <DialogDescription>
+            Round {match.round}, match {match.matchNumber}. Saving moves the winner on through the draw and updates the
+            leaderboard.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Outcome</Label>
+              <Select
+                value={form.resultType}
+                onValueChange={(value) => setForm({ ...form, resultType: value as MatchResultType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(resultTypeLabels) as MatchResultType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {resultTypeLabels[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.resultType !== "abandoned" && (
+              <div className="space-y-2">
+                <Label>Winner</Label>
+                <Select value={form.winner} onValueChange={(value) => setForm({ ...form, winner: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>From the score</SelectItem>
+                    <SelectItem value="home">{homeLabel}</SelectItem>
+                    <SelectItem value="away">{awayLabel}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {showScores && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="homeScore">{homeLabel}</Label>
+                  <Input
+                    id="homeScore"
+                    type="number"
+                    min={0}
+                    value={form.homeScore}
+                    onChange={(e) => setForm({ ...form, homeScore: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="awayScore">{awayLabel}</Label>
+                  <Input
+                    id="awayScore"
+                    type="number"
+                    min={0}
+                    value={form.awayScore}
+                    onChange={(e) => setForm({ ...form, awayScore: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Sets or periods</Label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setForm({ ...form, sets: [...form.sets, { home: "", away: "" }] })}
+                    disabled={form.sets.length >= 9}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Set
+                  </Button>
+                </div>
+                {form.sets.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Optional. Leave the score blank to count sets won.
+                  </p>
+                ) : (
+                  form.sets.map((set, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="w-12 text-sm text-muted-foreground">Set {index + 1}</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={set.home}
+                        onChange={(e) => updateSet(index, "home", e.target.value)}
+                        aria-label={`Set ${index + 1} ${homeLabel}`}
+                      />
+                      <Input
+                        type="number"
+                        min={0}
+                        value={set.away}
+                        onChange={(e) => updateSet(index, "away", e.target.value)}
+                        aria-label={`Set ${index + 1} ${awayLabel}`}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setForm({ ...form, sets: form.sets.filter((_, i) => i !== index) })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+            </>
+          )}
+
+          {match.bracket === "group" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="homeFairPlay">{homeLabel} fair play points</Label>
+                <Input
+                  id="homeFairPlay"
+                  type="number"
+                  min={0}
+                  value={form.homeFairPlay}
+                  onChange={(e) => setForm({ ...form, homeFairPlay: e.target.value })}
+                  placeholder="Cards, misconduct"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="awayFairPlay">{awayLabel} fair play points</Label>
+                <Input
+                  id="awayFairPlay"
+                  type="number"
+                  min={0}
+                  value={form.awayFairPlay}
+                  onChange={(e) => setForm({ ...form, awayFairPlay: e.target.value })}
+                  placeholder="Cards, misconduct"
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>MVP</Label>
+            <Select value={form.mvpParticipantId} onValueChange={(value) => setForm({ ...form, mvpParticipantId: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No MVP</SelectItem>
+                {mvpOptions.map((participant) => (
+                  <SelectItem key={participant.id} value={participant.id}>
+                    {participant.firstName} {participant.lastName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="resultNotes">Notes</Label>
+            <Textarea
+              id="resultNotes"
+              value={form.resultNotes}
+              onChange={(e) => setForm({ ...form, resultNotes: e.target.value })}
+              rows={2}
+              placeholder="e.g., Won on penalties, abandoned due to weather"
+            />
+          </div>
+
+          <DialogFooter className="gap-2">
+            {match.resultType && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => clearMutation.mutate()}
+                disabled={clearMutation.isPending}
+                className="sm:mr-auto"
+              >
+                Clear Result
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              Save Result
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
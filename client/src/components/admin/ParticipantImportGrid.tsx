@@ -0,0 +1,119 @@
+import { Fragment } from "react";
+import type { ParticipantImportData, ParticipantImportField, ParticipantImportRow } from "@/types";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { AlertCircle, AlertTriangle, Pencil } from "lucide-react";
+
+const columns: Array<{ field: ParticipantImportField; label: string; width: string }> = [
+  { field: "firstName", label: "First Name", width: "min-w-[8rem]" },
+  { field: "middleName", label: "Middle Name", width: "min-w-[8rem]" },
+  { field: "lastName", label: "Last Name", width: "min-w-[8rem]" },
+  { field: "gender", label: "Gender", width: "min-w-[5rem]" },
+  { field: "dob", label: "Date of Birth", width: "min-w-[7rem]" },
+  { field: "email", label: "Email", width: "min-w-[12rem]" },
+  { field: "phone", label: "Phone", width: "min-w-[8rem]" },
+  { field: "username", label: "Username", width: "min-w-[8rem]" },
+  { field: "sports", label: "Sports", width: "min-w-[12rem]" },
+  { field: "community", label: "Community", width: "min-w-[8rem]" },
+  { field: "paymentDetails", label: "Payment Details", width: "min-w-[10rem]" },
+  { field: "nextOfKinFirstName", label: "Next of Kin First Name", width: "min-w-[8rem]" },
+  { field: "nextOfKinMiddleName", label: "Next of Kin Middle Name", width: "min-w-[8rem]" },
+  { field: "nextOfKinLastName", label: "Next of Kin Last Name", width: "min-w-[8rem]" },
+  { field: "nextOfKinPhone", label: "Next of Kin Phone", width: "min-w-[8rem]" },
+];
+
+interface ParticipantImportGridProps {
+  rows: ParticipantImportRow[];
+  edits: Record<number, Partial<ParticipantImportData>>;
+  selectedRows: Set<number>;
+  onEdit: (row: number, field: ParticipantImportField, value: string) => void;
+  onToggle: (row: number, selected: boolean) => void;
+}
+
+/**
+ * Checked rows of a bulk upload. Every value can be corrected in place; rows with errors
+ * cannot be ticked for import until they are rechecked without errors.
+ */
+export function ParticipantImportGrid({ rows, edits, selectedRows, onEdit, onToggle }: ParticipantImportGridProps) {
+  return (
+    <div className="border rounded-lg max-h-[55vh] overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10" />
+            <TableHead>Row</TableHead>
+            {columns.map((column) => (
+              <TableHead key={column.field} className="whitespace-nowrap">
+                {column.label}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => {
+            const edited = !!edits[row.row];
+            const hasErrors = row.errors.length > 0;
+            return (
+              <Fragment key={row.row}>
+                <TableRow
+                  className={
+                    hasErrors
+                      ? "bg-red-50 dark:bg-red-900/10"
+                      : row.warnings.length > 0
+                        ? "bg-yellow-50 dark:bg-yellow-900/10"
+                        : ""
+                  }
+                >
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedRows.has(row.row)}
+                      disabled={hasErrors}
+                      onCheckedChange={(checked) => onToggle(row.row, checked === true)}
+                      aria-label={`Import row ${row.row}`}
+                    />
+                  </TableCell>
+                  <TableCell className="tabular-nums">{row.row}</TableCell>
+                  {columns.map((column) => (
+                    <TableCell key={column.field} className="p-1">
+                      <Input
+                        value={edits[row.row]?.[column.field] ?? row.data[column.field]}
+                        onChange={(e) => onEdit(row.row, column.field, e.target.value)}
+                        className={`h-8 text-xs ${column.width}`}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+                {(hasErrors || row.warnings.length > 0 || edited) && (
+                  <TableRow className="border-b-2">
+                    <TableCell />
+                    <TableCell colSpan={columns.length + 1} className="py-2 text-xs space-y-1">
+                      {edited && (
+                        <div className="flex items-center gap-1 text-muted-foreground">
+                          <Pencil className="h-3 w-3" />
+                          Changed - recheck to see if this row can be imported
+                        </div>
+                      )}
+                      {row.errors.map((error) => (
+                        <div key={error} className="flex items-center gap-1 text-red-600 dark:text-red-400">
+                          <AlertCircle className="h-3 w-3 shrink-0" />
+                          {error}
+                        </div>
+                      ))}
+                      {row.warnings.map((warning) => (
+                        <div key={warning} className="flex items-center gap-1 text-yellow-700 dark:text-yellow-400">
+                          <AlertTriangle className="h-3 w-3 shrink-0" />
+                          {warning}
+                        </div>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </Fragment>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/api";
+import { PointsRules, PointsTable } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SportSelect } from "@/components/ui/sport-select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+
+type MedalColumn = "gold" | "silver" | "bronze" | "participation";
+const medalColumns: MedalColumn[] = ["gold", "silver", "bronze", "participation"];
+
+interface PointsRowProps {
+  label: string;
+  table: PointsTable;
+  onChange: (table: PointsTable) => void;
+  onRemove?: () => void;
+}
+
+function PointsRow({ label, table, onChange, onRemove }: PointsRowProps) {
+  // Keep the raw text so the user can type commas freely
+  const [placesText, setPlacesText] = useState(table.places.join(", "));
+
+  const handlePlacesChange = (value: string) => {
+    setPlacesText(value);
+    const places = value
+      .split(",")
+      .map((part) => part.trim())
+      .filter((part) => part !== "")
+      .map((part) => Math.max(0, parseInt(part, 10) || 0));
+    onChange({ ...table, places });
+  };
+
+  return (
+    <TableRow>
+      <TableCell className="font-medium">{label}</TableCell>
+      {medalColumns.map((column) => (
+        <TableCell key={column}>
+          <Input
+            type="number"
+            min="0"
+            className="w-20"
+            value={table[column]}
+            onChange={(e) => onChange({ ...table, [column]: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+          />
+        </TableCell>
+      ))}
+      <TableCell>
+        <Input value={placesText} onChange={(e) => handlePlacesChange(e.target.value)} placeholder="e.g. 4, 3, 2" />
+      </TableCell>
+      <TableCell className="text-right">
+        {onRemove && (
+          <Button type="button" variant="ghost" size="sm" onClick={onRemove}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+interface PointsRulesEditorProps {
+  value: PointsRules;
+  onChange: (rules: PointsRules) => void;
+}
+
+export function PointsRulesEditor({ value, onChange }: PointsRulesEditorProps) {
+  const [sportToAdd, setSportToAdd] = useState("");
+
+  const { data: sports = [] } = useQuery({
+    queryKey: ["sports"],
+    queryFn: api.listSports,
+  });
+
+  const sportTypes = value.sportTypes ?? {};
+  const sportOverrides = value.sports ?? {};
+
+  const setSportType = (type: "team" | "individual", table: PointsTable | undefined) => {
+    onChange({ ...value, sportTypes: { ...sportTypes, [type]: table } });
+  };
+
+  const setSport = (sportId: string, table: PointsTable | undefined) => {
+    const next = { ...sportOverrides };
+    if (table) {
+      next[sportId] = table;
+    } else {
+      delete next[sportId];
+    }
+    onChange({ ...value, sports: next });
+  };
+
+  const getSportName = (sportId: string) => sports.find((s) => s.id === sportId)?.name || sportId;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label>Points Table</Label>
+        <p className="text-sm text-muted-foreground">
+          Leaderboard scores are calculated from these points. A sport override beats a sport type override, which beats the default.
+          Places lists the points for 4th place onwards; anything else earns participation points.
+        </p>
+      </div>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Applies To</TableHead>
+              <TableHead>Gold</TableHead>
+              <TableHead>Silver</TableHead>
+              <TableHead>Bronze</TableHead>
+              <TableHead>Participation</TableHead>
+              <TableHead>Places (4th+)</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <PointsRow label="Default" table={value.default} onChange={(table) => onChange({ ...value, default: table })} />
+            {(["team", "individual"] as const).map((type) => {
+              const table = sportTypes[type];
+              return table ? (
+                <PointsRow
+                  key={type}
+                  label={type === "team" ? "Team sports" : "Individual sports"}
+                  table={table}
+                  onChange={(next) => setSportType(type, next)}
+                  onRemove={() => setSportType(type, undefined)}
+                />
+              ) : null;
+            })}
+            {Object.entries(sportOverrides).map(([sportId, table]) => (
+              <PointsRow
+                key={sportId}
+                label={getSportName(sportId)}
+                table={table}
+                onChange={(next) => setSport(sportId, next)}
+                onRemove={() => setSport(sportId, undefined)}
+              />
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {!sportTypes.team && (
+          <Button type="button" variant="outline" size="sm" onClick={() => setSportType("team", { ...value.default })}>
+            <Plus className="mr-2 h-4 w-4" />
+            Team Sports
+          </Button>
+        )}
+        {!sportTypes.individual && (
+          <Button type="button" variant="outline" size="sm" onClick={() => setSportType("individual", { ...value.default })}>
+            <Plus className="mr-2 h-4 w-4" />
+            Individual Sports
+          </Button>
+        )}
+        <SportSelect
+          value={sportToAdd}
+          onValueChange={setSportToAdd}
+          placeholder="Override for a sport..."
+          showAllSports
+          className="w-56"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={!sportToAdd || !!sportOverrides[sportToAdd]}
+          onClick={() => {
+            setSport(sportToAdd, { ...value.default });
+            setSportToAdd("");
+          }}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Sport
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,495 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api } from "@/api";
+import { Shift, ShiftInput } from "@/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { SportSelect } from "@/components/ui/sport-select";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Trash2, UserPlus, X } from "lucide-react";
+
+const NONE = "none";
+
+// <input type="datetime-local"> works in local time without a zone suffix
+const toLocalInput = (value: string) => format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
+function formatShiftTime(shift: Shift) {
+  const start = new Date(shift.startTime);
+  const end = new Date(shift.endTime);
+  const sameDay = start.toDateString() === end.toDateString();
+  return `${format(start, "EEE d MMM, HH:mm")} – ${format(end, sameDay ? "HH:mm" : "EEE d MMM, HH:mm")}`;
+}
+
+export function ShiftManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [departmentFilter, setDepartmentFilter] = useState(NONE);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingShift, setEditingShift] = useState<Shift | null>(null);
+  const [shiftToDelete, setShiftToDelete] = useState<Shift | null>(null);
+  const [assigningShift, setAssigningShift] = useState<Shift | null>(null);
+  const [selectedVolunteerIds, setSelectedVolunteerIds] = useState<string[]>([]);
+  const [title, setTitle] = useState("");
+  const [departmentId, setDepartmentId] = useState(NONE);
+  const [sportId, setSportId] = useState(NONE);
+  const [venue, setVenue] = useState("");
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [requiredCount, setRequiredCount] = useState("1");
+  const [notes, setNotes] = useState("");
+
+  const filters = { departmentId: departmentFilter === NONE ? undefined : departmentFilter };
+
+  const { data: shifts = [], isLoading } = useQuery({
+    queryKey: ["shifts", filters],
+    queryFn: () => api.listShifts(filters),
+  });
+
+  const { data: departments = [] } = useQuery({
+    queryKey: ["departments"],
+    queryFn: api.listDepartments,
+  });
+
+  const { data: volunteers = [] } = useQuery({
+    queryKey: ["volunteers"],
+    queryFn: () => api.listVolunteers(),
+  });
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateShifts = () => {
+    queryClient.invalidateQueries({ queryKey: ["shifts"] });
+    queryClient.invalidateQueries({ queryKey: ["departments"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (input: ShiftInput) =>
+      editingShift ? api.updateShift(editingShift.id, input) : api.createShift(input),
+    onSuccess: () => {
+      invalidateShifts();
+      setDialogOpen(false);
+      toast({
+        title: "Success",
+        description: editingShift ? "Shift updated successfully" : "Shift created successfully",
+      });
+    },
+    onError: onError("Failed to save shift"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.deleteShift(id),
+    onSuccess: () => {
+      invalidateShifts();
+      setShiftToDelete(null);
+      toast({
+        title: "Success",
+        description: "Shift deleted successfully",
+      });
+    },
+    onError: onError("Failed to delete shift"),
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: ({ shift, volunteerIds }: { shift: Shift; volunteerIds: string[] }) =>
+      api.assignShiftVolunteers(shift.id, volunteerIds),
+    onSuccess: (_, { volunteerIds }) => {
+      invalidateShifts();
+      setAssigningShift(null);
+      toast({
+        title: "Success",
+        description: `${volunteerIds.length} volunteer(s) assigned to shift`,
+      });
+    },
+    onError: onError("Failed to assign volunteers"),
+  });
+
+  const unassignMutation = useMutation({
+    mutationFn: ({ shiftId, volunteerId }: { shiftId: string; volunteerId: string }) =>
+      api.unassignShiftVolunteer(shiftId, volunteerId),
+    onSuccess: () => {
+      invalidateShifts();
+      toast({
+        title: "Success",
+        description: "Volunteer removed from shift",
+      });
+    },
+    onError: onError("Failed to remove volunteer"),
+  });
+
+  const handleOpenDialog = (shift?: Shift) => {
+    setEditingShift(shift ?? null);
+    setTitle(shift?.title ?? "");
+    setDepartmentId(shift?.departmentId ?? (departmentFilter === NONE ? NONE : departmentFilter));
+    setSportId(shift?.sportId ?? NONE);
+    setVenue(shift?.venue ?? "");
+    setStartTime(shift ? toLocalInput(shift.startTime) : "");
+    setEndTime(shift ? toLocalInput(shift.endTime) : "");
+    setRequiredCount(String(shift?.requiredCount ?? 1));
+    setNotes(shift?.notes ?? "");
+    setDialogOpen(true);
+  };
+
+  const handleOpenAssign = (shift: Shift) => {
+    setSelectedVolunteerIds([]);
+    setAssigningShift(shift);
+  };
+
+  const toggleVolunteer = (volunteerId: string, checked: boolean) => {
+    setSelectedVolunteerIds((current) =>
+      checked ? [...current, volunteerId] : current.filter((id) => id !== volunteerId)
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const count = parseInt(requiredCount, 10);
+    const error = !title.trim()
+      ? "Shift title is required"
+      : departmentId === NONE && sportId === NONE
+        ? "Choose a department or a sport"
+        : !startTime || !endTime
+          ? "Start and end times are required"
+          : new Date(endTime) <= new Date(startTime)
+            ? "A shift must end after it starts"
+            : !(count >= 1)
+              ? "Required volunteers must be at least 1"
+              : null;
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate({
+      title: title.trim(),
+      departmentId: departmentId === NONE ? null : departmentId,
+      sportId: sportId === NONE ? null : sportId,
+      venue: venue.trim() || null,
+      startTime: new Date(startTime).toISOString(),
+      endTime: new Date(endTime).toISOString(),
+      requiredCount: count,
+      notes: notes.trim() || null,
+    });
+  };
+
+  const assignedIds = new Set(assigningShift?.assignments?.map((assignment) => assignment.volunteerId) ?? []);
+  // Volunteers from the shift's own department are listed first
+  const assignableVolunteers = volunteers
+    .filter((volunteer) => !assignedIds.has(volunteer.id))
+    .sort((a, b) => {
+      const aInDepartment = a.departmentId === assigningShift?.departmentId ? 0 : 1;
+      const bInDepartment = b.departmentId === assigningShift?.departmentId ? 0 : 1;
+      return aInDepartment - bInDepartment;
+    });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Shifts ({shifts.length})</CardTitle>
+        <div className="flex gap-2">
+          <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>All departments</SelectItem>
+              {departments.map((department) => (
+                <SelectItem key={department.id} value={department.id}>
+                  {department.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={() => handleOpenDialog()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Shift
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Shift</TableHead>
+                <TableHead>Department / Sport</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead>Venue</TableHead>
+                <TableHead>Staffing</TableHead>
+                <TableHead>Volunteers</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                Array.from({ length: 3 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-24" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-40" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-24" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-12" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-40" /></TableCell>
+                    <TableCell className="text-right"><Skeleton className="h-8 w-24 ml-auto" /></TableCell>
+                  </TableRow>
+                ))
+              ) : shifts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    No shifts scheduled yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                shifts.map((shift) => {
+                  const assignments = shift.assignments ?? [];
+                  return (
+                    <TableRow key={shift.id}>
+                      <TableCell className="font-medium">{shift.title}</TableCell>
+                      <TableCell>
+                        {[shift.department?.name, shift.sport?.name].filter(Boolean).join(" / ") || "-"}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatShiftTime(shift)}</TableCell>
+                      <TableCell>{shift.venue || "-"}</TableCell>
+                      <TableCell>
+                        <Badge variant={assignments.length >= shift.requiredCount ? "default" : "destructive"}>
+                          {assignments.length}/{shift.requiredCount}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {assignments.length > 0 ? (
+                            assignments.map((assignment) => (
+                              <Badge key={assignment.id} variant="secondary" className="gap-1">
+                                {assignment.volunteer.firstName} {assignment.volunteer.lastName}
+                                <button
+                                  type="button"
+                                  title="Remove from shift"
+                                  onClick={() =>
+                                    unassignMutation.mutate({ shiftId: shift.id, volunteerId: assignment.volunteerId })
+                                  }
+                                  className="text-muted-foreground hover:text-foreground"
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              </Badge>
+                            ))
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" title="Assign volunteers" onClick={() => handleOpenAssign(shift)}>
+                            <UserPlus className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => handleOpenDialog(shift)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="destructive" size="sm" onClick={() => setShiftToDelete(shift)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingShift ? "Edit Shift" : "Create Shift"}</DialogTitle>
+            <DialogDescription>
+              A shift belongs to a department, a sport, or both. Times are in your local time zone.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="shiftTitle">Title *</Label>
+              <Input
+                id="shiftTitle"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="e.g., First aid tent - morning"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Department</Label>
+                <Select value={departmentId} onValueChange={setDepartmentId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No department</SelectItem>
+                    {departments.map((department) => (
+                      <SelectItem key={department.id} value={department.id}>
+                        {department.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Sport</Label>
+                <SportSelect
+                  value={sportId}
+                  onValueChange={setSportId}
+                  placeholder="Select sport"
+                  includeNoneOption={true}
+                  noneOptionLabel="No sport"
+                  noneOptionValue={NONE}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="shiftStart">Starts *</Label>
+                <Input
+                  id="shiftStart"
+                  type="datetime-local"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shiftEnd">Ends *</Label>
+                <Input
+                  id="shiftEnd"
+                  type="datetime-local"
+                  value={endTime}
+                  onChange={(e) => setEndTime(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="shiftVenue">Venue</Label>
+                <Input id="shiftVenue" value={venue} onChange={(e) => setVenue(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shiftRequired">Volunteers Needed *</Label>
+                <Input
+                  id="shiftRequired"
+                  type="number"
+                  min={1}
+                  value={requiredCount}
+                  onChange={(e) => setRequiredCount(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="shiftNotes">Notes</Label>
+              <Textarea id="shiftNotes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {editingShift ? "Update" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!assigningShift} onOpenChange={(open) => !open && setAssigningShift(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Assign Volunteers</DialogTitle>
+            <DialogDescription>
+              {assigningShift && `${assigningShift.title}, ${formatShiftTime(assigningShift)}. `}
+              Volunteers already on an overlapping shift can't be assigned.
+            </DialogDescription>
+          </DialogHeader>
+          {assignableVolunteers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Every volunteer is already on this shift.</p>
+          ) : (
+            <div className="rounded-md border p-3 space-y-2 max-h-80 overflow-y-auto">
+              {assignableVolunteers.map((volunteer) => (
+                <label key={volunteer.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={selectedVolunteerIds.includes(volunteer.id)}
+                    onCheckedChange={(checked) => toggleVolunteer(volunteer.id, checked === true)}
+                  />
+                  {volunteer.firstName} {volunteer.lastName}
+                  {volunteer.department && (
+                    <Badge variant="outline" className="ml-1">{volunteer.department.name}</Badge>
+                  )}
+                </label>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setAssigningShift(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={selectedVolunteerIds.length === 0 || assignMutation.isPending}
+              onClick={() =>
+                assigningShift && assignMutation.mutate({ shift: assigningShift, volunteerIds: selectedVolunteerIds })
+              }
+            >
+              {assignMutation.isPending ? "Assigning..." : `Assign ${selectedVolunteerIds.length} Volunteer(s)`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!shiftToDelete} onOpenChange={(open) => !open && setShiftToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete shift?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will delete "{shiftToDelete?.title}" and remove everyone assigned to it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => shiftToDelete && deleteMutation.mutate(shiftToDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
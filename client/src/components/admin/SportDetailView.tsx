@@ -6,14 +6,22 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Edit, Save, X } from "lucide-react";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { VenueSelect } from "@/components/ui/venue-select";
+import { DrawBracket } from "@/components/DrawBracket";
+import { MatchResultDialog } from "@/components/admin/MatchResultDialog";
+import { StandingsTable } from "@/components/StandingsTable";
+import { drawFormatLabels, tieBreakerLabels } from "@/lib/draws";
+import { useToast } from "@/hooks/use-toast";
+import { DrawEntrantType, DrawFormat, MatchRecord, SportRecord, TieBreaker } from "@/types";
+import { ArrowDown, ArrowUp, Edit, Plus, Save, X, Shuffle, Trash2 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 
 const sportUpdateSchema = z.object({
-  venue: z.string().optional(),
+  venueId: z.string().optional(),
   timings: z.string().optional(),
   date: z.string().optional(),
   gender: z.enum(["male", "female", "mixed"]).optional().nullable(),
@@ -41,7 +49,7 @@ export function SportDetailView() {
   useEffect(() => {
     if (sport?.id && !isEditing) {
       form.reset({
-        venue: sport.venue ?? "",
+        venueId: sport.venueId ?? "",
         timings: sport.timings ?? "",
         date: sport.date ?? "",
         gender: sport.gender ?? null,
@@ -58,7 +66,7 @@ export function SportDetailView() {
       }
       
       const sportData: any = {};
-      if (data.venue !== undefined) sportData.venue = data.venue?.trim() || null;
+      if (data.venueId !== undefined) sportData.venueId = data.venueId || null;
       if (data.timings !== undefined) sportData.timings = data.timings?.trim() || null;
       if (data.date !== undefined) sportData.date = data.date || null;
       if (data.gender !== undefined) sportData.gender = data.gender ?? null;
@@ -91,7 +99,7 @@ export function SportDetailView() {
   const handleCancel = () => {
     if (sport?.id) {
       form.reset({
-        venue: sport.venue ?? "",
+        venueId: sport.venueId ?? "",
         timings: sport.timings ?? "",
         date: sport.date ?? "",
         gender: sport.gender ?? null,
@@ -103,7 +111,7 @@ export function SportDetailView() {
   };
 
   return (
-    <div className="max-w-3xl mx-auto">
+    <div className="max-w-3xl mx-auto space-y-6">
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>{sport.name} - Details</CardTitle>
@@ -142,7 +150,12 @@ export function SportDetailView() {
               <div className="space-y-2">
                 <Label htmlFor="venue">Venue</Label>
                 {isEditing ? (
-                  <Input id="venue" {...form.register("venue")} placeholder="Venue" />
+                  <VenueSelect
+                    value={form.watch("venueId")}
+                    onValueChange={(value) => form.setValue("venueId", value)}
+                    placeholder="Select a venue"
+                    includeNoneOption
+                  />
                 ) : (
                   <Input value={sport.venue || "Not set"} disabled className="bg-muted" />
                 )}
@@ -214,6 +227,267 @@ export function SportDetailView() {
           </form>
         </CardContent>
       </Card>
+
+      <SportDrawCard sport={sport} />
+      <SportStandingsCard sport={sport} />
     </div>
   );
 }
+
+function SportDrawCard({ sport }: { sport: SportRecord }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [format, setFormat] = useState<DrawFormat>("single_elimination");
+  const [entrantType, setEntrantType] = useState<DrawEntrantType>(sport.type === "team" ? "team" : "participant");
+  const [groupCount, setGroupCount] = useState(1);
+  const [confirmReplaceOpen, setConfirmReplaceOpen] = useState(false);
+  const [resultMatch, setResultMatch] = useState<MatchRecord | null>(null);
+
+  const { data: matches = [] } = useQuery({
+    queryKey: ["matches", sport.id],
+    queryFn: () => api.listMatches(sport.id),
+  });
+
+  const invalidateDraws = () => {
+    queryClient.invalidateQueries({ queryKey: ["matches", sport.id] });
+    queryClient.invalidateQueries({ queryKey: ["draws"] });
+    queryClient.invalidateQueries({ queryKey: ["standings", sport.id] });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: () =>
+      api.generateDraw({
+        sportId: sport.id,
+        format,
+        entrantType,
+        groupCount: format === "round_robin" ? groupCount : undefined,
+        replace: matches.length > 0,
+      }),
+    onSuccess: (generated) => {
+      invalidateDraws();
+      setConfirmReplaceOpen(false);
+      toast({
+        title: "Draw generated",
+        description: `${generated.length} matches created`,
+      });
+    },
+    onError: (error: Error) => {
+      setConfirmReplaceOpen(false);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate draw",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => api.deleteDraw(sport.id),
+    onSuccess: () => {
+      invalidateDraws();
+      toast({
+        title: "Success",
+        description: "Draw deleted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete draw",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleGenerate = () => {
+    if (matches.length > 0) {
+      setConfirmReplaceOpen(true);
+    } else {
+      generateMutation.mutate();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Draw{matches.length > 0 ? ` - ${drawFormatLabels[matches[0].format]}` : ""}</CardTitle>
+        {matches.length > 0 && (
+          <Button variant="outline" size="sm" onClick={() => deleteMutation.mutate()} disabled={deleteMutation.isPending}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete Draw
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as DrawFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="single_elimination">{drawFormatLabels.single_elimination}</SelectItem>
+                <SelectItem value="double_elimination">{drawFormatLabels.double_elimination}</SelectItem>
+                <SelectItem value="round_robin">{drawFormatLabels.round_robin}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Entrants</Label>
+            <Select value={entrantType} onValueChange={(value) => setEntrantType(value as DrawEntrantType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sport.type === "team" && <SelectItem value="team">Teams</SelectItem>}
+                <SelectItem value="community">Communities</SelectItem>
+                <SelectItem value="participant">Individual participants</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {format === "round_robin" && (
+            <div className="space-y-2">
+              <Label htmlFor="groupCount">Groups</Label>
+              <Input
+                id="groupCount"
+                type="number"
+                min={1}
+                value={groupCount}
+                onChange={(e) => setGroupCount(Math.max(1, Number(e.target.value) || 1))}
+              />
+            </div>
+          )}
+        </div>
+        <Button onClick={handleGenerate} disabled={generateMutation.isPending}>
+          <Shuffle className="mr-2 h-4 w-4" />
+          {generateMutation.isPending ? "Generating..." : matches.length > 0 ? "Regenerate Draw" : "Generate Draw"}
+        </Button>
+
+        {matches.length > 0 && (
+          <p className="text-sm text-muted-foreground">Select a match to enter or correct its result.</p>
+        )}
+        <DrawBracket
+          matches={matches}
+          onMatchSelect={(match) => {
+            if (match.homeCommunityId && match.awayCommunityId) {
+              setResultMatch(match);
+            }
+          }}
+        />
+      </CardContent>
+
+      <MatchResultDialog match={resultMatch} matches={matches} onOpenChange={(open) => !open && setResultMatch(null)} />
+
+      <AlertDialog open={confirmReplaceOpen} onOpenChange={setConfirmReplaceOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace existing draw?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The current draw and all of its matches will be discarded and a new draw generated from the accepted entrants.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => generateMutation.mutate()}>Replace</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+const defaultTieBreakers: TieBreaker[] = ["head_to_head", "goal_difference", "goals_scored"];
+
+function SportStandingsCard({ sport }: { sport: SportRecord }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [tieBreakers, setTieBreakers] = useState<TieBreaker[]>(sport.tieBreakers ?? defaultTieBreakers);
+
+  useEffect(() => {
+    setTieBreakers(sport.tieBreakers ?? defaultTieBreakers);
+  }, [sport.tieBreakers]);
+
+  const { data: matches = [] } = useQuery({
+    queryKey: ["matches", sport.id],
+    queryFn: () => api.listMatches(sport.id),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => api.updateSport(sport.id, { tieBreakers }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sport", sport.id] });
+      queryClient.invalidateQueries({ queryKey: ["standings", sport.id] });
+      queryClient.invalidateQueries({ queryKey: ["leaderboard"] });
+      toast({
+        title: "Success",
+        description: "Tie-breakers updated",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update tie-breakers",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!matches.some((match) => match.bracket === "group")) {
+    return null;
+  }
+
+  const move = (index: number, offset: number) => {
+    const next = [...tieBreakers];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setTieBreakers(next);
+  };
+
+  const unused = (Object.keys(tieBreakerLabels) as TieBreaker[]).filter((tieBreaker) => !tieBreakers.includes(tieBreaker));
+  const changed = tieBreakers.join() !== (sport.tieBreakers ?? defaultTieBreakers).join();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Group Standings</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Tie-breakers</Label>
+          <p className="text-sm text-muted-foreground">Applied in this order when entrants are level on points.</p>
+          <div className="space-y-2">
+            {tieBreakers.map((tieBreaker, index) => (
+              <div key={tieBreaker} className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm">
+                <span className="w-6 text-muted-foreground">{index + 1}.</span>
+                <span className="flex-1">{tieBreakerLabels[tieBreaker]}</span>
+                <Button variant="ghost" size="sm" onClick={() => move(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => move(index, 1)} disabled={index === tieBreakers.length - 1}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setTieBreakers(tieBreakers.filter((t) => t !== tieBreaker))}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {unused.map((tieBreaker) => (
+              <Button key={tieBreaker} variant="outline" size="sm" onClick={() => setTieBreakers([...tieBreakers, tieBreaker])}>
+                <Plus className="mr-2 h-4 w-4" />
+                {tieBreakerLabels[tieBreaker]}
+              </Button>
+            ))}
+            <Button size="sm" onClick={() => saveMutation.mutate()} disabled={!changed || saveMutation.isPending}>
+              <Save className="mr-2 h-4 w-4" />
+              Save Tie-breakers
+            </Button>
+          </div>
+        </div>
+
+        <StandingsTable sportId={sport.id} />
+      </CardContent>
+    </Card>
+  );
+}
@@ -45,6 +45,7 @@ import {
 import { Plus, Edit, Trash2, ChevronDown, ChevronRight } from "lucide-react";
 import { ExportButton } from "@/components/ui/export-button";
 import { SportSelect } from "@/components/ui/sport-select";
+import { VenueSelect } from "@/components/ui/venue-select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -55,13 +56,22 @@ import { X } from "lucide-react";
 
 const usernamePattern = /^[a-zA-Z0-9_.-]{3,30}$/;
 
+const optionalCount = z.preprocess(
+  (val) => {
+    if (val === "" || val === null || val === undefined) return undefined;
+    const num = Number(val);
+    return isNaN(num) ? undefined : num;
+  },
+  z.number().int("Must be a whole number").positive("Must be at least 1").optional()
+);
+
 const sportSchema = z.object({
   name: z.string().min(1, "Name is required"),
   type: z.enum(["individual", "team"]),
   requiresTeamName: z.boolean(),
   parentId: z.string().optional().nullable(),
   active: z.boolean(),
-  venue: z.string().optional(),
+  venueId: z.string().optional(),
   timings: z.string().optional(),
   date: z.string().optional(),
   gender: z.enum(["male", "female", "mixed"]).optional().nullable(),
@@ -81,6 +91,10 @@ const sportSchema = z.object({
     },
     z.number().optional()
   ),
+  maxPerCommunity: optionalCount,
+  maxTotal: optionalCount,
+  minTeamSize: optionalCount,
+  maxTeamSize: optionalCount,
   rules: z.string().optional(),
   notes: z.string().max(500).optional().nullable(),
   convenorName: z.string().optional(),
@@ -138,12 +152,16 @@ export function SportManagement() {
       requiresTeamName: false,
       parentId: null,
       active: true,
-      venue: "",
+      venueId: "",
       timings: "",
       date: "",
       gender: null,
       ageLimitMin: "" as any,
       ageLimitMax: "" as any,
+      maxPerCommunity: undefined,
+      maxTotal: undefined,
+      minTeamSize: undefined,
+      maxTeamSize: undefined,
       rules: "",
       notes: "",
       convenorName: "",
@@ -165,7 +183,7 @@ export function SportManagement() {
         requiresTeamName: data.requiresTeamName,
         parentId: data.parentId ?? null,
         active: data.active,
-        venue: data.venue?.trim() || null,
+        venueId: data.venueId || null,
         timings: data.timings?.trim() || null,
         // Only include date if it's a non-empty string, otherwise set to null to clear it
         date: data.date?.trim() && data.date.trim().length > 0 ? data.date.trim() : null,
@@ -184,6 +202,10 @@ export function SportManagement() {
                 : null,
             }
           : null,
+        maxPerCommunity: data.maxPerCommunity ?? null,
+        maxTotal: data.maxTotal ?? null,
+        minTeamSize: data.minTeamSize ?? null,
+        maxTeamSize: data.maxTeamSize ?? null,
         rules: data.rules?.trim() || null,
         notes: data.notes?.trim() && data.notes.trim().length > 0 ? data.notes.trim() : null,
       };
@@ -238,7 +260,7 @@ export function SportManagement() {
       if (data.requiresTeamName !== undefined) sportData.requiresTeamName = data.requiresTeamName;
       if (data.parentId !== undefined) sportData.parentId = data.parentId ?? null;
       if (data.active !== undefined) sportData.active = data.active;
-      if (data.venue !== undefined) sportData.venue = data.venue?.trim() || null;
+      if (data.venueId !== undefined) sportData.venueId = data.venueId || null;
       if (data.timings !== undefined) sportData.timings = data.timings?.trim() || null;
       // Only include date if it's a non-empty string, otherwise set to null to clear it
       if (data.date !== undefined) {
@@ -266,6 +288,12 @@ export function SportManagement() {
         sportData.ageLimit = null;
       }
       
+      // Empty capacity fields clear the limit
+      sportData.maxPerCommunity = data.maxPerCommunity ?? null;
+      sportData.maxTotal = data.maxTotal ?? null;
+      sportData.minTeamSize = data.minTeamSize ?? null;
+      sportData.maxTeamSize = data.maxTeamSize ?? null;
+
       if (data.rules !== undefined) sportData.rules = data.rules?.trim() || null;
       if (data.notes !== undefined) sportData.notes = data.notes?.trim() && data.notes.trim().length > 0 ? data.notes.trim() : null;
       
@@ -390,12 +418,16 @@ export function SportManagement() {
         requiresTeamName: sport.requiresTeamName ?? false,
         parentId: sport.parentId ?? null,
         active: sport.active ?? true,
-        venue: sport.venue ?? "",
+        venueId: sport.venueId ?? "",
         timings: sport.timings ?? "",
         date: formattedDate,
         gender: sport.gender ?? null,
         ageLimitMin: (sport.ageLimit?.min !== undefined && sport.ageLimit?.min !== null) ? String(sport.ageLimit.min) : "" as any,
         ageLimitMax: (sport.ageLimit?.max !== undefined && sport.ageLimit?.max !== null) ? String(sport.ageLimit.max) : "" as any,
+        maxPerCommunity: sport.maxPerCommunity ?? undefined,
+        maxTotal: sport.maxTotal ?? undefined,
+        minTeamSize: sport.minTeamSize ?? undefined,
+        maxTeamSize: sport.maxTeamSize ?? undefined,
         rules: sport.rules ?? "",
         notes: (sport as any).notes ?? "",
         convenorName: convenor?.name ?? "",
@@ -510,6 +542,7 @@ export function SportManagement() {
           <ExportButton
             onExportCSV={() => api.exportSports("csv")}
             onExportExcel={() => api.exportSports("excel")}
+            onExportPDF={() => api.exportSports("pdf")}
             disabled={isLoadingSports}
           />
           <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
@@ -598,7 +631,17 @@ export function SportManagement() {
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="venue">Venue</Label>
-                  <Input id="venue" {...form.register("venue")} placeholder="e.g., Main Stadium" />
+                  <VenueSelect
+                    value={form.watch("venueId")}
+                    onValueChange={(value) => form.setValue("venueId", value)}
+                    placeholder="Select a venue"
+                    includeNoneOption
+                  />
+                  {editingSport?.venue && !editingSport.venueId && (
+                    <p className="text-sm text-muted-foreground">
+                      Currently "{editingSport.venue}", which isn&apos;t a registered venue.
+                    </p>
+                  )}
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="timings">Timings</Label>
@@ -656,6 +699,28 @@ export function SportManagement() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label>Capacity</Label>
+                <p className="text-sm text-muted-foreground">
+                  Leave blank for no limit. Registrations beyond a limit are waitlisted and promoted automatically when places free up.
+                </p>
+                <div className="grid grid-cols-2 gap-4">
+                  {([
+                    ["maxPerCommunity", "Max per community"],
+                    ["maxTotal", "Max total"],
+                    ["minTeamSize", "Min team size"],
+                    ["maxTeamSize", "Max team size"],
+                  ] as const).map(([field, placeholder]) => (
+                    <div key={field}>
+                      <Input type="number" min="1" placeholder={placeholder} {...form.register(field)} />
+                      {form.formState.errors[field] && (
+                        <p className="text-sm text-destructive">{form.formState.errors[field]?.message}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="rules">Rules</Label>
                 <Textarea
@@ -66,6 +66,8 @@ export function SportParticipantsTable() {
           <ExportButton
             onExportCSV={() => api.exportParticipants("csv")}
             onExportExcel={() => api.exportParticipants("excel")}
+            onExportPDF={() => api.exportParticipants("pdf")}
+            pdfLabel="Accreditation badges (PDF)"
             disabled={isLoading}
           />
         </div>
@@ -106,6 +108,10 @@ export function SportParticipantsTable() {
               ) : (
                 sportParticipants.map((p: any) => {
                   const comm = communities.find((c: any) => c.id === p.communityId);
+                  const waitlistEntry = p.sports?.find(
+                    (ps: { sport?: { id: string }; status?: string }) =>
+                      ps.sport?.id === user?.sportId && ps.status === "waitlisted"
+                  );
                   return (
                     <TableRow key={p.id}>
                       <TableCell className="font-medium">
@@ -127,6 +133,11 @@ export function SportParticipantsTable() {
                         >
                           {p.status}
                         </span>
+                        {waitlistEntry && (
+                          <span className="ml-1 px-2 py-1 rounded text-xs bg-orange-100 text-orange-800">
+                            Waitlisted #{waitlistEntry.waitlistPosition ?? "-"}
+                          </span>
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
@@ -0,0 +1,362 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { useAuth } from "@/hooks/api/useAuth";
+import { Participant, Team, TeamInput } from "@/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ExportButton } from "@/components/ui/export-button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Trash2 } from "lucide-react";
+
+const noCaptain = "none";
+
+// Whether a participant holds a (non-waitlisted) place in a sport
+function isRegisteredFor(participant: Participant, sportId: string) {
+  return participant.sports.some((entry) =>
+    typeof entry === "string" ? entry === sportId : entry.sport.id === sportId && entry.status !== "waitlisted"
+  );
+}
+
+export function TeamManagement() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTeam, setEditingTeam] = useState<Team | null>(null);
+  const [teamToDelete, setTeamToDelete] = useState<Team | null>(null);
+  const [name, setName] = useState("");
+  const [sportId, setSportId] = useState("");
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [captainId, setCaptainId] = useState(noCaptain);
+  const [notes, setNotes] = useState("");
+
+  const { data: teams = [], isLoading: isLoadingTeams } = useQuery({
+    queryKey: ["teams"],
+    queryFn: () => api.listTeams(),
+  });
+
+  const { data: sports = [] } = useQuery({
+    queryKey: ["sports"],
+    queryFn: api.listSports,
+  });
+
+  // Backend already filters by community for community_admin
+  const { data: participants = [] } = useQuery({
+    queryKey: ["participants"],
+    queryFn: api.listParticipants,
+  });
+
+  const teamSports = sports.filter((sport) => sport.type === "team");
+  const selectedSport = sports.find((sport) => sport.id === sportId);
+  const eligibleMembers = sportId ? participants.filter((p) => isRegisteredFor(p, sportId)) : [];
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (input: TeamInput) => {
+      if (editingTeam) {
+        const { name, captainId, memberIds, notes } = input;
+        return api.updateTeam(editingTeam.id, { name, captainId, memberIds, notes });
+      }
+      return api.createTeam(input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["teams"] });
+      setDialogOpen(false);
+      toast({
+        title: "Success",
+        description: editingTeam ? "Team updated successfully" : "Team created successfully",
+      });
+    },
+    onError: onError("Failed to save team"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.deleteTeam(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["teams"] });
+      setTeamToDelete(null);
+      toast({
+        title: "Success",
+        description: "Team deleted successfully",
+      });
+    },
+    onError: onError("Failed to delete team"),
+  });
+
+  const handleOpenDialog = (team?: Team) => {
+    setEditingTeam(team ?? null);
+    setName(team?.name ?? "");
+    setSportId(team?.sportId ?? "");
+    setMemberIds(team?.members.map((member) => member.participantId) ?? []);
+    setCaptainId(team?.captainId ?? noCaptain);
+    setNotes(team?.notes ?? "");
+    setDialogOpen(true);
+  };
+
+  const handleSportChange = (value: string) => {
+    setSportId(value);
+    setMemberIds([]);
+    setCaptainId(noCaptain);
+  };
+
+  const toggleMember = (participantId: string, checked: boolean) => {
+    setMemberIds((current) =>
+      checked ? [...current, participantId] : current.filter((id) => id !== participantId)
+    );
+    if (!checked && captainId === participantId) {
+      setCaptainId(noCaptain);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const communityId = editingTeam?.communityId ?? user?.communityId;
+    if (!name.trim() || !sportId || !communityId) {
+      toast({
+        title: "Error",
+        description: "Team name and sport are required",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate({
+      name: name.trim(),
+      communityId,
+      sportId,
+      memberIds,
+      captainId: captainId === noCaptain ? null : captainId,
+      notes: notes.trim() || null,
+    });
+  };
+
+  const rosterLimits = [
+    selectedSport?.minTeamSize ? `at least ${selectedSport.minTeamSize}` : null,
+    selectedSport?.maxTeamSize ? `at most ${selectedSport.maxTeamSize}` : null,
+  ].filter(Boolean);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Teams</CardTitle>
+        <div className="flex gap-2">
+          <ExportButton
+            onExportCSV={() => api.exportTeams("csv")}
+            onExportExcel={() => api.exportTeams("excel")}
+            onExportPDF={() => api.exportTeams("pdf")}
+            pdfLabel="Team sheets (PDF)"
+            disabled={teams.length === 0}
+          />
+          <Button size="sm" onClick={() => handleOpenDialog()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Team
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Team</TableHead>
+                <TableHead>Sport</TableHead>
+                <TableHead>Captain</TableHead>
+                <TableHead>Roster</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoadingTeams ? (
+                Array.from({ length: 3 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-24" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-28" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-40" /></TableCell>
+                    <TableCell className="text-right"><Skeleton className="h-8 w-16 ml-auto" /></TableCell>
+                  </TableRow>
+                ))
+              ) : teams.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No teams yet. Create one for each team sport your community enters.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                teams.map((team) => (
+                  <TableRow key={team.id}>
+                    <TableCell className="font-medium">{team.name}</TableCell>
+                    <TableCell>{team.sport?.name || "-"}</TableCell>
+                    <TableCell>{team.captain ? `${team.captain.firstName} ${team.captain.lastName}` : "-"}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {team.members.length > 0 ? (
+                          team.members.map((member) => (
+                            <Badge key={member.id} variant="secondary">
+                              {member.participant.firstName} {member.participant.lastName}
+                            </Badge>
+                          ))
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleOpenDialog(team)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="destructive" size="sm" onClick={() => setTeamToDelete(team)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingTeam ? "Edit Team" : "Create Team"}</DialogTitle>
+            <DialogDescription>
+              Pick the roster from participants registered for the sport. Each participant can play for one team per sport.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="teamName">Team Name *</Label>
+              <Input id="teamName" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Eagles A" />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sport *</Label>
+              <Select value={sportId} onValueChange={handleSportChange} disabled={!!editingTeam}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a team sport" />
+                </SelectTrigger>
+                <SelectContent>
+                  {teamSports.map((sport) => (
+                    <SelectItem key={sport.id} value={sport.id}>
+                      {sport.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {sportId && (
+              <div className="space-y-2">
+                <Label>Roster ({memberIds.length} selected)</Label>
+                {rosterLimits.length > 0 && (
+                  <p className="text-sm text-muted-foreground">Teams need {rosterLimits.join(" and ")} members.</p>
+                )}
+                {eligibleMembers.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No participants are registered for this sport yet.</p>
+                ) : (
+                  <div className="rounded-md border p-3 space-y-2 max-h-60 overflow-y-auto">
+                    {eligibleMembers.map((p) => (
+                      <label key={p.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={memberIds.includes(p.id)}
+                          onCheckedChange={(checked) => toggleMember(p.id, checked === true)}
+                        />
+                        {p.firstName} {p.lastName}
+                        {p.status !== "accepted" && (
+                          <Badge variant="outline" className="ml-1">{p.status}</Badge>
+                        )}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Captain</Label>
+              <Select value={captainId} onValueChange={setCaptainId} disabled={memberIds.length === 0}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={noCaptain}>No captain</SelectItem>
+                  {participants
+                    .filter((p) => memberIds.includes(p.id))
+                    .map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.firstName} {p.lastName}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="teamNotes">Notes</Label>
+              <Textarea id="teamNotes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {editingTeam ? "Update" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!teamToDelete} onOpenChange={(open) => !open && setTeamToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete team?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will delete "{teamToDelete?.name}". Its members stay registered for the sport.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => teamToDelete && deleteMutation.mutate(teamToDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
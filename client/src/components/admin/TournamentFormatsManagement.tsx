@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/api";
-import { TournamentFormat } from "@/types";
+import { PointsRules, TournamentFormat } from "@/types";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
@@ -42,6 +42,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { PointsRulesEditor } from "@/components/admin/PointsRulesEditor";
 import { Plus, Edit, Trash2 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -55,6 +56,10 @@ const formatSchema = z.object({
 
 type FormatFormData = z.infer<typeof formatSchema>;
 
+const defaultPointsRules: PointsRules = {
+  default: { gold: 10, silver: 7, bronze: 5, places: [], participation: 3 },
+};
+
 const formatCategories = [
   { value: "team_sports", label: "Team Sports" },
   { value: "individual_sports", label: "Individual Sports" },
@@ -67,6 +72,7 @@ export function TournamentFormatsManagement() {
   const [editingFormat, setEditingFormat] = useState<TournamentFormat | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [formatToDelete, setFormatToDelete] = useState<TournamentFormat | null>(null);
+  const [pointsRules, setPointsRules] = useState<PointsRules>(defaultPointsRules);
   const queryClient = useQueryClient();
 
   const { data: formats = [], isLoading: isLoadingFormats } = useQuery({
@@ -84,7 +90,7 @@ export function TournamentFormatsManagement() {
   });
 
   const createMutation = useMutation({
-    mutationFn: (data: FormatFormData) => {
+    mutationFn: (data: FormatFormData & { rules?: PointsRules }) => {
       return api.createTournamentFormat(data);
     },
     onSuccess: () => {
@@ -107,7 +113,7 @@ export function TournamentFormatsManagement() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<FormatFormData> }) => {
+    mutationFn: ({ id, data }: { id: string; data: Partial<FormatFormData> & { rules?: PointsRules } }) => {
       return api.updateTournamentFormat(id, data);
     },
     onSuccess: () => {
@@ -159,18 +165,21 @@ export function TournamentFormatsManagement() {
         title: format.title,
         content: format.content,
       });
+      setPointsRules(format.rules ?? defaultPointsRules);
     } else {
       setEditingFormat(null);
       form.reset();
+      setPointsRules(defaultPointsRules);
     }
     setDialogOpen(true);
   };
 
   const handleSubmit = (data: FormatFormData) => {
+    const payload = data.category === "points_system" ? { ...data, rules: pointsRules } : data;
     if (editingFormat) {
-      updateMutation.mutate({ id: editingFormat.id, data });
+      updateMutation.mutate({ id: editingFormat.id, data: payload });
     } else {
-      createMutation.mutate(data);
+      createMutation.mutate(payload);
     }
   };
 
@@ -201,7 +210,7 @@ export function TournamentFormatsManagement() {
               Add Format
             </Button>
           </DialogTrigger>
-          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>{editingFormat ? "Edit Tournament Format" : "Create New Tournament Format"}</DialogTitle>
               <DialogDescription>
@@ -253,6 +262,10 @@ export function TournamentFormatsManagement() {
                 )}
               </div>
 
+              {form.watch("category") === "points_system" && (
+                <PointsRulesEditor value={pointsRules} onChange={setPointsRules} />
+              )}
+
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
                   Cancel
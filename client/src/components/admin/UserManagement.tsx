@@ -41,7 +41,8 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Plus, Edit, Trash2 } from "lucide-react";
+import { Plus, Edit, Trash2, LogOut } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -62,7 +63,9 @@ export function UserManagement() {
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [userToDelete, setUserToDelete] = useState<User | null>(null);
+  const [userToSignOut, setUserToSignOut] = useState<User | null>(null);
   const queryClient = useQueryClient();
+  const { toast } = useToast();
 
   const { data: users = [], isLoading: isLoadingUsers } = useQuery({
     queryKey: ["users"],
@@ -144,6 +147,25 @@ export function UserManagement() {
     },
   });
 
+  const revokeSessionsMutation = useMutation({
+    mutationFn: (user: User) => api.revokeUserSessions(user.id),
+    onSuccess: (revoked, user) => {
+      toast({
+        title: "Success",
+        description: revoked === 0
+          ? `${user.username} had no active sessions`
+          : `Signed ${user.username} out of ${revoked} session${revoked === 1 ? "" : "s"}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke sessions",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleOpenDialog = (user?: User) => {
     if (user) {
       setEditingUser(user);
@@ -365,6 +387,14 @@ export function UserManagement() {
                         <Button variant="outline" size="sm" onClick={() => handleOpenDialog(user as any)}>
                           <Edit className="h-4 w-4" />
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Revoke all sessions"
+                          onClick={() => setUserToSignOut(user)}
+                        >
+                          <LogOut className="h-4 w-4" />
+                        </Button>
                         <Button variant="destructive" size="sm" onClick={() => handleDelete(user as any)}>
                           <Trash2 className="h-4 w-4" />
                         </Button>
@@ -398,6 +428,26 @@ export function UserManagement() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <AlertDialog open={!!userToSignOut} onOpenChange={(open) => !open && setUserToSignOut(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke all sessions?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{userToSignOut?.username}" will be signed out on every device and must log in again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => userToSignOut && revokeSessionsMutation.mutate(userToSignOut)}
+              disabled={revokeSessionsMutation.isPending}
+            >
+              Revoke Sessions
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,416 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { Venue, VenueInput } from "@/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Trash2, Merge, ExternalLink } from "lucide-react";
+
+const emptyForm = {
+  name: "",
+  address: "",
+  capacity: "",
+  surfaces: "",
+  latitude: "",
+  longitude: "",
+  accessibilityNotes: "",
+};
+
+function parseNumber(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+export function VenueManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingVenue, setEditingVenue] = useState<Venue | null>(null);
+  const [venueToDelete, setVenueToDelete] = useState<Venue | null>(null);
+  const [mergeTarget, setMergeTarget] = useState<Venue | null>(null);
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: venues = [], isLoading } = useQuery({
+    queryKey: ["venues"],
+    queryFn: api.listVenues,
+  });
+
+  const invalidateVenueUsers = () => {
+    queryClient.invalidateQueries({ queryKey: ["venues"] });
+    queryClient.invalidateQueries({ queryKey: ["sports"] });
+    queryClient.invalidateQueries({ queryKey: ["calendar"] });
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (input: VenueInput) => (editingVenue ? api.updateVenue(editingVenue.id, input) : api.createVenue(input)),
+    onSuccess: () => {
+      invalidateVenueUsers();
+      setDialogOpen(false);
+      toast({
+        title: "Success",
+        description: editingVenue ? "Venue updated successfully" : "Venue created successfully",
+      });
+    },
+    onError: onError("Failed to save venue"),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ id, venueIds }: { id: string; venueIds: string[] }) => api.mergeVenues(id, venueIds),
+    onSuccess: () => {
+      invalidateVenueUsers();
+      setMergeTarget(null);
+      toast({
+        title: "Success",
+        description: "Venues merged successfully",
+      });
+    },
+    onError: onError("Failed to merge venues"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => api.deleteVenue(id),
+    onSuccess: () => {
+      invalidateVenueUsers();
+      setVenueToDelete(null);
+      toast({
+        title: "Success",
+        description: "Venue deleted successfully",
+      });
+    },
+    onError: onError("Failed to delete venue"),
+  });
+
+  const handleOpenDialog = (venue?: Venue) => {
+    setEditingVenue(venue ?? null);
+    setForm(
+      venue
+        ? {
+            name: venue.name,
+            address: venue.address ?? "",
+            capacity: venue.capacity?.toString() ?? "",
+            surfaces: venue.surfaces.join("\n"),
+            latitude: venue.latitude?.toString() ?? "",
+            longitude: venue.longitude?.toString() ?? "",
+            accessibilityNotes: venue.accessibilityNotes ?? "",
+          }
+        : emptyForm
+    );
+    setDialogOpen(true);
+  };
+
+  const handleOpenMerge = (venue: Venue) => {
+    setMergeTarget(venue);
+    setMergeIds([]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const capacity = parseNumber(form.capacity);
+    const latitude = parseNumber(form.latitude);
+    const longitude = parseNumber(form.longitude);
+
+    let problem = "";
+    if (!form.name.trim()) {
+      problem = "Venue name is required";
+    } else if (capacity !== null && (!Number.isInteger(capacity) || capacity < 1)) {
+      problem = "Capacity must be a whole number above zero";
+    } else if (Number.isNaN(latitude) || Number.isNaN(longitude) || (latitude === null) !== (longitude === null)) {
+      problem = "Enter both latitude and longitude as numbers, or leave both empty";
+    }
+    if (problem) {
+      toast({
+        title: "Error",
+        description: problem,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveMutation.mutate({
+      name: form.name.trim(),
+      address: form.address.trim() || null,
+      capacity,
+      surfaces: form.surfaces
+        .split("\n")
+        .map((surface) => surface.trim())
+        .filter(Boolean),
+      latitude,
+      longitude,
+      accessibilityNotes: form.accessibilityNotes.trim() || null,
+    });
+  };
+
+  const updateForm = (field: keyof typeof emptyForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm((current) => ({ ...current, [field]: e.target.value }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Venues ({venues.length})</CardTitle>
+        <Button size="sm" onClick={() => handleOpenDialog()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Venue
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Venue</TableHead>
+                <TableHead>Capacity</TableHead>
+                <TableHead>Surfaces</TableHead>
+                <TableHead>Sports</TableHead>
+                <TableHead>Calendar Items</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                Array.from({ length: 3 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell><Skeleton className="h-4 w-40" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-12" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-8" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-8" /></TableCell>
+                    <TableCell className="text-right"><Skeleton className="h-8 w-24 ml-auto" /></TableCell>
+                  </TableRow>
+                ))
+              ) : venues.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No venues yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                venues.map((venue) => (
+                  <TableRow key={venue.id}>
+                    <TableCell>
+                      <div className="font-medium">{venue.name}</div>
+                      {venue.address && <div className="text-sm text-muted-foreground">{venue.address}</div>}
+                    </TableCell>
+                    <TableCell>{venue.capacity ?? "-"}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {venue.surfaces.length > 0 ? (
+                          venue.surfaces.map((surface) => (
+                            <Badge key={surface} variant="secondary">
+                              {surface}
+                            </Badge>
+                          ))
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{venue._count?.sports ?? 0}</TableCell>
+                    <TableCell>{venue._count?.calendarItems ?? 0}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" asChild title="View venue page">
+                          <Link to={`/venues/${venue.id}`}>
+                            <ExternalLink className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleOpenMerge(venue)}
+                          disabled={venues.length < 2}
+                          title="Merge duplicates into this venue"
+                        >
+                          <Merge className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleOpenDialog(venue)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="destructive" size="sm" onClick={() => setVenueToDelete(venue)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingVenue ? "Edit Venue" : "Create Venue"}</DialogTitle>
+            <DialogDescription>
+              Renaming a venue updates every sport and calendar item held there.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="venueName">Name *</Label>
+              <Input id="venueName" value={form.name} onChange={updateForm("name")} placeholder="e.g., Main Stadium" />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="venueAddress">Address</Label>
+              <Textarea id="venueAddress" value={form.address} onChange={updateForm("address")} rows={2} />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="venueCapacity">Capacity</Label>
+                <Input id="venueCapacity" type="number" min={1} value={form.capacity} onChange={updateForm("capacity")} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="venueLatitude">Latitude</Label>
+                <Input
+                  id="venueLatitude"
+                  type="number"
+                  step="any"
+                  value={form.latitude}
+                  onChange={updateForm("latitude")}
+                  placeholder="e.g., 51.5072"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="venueLongitude">Longitude</Label>
+                <Input
+                  id="venueLongitude"
+                  type="number"
+                  step="any"
+                  value={form.longitude}
+                  onChange={updateForm("longitude")}
+                  placeholder="e.g., -0.1276"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="venueSurfaces">Surfaces and courts</Label>
+              <Textarea
+                id="venueSurfaces"
+                value={form.surfaces}
+                onChange={updateForm("surfaces")}
+                rows={3}
+                placeholder={"One per line, e.g.\nCourt 1 (sprung wood)\n25m pool"}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="venueAccessibility">Accessibility notes</Label>
+              <Textarea
+                id="venueAccessibility"
+                value={form.accessibilityNotes}
+                onChange={updateForm("accessibilityNotes")}
+                rows={3}
+                placeholder="Step-free access, accessible toilets, parking..."
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {editingVenue ? "Update" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!mergeTarget} onOpenChange={(open) => !open && setMergeTarget(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Merge into {mergeTarget?.name}</DialogTitle>
+            <DialogDescription>
+              Sports and calendar items at the ticked venues move to "{mergeTarget?.name}", then the ticked venues are
+              deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="rounded-md border p-3 space-y-2 max-h-60 overflow-y-auto">
+            {venues
+              .filter((venue) => venue.id !== mergeTarget?.id)
+              .map((venue) => (
+                <label key={venue.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={mergeIds.includes(venue.id)}
+                    onCheckedChange={(checked) =>
+                      setMergeIds((current) =>
+                        checked === true ? [...current, venue.id] : current.filter((id) => id !== venue.id)
+                      )
+                    }
+                  />
+                  {venue.name}
+                  <span className="text-muted-foreground">
+                    ({venue._count?.sports ?? 0} sports, {venue._count?.calendarItems ?? 0} calendar items)
+                  </span>
+                </label>
+              ))}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setMergeTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => mergeTarget && mergeMutation.mutate({ id: mergeTarget.id, venueIds: mergeIds })}
+              disabled={mergeIds.length === 0 || mergeMutation.isPending}
+            >
+              Merge {mergeIds.length > 0 && `(${mergeIds.length})`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!venueToDelete} onOpenChange={(open) => !open && setVenueToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete venue?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will delete "{venueToDelete?.name}". Its sports and calendar items keep the venue name but are no
+              longer linked to a venue page.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => venueToDelete && deleteMutation.mutate(venueToDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -131,6 +131,7 @@ export function VolunteerManagement() {
           <ExportButton
             onExportCSV={() => api.exportVolunteers("csv")}
             onExportExcel={() => api.exportVolunteers("excel")}
+            onExportPDF={() => api.exportVolunteers("pdf")}
             disabled={isLoadingVolunteers}
           />
           <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
@@ -276,6 +277,7 @@ export function VolunteerManagement() {
                   <TableHead>Email</TableHead>
                   <TableHead>Phone</TableHead>
                   <TableHead>Sport</TableHead>
+                  <TableHead>Department</TableHead>
                   <TableHead>Registered</TableHead>
                 </TableRow>
               </TableHeader>
@@ -289,12 +291,13 @@ export function VolunteerManagement() {
                       <TableCell><Skeleton className="h-4 w-40" /></TableCell>
                       <TableCell><Skeleton className="h-4 w-28" /></TableCell>
                       <TableCell><Skeleton className="h-4 w-24" /></TableCell>
+                      <TableCell><Skeleton className="h-4 w-24" /></TableCell>
                       <TableCell><Skeleton className="h-4 w-32" /></TableCell>
                     </TableRow>
                   ))
                 ) : filtered.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={7} className="text-center text-muted-foreground">No volunteers found.</TableCell>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground">No volunteers found.</TableCell>
                   </TableRow>
                 ) : (
                   filtered.map((v) => {
@@ -317,6 +320,7 @@ export function VolunteerManagement() {
                         <TableCell>{v.email}</TableCell>
                         <TableCell>{v.phone}</TableCell>
                         <TableCell>{sportName}</TableCell>
+                        <TableCell>{v.department?.name || "-"}</TableCell>
                         <TableCell>{new Date(v.createdAt).toLocaleString()}</TableCell>
                       </TableRow>
                     );
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { api } from "@/api";
+import { AcceptSuggestionsResult, SuggestionKind, VolunteerSuggestion } from "@/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Check, CheckCheck, RefreshCw } from "lucide-react";
+
+const ALL = "all";
+
+const suggestionKey = (suggestion: VolunteerSuggestion) =>
+  `${suggestion.kind}:${suggestion.targetId}:${suggestion.volunteerId}`;
+
+function formatWindow(suggestion: VolunteerSuggestion) {
+  const start = new Date(suggestion.startTime);
+  // Calendar items span their whole day
+  if (suggestion.kind === "calendarItem") return format(start, "EEE d MMM");
+  return `${format(start, "EEE d MMM, HH:mm")} – ${format(new Date(suggestion.endTime), "HH:mm")}`;
+}
+
+export function VolunteerSuggestions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [kind, setKind] = useState(ALL);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const filters = { kind: kind === ALL ? undefined : (kind as SuggestionKind) };
+
+  const { data: suggestions = [], isLoading, isFetching, refetch } = useQuery({
+    queryKey: ["volunteer-suggestions", filters],
+    queryFn: () => api.listVolunteerSuggestions(filters),
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: (items: VolunteerSuggestion[]) =>
+      api.acceptVolunteerSuggestions(
+        items.map(({ kind, targetId, volunteerId }) => ({ kind, targetId, volunteerId }))
+      ),
+    onSuccess: (result: AcceptSuggestionsResult) => {
+      queryClient.invalidateQueries({ queryKey: ["volunteer-suggestions"] });
+      queryClient.invalidateQueries({ queryKey: ["shifts"] });
+      queryClient.invalidateQueries({ queryKey: ["volunteers"] });
+      setSelected([]);
+      if (result.failed.length > 0) {
+        toast({
+          title: "Error",
+          description: `${result.accepted} accepted, ${result.failed.length} could not be applied: ${result.failed
+            .map((failure) => failure.error)
+            .join("; ")}`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Success",
+          description: `${result.accepted} suggestion(s) accepted`,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to accept suggestions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (key: string, checked: boolean) => {
+    setSelected((current) => (checked ? [...current, key] : current.filter((k) => k !== key)));
+  };
+
+  const allSelected = suggestions.length > 0 && selected.length === suggestions.length;
+  const selectedSuggestions = suggestions.filter((suggestion) => selected.includes(suggestionKey(suggestion)));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Suggested Assignments ({suggestions.length})</CardTitle>
+        <div className="flex gap-2">
+          <Select
+            value={kind}
+            onValueChange={(value) => {
+              setKind(value);
+              setSelected([]);
+            }}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Shifts and fixtures</SelectItem>
+              <SelectItem value="shift">Shifts only</SelectItem>
+              <SelectItem value="calendarItem">Fixtures only</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => acceptMutation.mutate(selectedSuggestions)}
+            disabled={selectedSuggestions.length === 0 || acceptMutation.isPending}
+          >
+            <CheckCheck className="mr-2 h-4 w-4" />
+            Accept Selected ({selectedSuggestions.length})
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          Based on each volunteer&apos;s availability, preferences and current shifts. Fixtures are suggested
+          when their sport has no volunteer yet; accepting one assigns the volunteer to that sport.
+        </p>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) => setSelected(checked === true ? suggestions.map(suggestionKey) : [])}
+                  />
+                </TableHead>
+                <TableHead>Volunteer</TableHead>
+                <TableHead>For</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead>Why</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                Array.from({ length: 3 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell />
+                    <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-40" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-48" /></TableCell>
+                    <TableCell className="text-right"><Skeleton className="h-8 w-16 ml-auto" /></TableCell>
+                  </TableRow>
+                ))
+              ) : suggestions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    Nothing to suggest. Every upcoming shift is staffed, or no available volunteer fits.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                suggestions.map((suggestion) => {
+                  const key = suggestionKey(suggestion);
+                  return (
+                    <TableRow key={key}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.includes(key)}
+                          onCheckedChange={(checked) => toggle(key, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{suggestion.volunteerName}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">{suggestion.kind === "shift" ? "Shift" : "Fixture"}</Badge>
+                          {suggestion.targetLabel}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatWindow(suggestion)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{suggestion.reasons.join(", ")}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Accept suggestion"
+                          onClick={() => acceptMutation.mutate([suggestion])}
+                          disabled={acceptMutation.isPending}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,21 +5,24 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Download, FileSpreadsheet, FileText } from "lucide-react";
+import { Download, FileSpreadsheet, FileText, Printer } from "lucide-react";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
+import type { ExportFormat } from "@/types";
 
 interface ExportButtonProps {
   onExportCSV: () => Promise<void>;
   onExportExcel: () => Promise<void>;
+  onExportPDF?: () => Promise<void>;
+  pdfLabel?: string;
   disabled?: boolean;
 }
 
-export function ExportButton({ onExportCSV, onExportExcel, disabled }: ExportButtonProps) {
+export function ExportButton({ onExportCSV, onExportExcel, onExportPDF, pdfLabel, disabled }: ExportButtonProps) {
   const [isExporting, setIsExporting] = useState(false);
   const { toast } = useToast();
 
-  const handleExport = async (format: "csv" | "excel", exportFn: () => Promise<void>) => {
+  const handleExport = async (format: ExportFormat, exportFn: () => Promise<void>) => {
     if (disabled || isExporting) return;
     
     setIsExporting(true);
@@ -63,6 +66,15 @@ export function ExportButton({ onExportCSV, onExportExcel, disabled }: ExportBut
           <FileSpreadsheet className="mr-2 h-4 w-4" />
           Export as Excel
         </DropdownMenuItem>
+        {onExportPDF && (
+          <DropdownMenuItem
+            onClick={() => handleExport("pdf", onExportPDF)}
+            disabled={isExporting}
+          >
+            <Printer className="mr-2 h-4 w-4" />
+            {pdfLabel || "Export as PDF"}
+          </DropdownMenuItem>
+        )}
       </DropdownMenuContent>
     </DropdownMenu>
   );
@@ -0,0 +1,105 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@/api";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Check, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface VenueSelectProps {
+  value?: string;
+  onValueChange: (value: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+  includeNoneOption?: boolean; // If true, includes a "None" option that clears the venue (value "")
+  noneOptionLabel?: string;
+}
+
+export function VenueSelect({
+  value,
+  onValueChange,
+  placeholder = "Select venue...",
+  disabled = false,
+  className,
+  includeNoneOption = false,
+  noneOptionLabel = "None",
+}: VenueSelectProps) {
+  const [open, setOpen] = React.useState(false);
+
+  const { data: venues = [], isLoading } = useQuery({
+    queryKey: ["venues"],
+    queryFn: api.listVenues,
+  });
+
+  const selectedVenue = venues.find((venue) => venue.id === value);
+
+  if (isLoading) {
+    return <Skeleton className={cn("h-10 w-full", className)} />;
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          className={cn("w-full justify-between", className)}
+          disabled={disabled}
+        >
+          {selectedVenue ? selectedVenue.name : placeholder}
+          <X className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[var(--radix-popover-trigger-width)] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search venues..." />
+          <CommandList>
+            <CommandEmpty>No venue found. Add it under Venues first.</CommandEmpty>
+            <CommandGroup>
+              {includeNoneOption && (
+                <CommandItem
+                  value={noneOptionLabel}
+                  onSelect={() => {
+                    onValueChange("");
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn("mr-2 h-4 w-4", !value ? "opacity-100" : "opacity-0")} />
+                  {noneOptionLabel}
+                </CommandItem>
+              )}
+              {venues.map((venue) => (
+                <CommandItem
+                  key={venue.id}
+                  value={venue.name}
+                  onSelect={() => {
+                    onValueChange(venue.id);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn("mr-2 h-4 w-4", value === venue.id ? "opacity-100" : "opacity-0")} />
+                  {venue.name}
+                  {venue.capacity && <span className="ml-auto text-xs text-muted-foreground">{venue.capacity}</span>}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -4,9 +4,11 @@ import { api } from "@/api";
 export interface AuthUser {
   id: string;
   username: string;
+  email?: string;
   role: "admin" | "community_admin" | "sports_admin" | "volunteer_admin" | "volunteer" | "user";
   communityId?: string;
   sportId?: string;
+  emailVerified?: boolean;
 }
 
 interface AuthContextValue {
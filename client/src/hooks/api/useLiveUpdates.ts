@@ -0,0 +1,57 @@
+import { useEffect } from "react";
+import { QueryKey, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+
+type LiveEventType = "leaderboard" | "results" | "calendar";
+
+// The cached queries each kind of server event makes stale
+const staleQueries: Record<LiveEventType, (sportId?: string | null) => QueryKey[]> = {
+  leaderboard: (sportId) => [
+    ["leaderboard"],
+    ["leaderboard-entries"],
+    sportId ? ["leaderboard-sport", sportId] : ["leaderboard-sport"],
+  ],
+  results: (sportId) => [
+    sportId ? ["matches", sportId] : ["matches"],
+    sportId ? ["standings", sportId] : ["standings"],
+    ["draws"],
+  ],
+  calendar: () => [["calendar"], ["calendar-clashes"], ["venue"]],
+};
+
+/**
+ * Keep react-query caches in step with changes made in other browsers. Subscribes to the
+ * server's event stream and refetches whatever an event makes stale; EventSource
+ * reconnects on its own after a dropped connection.
+ */
+export function useLiveUpdates() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return;
+
+    const source = new EventSource(api.liveEventsUrl());
+    const listeners = (Object.keys(staleQueries) as LiveEventType[]).map((type) => {
+      const listener = (event: MessageEvent<string>) => {
+        let sportId: string | null | undefined;
+        try {
+          sportId = JSON.parse(event.data).sportId;
+        } catch {
+          sportId = undefined;
+        }
+        for (const queryKey of staleQueries[type](sportId)) {
+          queryClient.invalidateQueries({ queryKey });
+        }
+      };
+      source.addEventListener(type, listener);
+      return { type, listener };
+    });
+
+    return () => {
+      for (const { type, listener } of listeners) {
+        source.removeEventListener(type, listener);
+      }
+      source.close();
+    };
+  }, [queryClient]);
+}
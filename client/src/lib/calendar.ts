@@ -0,0 +1,2 @@
+// Calendar apps open webcal:// links as a subscription rather than a one-off download
+export const toWebcal = (url: string) => url.replace(/^https?:\/\//, "webcal://");
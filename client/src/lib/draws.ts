@@ -0,0 +1,30 @@
+import type { DrawFormat, MatchRecord, TieBreaker } from "@/types";
+
+export const drawFormatLabels: Record<DrawFormat, string> = {
+  single_elimination: "Single Elimination",
+  double_elimination: "Double Elimination",
+  round_robin: "Round Robin",
+};
+
+export const tieBreakerLabels: Record<TieBreaker, string> = {
+  head_to_head: "Head to head",
+  goal_difference: "Goal difference",
+  goals_scored: "Goals scored",
+  fair_play: "Fair play",
+};
+
+// Display name for one side of a match, falling back to where the entrant comes from
+export function sideLabel(match: MatchRecord, side: "home" | "away", matches: MatchRecord[]) {
+  const participant = side === "home" ? match.homeParticipant : match.awayParticipant;
+  if (participant) return `${participant.firstName} ${participant.lastName}`;
+  const team = side === "home" ? match.homeTeam : match.awayTeam;
+  if (team) return team.name;
+  const community = side === "home" ? match.homeCommunity : match.awayCommunity;
+  if (community) return community.name;
+
+  const winnerFeeder = matches.find((m) => m.nextMatchId === match.id && m.nextMatchSlot === side);
+  if (winnerFeeder) return `Winner of R${winnerFeeder.round} M${winnerFeeder.matchNumber}`;
+  const loserFeeder = matches.find((m) => m.loserMatchId === match.id && m.loserMatchSlot === side);
+  if (loserFeeder) return `Loser of R${loserFeeder.round} M${loserFeeder.matchNumber}`;
+  return "TBD";
+}
@@ -2,11 +2,23 @@ import { Navbar } from "@/components/Navbar";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { api } from "@/api";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useQuery } from "@tanstack/react-query";
-import { Calendar as CalendarIcon, Clock, MapPin } from "lucide-react";
+import { Calendar as CalendarIcon, CalendarPlus, Clock, Copy, MapPin, Trophy } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { DrawBracket } from "@/components/DrawBracket";
+import { drawFormatLabels } from "@/lib/draws";
+import { toWebcal } from "@/lib/calendar";
+import { useToast } from "@/hooks/use-toast";
+import { useState } from "react";
+import { Link } from "react-router-dom";
 
 export default function Calendar() {
+  const { toast } = useToast();
+  // Feed path under /calendar/feeds: "all", "sports/<id>" or "communities/<id>"
+  const [feed, setFeed] = useState("all");
+
   const { data: calendarEvents = [], isLoading: isLoadingCalendar } = useQuery({
     queryKey: ["calendar"],
     queryFn: () => api.listCalendar(),
@@ -17,6 +29,34 @@ export default function Calendar() {
     queryFn: () => api.listSports(),
   });
 
+  const { data: draws = [] } = useQuery({
+    queryKey: ["draws"],
+    queryFn: () => api.listDraws(),
+  });
+
+  const { data: communities = [] } = useQuery({
+    queryKey: ["communities"],
+    queryFn: () => api.listCommunities(),
+  });
+
+  const feedUrl = api.calendarFeedUrl(feed);
+
+  const handleCopyFeed = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({
+        title: "Success",
+        description: "Feed link copied",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Couldn't copy the link",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Helper function to get sport name with parent category for sub-categories
   const getSportName = (sportId: string) => {
     const sport = sports.find((s) => s.id === sportId);
@@ -67,6 +107,58 @@ export default function Calendar() {
         </div>
 
         <div className="max-w-5xl mx-auto space-y-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl flex items-center gap-2">
+                <CalendarPlus className="h-5 w-5 text-primary" />
+                Subscribe to the Calendar
+              </CardTitle>
+              <CardDescription>
+                Add the schedule to your phone or desktop calendar. It stays up to date as fixtures change.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col md:flex-row gap-2">
+              <Select value={feed} onValueChange={setFeed}>
+                <SelectTrigger className="md:w-80">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All events</SelectItem>
+                  <SelectGroup>
+                    <SelectLabel>Sport</SelectLabel>
+                    {sports
+                      .filter((sport) => !sport.parentId)
+                      .map((sport) => (
+                        <SelectItem key={sport.id} value={`sports/${sport.id}`}>
+                          {sport.name}
+                        </SelectItem>
+                      ))}
+                  </SelectGroup>
+                  <SelectGroup>
+                    <SelectLabel>Community</SelectLabel>
+                    {communities
+                      .filter((community) => community.active)
+                      .map((community) => (
+                        <SelectItem key={community.id} value={`communities/${community.id}`}>
+                          {community.name}
+                        </SelectItem>
+                      ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+              <Button variant="hero" asChild>
+                <a href={toWebcal(feedUrl)}>
+                  <CalendarPlus className="mr-2 h-4 w-4" />
+                  Subscribe
+                </a>
+              </Button>
+              <Button variant="outline" onClick={handleCopyFeed}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy Link
+              </Button>
+            </CardContent>
+          </Card>
+
           {isLoadingCalendar ? (
             <div className="space-y-4">
               <Skeleton className="h-8 w-48" />
@@ -107,7 +199,13 @@ export default function Calendar() {
                         <CardContent>
                           <div className="flex items-center gap-2 text-sm text-muted-foreground">
                             <MapPin className="h-4 w-4" />
-                            {event.venue}
+                            {event.venueId ? (
+                              <Link to={`/venues/${event.venueId}`} className="hover:text-primary hover:underline">
+                                {event.venue}
+                              </Link>
+                            ) : (
+                              event.venue
+                            )}
                           </div>
                         </CardContent>
                       </Card>
@@ -117,6 +215,28 @@ export default function Calendar() {
               </div>
             ))
           )}
+
+          {draws.length > 0 && (
+            <div className="space-y-4 animate-fade-in">
+              <h2 className="text-2xl font-bold flex items-center gap-2">
+                <Trophy className="h-6 w-6 text-primary" />
+                Draws
+              </h2>
+              {draws.map((draw) => (
+                <Card key={draw.sportId}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between">
+                      <CardTitle className="text-xl">{sportMap.get(draw.sportId) || draw.sportName}</CardTitle>
+                      <Badge variant="secondary">{drawFormatLabels[draw.format]}</Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <DrawBracket matches={draw.matches} />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     </div>
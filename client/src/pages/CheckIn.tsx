@@ -0,0 +1,223 @@
+import { Navbar } from "@/components/Navbar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "@/api";
+import { useAuth } from "@/hooks/api/useAuth";
+import { CheckCircle2, Clock, ScanLine, XCircle } from "lucide-react";
+import { useRef, useState } from "react";
+import type { CheckInResult } from "@/types";
+
+export default function CheckIn() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [calendarItemId, setCalendarItemId] = useState("");
+  const [token, setToken] = useState("");
+  const [result, setResult] = useState<{ data?: CheckInResult; error?: string } | null>(null);
+  const tokenInputRef = useRef<HTMLInputElement>(null);
+
+  const canViewAttendance = user?.role === "admin" || user?.role === "sports_admin" || user?.role === "volunteer_admin";
+
+  const { data: calendarItems = [] } = useQuery({
+    queryKey: ["calendar"],
+    queryFn: () => api.listCalendar(),
+  });
+
+  const { data: sports = [] } = useQuery({
+    queryKey: ["sports"],
+    queryFn: () => api.listSports(),
+  });
+
+  const { data: attendance = [], isLoading: isLoadingAttendance } = useQuery({
+    queryKey: ["attendance", calendarItemId],
+    queryFn: () => api.listAttendance(calendarItemId),
+    enabled: canViewAttendance && !!calendarItemId,
+  });
+
+  const sportName = (sportId: string) => sports.find((sport) => sport.id === sportId)?.name || "Unknown sport";
+
+  // Sports admins can only check people in to their own sport's fixtures
+  const items = calendarItems
+    .filter((item) => user?.role !== "sports_admin" || item.sportId === user.sportId)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const checkInMutation = useMutation({
+    mutationFn: (scanned: string) => api.checkIn(scanned, calendarItemId),
+    onSuccess: (data) => {
+      setResult({ data });
+      queryClient.invalidateQueries({ queryKey: ["attendance", calendarItemId] });
+    },
+    onError: (error: Error) => {
+      setResult({ error: error.message || "Check-in failed" });
+    },
+    onSettled: () => {
+      setToken("");
+      tokenInputRef.current?.focus();
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const scanned = token.trim();
+    if (!scanned || !calendarItemId) return;
+    checkInMutation.mutate(scanned);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <h1 className="text-3xl font-bold">Check-in</h1>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Scan Credential</CardTitle>
+            <CardDescription>
+              Choose the fixture, then scan a badge with a handheld QR scanner or paste its code. Each person is
+              recorded once per fixture.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Fixture</Label>
+                <Select
+                  value={calendarItemId}
+                  onValueChange={(value) => {
+                    setCalendarItemId(value);
+                    setResult(null);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a calendar item" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {items.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {sportName(item.sportId)} · {item.type} · {new Date(item.date).toLocaleDateString()} {item.time} ·{" "}
+                        {item.venue}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="credential">Credential</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="credential"
+                    ref={tokenInputRef}
+                    value={token}
+                    onChange={(e) => setToken(e.target.value)}
+                    placeholder="Scan or paste QR code"
+                    autoComplete="off"
+                    spellCheck={false}
+                    disabled={!calendarItemId}
+                    autoFocus
+                  />
+                  <Button type="submit" disabled={!calendarItemId || !token.trim() || checkInMutation.isPending}>
+                    <ScanLine className="mr-2 h-4 w-4" />
+                    Check In
+                  </Button>
+                </div>
+              </div>
+            </form>
+
+            {result && (
+              <div className="mt-4">
+                {result.data ? (
+                  <Alert className={result.data.status === "checked_in" ? "border-green-500" : "border-amber-500"}>
+                    {result.data.status === "checked_in" ? (
+                      <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    ) : (
+                      <Clock className="h-4 w-4 text-amber-600" />
+                    )}
+                    <AlertTitle>
+                      {result.data.holder.name}
+                      {result.data.holder.community && ` (${result.data.holder.community})`}
+                    </AlertTitle>
+                    <AlertDescription>
+                      {result.data.status === "checked_in"
+                        ? `Checked in as ${result.data.holder.type}.`
+                        : `Already checked in at ${new Date(result.data.checkedInAt).toLocaleTimeString()}.`}
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <Alert variant="destructive">
+                    <XCircle className="h-4 w-4" />
+                    <AlertTitle>Not checked in</AlertTitle>
+                    <AlertDescription>{result.error}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {canViewAttendance && calendarItemId && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Attendance ({attendance.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Community</TableHead>
+                      <TableHead>Checked In</TableHead>
+                      <TableHead>By</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoadingAttendance ? (
+                      Array.from({ length: 3 }).map((_, i) => (
+                        <TableRow key={i}>
+                          <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                          <TableCell><Skeleton className="h-4 w-20" /></TableCell>
+                          <TableCell><Skeleton className="h-4 w-24" /></TableCell>
+                          <TableCell><Skeleton className="h-4 w-20" /></TableCell>
+                          <TableCell><Skeleton className="h-4 w-20" /></TableCell>
+                        </TableRow>
+                      ))
+                    ) : attendance.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-muted-foreground">
+                          Nobody has checked in yet.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      attendance.map((record) => {
+                        const person = record.participant ?? record.volunteer;
+                        return (
+                          <TableRow key={record.id}>
+                            <TableCell className="font-medium">
+                              {person ? `${person.firstName} ${person.lastName}` : "-"}
+                            </TableCell>
+                            <TableCell>{record.participant ? "Participant" : "Volunteer"}</TableCell>
+                            <TableCell>{record.participant?.community.name || "-"}</TableCell>
+                            <TableCell>{new Date(record.checkedInAt).toLocaleTimeString()}</TableCell>
+                            <TableCell>{record.checkedInBy?.username || "-"}</TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
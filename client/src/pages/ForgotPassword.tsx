@@ -0,0 +1,102 @@
+import { Navbar } from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Link } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Loader2, MailCheck } from "lucide-react";
+import { api } from "@/api";
+import { useState } from "react";
+
+export default function ForgotPassword() {
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = new FormData(e.currentTarget);
+    const identifier = String(form.get("identifier") || "").trim();
+
+    setIsSubmitting(true);
+    try {
+      setSentMessage(await api.forgotPassword(identifier));
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to request a password reset",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-12 flex items-center justify-center min-h-[calc(100vh-4rem)]">
+        <Card className="w-full max-w-md shadow-card animate-fade-in">
+          <CardHeader className="text-center">
+            <div className="inline-flex items-center justify-center p-3 bg-gradient-hero rounded-full mb-4 mx-auto">
+              {sentMessage ? (
+                <MailCheck className="h-8 w-8 text-primary-foreground" />
+              ) : (
+                <KeyRound className="h-8 w-8 text-primary-foreground" />
+              )}
+            </div>
+            <CardTitle className="text-2xl">Forgot Password</CardTitle>
+            <CardDescription>
+              {sentMessage
+                ? "Check your inbox"
+                : "Enter your username or email and we'll send you a link to reset your password."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {sentMessage ? (
+              <p className="text-sm text-center text-muted-foreground">
+                {sentMessage} The link expires in 1 hour.
+              </p>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="identifier">Username or Email</Label>
+                  <Input
+                    id="identifier"
+                    name="identifier"
+                    type="text"
+                    placeholder="e.g., admin_user or you@example.com"
+                    required
+                    disabled={isSubmitting}
+                    autoComplete="username"
+                    spellCheck={false}
+                  />
+                </div>
+                <Button type="submit" variant="hero" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                      Sending...
+                    </>
+                  ) : (
+                    "Send Reset Link"
+                  )}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+          <CardFooter className="flex flex-col gap-3">
+            <div className="text-sm text-center text-muted-foreground">
+              Remembered it?{" "}
+              <Link to="/login" className="text-primary hover:underline font-medium">
+                Back to Login
+              </Link>
+            </div>
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+}
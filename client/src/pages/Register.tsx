@@ -11,6 +11,7 @@ import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { UserPlus, Loader2, ChevronDown } from "lucide-react";
 import { api, type CreateParticipantInput } from "@/api";
+import type { SportRecord } from "@/types";
 import { useNavigate } from "react-router-dom";
 
 const usernamePattern = /^[a-zA-Z0-9_.-]{3,30}$/;
@@ -149,6 +150,25 @@ export default function Register() {
 
   const calculatedAge = calculateAge(dob);
 
+  // Hide sports restricted to the other gender (subsports inherit their parent's restriction)
+  const isGenderEligible = (sport: SportRecord, selectedGender: string) => {
+    const parent = sport.parentId ? sports.find((s) => s.id === sport.parentId) : undefined;
+    const sportGender = sport.gender ?? parent?.gender;
+    return !selectedGender || !sportGender || sportGender === "mixed" || sportGender === selectedGender;
+  };
+  const eligibleSports = sports.filter((sport) => isGenderEligible(sport, gender));
+
+  const handleGenderChange = (value: string) => {
+    setGender(value);
+    // Drop selections that are no longer available for the new gender
+    setSelectedSports((prev) =>
+      prev.filter((sportId) => {
+        const sport = sports.find((s) => s.id === sportId);
+        return !sport || isGenderEligible(sport, value);
+      })
+    );
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const trimmedUsername = username.trim();
@@ -245,21 +265,28 @@ export default function Register() {
     }
     
     setIsSubmitting(true);
-    
+
+    // Check gender restrictions and age limits for the selected sports before submitting
     try {
-      await api.createParticipant(payload);
-      
-      // Try to send confirmation email, but don't fail if it doesn't work
-      try {
-        await api.sendRegistrationConfirmation(payload.email);
-      } catch (emailError) {
-        // Email failed, but registration succeeded - log it but continue
-        console.log("Could not send confirmation email:", emailError);
+      const eligibility = await Promise.all(
+        payload.sports.map((sportId) => api.checkSportEligibility(sportId, payload.dob, payload.gender))
+      );
+      const reasons = eligibility.filter((result) => !result.eligible).flatMap((result) => result.reasons);
+      if (reasons.length > 0) {
+        toast({ title: "Not Eligible", description: reasons.join(". "), variant: "destructive", duration: 5000 });
+        setIsSubmitting(false);
+        return;
       }
+    } catch {
+      // The server checks eligibility again on submission
+    }
+
+    try {
+      await api.createParticipant(payload);
       
       toast({ 
         title: "🎉 Registration Successful!", 
-        description: `Your account has been created! Use your username (${trimmedUsername}) and password to log in once approved.`,
+        description: `Your account has been created! Check ${payload.email} for a link to confirm your email address, then use your username (${trimmedUsername}) and password to log in once approved.`,
         duration: 5000,
       });
       
@@ -404,7 +431,7 @@ export default function Register() {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="gender">Gender *</Label>
-                    <Select required onValueChange={setGender} disabled={isSubmitting}>
+                    <Select required onValueChange={handleGenderChange} disabled={isSubmitting}>
                       <SelectTrigger>
                         <SelectValue placeholder="Select gender" />
                       </SelectTrigger>
@@ -554,11 +581,12 @@ export default function Register() {
                   </button>
                   {isSportsSectionOpen && (
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {sports
+                    {eligibleSports
                       .filter((s: any) => !s.parentId)
                       .map((parent: any) => {
-                        const children = sports.filter((s: any) => s.parentId === parent.id);
-                        const hasChildren = children.length > 0;
+                        const hasChildren = sports.some((s) => s.parentId === parent.id);
+                        const children = eligibleSports.filter((s: any) => s.parentId === parent.id);
+                        if (hasChildren && children.length === 0) return null;
                         
                         return (
                           <div key={parent.id} className="space-y-2">
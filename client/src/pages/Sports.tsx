@@ -1,11 +1,13 @@
 import { Navbar } from "@/components/Navbar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Trophy, Phone, Mail, BookOpen } from "lucide-react";
+import { Trophy, Phone, Mail, BookOpen, MapPin, Users } from "lucide-react";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { useQuery } from "@tanstack/react-query";
 import { api } from "@/api";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Link } from "react-router-dom";
 
 export default function Sports() {
   const { data: convenors = [], isLoading: isLoadingConvenors } = useQuery({
@@ -23,6 +25,11 @@ export default function Sports() {
     queryFn: api.listTournamentFormats,
   });
 
+  const { data: venues = [], isLoading: isLoadingVenues } = useQuery({
+    queryKey: ["venues"],
+    queryFn: api.listVenues,
+  });
+
   const sportsWithRules = sports.filter(s => s.rules);
 
   return (
@@ -41,10 +48,11 @@ export default function Sports() {
         </div>
 
         <Tabs defaultValue="convenors" className="max-w-5xl mx-auto">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="convenors">Convenors</TabsTrigger>
             <TabsTrigger value="rules">Rules</TabsTrigger>
             <TabsTrigger value="formats">Formats</TabsTrigger>
+            <TabsTrigger value="venues">Venues</TabsTrigger>
           </TabsList>
 
           <TabsContent value="convenors" className="mt-6">
@@ -176,6 +184,68 @@ export default function Sports() {
               </Card>
             )}
           </TabsContent>
+
+          <TabsContent value="venues" className="mt-6">
+            {isLoadingVenues ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {Array.from({ length: 4 }).map((_, i) => (
+                  <Card key={i}>
+                    <CardHeader>
+                      <Skeleton className="h-6 w-40" />
+                      <Skeleton className="h-4 w-56 mt-2" />
+                    </CardHeader>
+                    <CardContent>
+                      <Skeleton className="h-6 w-full" />
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : venues.length === 0 ? (
+              <Card>
+                <CardContent className="py-8 text-center text-muted-foreground">
+                  No venues found.
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {venues.map((venue, index) => {
+                  const venueSports = sports.filter((sport) => sport.venueId === venue.id);
+                  return (
+                    <Card key={venue.id} className="hover:shadow-card transition-shadow animate-fade-in" style={{ animationDelay: `${index * 0.05}s` }}>
+                      <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                          <MapPin className="h-5 w-5 text-primary" />
+                          <Link to={`/venues/${venue.id}`} className="hover:text-primary hover:underline">
+                            {venue.name}
+                          </Link>
+                        </CardTitle>
+                        {venue.address && <CardDescription>{venue.address}</CardDescription>}
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        {venue.capacity && (
+                          <div className="flex items-center gap-2 text-sm">
+                            <Users className="h-4 w-4 text-muted-foreground" />
+                            <span>Capacity {venue.capacity}</span>
+                          </div>
+                        )}
+                        <div className="flex flex-wrap gap-1">
+                          {venueSports.length > 0 ? (
+                            venueSports.map((sport) => (
+                              <Badge key={sport.id} variant="secondary">
+                                {sport.name}
+                              </Badge>
+                            ))
+                          ) : (
+                            <span className="text-sm text-muted-foreground">No sports assigned yet</span>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+          </TabsContent>
         </Tabs>
       </div>
     </div>
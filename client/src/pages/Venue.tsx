@@ -0,0 +1,195 @@
+import { Navbar } from "@/components/Navbar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { api } from "@/api";
+import { useQuery } from "@tanstack/react-query";
+import { Accessibility, ArrowLeft, Calendar as CalendarIcon, Clock, ExternalLink, MapPin, Trophy, Users } from "lucide-react";
+import { Link, useParams } from "react-router-dom";
+
+export default function Venue() {
+  const { id } = useParams<{ id: string }>();
+
+  const { data: venue, isLoading, error } = useQuery({
+    queryKey: ["venue", id],
+    queryFn: () => api.getVenue(id),
+    enabled: !!id,
+  });
+
+  // Group the venue's calendar items by day, in date order
+  const groupedItems = (venue?.calendarItems ?? []).reduce((acc, item) => {
+    if (!acc[item.date]) {
+      acc[item.date] = [];
+    }
+    acc[item.date].push(item);
+    return acc;
+  }, {} as Record<string, NonNullable<typeof venue>["calendarItems"]>);
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString("en-US", {
+      weekday: "long",
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+  };
+
+  const mapUrl =
+    venue?.latitude != null && venue?.longitude != null
+      ? `https://www.openstreetmap.org/?mlat=${venue.latitude}&mlon=${venue.longitude}#map=17/${venue.latitude}/${venue.longitude}`
+      : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-12">
+        <div className="max-w-5xl mx-auto space-y-8">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/calendar">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Calendar
+            </Link>
+          </Button>
+
+          {isLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-10 w-64" />
+              <Skeleton className="h-32 w-full" />
+              <Skeleton className="h-48 w-full" />
+            </div>
+          ) : error || !venue ? (
+            <Card>
+              <CardContent className="py-8 text-center text-muted-foreground">Venue not found.</CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="text-center animate-fade-in">
+                <div className="inline-flex items-center justify-center p-3 bg-gradient-hero rounded-full mb-4">
+                  <MapPin className="h-8 w-8 text-primary-foreground" />
+                </div>
+                <h1 className="text-4xl font-bold mb-3">{venue.name}</h1>
+                {venue.address && <p className="text-muted-foreground max-w-2xl mx-auto whitespace-pre-wrap">{venue.address}</p>}
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-xl">Venue Details</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-wrap items-center gap-4 text-sm">
+                    {venue.capacity && (
+                      <span className="flex items-center gap-2">
+                        <Users className="h-4 w-4 text-muted-foreground" />
+                        Capacity {venue.capacity}
+                      </span>
+                    )}
+                    {mapUrl && (
+                      <a
+                        href={mapUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-2 text-primary hover:underline"
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                        Open in map
+                      </a>
+                    )}
+                  </div>
+
+                  {venue.surfaces.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium">Surfaces and courts</p>
+                      <div className="flex flex-wrap gap-1">
+                        {venue.surfaces.map((surface) => (
+                          <Badge key={surface} variant="secondary">
+                            {surface}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {venue.accessibilityNotes && (
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium flex items-center gap-2">
+                        <Accessibility className="h-4 w-4 text-muted-foreground" />
+                        Accessibility
+                      </p>
+                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">{venue.accessibilityNotes}</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-xl flex items-center gap-2">
+                    <Trophy className="h-5 w-5 text-primary" />
+                    Sports Held Here
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {venue.sports.length === 0 ? (
+                    <p className="text-muted-foreground">No sports are based at this venue.</p>
+                  ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      {venue.sports.map((sport) => (
+                        <div key={sport.id} className="rounded-md border p-3">
+                          <div className="font-medium">
+                            {sport.parent ? `${sport.parent.name} - ${sport.name}` : sport.name}
+                          </div>
+                          {(sport.date || sport.timings) && (
+                            <div className="text-sm text-muted-foreground">
+                              {[sport.date && new Date(sport.date).toLocaleDateString(), sport.timings]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="space-y-4">
+                <h2 className="text-2xl font-bold flex items-center gap-2">
+                  <CalendarIcon className="h-6 w-6 text-primary" />
+                  Schedule
+                </h2>
+                {Object.keys(groupedItems).length === 0 ? (
+                  <p className="text-muted-foreground">Nothing is scheduled here yet.</p>
+                ) : (
+                  Object.entries(groupedItems).map(([date, items]) => (
+                    <div key={date} className="space-y-2">
+                      <h3 className="text-lg font-semibold">{formatDate(date)}</h3>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {items.map((item) => (
+                          <Card key={item.id}>
+                            <CardHeader>
+                              <div className="flex items-start justify-between">
+                                <CardTitle className="text-lg">{item.sport.name}</CardTitle>
+                                <Badge variant={item.type === "Finals" ? "default" : "secondary"}>{item.type}</Badge>
+                              </div>
+                              <CardDescription className="flex items-center gap-2">
+                                <Clock className="h-4 w-4" />
+                                {item.time}
+                              </CardDescription>
+                            </CardHeader>
+                          </Card>
+                        ))}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
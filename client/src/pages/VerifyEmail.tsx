@@ -0,0 +1,74 @@
+import { Navbar } from "@/components/Navbar";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Link, useSearchParams } from "react-router-dom";
+import { MailCheck, MailWarning, Loader2 } from "lucide-react";
+import { api } from "@/api";
+import { useAuth } from "@/hooks/api/useAuth";
+import { useEffect, useRef, useState } from "react";
+
+export default function VerifyEmail() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const { user, refreshUser } = useAuth();
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(
+    token ? null : { ok: false, message: "This verification link is incomplete." }
+  );
+  const requestedRef = useRef(false);
+
+  useEffect(() => {
+    // Verify once, even if the effect runs twice in development
+    if (!token || requestedRef.current) return;
+    requestedRef.current = true;
+
+    api.verifyEmail(token)
+      .then((message) => {
+        setResult({ ok: true, message });
+        refreshUser();
+      })
+      .catch((err) => {
+        setResult({ ok: false, message: err instanceof Error ? err.message : "Failed to verify your email address" });
+      });
+  }, [token, refreshUser]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-12 flex items-center justify-center min-h-[calc(100vh-4rem)]">
+        <Card className="w-full max-w-md shadow-card animate-fade-in">
+          <CardHeader className="text-center">
+            <div className="inline-flex items-center justify-center p-3 bg-gradient-hero rounded-full mb-4 mx-auto">
+              {!result ? (
+                <Loader2 className="h-8 w-8 text-primary-foreground animate-spin" />
+              ) : result.ok ? (
+                <MailCheck className="h-8 w-8 text-primary-foreground" />
+              ) : (
+                <MailWarning className="h-8 w-8 text-primary-foreground" />
+              )}
+            </div>
+            <CardTitle className="text-2xl">Email Verification</CardTitle>
+            <CardDescription>
+              {!result ? "Confirming your email address..." : result.ok ? "All done" : "We couldn't verify your email"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {result && <p className="text-sm text-center text-muted-foreground">{result.message}</p>}
+          </CardContent>
+          <CardFooter className="flex flex-col gap-3">
+            <div className="text-sm text-center text-muted-foreground">
+              {user ? (
+                <Link to="/dashboard" className="text-primary hover:underline font-medium">
+                  Go to your dashboard
+                </Link>
+              ) : (
+                <Link to="/login" className="text-primary hover:underline font-medium">
+                  Go to Login
+                </Link>
+              )}
+            </div>
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+}
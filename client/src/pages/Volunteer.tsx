@@ -149,16 +149,9 @@ export default function Volunteer() {
 
       await api.createVolunteer(payload);
 
-      // Try to send confirmation email, but don't fail if it doesn't work
-      try {
-        await api.sendEmail(email, "Thank You for Volunteering", "We'll contact you soon with more details.");
-      } catch (emailError) {
-        console.log("Could not send confirmation email:", emailError);
-      }
-
       toast({ 
         title: "🎉 Registration Successful!", 
-        description: `Your volunteer account has been created! Use your username (${trimmedUsername}) and password to log in once approved.`,
+        description: `Your volunteer account has been created! Check ${email} for a link to confirm your email address, then use your username (${trimmedUsername}) and password to log in once approved.`,
         duration: 5000,
       });
 
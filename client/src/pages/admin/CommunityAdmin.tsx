@@ -2,6 +2,9 @@ import { Navbar } from "@/components/Navbar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { CommunityDetailView } from "@/components/admin/CommunityDetailView";
 import { CommunityParticipantsTable } from "@/components/admin/CommunityParticipantsTable";
+import { TeamManagement } from "@/components/admin/TeamManagement";
+import { BulkMessaging } from "@/components/admin/BulkMessaging";
+import { CalendarFeedCard } from "@/components/CalendarFeedCard";
 
 export default function CommunityAdmin() {
   return (
@@ -13,6 +16,9 @@ export default function CommunityAdmin() {
           <TabsList>
             <TabsTrigger value="details">Community Details</TabsTrigger>
             <TabsTrigger value="participants">Participants</TabsTrigger>
+            <TabsTrigger value="teams">Teams</TabsTrigger>
+            <TabsTrigger value="messages">Messages</TabsTrigger>
+            <TabsTrigger value="calendar">Calendar Feed</TabsTrigger>
           </TabsList>
 
           <TabsContent value="details">
@@ -22,6 +28,18 @@ export default function CommunityAdmin() {
           <TabsContent value="participants">
             <CommunityParticipantsTable />
           </TabsContent>
+
+          <TabsContent value="teams">
+            <TeamManagement />
+          </TabsContent>
+
+          <TabsContent value="messages">
+            <BulkMessaging />
+          </TabsContent>
+
+          <TabsContent value="calendar">
+            <CalendarFeedCard description="Subscribe from your phone calendar to follow the fixtures for every sport your accepted participants are in. Changes appear automatically." />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -9,8 +9,13 @@ import { CommunityManagement } from "@/components/admin/CommunityManagement";
 import { UserManagement } from "@/components/admin/UserManagement";
 import { VolunteerManagement } from "@/components/admin/VolunteerManagement";
 import { CalendarManagement } from "@/components/admin/CalendarManagement";
+import { VenueManagement } from "@/components/admin/VenueManagement";
 import { TournamentFormatsManagement } from "@/components/admin/TournamentFormatsManagement";
 import { SettingsManagement } from "@/components/admin/SettingsManagement";
+import { AuditHistoryPanel } from "@/components/admin/AuditHistoryPanel";
+import { EmailOutbox } from "@/components/admin/EmailOutbox";
+import { EmailTemplatesManagement } from "@/components/admin/EmailTemplatesManagement";
+import { BulkMessaging } from "@/components/admin/BulkMessaging";
 import { useAuth } from "@/hooks/api/useAuth";
 
 export default function AdminDashboard() {
@@ -61,8 +66,13 @@ export default function AdminDashboard() {
             <TabsTrigger value="users" className="justify-start">Users</TabsTrigger>
             <TabsTrigger value="volunteers" className="justify-start">Volunteers</TabsTrigger>
             <TabsTrigger value="calendar" className="justify-start">Calendar</TabsTrigger>
+            <TabsTrigger value="venues" className="justify-start">Venues</TabsTrigger>
             <TabsTrigger value="formats" className="justify-start">Tournament Formats</TabsTrigger>
+            <TabsTrigger value="email" className="justify-start">Email</TabsTrigger>
+            <TabsTrigger value="email-templates" className="justify-start">Email Templates</TabsTrigger>
+            <TabsTrigger value="bulk-email" className="justify-start">Bulk Email</TabsTrigger>
             <TabsTrigger value="settings" className="justify-start">Settings</TabsTrigger>
+            <TabsTrigger value="history" className="justify-start">History</TabsTrigger>
           </TabsList>
 
           <div className="flex-1 space-y-6">
@@ -104,13 +114,33 @@ export default function AdminDashboard() {
               <CalendarManagement />
             </TabsContent>
 
+            <TabsContent value="venues">
+              <VenueManagement />
+            </TabsContent>
+
             <TabsContent value="formats">
               <TournamentFormatsManagement />
             </TabsContent>
 
+            <TabsContent value="email">
+              <EmailOutbox />
+            </TabsContent>
+
+            <TabsContent value="email-templates">
+              <EmailTemplatesManagement />
+            </TabsContent>
+
+            <TabsContent value="bulk-email">
+              <BulkMessaging />
+            </TabsContent>
+
             <TabsContent value="settings">
               <SettingsManagement />
             </TabsContent>
+
+            <TabsContent value="history">
+              <AuditHistoryPanel />
+            </TabsContent>
           </div>
         </Tabs>
       </div>
@@ -2,6 +2,8 @@ import { Navbar } from "@/components/Navbar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SportDetailView } from "@/components/admin/SportDetailView";
 import { SportParticipantsTable } from "@/components/admin/SportParticipantsTable";
+import { BulkMessaging } from "@/components/admin/BulkMessaging";
+import { CalendarFeedCard } from "@/components/CalendarFeedCard";
 
 export default function SportsAdmin() {
   return (
@@ -13,6 +15,8 @@ export default function SportsAdmin() {
           <TabsList>
             <TabsTrigger value="details">Sport Details</TabsTrigger>
             <TabsTrigger value="participants">Participants</TabsTrigger>
+            <TabsTrigger value="messages">Messages</TabsTrigger>
+            <TabsTrigger value="calendar">Calendar Feed</TabsTrigger>
           </TabsList>
 
           <TabsContent value="details">
@@ -22,6 +26,14 @@ export default function SportsAdmin() {
           <TabsContent value="participants">
             <SportParticipantsTable />
           </TabsContent>
+
+          <TabsContent value="messages">
+            <BulkMessaging />
+          </TabsContent>
+
+          <TabsContent value="calendar">
+            <CalendarFeedCard description="Subscribe from your phone calendar to follow your sport's fixtures. Changes appear automatically." />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
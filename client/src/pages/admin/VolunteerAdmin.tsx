@@ -1,5 +1,9 @@
 import { Navbar } from "@/components/Navbar";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { VolunteerManagement } from "@/components/admin/VolunteerManagement";
+import { DepartmentManagement } from "@/components/admin/DepartmentManagement";
+import { ShiftManagement } from "@/components/admin/ShiftManagement";
+import { VolunteerSuggestions } from "@/components/admin/VolunteerSuggestions";
 
 export default function VolunteerAdmin() {
   return (
@@ -7,11 +11,27 @@ export default function VolunteerAdmin() {
       <Navbar />
       <div className="container mx-auto px-4 py-8">
         <h1 className="text-3xl font-bold mb-6">Volunteer Admin</h1>
-        <VolunteerManagement />
+        <Tabs defaultValue="volunteers" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="volunteers">Volunteers</TabsTrigger>
+            <TabsTrigger value="departments">Departments</TabsTrigger>
+            <TabsTrigger value="shifts">Shifts</TabsTrigger>
+            <TabsTrigger value="suggestions">Suggestions</TabsTrigger>
+          </TabsList>
+          <TabsContent value="volunteers">
+            <VolunteerManagement />
+          </TabsContent>
+          <TabsContent value="departments">
+            <DepartmentManagement />
+          </TabsContent>
+          <TabsContent value="shifts">
+            <ShiftManagement />
+          </TabsContent>
+          <TabsContent value="suggestions">
+            <VolunteerSuggestions />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
 }
-
-
-
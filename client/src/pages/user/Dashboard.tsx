@@ -11,9 +11,13 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api } from "@/api";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useEffect } from "react";
-import { User as UserIcon, CheckCircle2, Clock, XCircle, Edit } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { User as UserIcon, CheckCircle2, Clock, XCircle, Edit, MailWarning } from "lucide-react";
 import { useAuth } from "@/hooks/api/useAuth";
 import { useNavigate } from "react-router-dom";
+import { VolunteerAvailabilityCard } from "@/components/VolunteerAvailabilityCard";
+import { CredentialBadgeCard } from "@/components/CredentialBadgeCard";
+import { CalendarFeedCard } from "@/components/CalendarFeedCard";
 import type { Participant, SportRecord, VolunteerEntry } from "@/types";
 
 export default function UserDashboard() {
@@ -84,6 +88,12 @@ export default function UserDashboard() {
     enabled: user?.role === "volunteer",
   });
 
+  const { data: myShifts = [], isLoading: myShiftsLoading } = useQuery({
+    queryKey: ["myShifts"],
+    queryFn: api.getMyShifts,
+    enabled: user?.role === "volunteer",
+  });
+
   const { data: sports = [], isLoading: sportsLoading, isFetching: sportsFetching } = useQuery({
     queryKey: ["sports"],
     queryFn: api.listSports,
@@ -143,6 +153,20 @@ export default function UserDashboard() {
     setIsEditingSports(false);
   }, [participant, volunteer]);
 
+  const resendVerificationMutation = useMutation({
+    mutationFn: () => api.resendVerificationEmail(),
+    onSuccess: (message) => {
+      toast({ title: "Success", description: message });
+    },
+    onError: (err: Error) => {
+      toast({
+        title: "Error",
+        description: err.message || "Failed to resend the verification email.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateProfileMutation = useMutation({
     mutationFn: (data: any) =>
       user?.role === "volunteer"
@@ -446,6 +470,24 @@ export default function UserDashboard() {
           </p>
         </div>
 
+        {user.emailVerified === false && (
+          <Alert className="mb-6">
+            <MailWarning className="h-4 w-4" />
+            <AlertTitle>Please confirm your email address</AlertTitle>
+            <AlertDescription className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <span>We sent a confirmation link to {user.email || "your email address"} when you registered.</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => resendVerificationMutation.mutate()}
+                disabled={resendVerificationMutation.isPending}
+              >
+                Resend Link
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {participant &&
           user.role === "user" &&
           participant.status &&
@@ -479,8 +521,14 @@ export default function UserDashboard() {
               <TabsTrigger value="sports">Edit Sports Selected</TabsTrigger>
             )}
             {user.role === "volunteer" && (
-              <TabsTrigger value="assignments">Assigned Sports</TabsTrigger>
+              <>
+                <TabsTrigger value="assignments">Assigned Sports</TabsTrigger>
+                <TabsTrigger value="shifts">My Shifts</TabsTrigger>
+                <TabsTrigger value="availability">Availability</TabsTrigger>
+              </>
             )}
+            <TabsTrigger value="badge">My Badge</TabsTrigger>
+            <TabsTrigger value="calendar">Calendar</TabsTrigger>
           </TabsList>
 
           {/* Profile Tab */}
@@ -931,6 +979,85 @@ export default function UserDashboard() {
               </Card>
             </TabsContent>
           )}
+
+          {/* Volunteer Availability */}
+          {user.role === "volunteer" && (
+            <TabsContent value="availability">
+              <VolunteerAvailabilityCard />
+            </TabsContent>
+          )}
+
+          {/* Volunteer Shifts */}
+          {user.role === "volunteer" && (
+            <TabsContent value="shifts">
+              <Card>
+                <CardHeader>
+                  <CardTitle>My Shifts</CardTitle>
+                  <CardDescription>
+                    Shifts the volunteer admin has rostered you on, in time order.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {myShiftsLoading ? (
+                    <div className="text-center text-muted-foreground">Loading shifts...</div>
+                  ) : myShifts.length > 0 ? (
+                    <div className="space-y-3">
+                      {myShifts.map((shift) => (
+                        <div key={shift.id} className="border rounded-lg p-4 space-y-2">
+                          <div className="flex items-start justify-between gap-2">
+                            <h3 className="font-semibold">{shift.title}</h3>
+                            {new Date(shift.endTime) < new Date() && <Badge variant="outline">Completed</Badge>}
+                          </div>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-muted-foreground">
+                            <div>
+                              <span className="font-medium text-foreground">When:</span>{" "}
+                              {new Date(shift.startTime).toLocaleString()} - {new Date(shift.endTime).toLocaleTimeString()}
+                            </div>
+                            {shift.venue && (
+                              <div>
+                                <span className="font-medium text-foreground">Venue:</span> {shift.venue}
+                              </div>
+                            )}
+                            {shift.department && (
+                              <div>
+                                <span className="font-medium text-foreground">Department:</span> {shift.department.name}
+                              </div>
+                            )}
+                            {shift.sport && (
+                              <div>
+                                <span className="font-medium text-foreground">Sport:</span> {shift.sport.name}
+                              </div>
+                            )}
+                          </div>
+                          {shift.notes && <p className="text-sm text-muted-foreground">{shift.notes}</p>}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center text-muted-foreground">
+                      You haven&apos;t been rostered on any shifts yet.
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          {/* QR Badge */}
+          <TabsContent value="badge">
+            <CredentialBadgeCard />
+          </TabsContent>
+
+          {/* Personal iCal feed */}
+          <TabsContent value="calendar">
+            <CalendarFeedCard
+              description={
+                user.role === "volunteer"
+                  ? "Subscribe from your phone calendar to see your shifts and your sport's fixtures. Changes appear automatically."
+                  : "Subscribe from your phone calendar to see the fixtures for the sports you're registered in. Changes appear automatically."
+              }
+            />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -10,6 +10,7 @@ export interface User {
   role: Exclude<Role, null>;
   communityId?: string;
   sportId?: string;
+  emailVerified?: boolean;
 }
 
 export interface Participant {
@@ -29,11 +30,18 @@ export interface Participant {
     lastName: string;
     phone: string;
   };
-  sports: string[] | Array<{ sport: { id: string; name: string } }>; // Can be array of IDs or array of sport objects
+  sports:
+    | string[]
+    | Array<{
+        sport: { id: string; name: string };
+        status?: "registered" | "waitlisted";
+        waitlistPosition?: number | null;
+      }>; // Can be array of IDs or array of sport objects
   status: "pending" | "accepted" | "rejected";
   pendingSports?: string[] | null;
   teamName?: string;
   notes?: string | null;
+  emailVerified?: boolean;
   createdAt: string;
   // Helper to get sport IDs array
   getSportIds?: () => string[];
@@ -50,6 +58,8 @@ export interface VolunteerEntry {
   phone: string;
   sportId?: string;
   sport?: SportRecord | null;
+  departmentId?: string | null;
+  department?: DepartmentRecord | null;
   userId?: string;
   createdAt: string;
 }
@@ -61,6 +71,7 @@ export interface SportRecord {
   type: "individual" | "team";
   requiresTeamName: boolean;
   parentId?: string;
+  venueId?: string | null;
   venue?: string;
   timings?: string;
   date?: string; // ISO date string
@@ -71,6 +82,11 @@ export interface SportRecord {
   };
   ageLimitMin?: number; // Alternative format
   ageLimitMax?: number; // Alternative format
+  maxPerCommunity?: number | null;
+  maxTotal?: number | null;
+  minTeamSize?: number | null;
+  maxTeamSize?: number | null;
+  tieBreakers?: TieBreaker[]; // Applied in order when group standings are level on points
   rules?: string;
   notes?: string | null;
   adminUsername?: string | null;
@@ -78,6 +94,18 @@ export interface SportRecord {
   adminPassword?: string | null;
 }
 
+export interface SportEligibility {
+  sportId: string;
+  sportName: string;
+  eligible: boolean;
+  age: number;
+  gender: "male" | "female" | "mixed" | null;
+  ageLimitMin: number | null;
+  ageLimitMax: number | null;
+  reasons: string[];
+  referenceDate: string;
+}
+
 export interface CommunityRecord {
   id: string;
   name: string;
@@ -94,6 +122,110 @@ export interface CommunityRecord {
 export interface DepartmentRecord {
   id: string;
   name: string;
+  description?: string | null;
+  volunteers?: Array<{ id: string; firstName: string; lastName: string; email: string }>;
+  _count?: { shifts: number };
+}
+
+export interface DepartmentInput {
+  name: string;
+  description?: string | null;
+  volunteerIds?: string[];
+}
+
+export interface Venue {
+  id: string;
+  name: string;
+  address?: string | null;
+  capacity?: number | null;
+  surfaces: string[];
+  latitude?: number | null;
+  longitude?: number | null;
+  accessibilityNotes?: string | null;
+  _count?: { sports: number; calendarItems: number };
+}
+
+export type VenueInput = Omit<Venue, "id" | "_count">;
+
+export interface VenueDetail extends Venue {
+  sports: Array<{
+    id: string;
+    name: string;
+    type: "individual" | "team";
+    date?: string | null;
+    timings?: string | null;
+    active: boolean;
+    parent?: { id: string; name: string } | null;
+  }>;
+  calendarItems: Array<CalendarItem & { sport: { id: string; name: string } }>;
+}
+
+export interface ShiftAssignment {
+  id: string;
+  shiftId: string;
+  volunteerId: string;
+  createdAt: string;
+  volunteer: { id: string; firstName: string; lastName: string; email: string; phone: string };
+}
+
+export interface Shift {
+  id: string;
+  title: string;
+  departmentId?: string | null;
+  sportId?: string | null;
+  venue?: string | null;
+  startTime: string;
+  endTime: string;
+  requiredCount: number;
+  notes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  department?: { id: string; name: string } | null;
+  sport?: { id: string; name: string } | null;
+  assignments?: ShiftAssignment[];
+}
+
+export interface ShiftInput {
+  title: string;
+  departmentId?: string | null;
+  sportId?: string | null;
+  venue?: string | null;
+  startTime: string;
+  endTime: string;
+  requiredCount: number;
+  notes?: string | null;
+  volunteerIds?: string[];
+}
+
+export interface AvailabilityWindow {
+  id?: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface VolunteerAvailability {
+  windows: AvailabilityWindow[];
+  preferredDepartmentIds: string[];
+  preferredSportIds: string[];
+}
+
+export type SuggestionKind = "shift" | "calendarItem";
+
+export interface VolunteerSuggestion {
+  kind: SuggestionKind;
+  targetId: string;
+  targetLabel: string;
+  startTime: string;
+  endTime: string;
+  volunteerId: string;
+  volunteerName: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface AcceptSuggestionsResult {
+  accepted: number;
+  failed: Array<{ kind: SuggestionKind; targetId: string; volunteerId: string; error: string }>;
 }
 
 export interface CalendarItem {
@@ -101,10 +233,236 @@ export interface CalendarItem {
   sportId: string;
   date: string;
   time: string;
+  startTime?: string | null; // ISO; missing on items created before structured times
+  endTime?: string | null;
+  venueId?: string | null;
   venue: string;
   type: string;
 }
 
+export interface CalendarItemInput extends Omit<CalendarItem, "id" | "venue"> {
+  venue?: string; // Free-text name, only used when venueId is not set
+  force?: boolean; // Save despite a venue double-booking
+}
+
+export interface ScheduleItem {
+  id: string;
+  sportId: string;
+  sportName: string;
+  type: string;
+  venueId: string | null;
+  venue: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface VenueConflict {
+  venue: string;
+  items: [ScheduleItem, ScheduleItem];
+}
+
+export interface ParticipantClash {
+  participant: {
+    participantId: string;
+    name: string;
+    community: string;
+  };
+  items: [ScheduleItem, ScheduleItem];
+}
+
+export interface ScheduleCheckInput {
+  id?: string;
+  sportId: string;
+  type?: string;
+  venueId?: string | null;
+  venue?: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface ScheduleCheckResult {
+  venueConflicts: VenueConflict[];
+  participantClashes: ParticipantClash[];
+}
+
+export interface CheckInCredential {
+  token: string;
+  qrCode: string; // PNG data URL
+  type: "participant" | "volunteer";
+  name: string;
+  details: string[];
+}
+
+export interface CheckInHolder {
+  type: "participant" | "volunteer";
+  id: string;
+  name: string;
+  community?: string;
+}
+
+export interface CheckInResult {
+  status: "checked_in" | "already_checked_in";
+  checkedInAt: string;
+  holder: CheckInHolder;
+}
+
+export interface AttendanceRecord {
+  id: string;
+  calendarItemId: string;
+  participantId?: string | null;
+  volunteerId?: string | null;
+  checkedInAt: string;
+  participant?: { id: string; firstName: string; lastName: string; community: { id: string; name: string } } | null;
+  volunteer?: { id: string; firstName: string; lastName: string } | null;
+  checkedInBy?: { id: string; username: string } | null;
+}
+
+export type DrawFormat = "single_elimination" | "double_elimination" | "round_robin";
+
+export type DrawEntrantType = "community" | "team" | "participant";
+
+export type MatchResultType = "normal" | "walkover" | "forfeit" | "abandoned";
+
+export interface SetScore {
+  home: number;
+  away: number;
+}
+
+export interface MatchRecord {
+  id: string;
+  sportId: string;
+  format: DrawFormat;
+  bracket: "winners" | "losers" | "grand_final" | "group";
+  group?: string | null;
+  round: number;
+  matchNumber: number;
+  homeCommunityId?: string | null;
+  awayCommunityId?: string | null;
+  homeParticipantId?: string | null;
+  awayParticipantId?: string | null;
+  homeTeamId?: string | null;
+  awayTeamId?: string | null;
+  venue?: string | null;
+  scheduledAt?: string | null;
+  status: "scheduled" | "in_progress" | "completed" | "cancelled";
+  nextMatchId?: string | null;
+  nextMatchSlot?: "home" | "away" | null;
+  loserMatchId?: string | null;
+  loserMatchSlot?: "home" | "away" | null;
+  resultType?: MatchResultType | null;
+  homeScore?: number | null;
+  awayScore?: number | null;
+  sets?: SetScore[] | null;
+  winnerSlot?: "home" | "away" | null;
+  mvpParticipantId?: string | null;
+  resultNotes?: string | null;
+  homeFairPlay?: number | null;
+  awayFairPlay?: number | null;
+  sport?: { id: string; name: string; type: "individual" | "team" };
+  homeCommunity?: { id: string; name: string } | null;
+  awayCommunity?: { id: string; name: string } | null;
+  homeParticipant?: { id: string; firstName: string; lastName: string; communityId: string } | null;
+  awayParticipant?: { id: string; firstName: string; lastName: string; communityId: string } | null;
+  homeTeam?: { id: string; name: string; communityId: string } | null;
+  awayTeam?: { id: string; name: string; communityId: string } | null;
+  mvp?: { id: string; firstName: string; lastName: string; communityId: string } | null;
+}
+
+export interface MatchResultInput {
+  resultType: MatchResultType;
+  homeScore?: number | null;
+  awayScore?: number | null;
+  sets?: SetScore[] | null;
+  winner?: "home" | "away" | null;
+  mvpParticipantId?: string | null;
+  resultNotes?: string | null;
+  homeFairPlay?: number | null;
+  awayFairPlay?: number | null;
+}
+
+export interface TeamMember {
+  id: string;
+  participantId: string;
+  sportId: string;
+  status?: "registered" | "waitlisted";
+  participant: {
+    id: string;
+    firstName: string;
+    middleName?: string | null;
+    lastName: string;
+    gender: "male" | "female" | "mixed";
+    email: string;
+    phone: string;
+  };
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  communityId: string;
+  sportId: string;
+  captainId?: string | null;
+  notes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  community?: { id: string; name: string };
+  sport?: {
+    id: string;
+    name: string;
+    type: "individual" | "team";
+    minTeamSize?: number | null;
+    maxTeamSize?: number | null;
+  };
+  captain?: { id: string; firstName: string; lastName: string } | null;
+  members: TeamMember[];
+}
+
+export interface TeamInput {
+  name: string;
+  communityId: string;
+  sportId: string;
+  captainId?: string | null;
+  memberIds: string[];
+  notes?: string | null;
+}
+
+export type TieBreaker = "head_to_head" | "goal_difference" | "goals_scored" | "fair_play";
+
+export interface StandingsRow {
+  position: number;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  scoreFor: number;
+  scoreAgainst: number;
+  difference: number;
+  points: number;
+  fairPlay: number;
+  community: { id: string; name: string } | null;
+  team: { id: string; name: string; communityId: string } | null;
+  participant: { id: string; firstName: string; lastName: string; communityId: string } | null;
+}
+
+export interface GroupStandings {
+  group: string | null;
+  complete: boolean;
+  rows: StandingsRow[];
+}
+
+export interface SportStandings {
+  sportId: string;
+  tieBreakers: TieBreaker[];
+  groups: GroupStandings[];
+}
+
+export interface SportDraw {
+  sportId: string;
+  sportName: string;
+  format: DrawFormat;
+  matches: MatchRecord[];
+}
+
 export interface SettingsRecord {
   id: string;
   ageCalculatorDate?: string | null;
@@ -139,11 +497,29 @@ export interface Convenor {
   updatedAt: string;
 }
 
+export interface PointsTable {
+  gold: number;
+  silver: number;
+  bronze: number;
+  places: number[]; // Points for 4th place onwards
+  participation: number;
+}
+
+export interface PointsRules {
+  default: PointsTable;
+  sportTypes?: {
+    team?: PointsTable;
+    individual?: PointsTable;
+  };
+  sports?: Record<string, PointsTable>;
+}
+
 export interface TournamentFormat {
   id: string;
   category: string;
   title: string;
   content: string;
+  rules?: PointsRules | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -155,7 +531,9 @@ export interface LeaderboardEntry {
   score: number;
   position?: number | null;
   medalType: "gold" | "silver" | "bronze" | "none";
+  teamId?: string | null;
   notes?: string | null;
+  fromResults?: boolean; // Position last set from match results
   createdAt: string;
   updatedAt: string;
   community?: {
@@ -167,6 +545,10 @@ export interface LeaderboardEntry {
     id: string;
     name: string;
   };
+  team?: {
+    id: string;
+    name: string;
+  } | null;
 }
 
 export interface LeaderboardRanking {
@@ -186,6 +568,8 @@ export interface SportLeaderboardEntry {
   score: number;
   position?: number | null;
   medalType: "gold" | "silver" | "bronze" | "none";
+  teamId?: string | null;
+  teamName?: string | null;
   notes?: string | null;
   rank: number;
 }
@@ -198,3 +582,156 @@ export interface BulkUploadResult {
   errors: Array<{ row: number; email?: string; errors: string[] }>;
 }
 
+export type ParticipantImportField =
+  | "firstName"
+  | "middleName"
+  | "lastName"
+  | "gender"
+  | "dob"
+  | "email"
+  | "phone"
+  | "username"
+  | "sports"
+  | "community"
+  | "paymentDetails"
+  | "nextOfKinFirstName"
+  | "nextOfKinMiddleName"
+  | "nextOfKinLastName"
+  | "nextOfKinPhone";
+
+export type ParticipantImportData = Record<ParticipantImportField, string>;
+
+export interface ParticipantImportRow {
+  row: number; // Line in the uploaded sheet
+  data: ParticipantImportData;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ParticipantImportPreview {
+  importId: string;
+  fileName: string;
+  expiresAt: string;
+  rows: ParticipantImportRow[];
+}
+
+export interface ParticipantImportResult {
+  importedCount: number;
+  waitlisted: Array<{ row: number; sports: string[] }>;
+}
+
+export type ExportFormat = "csv" | "excel" | "pdf";
+
+
+export type AuditAction = "create" | "update" | "delete";
+
+export interface AuditEvent {
+  id: string;
+  actorId?: string | null;
+  actorUsername?: string | null;
+  actorRole?: Role | null;
+  action: AuditAction;
+  entityType: string;
+  entityId: string;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  createdAt: string;
+}
+
+export interface AuditEventFilters {
+  entityType?: string;
+  entityId?: string;
+  actorId?: string;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export type EmailStatus = "queued" | "sending" | "sent" | "failed";
+
+export interface OutboxEmail {
+  id: string;
+  to: string;
+  from: string;
+  subject: string;
+  body: string;
+  status: EmailStatus;
+  attempts: number;
+  lastError?: string | null;
+  nextAttemptAt: string;
+  sentAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OutboxPage {
+  emails: OutboxEmail[];
+  total: number;
+  counts: Record<EmailStatus, number>;
+}
+
+export interface OutboxFilters {
+  status?: EmailStatus;
+  limit?: number;
+  offset?: number;
+}
+
+export interface EmailTemplateContent {
+  subject: string;
+  textBody: string;
+  htmlBody: string | null;
+}
+
+export interface EmailTemplate extends EmailTemplateContent {
+  key: string;
+  name: string;
+  description: string;
+  placeholders: string[];
+  defaults: EmailTemplateContent;
+  customized: boolean;
+  updatedAt: string | null;
+}
+
+export interface EmailTemplatePreview {
+  subject: string;
+  body: string;
+  html?: string;
+  unknownPlaceholders: string[];
+}
+
+export type CampaignAudienceType = "participants" | "volunteers" | "community_contacts" | "users";
+
+export interface CampaignAudience {
+  audience: CampaignAudienceType;
+  communityId?: string;
+  sportId?: string;
+  status?: Participant["status"];
+  departmentId?: string;
+  role?: Exclude<Role, null>;
+}
+
+export interface CampaignPreview {
+  audience: CampaignAudience;
+  count: number;
+  recipients: Array<{ name: string; email: string }>;
+  sample: { subject: string; body: string } | null;
+  unknownPlaceholders: string[];
+}
+
+export interface EmailCampaign {
+  id: string;
+  subject: string;
+  body: string;
+  audience: CampaignAudience;
+  recipientCount: number;
+  senderId?: string | null;
+  senderUsername?: string | null;
+  senderRole?: Role;
+  createdAt: string;
+  counts: Record<EmailStatus, number>;
+}
+
+export interface EmailCampaignReport extends EmailCampaign {
+  emails: Array<Pick<OutboxEmail, "id" | "to" | "subject" | "status" | "attempts" | "lastError" | "sentAt" | "updatedAt">>;
+}
@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "DrawFormat" AS ENUM ('single_elimination', 'double_elimination', 'round_robin');
+
+-- CreateEnum
+CREATE TYPE "MatchBracket" AS ENUM ('winners', 'losers', 'grand_final', 'group');
+
+-- CreateEnum
+CREATE TYPE "MatchSlot" AS ENUM ('home', 'away');
+
+-- CreateEnum
+CREATE TYPE "MatchStatus" AS ENUM ('scheduled', 'in_progress', 'completed', 'cancelled');
+
+-- CreateTable
+CREATE TABLE "Match" (
+    "id" TEXT NOT NULL,
+    "sportId" TEXT NOT NULL,
+    "format" "DrawFormat" NOT NULL,
+    "bracket" "MatchBracket" NOT NULL,
+    "group" TEXT,
+    "round" INTEGER NOT NULL,
+    "matchNumber" INTEGER NOT NULL,
+    "homeCommunityId" TEXT,
+    "awayCommunityId" TEXT,
+    "homeParticipantId" TEXT,
+    "awayParticipantId" TEXT,
+    "venue" TEXT,
+    "scheduledAt" TIMESTAMP(3),
+    "status" "MatchStatus" NOT NULL DEFAULT 'scheduled',
+    "nextMatchId" TEXT,
+    "nextMatchSlot" "MatchSlot",
+    "loserMatchId" TEXT,
+    "loserMatchSlot" "MatchSlot",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Match_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Match_sportId_idx" ON "Match"("sportId");
+
+-- CreateIndex
+CREATE INDEX "Match_scheduledAt_idx" ON "Match"("scheduledAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Match_sportId_bracket_round_matchNumber_key" ON "Match"("sportId", "bracket", "round", "matchNumber");
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_sportId_fkey" FOREIGN KEY ("sportId") REFERENCES "Sport"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_homeCommunityId_fkey" FOREIGN KEY ("homeCommunityId") REFERENCES "Community"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_awayCommunityId_fkey" FOREIGN KEY ("awayCommunityId") REFERENCES "Community"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_homeParticipantId_fkey" FOREIGN KEY ("homeParticipantId") REFERENCES "Participant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_awayParticipantId_fkey" FOREIGN KEY ("awayParticipantId") REFERENCES "Participant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_nextMatchId_fkey" FOREIGN KEY ("nextMatchId") REFERENCES "Match"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_loserMatchId_fkey" FOREIGN KEY ("loserMatchId") REFERENCES "Match"("id") ON DELETE SET NULL ON UPDATE CASCADE;
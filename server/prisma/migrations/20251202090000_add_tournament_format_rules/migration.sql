@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TournamentFormat" ADD COLUMN     "rules" JSONB;
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "ParticipantSportStatus" AS ENUM ('registered', 'waitlisted');
+
+-- AlterTable
+ALTER TABLE "ParticipantSport" ADD COLUMN     "status" "ParticipantSportStatus" NOT NULL DEFAULT 'registered',
+ADD COLUMN     "waitlistedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Sport" ADD COLUMN     "maxPerCommunity" INTEGER,
+ADD COLUMN     "maxTotal" INTEGER,
+ADD COLUMN     "minTeamSize" INTEGER,
+ADD COLUMN     "maxTeamSize" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "ParticipantSport_sportId_status_idx" ON "ParticipantSport"("sportId", "status");
@@ -0,0 +1,73 @@
+-- AlterTable
+ALTER TABLE "ParticipantSport" ADD COLUMN     "teamId" TEXT;
+
+-- AlterTable
+ALTER TABLE "LeaderboardEntry" ADD COLUMN     "teamId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN     "homeTeamId" TEXT,
+ADD COLUMN     "awayTeamId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Team" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "communityId" TEXT NOT NULL,
+    "sportId" TEXT NOT NULL,
+    "captainId" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Team_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ParticipantSport_teamId_idx" ON "ParticipantSport"("teamId");
+
+-- CreateIndex
+CREATE INDEX "Team_communityId_idx" ON "Team"("communityId");
+
+-- CreateIndex
+CREATE INDEX "Team_sportId_idx" ON "Team"("sportId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Team_communityId_sportId_name_key" ON "Team"("communityId", "sportId", "name");
+
+-- AddForeignKey
+ALTER TABLE "ParticipantSport" ADD CONSTRAINT "ParticipantSport_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LeaderboardEntry" ADD CONSTRAINT "LeaderboardEntry_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_homeTeamId_fkey" FOREIGN KEY ("homeTeamId") REFERENCES "Team"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_awayTeamId_fkey" FOREIGN KEY ("awayTeamId") REFERENCES "Team"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Team" ADD CONSTRAINT "Team_communityId_fkey" FOREIGN KEY ("communityId") REFERENCES "Community"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Team" ADD CONSTRAINT "Team_sportId_fkey" FOREIGN KEY ("sportId") REFERENCES "Sport"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Team" ADD CONSTRAINT "Team_captainId_fkey" FOREIGN KEY ("captainId") REFERENCES "Participant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill teams from the free-text team names on team sport registrations
+INSERT INTO "Team" ("id", "name", "communityId", "sportId", "updatedAt")
+SELECT gen_random_uuid()::text, TRIM(p."teamName"), p."communityId", ps."sportId", CURRENT_TIMESTAMP
+FROM "ParticipantSport" ps
+JOIN "Participant" p ON p."id" = ps."participantId"
+JOIN "Sport" s ON s."id" = ps."sportId"
+WHERE s."type" = 'team' AND p."teamName" IS NOT NULL AND TRIM(p."teamName") <> ''
+GROUP BY TRIM(p."teamName"), p."communityId", ps."sportId";
+
+UPDATE "ParticipantSport" ps
+SET "teamId" = t."id"
+FROM "Participant" p, "Team" t
+WHERE p."id" = ps."participantId"
+  AND t."communityId" = p."communityId"
+  AND t."sportId" = ps."sportId"
+  AND t."name" = TRIM(p."teamName");
@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "VolunteerAvailability" (
+    "id" TEXT NOT NULL,
+    "volunteerId" TEXT NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VolunteerAvailability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VolunteerDepartmentPreference" (
+    "id" TEXT NOT NULL,
+    "volunteerId" TEXT NOT NULL,
+    "departmentId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VolunteerDepartmentPreference_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VolunteerSportPreference" (
+    "id" TEXT NOT NULL,
+    "volunteerId" TEXT NOT NULL,
+    "sportId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VolunteerSportPreference_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VolunteerAvailability_volunteerId_idx" ON "VolunteerAvailability"("volunteerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VolunteerDepartmentPreference_volunteerId_departmentId_key" ON "VolunteerDepartmentPreference"("volunteerId", "departmentId");
+
+-- CreateIndex
+CREATE INDEX "VolunteerDepartmentPreference_departmentId_idx" ON "VolunteerDepartmentPreference"("departmentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VolunteerSportPreference_volunteerId_sportId_key" ON "VolunteerSportPreference"("volunteerId", "sportId");
+
+-- CreateIndex
+CREATE INDEX "VolunteerSportPreference_sportId_idx" ON "VolunteerSportPreference"("sportId");
+
+-- AddForeignKey
+ALTER TABLE "VolunteerAvailability" ADD CONSTRAINT "VolunteerAvailability_volunteerId_fkey" FOREIGN KEY ("volunteerId") REFERENCES "Volunteer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VolunteerDepartmentPreference" ADD CONSTRAINT "VolunteerDepartmentPreference_volunteerId_fkey" FOREIGN KEY ("volunteerId") REFERENCES "Volunteer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VolunteerDepartmentPreference" ADD CONSTRAINT "VolunteerDepartmentPreference_departmentId_fkey" FOREIGN KEY ("departmentId") REFERENCES "Department"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VolunteerSportPreference" ADD CONSTRAINT "VolunteerSportPreference_volunteerId_fkey" FOREIGN KEY ("volunteerId") REFERENCES "Volunteer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VolunteerSportPreference" ADD CONSTRAINT "VolunteerSportPreference_sportId_fkey" FOREIGN KEY ("sportId") REFERENCES "Sport"("id") ON DELETE CASCADE ON UPDATE CASCADE;
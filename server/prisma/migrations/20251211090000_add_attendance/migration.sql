@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "Attendance" (
+    "id" TEXT NOT NULL,
+    "calendarItemId" TEXT NOT NULL,
+    "participantId" TEXT,
+    "volunteerId" TEXT,
+    "checkedInById" TEXT,
+    "checkedInAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Attendance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attendance_calendarItemId_participantId_key" ON "Attendance"("calendarItemId", "participantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attendance_calendarItemId_volunteerId_key" ON "Attendance"("calendarItemId", "volunteerId");
+
+-- CreateIndex
+CREATE INDEX "Attendance_calendarItemId_idx" ON "Attendance"("calendarItemId");
+
+-- AddForeignKey
+ALTER TABLE "Attendance" ADD CONSTRAINT "Attendance_calendarItemId_fkey" FOREIGN KEY ("calendarItemId") REFERENCES "CalendarItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Attendance" ADD CONSTRAINT "Attendance_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "Participant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Attendance" ADD CONSTRAINT "Attendance_volunteerId_fkey" FOREIGN KEY ("volunteerId") REFERENCES "Volunteer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Attendance" ADD CONSTRAINT "Attendance_checkedInById_fkey" FOREIGN KEY ("checkedInById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
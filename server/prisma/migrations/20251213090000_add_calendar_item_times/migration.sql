@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "CalendarItem" ADD COLUMN "startTime" TIMESTAMP(3),
+ADD COLUMN "endTime" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "CalendarItem_startTime_idx" ON "CalendarItem"("startTime");
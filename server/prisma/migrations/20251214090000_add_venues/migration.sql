@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE "Venue" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "address" TEXT,
+    "capacity" INTEGER,
+    "surfaces" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "accessibilityNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Venue_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Sport" ADD COLUMN "venueId" TEXT;
+
+-- AlterTable
+ALTER TABLE "CalendarItem" ADD COLUMN "venueId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Venue_name_key" ON "Venue"("name");
+
+-- CreateIndex
+CREATE INDEX "Sport_venueId_idx" ON "Sport"("venueId");
+
+-- CreateIndex
+CREATE INDEX "CalendarItem_venueId_idx" ON "CalendarItem"("venueId");
+
+-- AddForeignKey
+ALTER TABLE "Sport" ADD CONSTRAINT "Sport_venueId_fkey" FOREIGN KEY ("venueId") REFERENCES "Venue"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CalendarItem" ADD CONSTRAINT "CalendarItem_venueId_fkey" FOREIGN KEY ("venueId") REFERENCES "Venue"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Migrate existing venue strings: one venue per distinct name, ignoring case and
+-- stray whitespace, keeping the first spelling seen
+WITH names AS (
+    SELECT regexp_replace(trim("venue"), '\s+', ' ', 'g') AS "name", "createdAt"
+    FROM "Sport"
+    WHERE "venue" IS NOT NULL AND trim("venue") <> ''
+    UNION ALL
+    SELECT regexp_replace(trim("venue"), '\s+', ' ', 'g') AS "name", "createdAt"
+    FROM "CalendarItem"
+    WHERE trim("venue") <> ''
+)
+INSERT INTO "Venue" ("id", "name", "updatedAt")
+SELECT gen_random_uuid()::text, "name", CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT ON (lower("name")) "name"
+    FROM names
+    ORDER BY lower("name"), "createdAt"
+) AS distinct_names;
+
+UPDATE "Sport" AS s
+SET "venueId" = v."id", "venue" = v."name"
+FROM "Venue" AS v
+WHERE lower(regexp_replace(trim(s."venue"), '\s+', ' ', 'g')) = lower(v."name");
+
+UPDATE "CalendarItem" AS c
+SET "venueId" = v."id", "venue" = v."name"
+FROM "Venue" AS v
+WHERE lower(regexp_replace(trim(c."venue"), '\s+', ' ', 'g')) = lower(v."name");
@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "MatchResultType" AS ENUM ('normal', 'walkover', 'forfeit', 'abandoned');
+
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN "resultType" "MatchResultType",
+ADD COLUMN "homeScore" INTEGER,
+ADD COLUMN "awayScore" INTEGER,
+ADD COLUMN "sets" JSONB,
+ADD COLUMN "winnerSlot" "MatchSlot",
+ADD COLUMN "mvpParticipantId" TEXT,
+ADD COLUMN "resultNotes" TEXT;
+
+-- AlterTable
+ALTER TABLE "LeaderboardEntry" ADD COLUMN "fromResults" BOOLEAN NOT NULL DEFAULT false;
+
+-- AddForeignKey
+ALTER TABLE "Match" ADD CONSTRAINT "Match_mvpParticipantId_fkey" FOREIGN KEY ("mvpParticipantId") REFERENCES "Participant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "TieBreaker" AS ENUM ('head_to_head', 'goal_difference', 'goals_scored', 'fair_play');
+
+-- AlterTable
+ALTER TABLE "Sport" ADD COLUMN "tieBreakers" "TieBreaker"[] DEFAULT ARRAY['head_to_head', 'goal_difference', 'goals_scored']::"TieBreaker"[];
+
+-- AlterTable
+ALTER TABLE "Match" ADD COLUMN "homeFairPlay" INTEGER,
+ADD COLUMN "awayFairPlay" INTEGER;
@@ -0,0 +1,18 @@
+-- CreateEnum
+CREATE TYPE "EmailStatus" AS ENUM ('queued', 'sending', 'sent', 'failed');
+
+-- AlterTable
+ALTER TABLE "Email" ADD COLUMN "html" TEXT,
+ADD COLUMN "deliveryBody" TEXT,
+ADD COLUMN "status" "EmailStatus" NOT NULL DEFAULT 'queued',
+ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lastError" TEXT,
+ADD COLUMN "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "sentAt" TIMESTAMP(3),
+ADD COLUMN "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Rows written before the outbox were only stored after a successful send
+UPDATE "Email" SET "status" = 'sent', "attempts" = 1, "sentAt" = "createdAt";
+
+-- CreateIndex
+CREATE INDEX "Email_status_nextAttemptAt_idx" ON "Email"("status", "nextAttemptAt");
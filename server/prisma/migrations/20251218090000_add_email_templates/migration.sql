@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "EmailTemplate" (
+    "key" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "textBody" TEXT NOT NULL,
+    "htmlBody" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailTemplate_pkey" PRIMARY KEY ("key")
+);
+
+-- AlterTable
+ALTER TABLE "Email" ADD COLUMN "deliveryHtml" TEXT;
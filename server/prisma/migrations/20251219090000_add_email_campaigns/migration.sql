@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "EmailCampaign" (
+    "id" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "audience" JSONB NOT NULL,
+    "recipientCount" INTEGER NOT NULL,
+    "senderId" TEXT,
+    "senderUsername" TEXT,
+    "senderRole" "Role",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmailCampaign_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Email" ADD COLUMN "campaignId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "EmailCampaign_senderId_createdAt_idx" ON "EmailCampaign"("senderId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "EmailCampaign_createdAt_idx" ON "EmailCampaign"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "Email_campaignId_idx" ON "Email"("campaignId");
+
+-- AddForeignKey
+ALTER TABLE "Email" ADD CONSTRAINT "Email_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "EmailCampaign"("id") ON DELETE SET NULL ON UPDATE CASCADE;
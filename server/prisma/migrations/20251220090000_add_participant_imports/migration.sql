@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ParticipantImport" (
+    "id" TEXT NOT NULL,
+    "communityId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "rows" JSONB NOT NULL,
+    "committedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ParticipantImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ParticipantImport_createdById_idx" ON "ParticipantImport"("createdById");
+
+-- CreateIndex
+CREATE INDEX "ParticipantImport_expiresAt_idx" ON "ParticipantImport"("expiresAt");
@@ -892,6 +892,15 @@ Participants will be seeded based on preliminary performance. Top performers adv
 - Participation: 3 points per sport
 
 The community with the highest total points wins the overall championship.`,
+      rules: {
+        default: {
+          gold: 10,
+          silver: 7,
+          bronze: 5,
+          places: [],
+          participation: 3,
+        },
+      },
     },
   });
 
@@ -16,11 +16,20 @@ import userRoutes from "./routes/users";
 import departmentRoutes from "./routes/departments";
 import calendarRoutes from "./routes/calendar";
 import settingsRoutes from "./routes/settings";
-import emailRoutes from "./routes/email";
+import emailRoutes, { startEmailWorker, stopEmailWorker } from "./routes/email";
+import emailTemplateRoutes from "./routes/email-templates";
+import emailCampaignRoutes from "./routes/email-campaigns";
 import communityContactRoutes from "./routes/community-contacts";
 import convenorRoutes from "./routes/convenors";
 import tournamentFormatRoutes from "./routes/tournament-formats";
 import leaderboardRoutes from "./routes/leaderboard";
+import matchRoutes from "./routes/matches";
+import teamRoutes from "./routes/teams";
+import auditRoutes from "./routes/audit";
+import shiftRoutes from "./routes/shifts";
+import checkInRoutes from "./routes/check-in";
+import venueRoutes from "./routes/venues";
+import eventRoutes, { closeLiveStreams } from "./routes/events";
 import { errorHandler } from "./middleware/errorHandler";
 import { verifyEmailConfig } from "./utils/email";
 
@@ -63,7 +72,7 @@ const PORT = process.env.PORT || 3000;
  * - Use app.options('*', cors()) so preflight is handled automatically
  */
 const defaultFrontendUrl = "https://fof-iota.vercel.app";
-const FRONTEND_URL = process.env.FRONTEND_URL || defaultFrontendUrl;
+export const FRONTEND_URL = process.env.FRONTEND_URL || defaultFrontendUrl;
 const additionalOrigins = (process.env.ALLOWED_ORIGINS || "")
   .split(",")
   .map((s) => s.trim())
@@ -174,10 +183,19 @@ app.use("/api/departments", departmentRoutes);
 app.use("/api/calendar", calendarRoutes);
 app.use("/api/settings", settingsRoutes);
 app.use("/api/email", emailRoutes);
+app.use("/api/email-templates", emailTemplateRoutes);
+app.use("/api/email-campaigns", emailCampaignRoutes);
 app.use("/api/community-contacts", communityContactRoutes);
 app.use("/api/convenors", convenorRoutes);
 app.use("/api/tournament-formats", tournamentFormatRoutes);
 app.use("/api/leaderboard", leaderboardRoutes);
+app.use("/api/matches", matchRoutes);
+app.use("/api/teams", teamRoutes);
+app.use("/api/audit", auditRoutes);
+app.use("/api/shifts", shiftRoutes);
+app.use("/api/check-in", checkInRoutes);
+app.use("/api/venues", venueRoutes);
+app.use("/api/events", eventRoutes);
 
 /**
  * Error handling middleware (keep it last, before server close)
@@ -209,6 +227,9 @@ const server = app.listen(PORT, async () => {
   } catch (err) {
     console.warn("verifyEmailConfig failed:", err);
   }
+
+  // Deliver queued emails in the background, retrying failed sends
+  startEmailWorker();
 });
 
 /**
@@ -216,6 +237,9 @@ const server = app.listen(PORT, async () => {
  */
 async function shutdown(signal: string) {
   console.log(`${signal} received: closing HTTP server`);
+  stopEmailWorker();
+  // Open live streams would otherwise keep server.close() waiting forever
+  closeLiveStreams();
   server.close(async () => {
     console.log("HTTP server closed");
     try {
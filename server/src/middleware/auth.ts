@@ -10,6 +10,7 @@ export interface AuthRequest extends Request {
     role: Role;
     communityId?: string | null;
     sportId?: string | null;
+    sessionId?: string;
   };
 }
 
@@ -32,22 +33,38 @@ export async function authenticate(
     const token = authHeader.substring(7);
     const payload = verifyToken(token);
 
-    // Verify user still exists
-    const user = await prisma.user.findUnique({
-      where: { id: payload.userId },
-      select: { id: true, username: true, role: true, communityId: true, sportId: true },
-    });
+    // Verify the session is still live; revoking it (or deleting the user) invalidates the token
+    const session = payload.sessionId
+      ? await prisma.session.findUnique({
+          where: { id: payload.sessionId },
+          include: {
+            user: {
+              select: { id: true, username: true, role: true, communityId: true, sportId: true },
+            },
+          },
+        })
+      : null;
 
-    if (!user) {
-      return res.status(401).json({ error: "User not found" });
+    if (!session || session.userId !== payload.userId) {
+      return res.status(401).json({ error: "Session not found" });
     }
 
+    if (session.revokedAt) {
+      return res.status(401).json({ error: "Session has been revoked" });
+    }
+
+    if (session.expiresAt < new Date()) {
+      return res.status(401).json({ error: "Session has expired" });
+    }
+
+    const { user } = session;
     req.user = {
       id: user.id,
       username: user.username,
       role: user.role,
       communityId: user.communityId,
       sportId: user.sportId,
+      sessionId: session.id,
     };
     next();
   } catch (error: any) {
@@ -0,0 +1,100 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { AuditAction, Prisma } from "@prisma/client";
+import { prisma } from "../index";
+import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
+import { AuditRecord, diffRecords } from "../utils/audit";
+
+const router = Router();
+
+const listAuditEventsSchema = z.object({
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  actorId: z.string().optional(),
+  action: z.enum(["create", "update", "delete"]).optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * Record who created, changed or deleted an entity. Updates that change nothing are
+ * skipped. Failures are logged rather than thrown so auditing never breaks the request.
+ */
+export async function recordAudit(
+  req: AuthRequest,
+  action: AuditAction,
+  entityType: string,
+  entityId: string,
+  before: AuditRecord | null,
+  after: AuditRecord | null
+) {
+  try {
+    const changes = diffRecords(before, after);
+    if (action === "update" && Object.keys(changes).length === 0) {
+      return;
+    }
+
+    await prisma.auditEvent.create({
+      data: {
+        actorId: req.user?.id ?? null,
+        actorUsername: req.user?.username ?? null,
+        actorRole: req.user?.role ?? null,
+        action,
+        entityType,
+        entityId,
+        changes: changes as Prisma.InputJsonValue,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to record audit event for ${entityType} ${entityId}:`, error);
+  }
+}
+
+function parseDate(value: string | undefined) {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// List audit events, newest first (root admin only)
+router.get("/", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const query = listAuditEventsSchema.parse(req.query);
+
+    const from = parseDate(query.from);
+    const to = parseDate(query.to);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: "Invalid date format" });
+    }
+
+    const where: Prisma.AuditEventWhereInput = {};
+    if (query.entityType) where.entityType = query.entityType;
+    if (query.entityId) where.entityId = query.entityId;
+    if (query.actorId) where.actorId = query.actorId;
+    if (query.action) where.action = query.action;
+    if (from || to) {
+      where.createdAt = { gte: from, lte: to };
+    }
+
+    const [events, total] = await prisma.$transaction([
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: query.limit,
+        skip: query.offset,
+      }),
+      prisma.auditEvent.count({ where }),
+    ]);
+
+    res.json({ events, total });
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to list audit events" });
+  }
+});
+
+export default router;
@@ -1,10 +1,20 @@
 import { Router, Request, Response } from "express";
 import { z } from "zod";
-import { prisma } from "../index";
+import { randomBytes, randomUUID } from "crypto";
+import { prisma, FRONTEND_URL } from "../index";
 import { hashPassword, comparePassword } from "../utils/password";
-import { generateToken } from "../utils/jwt";
+import {
+  generateToken,
+  generateRefreshToken,
+  getRefreshTokenSessionId,
+  hashToken,
+  REFRESH_TOKEN_TTL_MS,
+} from "../utils/jwt";
 import { authenticate, AuthRequest } from "../middleware/auth";
-import { Role } from "@prisma/client";
+import { Prisma, Role } from "@prisma/client";
+import { TemplateValues } from "../utils/email-templates";
+import { enqueueEmail } from "./email";
+import { renderEmail } from "./email-templates";
 
 const router = Router();
 
@@ -31,6 +41,106 @@ const usernameAvailabilitySchema = z.object({
   username: usernameFormatSchema,
 });
 
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const forgotPasswordSchema = z.object({
+  identifier: z.string().trim().min(1, "Enter your username or email"),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+// Reset emails allowed per account within the window, so the form cannot be used to flood an inbox
+const PASSWORD_RESET_LIMIT = 3;
+const PASSWORD_RESET_WINDOW_MS = 60 * 60 * 1000;
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+const EMAIL_VERIFICATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const VERIFICATION_RESEND_LIMIT = 3;
+const VERIFICATION_RESEND_WINDOW_MS = 60 * 60 * 1000;
+
+const forgotPasswordResponse = {
+  message: "If an account matches, a password reset link has been sent to its email address.",
+};
+
+/**
+ * Start a session for a user and issue its first access and refresh tokens.
+ */
+async function createSession(req: Request, user: { id: string; username: string; role: Role }) {
+  // The refresh token embeds the session id, so assign it up front
+  const sessionId = randomUUID();
+  const refreshToken = generateRefreshToken(sessionId);
+
+  await prisma.session.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: req.get("user-agent") ?? null,
+      ipAddress: req.ip ?? null,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+  });
+
+  const token = generateToken({
+    userId: user.id,
+    username: user.username,
+    role: user.role,
+    sessionId,
+  });
+
+  return { token, refreshToken };
+}
+
+/**
+ * Issue a verification token for an account's email address and queue the confirmation
+ * email with the link. Registration calls this on its transaction client, so the email
+ * is only queued if the new account is created.
+ */
+export async function sendVerificationEmail(
+  db: Prisma.TransactionClient,
+  user: { id: string; email: string; name: string },
+  template: "participant_registration" | "volunteer_registration" | "verification_resend",
+  values: TemplateValues = {}
+) {
+  const token = randomBytes(32).toString("hex");
+  await db.emailVerificationToken.create({
+    data: {
+      userId: user.id,
+      email: user.email,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS),
+    },
+  });
+
+  const from = process.env.REGISTRATION_EMAIL || process.env.SMTP_USER || "registration@fof.co.ke";
+  // The stored copy leaves out the link so the outbox cannot be used to verify the address
+  const message = await renderEmail(db, template, { name: user.name, ...values }, {
+    link: `${FRONTEND_URL}/verify-email?token=${token}`,
+  });
+  await enqueueEmail(db, { to: user.email, from, ...message });
+}
+
+/**
+ * Revoke every live session for a user, e.g. when an admin locks them out or their
+ * password changes. Their access tokens stop working on the next request.
+ */
+export async function revokeUserSessions(userId: string) {
+  const result = await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return result.count;
+}
+
 // Login
 router.post("/login", async (req: Request, res: Response) => {
   try {
@@ -51,12 +161,7 @@ router.post("/login", async (req: Request, res: Response) => {
       return res.status(401).json({ error: "Invalid credentials" });
     }
 
-    // Generate token
-    const token = generateToken({
-      userId: user.id,
-      username: user.username,
-      role: user.role,
-    });
+    const { token, refreshToken } = await createSession(req, user);
 
     // Return user without password
     const { password: _, ...userWithoutPassword } = user;
@@ -64,6 +169,7 @@ router.post("/login", async (req: Request, res: Response) => {
     res.json({
       user: userWithoutPassword,
       token,
+      refreshToken,
     });
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -103,6 +209,7 @@ router.get("/me", authenticate, async (req: AuthRequest, res: Response) => {
         role: true,
         communityId: true,
         sportId: true,
+        emailVerifiedAt: true,
       },
     });
 
@@ -110,17 +217,294 @@ router.get("/me", authenticate, async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: "User not found" });
     }
 
-    res.json(user);
+    const { emailVerifiedAt, ...fields } = user;
+    res.json({ ...fields, emailVerified: Boolean(emailVerifiedAt) });
   } catch (error: any) {
     res.status(500).json({ error: error.message || "Failed to get user" });
   }
 });
 
-// Logout (client-side token removal, but we can track it if needed)
+// Exchange a refresh token for a new access token (the refresh token rotates)
+router.post("/refresh", async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = refreshSchema.parse(req.body);
+
+    const sessionId = getRefreshTokenSessionId(refreshToken);
+    const session = sessionId
+      ? await prisma.session.findUnique({
+          where: { id: sessionId },
+          include: { user: true },
+        })
+      : null;
+
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      return res.status(401).json({ error: "Invalid or expired refresh token" });
+    }
+
+    // A rotated-out token being replayed means it may have been stolen, so end the session
+    if (session.refreshTokenHash !== hashToken(refreshToken)) {
+      await prisma.session.update({
+        where: { id: session.id },
+        data: { revokedAt: new Date() },
+      });
+      return res.status(401).json({ error: "Invalid or expired refresh token" });
+    }
+
+    const nextRefreshToken = generateRefreshToken(session.id);
+    // Guard on the old hash so two concurrent refreshes cannot both succeed
+    const rotated = await prisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: session.refreshTokenHash },
+      data: {
+        refreshTokenHash: hashToken(nextRefreshToken),
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+      },
+    });
+
+    if (rotated.count === 0) {
+      return res.status(401).json({ error: "Invalid or expired refresh token" });
+    }
+
+    const token = generateToken({
+      userId: session.user.id,
+      username: session.user.username,
+      role: session.user.role,
+      sessionId: session.id,
+    });
+
+    res.json({ token, refreshToken: nextRefreshToken });
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to refresh session" });
+  }
+});
+
+// Request a password reset link by username or email
+router.post("/forgot-password", async (req: Request, res: Response) => {
+  try {
+    const { identifier } = forgotPasswordSchema.parse(req.body);
+
+    const user = await prisma.user.findFirst({
+      where: {
+        OR: [
+          { username: identifier },
+          { email: identifier },
+          { participant: { email: identifier } },
+          { volunteer: { email: identifier } },
+        ],
+      },
+      include: {
+        participant: { select: { firstName: true, email: true } },
+        volunteer: { select: { firstName: true, email: true } },
+      },
+    });
+
+    // Always respond the same way so the form cannot be used to discover accounts
+    const email = user?.email || user?.participant?.email || user?.volunteer?.email;
+    if (!user || !email) {
+      return res.json(forgotPasswordResponse);
+    }
+
+    const recentRequests = await prisma.passwordResetToken.count({
+      where: {
+        userId: user.id,
+        createdAt: { gte: new Date(Date.now() - PASSWORD_RESET_WINDOW_MS) },
+      },
+    });
+
+    if (recentRequests >= PASSWORD_RESET_LIMIT) {
+      console.warn(`Password reset rate limit reached for user ${user.id}`);
+      return res.json(forgotPasswordResponse);
+    }
+
+    const token = randomBytes(32).toString("hex");
+    await prisma.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+      },
+    });
+
+    try {
+      const from = process.env.REGISTRATION_EMAIL || process.env.SMTP_USER || "registration@fof.co.ke";
+      const name = user.participant?.firstName || user.volunteer?.firstName || user.username;
+      // The stored copy leaves out the link so the outbox cannot be used to reset the password
+      const message = await renderEmail(prisma, "password_reset", { name, username: user.username }, {
+        link: `${FRONTEND_URL}/reset-password?token=${token}`,
+      });
+      await enqueueEmail(prisma, { to: email, from, ...message });
+    } catch (emailError: any) {
+      console.error("Failed to queue password reset email:", emailError);
+    }
+
+    res.json(forgotPasswordResponse);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to request password reset" });
+  }
+});
+
+// Reset a password with an emailed token (single use; signs the user out everywhere)
+router.post("/reset-password", async (req: Request, res: Response) => {
+  try {
+    const { token, password } = resetPasswordSchema.parse(req.body);
+
+    const resetToken = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+      return res.status(400).json({ error: "This reset link is invalid or has expired" });
+    }
+
+    const hashedPassword = await hashPassword(password);
+    const now = new Date();
+
+    const reset = await prisma.$transaction(async (tx) => {
+      // Claim the token first so two concurrent resets cannot both use it
+      const claimed = await tx.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: now },
+      });
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        data: { password: hashedPassword },
+      });
+
+      // Any other outstanding links for the account are no longer needed
+      await tx.passwordResetToken.updateMany({
+        where: { userId: resetToken.userId, usedAt: null },
+        data: { usedAt: now },
+      });
+      return true;
+    });
+
+    if (!reset) {
+      return res.status(400).json({ error: "This reset link is invalid or has expired" });
+    }
+
+    await revokeUserSessions(resetToken.userId);
+
+    res.json({ message: "Your password has been reset. You can now log in." });
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to reset password" });
+  }
+});
+
+// Confirm an email address with the token from the registration email
+router.post("/verify-email", async (req: Request, res: Response) => {
+  try {
+    const { token } = verifyEmailSchema.parse(req.body);
+
+    const verification = await prisma.emailVerificationToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { user: { select: { email: true, emailVerifiedAt: true } } },
+    });
+
+    // The token only counts for the address it was sent to
+    if (
+      !verification ||
+      verification.expiresAt < new Date() ||
+      verification.user.email !== verification.email
+    ) {
+      return res.status(400).json({ error: "This verification link is invalid or has expired" });
+    }
+
+    if (verification.usedAt || verification.user.emailVerifiedAt) {
+      return res.json({ message: "Your email address is already verified." });
+    }
+
+    const now = new Date();
+    await prisma.$transaction([
+      prisma.emailVerificationToken.updateMany({
+        where: { userId: verification.userId, usedAt: null },
+        data: { usedAt: now },
+      }),
+      prisma.user.update({
+        where: { id: verification.userId },
+        data: { emailVerifiedAt: now },
+      }),
+    ]);
+
+    res.json({ message: "Thank you! Your email address has been verified." });
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to verify email" });
+  }
+});
+
+// Resend the verification email for the current account
+router.post("/resend-verification", authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      include: {
+        participant: { select: { firstName: true } },
+        volunteer: { select: { firstName: true } },
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    if (!user.email) {
+      return res.status(400).json({ error: "Your account has no email address" });
+    }
+
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({ error: "Your email address is already verified" });
+    }
+
+    const recentRequests = await prisma.emailVerificationToken.count({
+      where: {
+        userId: user.id,
+        createdAt: { gte: new Date(Date.now() - VERIFICATION_RESEND_WINDOW_MS) },
+      },
+    });
+
+    if (recentRequests >= VERIFICATION_RESEND_LIMIT) {
+      return res.status(429).json({ error: "Too many verification emails requested. Please try again later." });
+    }
+
+    await sendVerificationEmail(
+      prisma,
+      {
+        id: user.id,
+        email: user.email,
+        name: user.participant?.firstName || user.volunteer?.firstName || user.username,
+      },
+      "verification_resend"
+    );
+
+    res.json({ message: `A new verification link has been sent to ${user.email}.` });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to resend verification email" });
+  }
+});
+
+// Logout (revokes the current session and its refresh token)
 router.post("/logout", authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    // In a stateless JWT system, logout is handled client-side
-    // But we can add token blacklisting here if needed
+    await prisma.session.update({
+      where: { id: req.user!.sessionId },
+      data: { revokedAt: new Date() },
+    });
+
     res.json({ message: "Logged out successfully" });
   } catch (error: any) {
     res.status(500).json({ error: error.message || "Logout failed" });
@@ -165,16 +549,12 @@ router.post("/signup", async (req: Request, res: Response) => {
       },
     });
 
-    // Generate token
-    const token = generateToken({
-      userId: user.id,
-      username: user.username,
-      role: user.role,
-    });
+    const { token, refreshToken } = await createSession(req, user);
 
     res.status(201).json({
       user,
       token,
+      refreshToken,
     });
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -1,7 +1,21 @@
 import { Router, Response } from "express";
 import { z } from "zod";
+import { randomBytes } from "crypto";
 import { prisma } from "../index";
 import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
+import { buildCalendar, CalendarEvent, eventWindow } from "../utils/ical";
+import {
+  describeVenueConflicts,
+  findParticipantClashes,
+  findVenueConflicts,
+  ScheduleEntrant,
+  ScheduleItem,
+} from "../utils/schedule";
+import { TimeRange } from "../utils/shifts";
+import { matchInclude, matchOrderBy } from "./matches";
+import { resolveVenue } from "./venues";
+import { recordAudit } from "./audit";
+import { publishEvent } from "./events";
 
 const router = Router();
 
@@ -9,10 +23,142 @@ const createCalendarItemSchema = z.object({
   sportId: z.string().min(1),
   date: z.string().or(z.date()),
   time: z.string().min(1),
-  venue: z.string().min(1),
+  startTime: z.string().or(z.date()),
+  endTime: z.string().or(z.date()),
+  // A registered venue, or a free-text name when venueId is not given
+  venueId: z.string().optional().nullable(),
+  venue: z.string().optional(),
   type: z.string().min(1),
+  // Save even though the venue is already booked at that time
+  force: z.boolean().optional(),
 });
 
+const scheduleCheckSchema = z.object({
+  id: z.string().optional(),
+  sportId: z.string().min(1),
+  type: z.string().optional(),
+  venueId: z.string().optional().nullable(),
+  venue: z.string().optional(),
+  startTime: z.string().or(z.date()),
+  endTime: z.string().or(z.date()),
+});
+
+const itemSportInclude = {
+  sport: {
+    select: {
+      name: true,
+      parent: { select: { name: true } },
+    },
+  },
+};
+
+function parseDateTime(value: string | Date) {
+  const date = typeof value === "string" ? new Date(value) : value;
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function sportLabel(sport: { name: string; parent: { name: string } | null }) {
+  return sport.parent ? `${sport.parent.name} - ${sport.name}` : sport.name;
+}
+
+// Timed calendar items, optionally only those overlapping a window. Items without a
+// structured start/end cannot be checked and are left out.
+async function loadSchedule(window?: TimeRange): Promise<ScheduleItem[]> {
+  const items = await prisma.calendarItem.findMany({
+    where: {
+      startTime: window ? { lt: window.endTime } : { not: null },
+      endTime: window ? { gt: window.startTime } : { not: null },
+    },
+    include: itemSportInclude,
+    orderBy: { startTime: "asc" },
+  });
+
+  return items.map((item) => ({
+    id: item.id,
+    sportId: item.sportId,
+    sportName: sportLabel(item.sport),
+    type: item.type,
+    venueId: item.venueId,
+    venue: item.venue,
+    startTime: item.startTime!,
+    endTime: item.endTime!,
+  }));
+}
+
+// People registered (and not rejected) for each sport. Someone entered in a sub-sport
+// also counts for the parent sport's fixtures.
+async function loadEntrants(sportIds: string[]): Promise<Map<string, ScheduleEntrant[]>> {
+  const entries = await prisma.participantSport.findMany({
+    where: {
+      status: "registered",
+      participant: { status: { not: "rejected" } },
+      OR: [{ sportId: { in: sportIds } }, { sport: { parentId: { in: sportIds } } }],
+    },
+    include: {
+      sport: { select: { parentId: true } },
+      participant: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          community: { select: { name: true } },
+        },
+      },
+    },
+  });
+
+  const entrants = new Map<string, ScheduleEntrant[]>();
+  for (const entry of entries) {
+    for (const sportId of [entry.sportId, entry.sport.parentId]) {
+      if (!sportId || !sportIds.includes(sportId)) continue;
+      const list = entrants.get(sportId) || [];
+      if (!list.some((entrant) => entrant.participantId === entry.participant.id)) {
+        list.push({
+          participantId: entry.participant.id,
+          name: `${entry.participant.firstName} ${entry.participant.lastName}`,
+          community: entry.participant.community.name,
+        });
+      }
+      entrants.set(sportId, list);
+    }
+  }
+  return entrants;
+}
+
+// Venue double-bookings and participant clashes for a new or moved item
+async function checkSchedule(draft: ScheduleItem) {
+  const items = [draft, ...(await loadSchedule(draft)).filter((item) => item.id !== draft.id)];
+  const entrants = await loadEntrants([...new Set(items.map((item) => item.sportId))]);
+
+  return {
+    venueConflicts: findVenueConflicts(items, draft.id),
+    participantClashes: findParticipantClashes(items, entrants, draft.id),
+  };
+}
+
+async function scheduleDraft(
+  data: { id?: string; sportId: string; type?: string; venueId: string | null; venue: string },
+  startTime: Date,
+  endTime: Date
+): Promise<ScheduleItem | null> {
+  const sport = await prisma.sport.findUnique({
+    where: { id: data.sportId },
+    select: { name: true, parent: { select: { name: true } } },
+  });
+  if (!sport) return null;
+
+  return {
+    id: data.id || "new",
+    sportId: data.sportId,
+    sportName: sportLabel(sport),
+    type: data.type || "",
+    venueId: data.venueId,
+    venue: data.venue,
+    startTime,
+    endTime,
+  };
+}
+
 // List calendar items (public endpoint for home page)
 router.get("/", async (req, res: Response) => {
   try {
@@ -29,6 +175,310 @@ router.get("/", async (req, res: Response) => {
   }
 });
 
+// List generated draws grouped by sport (public endpoint for the calendar page)
+router.get("/draws", async (req, res: Response) => {
+  try {
+    const { sportId } = req.query;
+
+    const where: any = {};
+    if (sportId) {
+      where.sportId = sportId as string;
+    }
+
+    const matches = await prisma.match.findMany({
+      where,
+      include: matchInclude,
+      orderBy: matchOrderBy,
+    });
+
+    const draws: Record<string, {
+      sportId: string;
+      sportName: string;
+      format: string;
+      matches: typeof matches;
+    }> = {};
+
+    matches.forEach((match) => {
+      if (!draws[match.sportId]) {
+        draws[match.sportId] = {
+          sportId: match.sportId,
+          sportName: match.sport.name,
+          format: match.format,
+          matches: [],
+        };
+      }
+      draws[match.sportId].matches.push(match);
+    });
+
+    res.json(Object.values(draws).sort((a, b) => a.sportName.localeCompare(b.sportName)));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to list draws" });
+  }
+});
+
+// Fixtures for a parent sport concern everyone in its sub-sports, and vice versa
+async function withRelatedSports(sportIds: string[]): Promise<string[]> {
+  const sports = await prisma.sport.findMany({
+    where: { OR: [{ id: { in: sportIds } }, { parentId: { in: sportIds } }] },
+    select: { id: true, parentId: true },
+  });
+  return [...new Set(sports.flatMap((sport) => [sport.id, sport.parentId]).filter((id): id is string => !!id))];
+}
+
+async function calendarItemEvents(sportIds?: string[]): Promise<CalendarEvent[]> {
+  const items = await prisma.calendarItem.findMany({
+    where: sportIds ? { sportId: { in: sportIds } } : {},
+    include: { ...itemSportInclude, venueRef: { select: { address: true } } },
+    orderBy: { date: "asc" },
+  });
+
+  return items.map((item) => ({
+    uid: `calendar-item-${item.id}@sport-sync`,
+    summary: `${sportLabel(item.sport)}: ${item.type}`,
+    location: item.venueRef?.address ? `${item.venue}, ${item.venueRef.address}` : item.venue,
+    description: `${item.type} · ${item.time}`,
+    updatedAt: item.updatedAt,
+    // Older items only have the free-text time to go on
+    ...(item.startTime && item.endTime
+      ? { start: item.startTime, end: item.endTime, exact: true }
+      : eventWindow(item.date, item.time)),
+  }));
+}
+
+// Sports a community's accepted participants are registered (not waitlisted) in
+async function communitySportIds(communityId: string): Promise<string[]> {
+  const entries = await prisma.participantSport.findMany({
+    where: {
+      status: "registered",
+      participant: { communityId, status: "accepted" },
+    },
+    select: { sportId: true },
+    distinct: ["sportId"],
+  });
+  return entries.map((entry) => entry.sportId);
+}
+
+async function sendCalendarFeed(res: Response, name: string, events: CalendarEvent[]) {
+  const settings = await prisma.settings.findFirst();
+  res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache");
+  res.send(buildCalendar(`${settings?.siteTitle || "Sport Sync"} · ${name}`, events));
+}
+
+// iCal feed of every calendar item (public)
+router.get("/feeds/all.ics", async (req, res: Response) => {
+  try {
+    await sendCalendarFeed(res, "All Events", await calendarItemEvents());
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to build calendar feed" });
+  }
+});
+
+// iCal feed for one sport and its sub-sports (public)
+router.get("/feeds/sports/:sportId.ics", async (req, res: Response) => {
+  try {
+    const sport = await prisma.sport.findUnique({
+      where: { id: req.params.sportId },
+    });
+
+    if (!sport) {
+      return res.status(404).json({ error: "Sport not found" });
+    }
+
+    await sendCalendarFeed(res, sport.name, await calendarItemEvents(await withRelatedSports([sport.id])));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to build calendar feed" });
+  }
+});
+
+// iCal feed for the sports a community's accepted participants are in (public)
+router.get("/feeds/communities/:communityId.ics", async (req, res: Response) => {
+  try {
+    const community = await prisma.community.findUnique({
+      where: { id: req.params.communityId },
+    });
+
+    if (!community) {
+      return res.status(404).json({ error: "Community not found" });
+    }
+
+    const sportIds = await withRelatedSports(await communitySportIds(community.id));
+    await sendCalendarFeed(res, community.name, await calendarItemEvents(sportIds));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to build calendar feed" });
+  }
+});
+
+// Personal iCal feed, authorised by the secret token in its URL
+router.get("/feeds/users/:token.ics", async (req, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { calendarToken: req.params.token },
+      include: {
+        community: { select: { name: true } },
+        participant: {
+          select: {
+            status: true,
+            sports: { where: { status: "registered" }, select: { sportId: true } },
+          },
+        },
+        volunteer: {
+          select: {
+            sportId: true,
+            shiftAssignments: {
+              include: {
+                shift: { include: { department: { select: { name: true } } } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: "Calendar feed not found" });
+    }
+
+    let events: CalendarEvent[];
+    if (user.role === "admin" || user.role === "volunteer_admin") {
+      events = await calendarItemEvents();
+    } else if (user.role === "community_admin") {
+      events = user.communityId
+        ? await calendarItemEvents(await withRelatedSports(await communitySportIds(user.communityId)))
+        : [];
+    } else if (user.role === "sports_admin") {
+      events = user.sportId ? await calendarItemEvents(await withRelatedSports([user.sportId])) : [];
+    } else if (user.participant) {
+      const sportIds = user.participant.status === "rejected"
+        ? []
+        : user.participant.sports.map((entry) => entry.sportId);
+      events = await calendarItemEvents(await withRelatedSports(sportIds));
+    } else if (user.volunteer) {
+      const { volunteer } = user;
+      events = [
+        ...(volunteer.sportId ? await calendarItemEvents(await withRelatedSports([volunteer.sportId])) : []),
+        ...volunteer.shiftAssignments.map(({ shift }) => ({
+          uid: `shift-${shift.id}@sport-sync`,
+          summary: `Shift: ${shift.title}`,
+          location: shift.venue || undefined,
+          description: [shift.department?.name, shift.notes].filter(Boolean).join("\n") || undefined,
+          start: shift.startTime,
+          end: shift.endTime,
+          exact: true,
+          updatedAt: shift.updatedAt,
+        })),
+      ];
+    } else {
+      events = [];
+    }
+
+    await sendCalendarFeed(res, "My Schedule", events);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to build calendar feed" });
+  }
+});
+
+// Get my personal feed token, creating one on first use
+router.get("/feeds/me", authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { calendarToken: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const token = user.calendarToken || (await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { calendarToken: randomBytes(24).toString("hex") },
+      select: { calendarToken: true },
+    })).calendarToken;
+
+    res.json({ token });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to get calendar feed" });
+  }
+});
+
+// Replace my personal feed token; existing subscriptions stop updating
+router.post("/feeds/me/reset", authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { calendarToken: randomBytes(24).toString("hex") },
+      select: { calendarToken: true },
+    });
+
+    res.json({ token: user.calendarToken });
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "User not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to reset calendar feed" });
+  }
+});
+
+// Check a new or moved calendar item for venue double-bookings and participant clashes
+router.post("/check", authenticate, requireRole("admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const data = scheduleCheckSchema.parse(req.body);
+
+    const startTime = parseDateTime(data.startTime);
+    const endTime = parseDateTime(data.endTime);
+    if (!startTime || !endTime) {
+      return res.status(400).json({ error: "Invalid date format" });
+    }
+    if (endTime <= startTime) {
+      return res.status(400).json({ error: "A calendar item must end after it starts" });
+    }
+
+    const location = await resolveVenue(data.venueId, data.venue);
+    if (!location) {
+      return res.status(404).json({ error: "Venue not found" });
+    }
+    if (!location.venue) {
+      return res.status(400).json({ error: "Venue is required" });
+    }
+
+    const draft = await scheduleDraft({ ...data, venueId: location.venueId, venue: location.venue }, startTime, endTime);
+    if (!draft) {
+      return res.status(404).json({ error: "Sport not found" });
+    }
+
+    res.json(await checkSchedule(draft));
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to check schedule" });
+  }
+});
+
+// Report every venue double-booking and participant clash in the schedule
+router.get("/clashes", authenticate, requireRole("admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const items = await loadSchedule();
+    const entrants = await loadEntrants([...new Set(items.map((item) => item.sportId))]);
+
+    let venueConflicts = findVenueConflicts(items);
+    let participantClashes = findParticipantClashes(items, entrants);
+
+    // Sports admins only see clashes involving their own sport
+    if (req.user!.role === "sports_admin") {
+      const involvesSport = ({ items: pair }: { items: ScheduleItem[] }) =>
+        pair.some((item) => item.sportId === req.user!.sportId);
+      venueConflicts = venueConflicts.filter(involvesSport);
+      participantClashes = participantClashes.filter(involvesSport);
+    }
+
+    res.json({ venueConflicts, participantClashes });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to build clash report" });
+  }
+});
+
 // Get calendar item by ID
 router.get("/:id", authenticate, async (req: AuthRequest, res: Response) => {
   try {
@@ -51,10 +501,15 @@ router.get("/:id", authenticate, async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Audit snapshot of a calendar item: its own fields only
+function calendarItemSnapshot({ sport, ...fields }: any) {
+  return fields;
+}
+
 // Create calendar item
 router.post("/", authenticate, requireRole("admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
   try {
-    const data = createCalendarItemSchema.parse(req.body);
+    const { force, ...data } = createCalendarItemSchema.parse(req.body);
 
     // Parse date if provided
     let date: Date;
@@ -64,21 +519,45 @@ router.post("/", authenticate, requireRole("admin", "sports_admin"), async (req:
       date = data.date;
     }
 
-    // Verify sport exists
-    const sport = await prisma.sport.findUnique({
-      where: { id: data.sportId },
-    });
+    const startTime = parseDateTime(data.startTime);
+    const endTime = parseDateTime(data.endTime);
+    if (!startTime || !endTime) {
+      return res.status(400).json({ error: "Invalid date format" });
+    }
+    if (endTime <= startTime) {
+      return res.status(400).json({ error: "A calendar item must end after it starts" });
+    }
 
-    if (!sport) {
+    const location = await resolveVenue(data.venueId, data.venue);
+    if (!location) {
+      return res.status(404).json({ error: "Venue not found" });
+    }
+    if (!location.venue) {
+      return res.status(400).json({ error: "Venue is required" });
+    }
+
+    // Verify sport exists
+    const draft = await scheduleDraft({ ...data, venueId: location.venueId, venue: location.venue }, startTime, endTime);
+    if (!draft) {
       return res.status(404).json({ error: "Sport not found" });
     }
 
+    if (!force) {
+      const { venueConflicts } = await checkSchedule(draft);
+      if (venueConflicts.length > 0) {
+        return res.status(409).json({ error: describeVenueConflicts(venueConflicts), conflicts: venueConflicts });
+      }
+    }
+
     const calendarItem = await prisma.calendarItem.create({
       data: {
         sportId: data.sportId,
         date,
         time: data.time,
-        venue: data.venue,
+        startTime,
+        endTime,
+        venueId: location.venueId,
+        venue: location.venue,
         type: data.type,
       },
       include: {
@@ -86,6 +565,10 @@ router.post("/", authenticate, requireRole("admin", "sports_admin"), async (req:
       },
     });
 
+    await recordAudit(req, "create", "calendarItem", calendarItem.id, null, calendarItemSnapshot(calendarItem));
+
+    publishEvent("calendar", { sportId: calendarItem.sportId });
+
     res.status(201).json(calendarItem);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -99,13 +582,70 @@ router.post("/", authenticate, requireRole("admin", "sports_admin"), async (req:
 router.patch("/:id", authenticate, requireRole("admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const data = createCalendarItemSchema.partial().parse(req.body);
+    const { force, ...data } = createCalendarItemSchema.partial().parse(req.body);
+
+    const existing = await prisma.calendarItem.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: "Calendar item not found" });
+    }
 
     const updateData: any = { ...data };
     if (data.date !== undefined) {
       updateData.date = typeof data.date === "string" ? new Date(data.date) : data.date;
     }
 
+    if (data.venueId !== undefined || data.venue !== undefined) {
+      const location = await resolveVenue(data.venueId, data.venue);
+      if (!location) {
+        return res.status(404).json({ error: "Venue not found" });
+      }
+      if (!location.venue) {
+        return res.status(400).json({ error: "Venue is required" });
+      }
+      updateData.venueId = location.venueId;
+      updateData.venue = location.venue;
+    }
+
+    const startTime = data.startTime !== undefined ? parseDateTime(data.startTime) : existing.startTime;
+    const endTime = data.endTime !== undefined ? parseDateTime(data.endTime) : existing.endTime;
+    if ((data.startTime !== undefined && !startTime) || (data.endTime !== undefined && !endTime)) {
+      return res.status(400).json({ error: "Invalid date format" });
+    }
+    updateData.startTime = startTime;
+    updateData.endTime = endTime;
+
+    // Items from before structured times existed are only checked once they have both
+    if (startTime && endTime) {
+      if (endTime <= startTime) {
+        return res.status(400).json({ error: "A calendar item must end after it starts" });
+      }
+
+      const draft = await scheduleDraft(
+        {
+          id,
+          sportId: data.sportId ?? existing.sportId,
+          type: data.type ?? existing.type,
+          venueId: updateData.venue !== undefined ? updateData.venueId : existing.venueId,
+          venue: updateData.venue ?? existing.venue,
+        },
+        startTime,
+        endTime
+      );
+      if (!draft) {
+        return res.status(404).json({ error: "Sport not found" });
+      }
+
+      if (!force) {
+        const { venueConflicts } = await checkSchedule(draft);
+        if (venueConflicts.length > 0) {
+          return res.status(409).json({ error: describeVenueConflicts(venueConflicts), conflicts: venueConflicts });
+        }
+      }
+    }
+
     const calendarItem = await prisma.calendarItem.update({
       where: { id },
       data: updateData,
@@ -114,6 +654,10 @@ router.patch("/:id", authenticate, requireRole("admin", "sports_admin"), async (
       },
     });
 
+    await recordAudit(req, "update", "calendarItem", id, calendarItemSnapshot(existing), calendarItemSnapshot(calendarItem));
+
+    publishEvent("calendar", { sportId: calendarItem.sportId });
+
     res.json(calendarItem);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -131,10 +675,14 @@ router.delete("/:id", authenticate, requireRole("admin", "sports_admin"), async
   try {
     const { id } = req.params;
 
-    await prisma.calendarItem.delete({
+    const calendarItem = await prisma.calendarItem.delete({
       where: { id },
     });
 
+    await recordAudit(req, "delete", "calendarItem", id, calendarItemSnapshot(calendarItem), null);
+
+    publishEvent("calendar", { sportId: calendarItem.sportId });
+
     res.json({ success: true });
   } catch (error: any) {
     if (error.code === "P2025") {
@@ -163,19 +711,6 @@ router.get("/timing", authenticate, async (req: AuthRequest, res: Response) => {
   }
 });
 
-// List draws (placeholder - can be extended later)
-router.get("/draws", authenticate, async (req: AuthRequest, res: Response) => {
-  try {
-    // Placeholder implementation
-    res.json([
-      { sportId: "1", url: "https://example.com/draws/football.pdf" },
-      { sportId: "2", url: "https://example.com/draws/basketball.pdf" },
-    ]);
-  } catch (error: any) {
-    res.status(500).json({ error: error.message || "Failed to list draws" });
-  }
-});
-
 export default router;
 
 
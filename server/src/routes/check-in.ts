@@ -0,0 +1,278 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../index";
+import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
+import { credentialQrDataUrl, renderBadgePdf, signCredential, verifyCredential } from "../utils/credentials";
+
+const router = Router();
+
+const checkInSchema = z.object({
+  token: z.string().min(1),
+  calendarItemId: z.string().min(1),
+});
+
+const attendanceInclude = {
+  participant: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      community: { select: { id: true, name: true } },
+    },
+  },
+  volunteer: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+  checkedInBy: {
+    select: { id: true, username: true },
+  },
+};
+
+// The signed-in user's credential: an accepted participant or any volunteer
+async function findCredentialHolder(userId: string) {
+  const participant = await prisma.participant.findUnique({
+    where: { userId },
+    include: {
+      community: { select: { name: true } },
+      sports: {
+        where: { status: "registered" },
+        include: { sport: { select: { name: true } } },
+      },
+    },
+  });
+
+  if (participant) {
+    if (participant.status !== "accepted") {
+      return { error: "Your badge will be available once your registration has been accepted" };
+    }
+    return {
+      credential: { type: "participant" as const, id: participant.id },
+      name: `${participant.firstName} ${participant.lastName}`,
+      roleLabel: "Participant",
+      lines: [
+        participant.community.name,
+        participant.sports.map((entry) => entry.sport.name).join(", "),
+      ].filter(Boolean),
+    };
+  }
+
+  const volunteer = await prisma.volunteer.findUnique({
+    where: { userId },
+    include: {
+      sport: { select: { name: true } },
+      department: { select: { name: true } },
+    },
+  });
+
+  if (volunteer) {
+    return {
+      credential: { type: "volunteer" as const, id: volunteer.id },
+      name: `${volunteer.firstName} ${volunteer.lastName}`,
+      roleLabel: "Volunteer",
+      lines: [volunteer.department?.name, volunteer.sport?.name].filter((line): line is string => !!line),
+    };
+  }
+
+  return { error: "Only participants and volunteers have a badge" };
+}
+
+// Get my QR credential (for participants and volunteers)
+router.get("/credential", authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const holder = await findCredentialHolder(req.user!.id);
+    if ("error" in holder) {
+      return res.status(403).json({ error: holder.error });
+    }
+
+    const token = signCredential(holder.credential);
+
+    res.json({
+      token,
+      qrCode: await credentialQrDataUrl(token),
+      type: holder.credential.type,
+      name: holder.name,
+      details: holder.lines,
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to get credential" });
+  }
+});
+
+// Download my badge as a PDF (for participants and volunteers)
+router.get("/credential/badge", authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const holder = await findCredentialHolder(req.user!.id);
+    if ("error" in holder) {
+      return res.status(403).json({ error: holder.error });
+    }
+
+    const settings = await prisma.settings.findFirst();
+    const pdf = await renderBadgePdf({
+      eventTitle: settings?.siteTitle || "Sport Sync",
+      name: holder.name,
+      roleLabel: holder.roleLabel,
+      lines: holder.lines,
+      token: signCredential(holder.credential),
+    });
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", 'attachment; filename="badge.pdf"');
+    res.send(pdf);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to generate badge" });
+  }
+});
+
+// Check someone in to a calendar item by scanning their credential
+router.post("/", authenticate, requireRole("admin", "sports_admin", "volunteer_admin", "volunteer"), async (req: AuthRequest, res: Response) => {
+  try {
+    const data = checkInSchema.parse(req.body);
+
+    const credential = verifyCredential(data.token);
+    if (!credential) {
+      return res.status(400).json({ error: "This QR code is not a valid credential" });
+    }
+
+    const item = await prisma.calendarItem.findUnique({
+      where: { id: data.calendarItemId },
+      include: {
+        sport: { select: { id: true, name: true, children: { select: { id: true } } } },
+      },
+    });
+
+    if (!item) {
+      return res.status(404).json({ error: "Calendar item not found" });
+    }
+
+    if (req.user!.role === "sports_admin" && req.user!.sportId !== item.sportId) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    // A fixture for a parent sport admits people entered in any of its sub-sports
+    const sportIds = [item.sportId, ...item.sport.children.map((child) => child.id)];
+
+    let holder: { type: string; id: string; name: string; community?: string };
+    if (credential.type === "participant") {
+      const participant = await prisma.participant.findUnique({
+        where: { id: credential.id },
+        include: {
+          community: { select: { name: true } },
+          sports: { where: { sportId: { in: sportIds } } },
+        },
+      });
+      if (!participant) {
+        return res.status(404).json({ error: "Participant not found" });
+      }
+
+      holder = {
+        type: "participant",
+        id: participant.id,
+        name: `${participant.firstName} ${participant.lastName}`,
+        community: participant.community.name,
+      };
+      if (participant.status !== "accepted") {
+        return res.status(400).json({ error: `${holder.name} has not been accepted`, holder });
+      }
+      if (!participant.sports.some((entry) => entry.status === "registered")) {
+        const waitlisted = participant.sports.length > 0;
+        return res.status(400).json({
+          error: waitlisted
+            ? `${holder.name} is on the waitlist for ${item.sport.name}`
+            : `${holder.name} is not registered for ${item.sport.name}`,
+          holder,
+        });
+      }
+    } else {
+      const volunteer = await prisma.volunteer.findUnique({
+        where: { id: credential.id },
+        include: {
+          shiftAssignments: {
+            where: { shift: { sportId: { in: sportIds } } },
+            select: { id: true },
+          },
+        },
+      });
+      if (!volunteer) {
+        return res.status(404).json({ error: "Volunteer not found" });
+      }
+
+      holder = {
+        type: "volunteer",
+        id: volunteer.id,
+        name: `${volunteer.firstName} ${volunteer.lastName}`,
+      };
+      const onSport = volunteer.sportId !== null && sportIds.includes(volunteer.sportId);
+      if (!onSport && volunteer.shiftAssignments.length === 0) {
+        return res.status(400).json({ error: `${holder.name} is not volunteering for ${item.sport.name}`, holder });
+      }
+    }
+
+    const holderKey = credential.type === "participant"
+      ? { participantId: credential.id }
+      : { volunteerId: credential.id };
+
+    const existing = await prisma.attendance.findFirst({
+      where: { calendarItemId: item.id, ...holderKey },
+    });
+    if (existing) {
+      return res.json({ status: "already_checked_in", checkedInAt: existing.checkedInAt, holder });
+    }
+
+    try {
+      const attendance = await prisma.attendance.create({
+        data: {
+          calendarItemId: item.id,
+          checkedInById: req.user!.id,
+          ...holderKey,
+        },
+      });
+      res.status(201).json({ status: "checked_in", checkedInAt: attendance.checkedInAt, holder });
+    } catch (error: any) {
+      // Scanned twice at the same moment: the other request recorded it
+      if (error.code !== "P2002") throw error;
+      const attendance = await prisma.attendance.findFirstOrThrow({
+        where: { calendarItemId: item.id, ...holderKey },
+      });
+      res.json({ status: "already_checked_in", checkedInAt: attendance.checkedInAt, holder });
+    }
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to check in" });
+  }
+});
+
+// List attendance for a calendar item
+router.get("/attendance", authenticate, requireRole("admin", "sports_admin", "volunteer_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { calendarItemId } = req.query;
+    if (!calendarItemId) {
+      return res.status(400).json({ error: "calendarItemId is required" });
+    }
+
+    const item = await prisma.calendarItem.findUnique({
+      where: { id: calendarItemId as string },
+    });
+
+    if (!item) {
+      return res.status(404).json({ error: "Calendar item not found" });
+    }
+
+    if (req.user!.role === "sports_admin" && req.user!.sportId !== item.sportId) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const attendance = await prisma.attendance.findMany({
+      where: { calendarItemId: item.id },
+      include: attendanceInclude,
+      orderBy: { checkedInAt: "desc" },
+    });
+
+    res.json(attendance);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to list attendance" });
+  }
+});
+
+export default router;
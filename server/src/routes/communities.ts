@@ -3,8 +3,11 @@ import { z } from "zod";
 import { prisma } from "../index";
 import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
 import { hashPassword } from "../utils/password";
-import { sendExport } from "../utils/export";
+import { ExportFormat, sendExport } from "../utils/export";
+import { CommunitySportSummary, CommunitySummary, renderCommunitySummariesPdf } from "../utils/pdf";
 import { Role } from "@prisma/client";
+import { recordAudit } from "./audit";
+import { revokeUserSessions } from "./auth";
 
 const router = Router();
 
@@ -66,6 +69,10 @@ async function syncCommunityAdminUser(options: {
       where: { id: existingAdmin.id },
       data: updateData,
     });
+    // A new password signs the admin out everywhere
+    if (updateData.password) {
+      await revokeUserSessions(existingAdmin.id);
+    }
     return;
   }
 
@@ -209,6 +216,15 @@ router.post("/", authenticate, requireRole("admin"), async (req: AuthRequest, re
       passwordProvided: Boolean(data.adminPassword),
     });
 
+    await recordAudit(
+      req,
+      "create",
+      "community",
+      community.id,
+      null,
+      await prisma.community.findUnique({ where: { id: community.id } })
+    );
+
     res.status(201).json(community);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -241,6 +257,14 @@ router.patch("/:id", authenticate, requireRole("admin"), async (req: AuthRequest
       hashedAdminPassword = await hashPassword(data.adminPassword);
     }
 
+    const before = await prisma.community.findUnique({
+      where: { id },
+    });
+
+    if (!before) {
+      return res.status(404).json({ error: "Community not found" });
+    }
+
     const updateData: any = { ...data };
     if (hashedPassword !== undefined) {
       updateData.password = hashedPassword;
@@ -280,6 +304,8 @@ router.patch("/:id", authenticate, requireRole("admin"), async (req: AuthRequest
       passwordProvided: Boolean(data.adminPassword),
     });
 
+    await recordAudit(req, "update", "community", id, before, await prisma.community.findUnique({ where: { id } }));
+
     res.json(community);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -303,10 +329,12 @@ router.delete("/:id", authenticate, requireRole("admin"), async (req: AuthReques
   try {
     const { id } = req.params;
 
-    await prisma.community.delete({
+    const community = await prisma.community.delete({
       where: { id },
     });
 
+    await recordAudit(req, "delete", "community", id, community, null);
+
     res.json({ success: true });
   } catch (error: any) {
     if (error.code === "P2025") {
@@ -320,8 +348,8 @@ router.delete("/:id", authenticate, requireRole("admin"), async (req: AuthReques
 router.get("/export/:format", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
   try {
     const { format } = req.params;
-    if (!["csv", "excel"].includes(format)) {
-      return res.status(400).json({ error: "Invalid format. Use 'csv' or 'excel'" });
+    if (!["csv", "excel", "pdf"].includes(format)) {
+      return res.status(400).json({ error: "Invalid format. Use 'csv', 'excel' or 'pdf'" });
     }
 
     const communities = await prisma.community.findMany({
@@ -365,7 +393,69 @@ router.get("/export/:format", authenticate, requireRole("admin"), async (req: Au
       "createdAt",
       "updatedAt",
     ];
-    sendExport(res, exportData, headers, { filename: "communities", format: format as "csv" | "excel" });
+    await sendExport(res, exportData, headers, {
+      filename: "communities",
+      format: format as ExportFormat,
+      // Printed as one registration summary per community
+      renderPdf: async () => {
+        const [settings, registrations] = await Promise.all([
+          prisma.settings.findFirst(),
+          prisma.community.findMany({
+            orderBy: { name: "asc" },
+            select: {
+              id: true,
+              participants: {
+                select: {
+                  status: true,
+                  sports: { select: { status: true, sport: { select: { id: true, name: true } } } },
+                },
+              },
+              teams: { select: { sportId: true } },
+            },
+          }),
+        ]);
+
+        const summaries: CommunitySummary[] = communities.map((c) => {
+          const registration = registrations.find((entry) => entry.id === c.id);
+          const participants = registration?.participants || [];
+          const teams = registration?.teams || [];
+
+          const sports = new Map<string, CommunitySportSummary>();
+          for (const participant of participants) {
+            for (const entry of participant.sports) {
+              const sport = sports.get(entry.sport.id) || {
+                name: entry.sport.name,
+                registered: 0,
+                waitlisted: 0,
+                teams: teams.filter((team) => team.sportId === entry.sport.id).length,
+              };
+              sport[entry.status] += 1;
+              sports.set(entry.sport.id, sport);
+            }
+          }
+
+          return {
+            name: c.name,
+            active: c.active,
+            contactPerson: c.contactPerson,
+            phone: c.phone,
+            email: c.email,
+            participants: {
+              total: participants.length,
+              pending: participants.filter((p) => p.status === "pending").length,
+              accepted: participants.filter((p) => p.status === "accepted").length,
+              rejected: participants.filter((p) => p.status === "rejected").length,
+            },
+            sports: [...sports.values()].sort((a, b) => a.name.localeCompare(b.name)),
+          };
+        });
+
+        return renderCommunitySummariesPdf(
+          `${settings?.siteTitle || "Sport Sync"} · Registration Summary`,
+          summaries
+        );
+      },
+    });
   } catch (error: any) {
     res.status(500).json({ error: error.message || "Failed to export communities" });
   }
@@ -2,6 +2,7 @@ import { Router, Response } from "express";
 import { z } from "zod";
 import { prisma } from "../index";
 import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
+import { recordAudit } from "./audit";
 
 const router = Router();
 
@@ -49,6 +50,8 @@ router.post("/community/:communityId", authenticate, requireRole("admin"), async
       },
     });
 
+    await recordAudit(req, "create", "communityContact", contact.id, null, contact);
+
     res.status(201).json(contact);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -64,11 +67,18 @@ router.patch("/:id", authenticate, requireRole("admin"), async (req: AuthRequest
     const { id } = req.params;
     const data = createContactSchema.partial().parse(req.body);
 
+    const existing = await prisma.communityContact.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ error: "Contact not found" });
+    }
+
     const contact = await prisma.communityContact.update({
       where: { id },
       data,
     });
 
+    await recordAudit(req, "update", "communityContact", id, existing, contact);
+
     res.json(contact);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -86,10 +96,12 @@ router.delete("/:id", authenticate, requireRole("admin"), async (req: AuthReques
   try {
     const { id } = req.params;
 
-    await prisma.communityContact.delete({
+    const contact = await prisma.communityContact.delete({
       where: { id },
     });
 
+    await recordAudit(req, "delete", "communityContact", id, contact, null);
+
     res.json({ success: true });
   } catch (error: any) {
     if (error.code === "P2025") {
@@ -2,6 +2,7 @@ import { Router, Response } from "express";
 import { z } from "zod";
 import { prisma } from "../index";
 import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
+import { recordAudit } from "./audit";
 
 const router = Router();
 
@@ -12,6 +13,11 @@ const createConvenorSchema = z.object({
   sportId: z.string().optional(),
 });
 
+// Audit snapshot of a convenor: its own fields, without the included sport
+function convenorSnapshot({ sport, ...fields }: any) {
+  return fields;
+}
+
 // List all convenors
 router.get("/", async (req: AuthRequest, res: Response) => {
   try {
@@ -113,6 +119,8 @@ router.post("/", authenticate, requireRole("admin", "sports_admin"), async (req:
       });
     }
 
+    await recordAudit(req, "create", "convenor", convenor.id, null, convenorSnapshot(convenor));
+
     res.status(201).json(convenor);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -128,6 +136,14 @@ router.patch("/:id", authenticate, requireRole("admin", "sports_admin"), async (
     const { id } = req.params;
     const data = createConvenorSchema.partial().parse(req.body);
 
+    const existing = await prisma.convenor.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: "Convenor not found" });
+    }
+
     // If sportId is being updated, verify sport exists and handle conflicts
     if (data.sportId !== undefined) {
       if (data.sportId) {
@@ -150,13 +166,9 @@ router.patch("/:id", authenticate, requireRole("admin", "sports_admin"), async (
       }
 
       // Update sport's convenorId
-      const currentConvenor = await prisma.convenor.findUnique({
-        where: { id },
-      });
-
-      if (currentConvenor?.sportId) {
+      if (existing.sportId) {
         await prisma.sport.update({
-          where: { id: currentConvenor.sportId },
+          where: { id: existing.sportId },
           data: { convenorId: null },
         });
       }
@@ -182,6 +194,8 @@ router.patch("/:id", authenticate, requireRole("admin", "sports_admin"), async (
       },
     });
 
+    await recordAudit(req, "update", "convenor", id, existing, convenorSnapshot(convenor));
+
     res.json(convenor);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -215,6 +229,8 @@ router.delete("/:id", authenticate, requireRole("admin", "sports_admin"), async
       where: { id },
     });
 
+    await recordAudit(req, "delete", "convenor", id, convenor, null);
+
     res.json({ success: true });
   } catch (error: any) {
     if (error.code === "P2025") {
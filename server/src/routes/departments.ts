@@ -1,13 +1,46 @@
 import { Router, Response } from "express";
+import { z } from "zod";
 import { prisma } from "../index";
-import { authenticate, AuthRequest } from "../middleware/auth";
+import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
+import { recordAudit } from "./audit";
 
 const router = Router();
 
-// List departments
+const createDepartmentSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().optional().nullable(),
+  volunteerIds: z.array(z.string()).optional(),
+});
+
+const departmentInclude = {
+  volunteers: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+    orderBy: { firstName: "asc" as const },
+  },
+  _count: {
+    select: { shifts: true },
+  },
+};
+
+// Audit snapshot of a department: its own fields plus the ids of its volunteers
+function departmentSnapshot({ volunteers, _count, ...fields }: any) {
+  return {
+    ...fields,
+    volunteerIds: (volunteers ?? []).map((volunteer: any) => volunteer.id).sort(),
+  };
+}
+
+// List departments; only admins and volunteer admins see who is in each one
 router.get("/", authenticate, async (req: AuthRequest, res: Response) => {
   try {
+    const canManage = req.user!.role === "admin" || req.user!.role === "volunteer_admin";
     const departments = await prisma.department.findMany({
+      include: canManage ? departmentInclude : undefined,
       orderBy: { name: "asc" },
     });
 
@@ -17,7 +50,132 @@ router.get("/", authenticate, async (req: AuthRequest, res: Response) => {
   }
 });
 
-export default router;
+// Create department
+router.post("/", authenticate, requireRole("admin", "volunteer_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const data = createDepartmentSchema.parse(req.body);
+
+    const department = await prisma.$transaction(async (tx) => {
+      const created = await tx.department.create({
+        data: {
+          name: data.name,
+          description: data.description ?? null,
+        },
+      });
+
+      if (data.volunteerIds?.length) {
+        await tx.volunteer.updateMany({
+          where: { id: { in: data.volunteerIds } },
+          data: { departmentId: created.id },
+        });
+      }
+
+      return tx.department.findUniqueOrThrow({
+        where: { id: created.id },
+        include: departmentInclude,
+      });
+    });
+
+    await recordAudit(req, "create", "department", department.id, null, departmentSnapshot(department));
+
+    res.status(201).json(department);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    if (error.code === "P2002") {
+      return res.status(409).json({ error: "A department with this name already exists" });
+    }
+    res.status(500).json({ error: error.message || "Failed to create department" });
+  }
+});
+
+// Update department (name, description or volunteers)
+router.patch("/:id", authenticate, requireRole("admin", "volunteer_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = createDepartmentSchema.partial().parse(req.body);
+
+    const before = await prisma.department.findUnique({
+      where: { id },
+      include: departmentInclude,
+    });
+
+    if (!before) {
+      return res.status(404).json({ error: "Department not found" });
+    }
 
+    const department = await prisma.$transaction(async (tx) => {
+      await tx.department.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: data.description,
+        },
+      });
 
+      // A volunteer belongs to one department, so adding them here moves them out of any other
+      if (data.volunteerIds) {
+        await tx.volunteer.updateMany({
+          where: { departmentId: id, id: { notIn: data.volunteerIds } },
+          data: { departmentId: null },
+        });
+        await tx.volunteer.updateMany({
+          where: { id: { in: data.volunteerIds } },
+          data: { departmentId: id },
+        });
+      }
 
+      return tx.department.findUniqueOrThrow({
+        where: { id },
+        include: departmentInclude,
+      });
+    });
+
+    await recordAudit(req, "update", "department", id, departmentSnapshot(before), departmentSnapshot(department));
+
+    res.json(department);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    if (error.code === "P2002") {
+      return res.status(409).json({ error: "A department with this name already exists" });
+    }
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Department not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to update department" });
+  }
+});
+
+// Delete department (its volunteers stay registered; its shifts are removed)
+router.delete("/:id", authenticate, requireRole("admin", "volunteer_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const department = await prisma.department.findUnique({
+      where: { id },
+      include: departmentInclude,
+    });
+
+    if (!department) {
+      return res.status(404).json({ error: "Department not found" });
+    }
+
+    await prisma.department.delete({
+      where: { id },
+    });
+
+    await recordAudit(req, "delete", "department", id, departmentSnapshot(department), null);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Department not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to delete department" });
+  }
+});
+
+export default router;
@@ -0,0 +1,346 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { EmailStatus, ParticipantStatus, Prisma, Role } from "@prisma/client";
+import { prisma } from "../index";
+import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
+import { CAMPAIGN_PLACEHOLDERS, findUnknownPlaceholders, renderTemplate } from "../utils/email-templates";
+import { recordAudit } from "./audit";
+import { queuedEmailData, wakeEmailWorker } from "./email";
+import { siteTitle } from "./email-templates";
+
+const router = Router();
+
+// How many recipients the preview lists by name
+const PREVIEW_RECIPIENTS = 20;
+
+const audienceSchema = z.object({
+  audience: z.enum(["participants", "volunteers", "community_contacts", "users"]),
+  communityId: z.string().optional(),
+  sportId: z.string().optional(),
+  status: z.nativeEnum(ParticipantStatus).optional(),
+  departmentId: z.string().optional(),
+  role: z.nativeEnum(Role).optional(),
+});
+
+const messageSchema = z.object({
+  subject: z.string().trim().min(1),
+  body: z.string().trim().min(1),
+});
+
+const previewSchema = audienceSchema.extend(messageSchema.partial().shape);
+const createCampaignSchema = audienceSchema.extend(messageSchema.shape);
+
+type Audience = z.infer<typeof audienceSchema>;
+
+interface Recipient {
+  email: string;
+  name: string;
+  firstName: string;
+  community?: string;
+  sports?: string;
+}
+
+// Only the filters that apply to each kind of audience are kept with the campaign
+const audienceFilters: Record<Audience["audience"], Array<keyof Audience>> = {
+  participants: ["communityId", "sportId", "status"],
+  volunteers: ["departmentId", "sportId"],
+  community_contacts: ["communityId"],
+  users: ["role", "communityId"],
+};
+
+/**
+ * Narrow an audience to what the sender may message, using the same rules as the
+ * participant list: community admins reach their own community's participants and sports
+ * admins the entrants in their sport. Everyone else is for root admins only.
+ */
+function scopeAudience(user: NonNullable<AuthRequest["user"]>, requested: Audience): { audience: Audience } | { error: string } {
+  const audience: Audience = { audience: requested.audience };
+  for (const filter of audienceFilters[requested.audience]) {
+    if (requested[filter] !== undefined) {
+      (audience as Record<string, unknown>)[filter] = requested[filter];
+    }
+  }
+
+  if (user.role === "admin") {
+    return { audience };
+  }
+  if (audience.audience !== "participants") {
+    return { error: "Only root admins can email volunteers, community contacts or users" };
+  }
+
+  if (user.role === "community_admin") {
+    if (!user.communityId) {
+      return { error: "No community is assigned to your account" };
+    }
+    if (audience.communityId && audience.communityId !== user.communityId) {
+      return { error: "You can only email participants in your community" };
+    }
+    return { audience: { ...audience, communityId: user.communityId } };
+  }
+
+  if (!user.sportId) {
+    return { error: "No sport is assigned to your account" };
+  }
+  if (audience.sportId && audience.sportId !== user.sportId) {
+    return { error: "You can only email participants in your sport" };
+  }
+  return { audience: { ...audience, sportId: user.sportId } };
+}
+
+async function findRecipients(audience: Audience): Promise<Recipient[]> {
+  let recipients: Recipient[] = [];
+
+  if (audience.audience === "participants") {
+    const participants = await prisma.participant.findMany({
+      where: {
+        communityId: audience.communityId,
+        status: audience.status,
+        sports: audience.sportId ? { some: { sportId: audience.sportId } } : undefined,
+      },
+      include: { community: true, sports: { include: { sport: true } } },
+      orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+    });
+    recipients = participants.map((participant) => ({
+      email: participant.email,
+      name: `${participant.firstName} ${participant.lastName}`,
+      firstName: participant.firstName,
+      community: participant.community.name,
+      sports: participant.sports.map((ps) => ps.sport.name).join(", "),
+    }));
+  } else if (audience.audience === "volunteers") {
+    const volunteers = await prisma.volunteer.findMany({
+      where: { departmentId: audience.departmentId, sportId: audience.sportId },
+      include: { sport: true },
+      orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+    });
+    recipients = volunteers.map((volunteer) => ({
+      email: volunteer.email,
+      name: `${volunteer.firstName} ${volunteer.lastName}`,
+      firstName: volunteer.firstName,
+      sports: volunteer.sport?.name,
+    }));
+  } else if (audience.audience === "community_contacts") {
+    const contacts = await prisma.communityContact.findMany({
+      where: { communityId: audience.communityId },
+      include: { community: true },
+      orderBy: { name: "asc" },
+    });
+    recipients = contacts.map((contact) => ({
+      email: contact.email,
+      name: contact.name,
+      firstName: contact.name.split(" ")[0],
+      community: contact.community.name,
+    }));
+  } else {
+    const users = await prisma.user.findMany({
+      where: { role: audience.role, communityId: audience.communityId, email: { not: null } },
+      include: { community: true, sport: true, participant: true, volunteer: true },
+      orderBy: { username: "asc" },
+    });
+    recipients = users.map((user) => {
+      const person = user.participant ?? user.volunteer;
+      return {
+        email: user.email!,
+        name: person ? `${person.firstName} ${person.lastName}` : user.username,
+        firstName: person?.firstName ?? user.username,
+        community: user.community?.name,
+        sports: user.sport?.name,
+      };
+    });
+  }
+
+  // One message per address, however many records share it
+  const seen = new Set<string>();
+  return recipients.filter((recipient) => {
+    const key = recipient.email.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function personalise(message: z.infer<typeof messageSchema>, recipient: Recipient, title: string) {
+  return renderTemplate(
+    { subject: message.subject, textBody: message.body, htmlBody: null },
+    { ...recipient, siteTitle: title }
+  );
+}
+
+function unknownPlaceholders(message: Partial<z.infer<typeof messageSchema>>) {
+  return findUnknownPlaceholders(
+    { subject: message.subject ?? "", textBody: message.body ?? "", htmlBody: null },
+    CAMPAIGN_PLACEHOLDERS
+  );
+}
+
+// Delivery totals for each campaign, from its outbox rows
+async function deliveryCounts(campaignIds: string[]) {
+  const rows = await prisma.email.groupBy({
+    by: ["campaignId", "status"],
+    where: { campaignId: { in: campaignIds } },
+    _count: { _all: true },
+  });
+
+  const counts = new Map<string, Record<EmailStatus, number>>();
+  for (const id of campaignIds) {
+    counts.set(id, { queued: 0, sending: 0, sent: 0, failed: 0 });
+  }
+  for (const row of rows) {
+    counts.get(row.campaignId!)![row.status] = row._count._all;
+  }
+  return counts;
+}
+
+// Root admins see every campaign; other senders only their own
+function campaignScope(req: AuthRequest): Prisma.EmailCampaignWhereInput {
+  return req.user!.role === "admin" ? {} : { senderId: req.user!.id };
+}
+
+// Count the recipients an audience reaches, with a personalised sample message
+router.post("/preview", authenticate, requireRole("admin", "community_admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const data = previewSchema.parse(req.body);
+    const scoped = scopeAudience(req.user!, data);
+    if ("error" in scoped) {
+      return res.status(403).json({ error: scoped.error });
+    }
+
+    const recipients = await findRecipients(scoped.audience);
+    const sample =
+      data.subject && data.body && recipients.length > 0
+        ? personalise({ subject: data.subject, body: data.body }, recipients[0], await siteTitle(prisma))
+        : null;
+
+    res.json({
+      audience: scoped.audience,
+      count: recipients.length,
+      recipients: recipients.slice(0, PREVIEW_RECIPIENTS).map(({ name, email }) => ({ name, email })),
+      sample,
+      unknownPlaceholders: unknownPlaceholders(data),
+    });
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to preview recipients" });
+  }
+});
+
+// Queue a personalised message to everyone in an audience
+router.post("/", authenticate, requireRole("admin", "community_admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { subject, body, ...requested } = createCampaignSchema.parse(req.body);
+    const scoped = scopeAudience(req.user!, requested);
+    if ("error" in scoped) {
+      return res.status(403).json({ error: scoped.error });
+    }
+
+    const unknown = unknownPlaceholders({ subject, body });
+    if (unknown.length > 0) {
+      return res.status(400).json({
+        error: `Unknown placeholder${unknown.length === 1 ? "" : "s"}: ${unknown.map((name) => `{{${name}}}`).join(", ")}`,
+      });
+    }
+
+    const recipients = await findRecipients(scoped.audience);
+    if (recipients.length === 0) {
+      return res.status(400).json({ error: "No recipients match these filters" });
+    }
+
+    const title = await siteTitle(prisma);
+    const campaign = await prisma.emailCampaign.create({
+      data: {
+        subject,
+        body,
+        audience: scoped.audience as Prisma.InputJsonValue,
+        recipientCount: recipients.length,
+        senderId: req.user!.id,
+        senderUsername: req.user!.username,
+        senderRole: req.user!.role,
+        emails: {
+          createMany: {
+            data: recipients.map((recipient) =>
+              queuedEmailData({ to: recipient.email, ...personalise({ subject, body }, recipient, title) })
+            ),
+          },
+        },
+      },
+    });
+    wakeEmailWorker();
+
+    await recordAudit(req, "create", "emailCampaign", campaign.id, null, {
+      subject,
+      audience: scoped.audience,
+      recipientCount: campaign.recipientCount,
+    });
+
+    res.status(201).json(campaign);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to send message" });
+  }
+});
+
+// List campaigns with delivery totals, newest first
+router.get("/", authenticate, requireRole("admin", "community_admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const campaigns = await prisma.emailCampaign.findMany({
+      where: campaignScope(req),
+      orderBy: { createdAt: "desc" },
+    });
+    const counts = await deliveryCounts(campaigns.map((campaign) => campaign.id));
+
+    res.json(campaigns.map((campaign) => ({ ...campaign, counts: counts.get(campaign.id) })));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to list campaigns" });
+  }
+});
+
+// Campaign report: what was sent to whom and what failed
+router.get("/:id", authenticate, requireRole("admin", "community_admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const campaign = await prisma.emailCampaign.findFirst({
+      where: { id: req.params.id, ...campaignScope(req) },
+      include: {
+        emails: {
+          select: { id: true, to: true, subject: true, status: true, attempts: true, lastError: true, sentAt: true, updatedAt: true },
+          orderBy: { to: "asc" },
+        },
+      },
+    });
+    if (!campaign) {
+      return res.status(404).json({ error: "Campaign not found" });
+    }
+    const counts = await deliveryCounts([campaign.id]);
+
+    res.json({ ...campaign, counts: counts.get(campaign.id) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to get campaign" });
+  }
+});
+
+// Requeue every failed message in a campaign
+router.post("/:id/retry", authenticate, requireRole("admin", "community_admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const campaign = await prisma.emailCampaign.findFirst({ where: { id: req.params.id, ...campaignScope(req) } });
+    if (!campaign) {
+      return res.status(404).json({ error: "Campaign not found" });
+    }
+
+    const { count } = await prisma.email.updateMany({
+      where: { campaignId: campaign.id, status: "failed" },
+      data: { status: "queued", attempts: 0, lastError: null, nextAttemptAt: new Date() },
+    });
+    if (count > 0) {
+      wakeEmailWorker();
+    }
+
+    res.json({ requeued: count });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to retry campaign" });
+  }
+});
+
+export default router;
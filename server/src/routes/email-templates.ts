@@ -0,0 +1,224 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { EmailTemplate, Prisma } from "@prisma/client";
+import { prisma } from "../index";
+import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
+import {
+  DEFAULT_SITE_TITLE,
+  EMAIL_TEMPLATES,
+  EmailTemplateContent,
+  EmailTemplateDefinition,
+  EmailTemplateKey,
+  TemplateValues,
+  findUnknownPlaceholders,
+  isEmailTemplateKey,
+  renderTemplate,
+} from "../utils/email-templates";
+import { recordAudit } from "./audit";
+import { enqueueEmail, QueuedEmail } from "./email";
+
+const router = Router();
+
+const templateContentSchema = z.object({
+  subject: z.string().trim().min(1),
+  textBody: z.string().trim().min(1),
+  htmlBody: z.string().trim().nullable().optional(),
+});
+
+const testSendSchema = templateContentSchema.partial().extend({
+  to: z.string().email(),
+});
+
+function contentOf(definition: EmailTemplateDefinition, stored: EmailTemplate | null): EmailTemplateContent {
+  return stored
+    ? { subject: stored.subject, textBody: stored.textBody, htmlBody: stored.htmlBody }
+    : definition.defaults;
+}
+
+function templateSnapshot(template: EmailTemplate | null) {
+  return template ? { subject: template.subject, textBody: template.textBody, htmlBody: template.htmlBody } : null;
+}
+
+function templateResponse(definition: EmailTemplateDefinition, stored: EmailTemplate | null) {
+  return {
+    key: definition.key,
+    name: definition.name,
+    description: definition.description,
+    placeholders: definition.placeholders,
+    ...contentOf(definition, stored),
+    defaults: definition.defaults,
+    customized: !!stored,
+    updatedAt: stored?.updatedAt ?? null,
+  };
+}
+
+// Value for {{siteTitle}}: the title set in Settings
+export async function siteTitle(db: Prisma.TransactionClient) {
+  const settings = await db.settings.findFirst({ select: { siteTitle: true } });
+  return settings?.siteTitle?.trim() || DEFAULT_SITE_TITLE;
+}
+
+// A draft from the editor, falling back to the saved wording for anything left out
+function draftContent(current: EmailTemplateContent, draft: Partial<EmailTemplateContent>): EmailTemplateContent {
+  return {
+    subject: draft.subject ?? current.subject,
+    textBody: draft.textBody ?? current.textBody,
+    htmlBody: draft.htmlBody !== undefined ? draft.htmlBody || null : current.htmlBody,
+  };
+}
+
+/**
+ * Render a named template with the organisers' wording and the site title from Settings.
+ * `secrets` (e.g. one-time links) are only filled into the delivered copy; the copy kept
+ * in the outbox shows their placeholder name instead.
+ */
+export async function renderEmail(
+  db: Prisma.TransactionClient,
+  key: EmailTemplateKey,
+  values: TemplateValues,
+  secrets: TemplateValues = {}
+): Promise<Pick<QueuedEmail, "subject" | "body" | "html" | "deliveryBody" | "deliveryHtml">> {
+  const definition = EMAIL_TEMPLATES[key];
+  const stored = await db.emailTemplate.findUnique({ where: { key } });
+  const content = contentOf(definition, stored);
+  const shared = { siteTitle: await siteTitle(db), ...values };
+
+  const secretNames = Object.keys(secrets);
+  const kept = renderTemplate(content, {
+    ...shared,
+    ...Object.fromEntries(secretNames.map((name) => [name, `[${name}]`])),
+  });
+  if (secretNames.length === 0) {
+    return kept;
+  }
+
+  const delivered = renderTemplate(content, { ...shared, ...secrets });
+  return { ...kept, deliveryBody: delivered.body, deliveryHtml: delivered.html };
+}
+
+// List every email template with its current wording (admin)
+router.get("/", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const stored = await prisma.emailTemplate.findMany();
+    const byKey = new Map(stored.map((template) => [template.key, template]));
+
+    res.json(
+      Object.values(EMAIL_TEMPLATES).map((definition) => templateResponse(definition, byKey.get(definition.key) ?? null))
+    );
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to list email templates" });
+  }
+});
+
+// Save a template's wording (admin)
+router.put("/:key", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { key } = req.params;
+    if (!isEmailTemplateKey(key)) {
+      return res.status(404).json({ error: "Email template not found" });
+    }
+    const definition = EMAIL_TEMPLATES[key];
+    const data = templateContentSchema.parse(req.body);
+    const content = { subject: data.subject, textBody: data.textBody, htmlBody: data.htmlBody || null };
+
+    const unknown = findUnknownPlaceholders(content, definition.placeholders);
+    if (unknown.length > 0) {
+      return res.status(400).json({
+        error: `Unknown placeholder${unknown.length === 1 ? "" : "s"}: ${unknown.map((name) => `{{${name}}}`).join(", ")}`,
+      });
+    }
+
+    const existing = await prisma.emailTemplate.findUnique({ where: { key } });
+    const template = await prisma.emailTemplate.upsert({
+      where: { key },
+      create: { key, ...content },
+      update: content,
+    });
+
+    await recordAudit(
+      req,
+      existing ? "update" : "create",
+      "emailTemplate",
+      key,
+      templateSnapshot(existing),
+      templateSnapshot(template)
+    );
+
+    res.json(templateResponse(definition, template));
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to save email template" });
+  }
+});
+
+// Go back to a template's default wording (admin)
+router.delete("/:key", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { key } = req.params;
+    if (!isEmailTemplateKey(key)) {
+      return res.status(404).json({ error: "Email template not found" });
+    }
+
+    const existing = await prisma.emailTemplate.findUnique({ where: { key } });
+    if (existing) {
+      await prisma.emailTemplate.delete({ where: { key } });
+      await recordAudit(req, "delete", "emailTemplate", key, templateSnapshot(existing), null);
+    }
+
+    res.json(templateResponse(EMAIL_TEMPLATES[key], null));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to reset email template" });
+  }
+});
+
+// Preview a template, or an unsaved draft of it, with sample values (admin)
+router.post("/:key/preview", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { key } = req.params;
+    if (!isEmailTemplateKey(key)) {
+      return res.status(404).json({ error: "Email template not found" });
+    }
+    const definition = EMAIL_TEMPLATES[key];
+    const draft = templateContentSchema.partial().parse(req.body ?? {});
+    const stored = await prisma.emailTemplate.findUnique({ where: { key } });
+    const content = draftContent(contentOf(definition, stored), draft);
+
+    res.json({
+      ...renderTemplate(content, { siteTitle: await siteTitle(prisma), ...definition.sample }),
+      unknownPlaceholders: findUnknownPlaceholders(content, definition.placeholders),
+    });
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to preview email template" });
+  }
+});
+
+// Queue a test copy of a template, or an unsaved draft of it, filled with sample values (admin)
+router.post("/:key/test", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { key } = req.params;
+    if (!isEmailTemplateKey(key)) {
+      return res.status(404).json({ error: "Email template not found" });
+    }
+    const definition = EMAIL_TEMPLATES[key];
+    const { to, ...draft } = testSendSchema.parse(req.body);
+    const stored = await prisma.emailTemplate.findUnique({ where: { key } });
+    const content = draftContent(contentOf(definition, stored), draft);
+    const rendered = renderTemplate(content, { siteTitle: await siteTitle(prisma), ...definition.sample });
+
+    const email = await enqueueEmail(prisma, { to, ...rendered, subject: `[Test] ${rendered.subject}` });
+
+    res.json({ success: true, email });
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to send test email" });
+  }
+});
+
+export default router;
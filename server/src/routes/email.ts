@@ -1,75 +1,179 @@
 import { Router, Response } from "express";
 import { z } from "zod";
+import { Email, Prisma } from "@prisma/client";
 import { prisma } from "../index";
 import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
-import { sendEmail } from "../utils/email";
+import { EMAIL_MAX_ATTEMPTS, EmailOptions, retryDelayMs, sendEmail } from "../utils/email";
+import { renderEmail } from "./email-templates";
 
 const router = Router();
 
-const sendEmailSchema = z.object({
-  to: z.string().email(),
-  subject: z.string().min(1),
-  body: z.string().min(1),
-  from: z.string().email().optional(),
-});
-
-const contactEmailSchema = z.object({
-  name: z.string().min(1),
-  email: z.string().email(),
-  message: z.string().min(1),
-});
+// How often the delivery worker looks for queued emails that are due
+const WORKER_INTERVAL_MS = 15_000;
+const WORKER_BATCH_SIZE = 20;
+// A row left in "sending" this long (e.g. the server stopped mid-send) is picked up again
+const SENDING_TIMEOUT_MS = 2 * 60_000;
 
-// Public registration confirmation endpoint (no authentication required)
-router.post("/registration-confirmation", async (req, res: Response) => {
-  try {
-    const emailSchema = z.object({
-      to: z.string().email(),
-    });
-    
-    const data = emailSchema.parse(req.body);
-    
-    const emailBody = `
-Dear Participant,
+export interface QueuedEmail extends EmailOptions {
+  // Text to deliver when it must not be kept in the outbox, e.g. a one-time link; `body` is the stored copy
+  deliveryBody?: string;
+  deliveryHtml?: string;
+}
 
-Thank you for registering for the Festival of Friendship (FOF) 2026!
+let workerTimer: NodeJS.Timeout | null = null;
+let delivering = false;
 
-Your registration has been received and is currently pending approval. You will receive another email once your registration has been reviewed and approved by our team.
+// Outbox row for a message, for callers that queue many at once with createMany
+export function queuedEmailData(email: QueuedEmail) {
+  return {
+    to: email.to,
+    from: email.from || process.env.SMTP_FROM || process.env.SMTP_USER || "registration@fof.co.ke",
+    subject: email.subject,
+    body: email.body,
+    html: email.html ?? null,
+    deliveryBody: email.deliveryBody ?? null,
+    deliveryHtml: email.deliveryHtml ?? null,
+  };
+}
 
-If you have any questions, please don't hesitate to contact us.
+/**
+ * Add an email to the outbox for the delivery worker to send. Pass a transaction client
+ * to queue the email only if the rest of the transaction commits.
+ */
+export async function enqueueEmail(db: Prisma.TransactionClient, email: QueuedEmail) {
+  const queued = await db.email.create({ data: queuedEmailData(email) });
+  // Queued outside a transaction it can go straight away; otherwise the next poll picks it up
+  if (db === prisma) {
+    wakeEmailWorker();
+  }
+  return queued;
+}
 
-Best regards,
-FOF 2026 Team
-    `.trim();
+async function deliverEmail(email: Email) {
+  // Claim the row first so an overlapping run or another server instance skips it
+  const claimed = await prisma.email.updateMany({
+    where: { id: email.id, status: email.status, nextAttemptAt: email.nextAttemptAt },
+    data: {
+      status: "sending",
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(Date.now() + SENDING_TIMEOUT_MS),
+    },
+  });
+  if (claimed.count === 0) {
+    return;
+  }
 
-    // Actually send the email
+  const attempts = email.attempts + 1;
+  try {
     await sendEmail({
-      to: data.to,
-      subject: "FOF 2026 - Registration Received",
-      body: emailBody,
-      from: process.env.REGISTRATION_EMAIL || process.env.SMTP_USER || "registration@fof.co.ke",
+      to: email.to,
+      from: email.from,
+      subject: email.subject,
+      body: email.deliveryBody ?? email.body,
+      html: email.deliveryHtml ?? email.html ?? undefined,
     });
-
-    // Store in database for record keeping
-    await prisma.email.create({
+    await prisma.email.update({
+      where: { id: email.id },
+      data: { status: "sent", sentAt: new Date(), lastError: null, deliveryBody: null, deliveryHtml: null },
+    });
+  } catch (error: any) {
+    const failed = attempts >= EMAIL_MAX_ATTEMPTS;
+    await prisma.email.update({
+      where: { id: email.id },
       data: {
-        to: data.to,
-        from: process.env.REGISTRATION_EMAIL || process.env.SMTP_USER || "registration@fof.co.ke",
-        subject: "FOF 2026 - Registration Received",
-        body: emailBody,
+        status: failed ? "failed" : "queued",
+        lastError: error.message || String(error),
+        nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)),
       },
     });
+    console.error(
+      failed
+        ? `Giving up on email ${email.id} to ${email.to} after ${attempts} attempts`
+        : `Email ${email.id} to ${email.to} failed (attempt ${attempts}); retrying later`
+    );
+  }
+}
 
-    res.json({ success: true, message: "Confirmation email sent successfully" });
-  } catch (error: any) {
-    if (error.name === "ZodError") {
-      return res.status(400).json({ error: "Invalid input", details: error.errors });
+/**
+ * Send every queued email that is due, oldest first. Failed sends are retried with
+ * exponential backoff until EMAIL_MAX_ATTEMPTS, then marked failed.
+ */
+export async function deliverQueuedEmails() {
+  if (delivering) {
+    return;
+  }
+  delivering = true;
+  try {
+    const due = await prisma.email.findMany({
+      where: { status: { in: ["queued", "sending"] }, nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: "asc" },
+      take: WORKER_BATCH_SIZE,
+    });
+    for (const email of due) {
+      await deliverEmail(email);
     }
-    console.error("Registration confirmation email error:", error);
-    // Don't fail hard - just log and return success since email is not critical
-    res.json({ success: true, message: "Registration successful, but email could not be sent" });
+  } finally {
+    delivering = false;
+  }
+}
+
+// Start a delivery run now rather than waiting for the next poll
+export function wakeEmailWorker() {
+  setImmediate(() => {
+    deliverQueuedEmails().catch((error) => console.error("Email delivery run failed:", error));
+  });
+}
+
+export function startEmailWorker() {
+  if (workerTimer) {
+    return;
   }
+  workerTimer = setInterval(wakeEmailWorker, WORKER_INTERVAL_MS);
+  wakeEmailWorker();
+}
+
+export function stopEmailWorker() {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+}
+
+const sendEmailSchema = z.object({
+  to: z.string().email(),
+  subject: z.string().min(1),
+  body: z.string().min(1),
+  from: z.string().email().optional(),
+});
+
+const contactEmailSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email(),
+  message: z.string().min(1),
+});
+
+const listOutboxSchema = z.object({
+  status: z.enum(["queued", "sending", "sent", "failed"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
 });
 
+// Outbox fields shown to admins; the delivery copy can hold one-time links
+const outboxSelect = {
+  id: true,
+  to: true,
+  from: true,
+  subject: true,
+  body: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  nextAttemptAt: true,
+  sentAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.EmailSelect;
+
 // Public contact endpoint (no authentication required)
 router.post("/contact", async (req, res: Response) => {
   try {
@@ -86,43 +190,10 @@ router.post("/contact", async (req, res: Response) => {
       });
     }
 
-    // Format the email body
-    const emailBody = `
-New contact form submission:
-
-Name: ${data.name}
-Email: ${data.email}
-
-Message:
-${data.message}
-
----
-This email was sent from the contact form on your website.
-    `.trim();
-
-    // Send email to admin
-    await sendEmail({
-      to: adminEmail,
-      subject: `Contact Form: New Message from ${data.name}`,
-      body: emailBody,
-    });
-
-    // Also send confirmation to the user
-    await sendEmail({
-      to: data.email,
-      subject: "Thank you for contacting us",
-      body: `Hi ${data.name},\n\nThank you for reaching out! We have received your message and will get back to you soon.\n\nBest regards,\nThe Team`,
-    });
-
-    // Store in database for record keeping
-    await prisma.email.create({
-      data: {
-        to: adminEmail,
-        from: data.email,
-        subject: `Contact Form: ${data.name}`,
-        body: emailBody,
-      },
-    });
+    // Queue the message for the admin and a confirmation for the sender
+    const values = { name: data.name, email: data.email, message: data.message };
+    await enqueueEmail(prisma, { to: adminEmail, ...(await renderEmail(prisma, "contact_notification", values)) });
+    await enqueueEmail(prisma, { to: data.email, ...(await renderEmail(prisma, "contact_confirmation", values)) });
 
     res.json({ success: true, message: "Your message has been sent successfully!" });
   } catch (error: any) {
@@ -139,24 +210,13 @@ router.post("/send", authenticate, requireRole("admin", "community_admin", "spor
   try {
     const data = sendEmailSchema.parse(req.body);
 
-    // Actually send the email using nodemailer
-    await sendEmail({
+    const email = await enqueueEmail(prisma, {
       to: data.to,
       subject: data.subject,
       body: data.body,
       from: data.from,
     });
 
-    // Store in database for record keeping
-    const email = await prisma.email.create({
-      data: {
-        to: data.to,
-        from: data.from || "registration@fof.co.ke",
-        subject: data.subject,
-        body: data.body,
-      },
-    });
-
     res.json({ success: true, email });
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -167,19 +227,65 @@ router.post("/send", authenticate, requireRole("admin", "community_admin", "spor
   }
 });
 
-// List outbox
+// List outbox with delivery state, newest first
 router.get("/outbox", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
   try {
-    const emails = await prisma.email.findMany({
-      orderBy: { createdAt: "desc" },
-    });
+    const query = listOutboxSchema.parse(req.query);
+    const where: Prisma.EmailWhereInput = query.status ? { status: query.status } : {};
+
+    const [emails, total] = await prisma.$transaction([
+      prisma.email.findMany({
+        where,
+        select: outboxSelect,
+        orderBy: { createdAt: "desc" },
+        take: query.limit,
+        skip: query.offset,
+      }),
+      prisma.email.count({ where }),
+    ]);
 
-    res.json(emails);
+    // Totals for every status, whatever the filter, so the view can show what is waiting or stuck
+    const byStatus = await prisma.email.groupBy({ by: ["status"], _count: { _all: true } });
+    const counts = { queued: 0, sending: 0, sent: 0, failed: 0 };
+    for (const row of byStatus) {
+      counts[row.status] = row._count._all;
+    }
+
+    res.json({ emails, total, counts });
   } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
     res.status(500).json({ error: error.message || "Failed to list outbox" });
   }
 });
 
+// Resend a failed email, or send a queued one now instead of waiting for its retry
+router.post("/outbox/:id/resend", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const email = await prisma.email.findUniqueOrThrow({ where: { id } });
+
+    if (email.status === "sent" || email.status === "sending") {
+      return res.status(409).json({ error: `This email is already ${email.status}` });
+    }
+
+    const updated = await prisma.email.update({
+      where: { id },
+      data: { status: "queued", attempts: 0, lastError: null, nextAttemptAt: new Date() },
+      select: outboxSelect,
+    });
+    wakeEmailWorker();
+
+    res.json(updated);
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Email not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to resend email" });
+  }
+});
+
 export default router;
 
 
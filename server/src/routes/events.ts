@@ -0,0 +1,66 @@
+import { Router, Request, Response } from "express";
+
+const router = Router();
+
+// Kinds of change pushed to browsers; each tells the client which cached data to refetch
+export type LiveEventType = "leaderboard" | "results" | "calendar";
+
+export interface LiveEventData {
+  sportId?: string | null;
+}
+
+// Comment lines keep idle connections open through proxies that time out quiet responses
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+// Each stream holds a socket and a timer, so unauthenticated clients are capped
+const MAX_STREAMS = 1000;
+
+// Open streams and their heartbeat timers
+const clients = new Map<Response, NodeJS.Timeout>();
+let nextEventId = 1;
+
+/**
+ * Push a change to every connected browser. Nothing is stored; a browser that connects
+ * later simply loads the current state.
+ */
+export function publishEvent(type: LiveEventType, data: LiveEventData = {}) {
+  const message = `id: ${nextEventId++}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const client of clients.keys()) {
+    client.write(message);
+  }
+}
+
+// End every open stream so the HTTP server can close; browsers reconnect to the next instance
+export function closeLiveStreams() {
+  for (const [client, heartbeat] of clients) {
+    clearInterval(heartbeat);
+    client.end();
+  }
+  clients.clear();
+}
+
+// Live stream of leaderboard, result and calendar changes (public - used by the spectator pages)
+router.get("/", (req: Request, res: Response) => {
+  if (clients.size >= MAX_STREAMS) {
+    return res.status(503).json({ error: "Too many live connections, try again later" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  // Ask browsers to wait a few seconds before reconnecting after a dropped connection
+  res.write("retry: 5000\n\n");
+
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+  clients.set(res, heartbeat);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+  });
+});
+
+export default router;
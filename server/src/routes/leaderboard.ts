@@ -2,19 +2,198 @@ import { Router, Response } from "express";
 import { z } from "zod";
 import { prisma } from "../index";
 import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
-import { MedalType } from "@prisma/client";
+import { MedalType, SportType } from "@prisma/client";
+import {
+  POINTS_SYSTEM_CATEGORY,
+  PointsRules,
+  calculatePoints,
+  medalForPosition,
+  parsePointsRules,
+  resolvePointsTable,
+} from "../utils/points";
+import { eliminationPlacings } from "../utils/results";
+import { computeStandings, standingsPlacings } from "../utils/standings";
+import { recordAudit } from "./audit";
+import { publishEvent } from "./events";
 
 const router = Router();
 
 const createLeaderboardEntrySchema = z.object({
   communityId: z.string().min(1),
   sportId: z.string().min(1),
-  score: z.number().int().min(0),
+  score: z.number().int().min(0).optional(),
   position: z.number().int().positive().optional().nullable(),
   medalType: z.enum(["gold", "silver", "bronze", "none"]).optional(),
+  teamId: z.string().optional().nullable(),
   notes: z.string().optional().nullable(),
 });
 
+const recomputeSchema = z.object({
+  sportId: z.string().min(1).optional(),
+});
+
+// Load the points table from the "points_system" tournament format, if one has been configured
+async function loadPointsRules(): Promise<PointsRules | null> {
+  const format = await prisma.tournamentFormat.findUnique({
+    where: { category: POINTS_SYSTEM_CATEGORY },
+  });
+  return parsePointsRules(format?.rules);
+}
+
+// A leaderboard entry's team must belong to the same community and sport
+async function findTeamError(teamId: string | null | undefined, communityId: string, sportId: string) {
+  if (!teamId) {
+    return null;
+  }
+  const team = await prisma.team.findUnique({
+    where: { id: teamId },
+  });
+  if (!team) {
+    return "Team not found";
+  }
+  if (team.communityId !== communityId || team.sportId !== sportId) {
+    return "Team does not belong to this community and sport";
+  }
+  return null;
+}
+
+// Audit snapshot of an entry without the included relations
+function entrySnapshot({ community, sport, team, ...fields }: any) {
+  return fields;
+}
+
+function deriveScore(
+  rules: PointsRules,
+  sport: { id: string; type: SportType; parentId: string | null },
+  medalType: MedalType,
+  position: number | null
+) {
+  return calculatePoints(resolvePointsTable(rules, sport), medalType, position);
+}
+
+/**
+ * Recalculate stored scores from the points table. Entries are left untouched when
+ * no rules are configured, so manually entered scores keep working.
+ */
+export async function recomputeLeaderboardScores(sportId?: string) {
+  const rules = await loadPointsRules();
+  if (!rules) {
+    return { rulesConfigured: false, updated: 0, total: 0, changed: [] };
+  }
+
+  const entries = await prisma.leaderboardEntry.findMany({
+    where: sportId ? { sportId } : {},
+    include: {
+      sport: {
+        select: {
+          id: true,
+          type: true,
+          parentId: true,
+        },
+      },
+    },
+  });
+
+  const changed = entries
+    .map((entry) => ({
+      id: entry.id,
+      previous: entry.score,
+      score: deriveScore(rules, entry.sport, entry.medalType, entry.position),
+    }))
+    .filter((entry) => entry.score !== entry.previous);
+
+  await prisma.$transaction(
+    changed.map((entry) =>
+      prisma.leaderboardEntry.update({
+        where: { id: entry.id },
+        data: { score: entry.score },
+      })
+    )
+  );
+
+  return { rulesConfigured: true, updated: changed.length, total: entries.length, changed };
+}
+
+/**
+ * Write the placings decided by a sport's match results onto its leaderboard. Each
+ * community takes the position of its best-placed entrant. Entries placed from results
+ * whose placing has since been undone (e.g. a result was cleared) go back to unplaced.
+ * Returns the before and after of every entry written, for auditing.
+ */
+export async function syncLeaderboardFromResults(sportId: string) {
+  const sport = await prisma.sport.findUnique({
+    where: { id: sportId },
+    select: { id: true, type: true, parentId: true, tieBreakers: true },
+  });
+  if (!sport) {
+    return [];
+  }
+
+  const [matches, entries, rules] = await Promise.all([
+    prisma.match.findMany({ where: { sportId } }),
+    prisma.leaderboardEntry.findMany({ where: { sportId } }),
+    loadPointsRules(),
+  ]);
+
+  const best = new Map<string, { position: number; teamId: string | null }>();
+  const placings =
+    matches[0]?.format === "round_robin"
+      ? standingsPlacings(computeStandings(matches, sport.tieBreakers))
+      : eliminationPlacings(matches);
+  for (const placing of placings) {
+    const { communityId, teamId } = placing.entrant;
+    if (!communityId) continue;
+    const current = best.get(communityId);
+    if (!current || placing.position < current.position) {
+      best.set(communityId, { position: placing.position, teamId: teamId ?? null });
+    }
+  }
+
+  const changes: Array<{ id: string; before: Record<string, unknown> | null; after: Record<string, unknown> }> = [];
+
+  for (const [communityId, placing] of best) {
+    const existing = entries.find((entry) => entry.communityId === communityId);
+    const medalType = medalForPosition(placing.position);
+    const score = rules ? deriveScore(rules, sport, medalType, placing.position) : existing?.score ?? 0;
+    const teamId = placing.teamId ?? existing?.teamId ?? null;
+
+    if (
+      existing &&
+      existing.fromResults &&
+      existing.position === placing.position &&
+      existing.medalType === medalType &&
+      existing.score === score &&
+      existing.teamId === teamId
+    ) {
+      continue;
+    }
+
+    const entry = await prisma.leaderboardEntry.upsert({
+      where: { communityId_sportId: { communityId, sportId } },
+      update: { position: placing.position, medalType, score, teamId, fromResults: true },
+      create: { communityId, sportId, position: placing.position, medalType, score, teamId, fromResults: true },
+    });
+    changes.push({ id: entry.id, before: existing ?? null, after: entry });
+  }
+
+  for (const existing of entries) {
+    if (!existing.fromResults || best.has(existing.communityId)) continue;
+
+    const entry = await prisma.leaderboardEntry.update({
+      where: { id: existing.id },
+      data: {
+        position: null,
+        medalType: "none",
+        score: rules ? deriveScore(rules, sport, "none", null) : existing.score,
+        fromResults: false,
+      },
+    });
+    changes.push({ id: entry.id, before: existing, after: entry });
+  }
+
+  return changes;
+}
+
 // Get overall leaderboard (sum of all sports, ranked by total score)
 router.get("/", async (req: AuthRequest, res: Response) => {
   try {
@@ -34,6 +213,12 @@ router.get("/", async (req: AuthRequest, res: Response) => {
             name: true,
           },
         },
+        team: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
       orderBy: {
         score: "desc",
@@ -103,6 +288,12 @@ router.get("/sport/:sportId", async (req: AuthRequest, res: Response) => {
             name: true,
           },
         },
+        team: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
       orderBy: {
         score: "desc",
@@ -118,6 +309,8 @@ router.get("/sport/:sportId", async (req: AuthRequest, res: Response) => {
       score: entry.score,
       position: entry.position,
       medalType: entry.medalType,
+      teamId: entry.teamId,
+      teamName: entry.team?.name ?? null,
       notes: entry.notes,
       rank: index + 1,
     }));
@@ -148,6 +341,12 @@ router.get("/community/:communityId", async (req: AuthRequest, res: Response) =>
             name: true,
           },
         },
+        team: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
       orderBy: {
         score: "desc",
@@ -178,6 +377,12 @@ router.get("/entries", authenticate, requireRole("admin"), async (req: AuthReque
             name: true,
           },
         },
+        team: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
       orderBy: {
         updatedAt: "desc",
@@ -214,6 +419,20 @@ router.post("/", authenticate, requireRole("admin"), async (req: AuthRequest, re
       return res.status(404).json({ error: "Sport not found" });
     }
 
+    const teamError = await findTeamError(data.teamId, data.communityId, data.sportId);
+    if (teamError) {
+      return res.status(400).json({ error: teamError });
+    }
+
+    // Derive the score from the points table when one is configured
+    const medalType = (data.medalType as MedalType) || "none";
+    const rules = await loadPointsRules();
+    const score = rules ? deriveScore(rules, sport, medalType, data.position ?? null) : data.score;
+
+    if (score === undefined) {
+      return res.status(400).json({ error: "Score is required when no points system is configured" });
+    }
+
     // Check if entry already exists
     const existingEntry = await prisma.leaderboardEntry.findUnique({
       where: {
@@ -230,10 +449,12 @@ router.post("/", authenticate, requireRole("admin"), async (req: AuthRequest, re
       entry = await prisma.leaderboardEntry.update({
         where: { id: existingEntry.id },
         data: {
-          score: data.score,
+          score,
           position: data.position ?? null,
-          medalType: (data.medalType as MedalType) || "none",
+          medalType,
+          teamId: data.teamId ?? null,
           notes: data.notes ?? null,
+          fromResults: false,
         },
         include: {
           community: {
@@ -248,6 +469,12 @@ router.post("/", authenticate, requireRole("admin"), async (req: AuthRequest, re
               name: true,
             },
           },
+          team: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
         },
       });
     } else {
@@ -256,9 +483,10 @@ router.post("/", authenticate, requireRole("admin"), async (req: AuthRequest, re
         data: {
           communityId: data.communityId,
           sportId: data.sportId,
-          score: data.score,
+          score,
           position: data.position ?? null,
-          medalType: (data.medalType as MedalType) || "none",
+          medalType,
+          teamId: data.teamId ?? null,
           notes: data.notes ?? null,
         },
         include: {
@@ -274,10 +502,26 @@ router.post("/", authenticate, requireRole("admin"), async (req: AuthRequest, re
               name: true,
             },
           },
+          team: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
         },
       });
     }
 
+    await recordAudit(
+      req,
+      existingEntry ? "update" : "create",
+      "leaderboardEntry",
+      entry.id,
+      existingEntry,
+      entrySnapshot(entry)
+    );
+    publishEvent("leaderboard", { sportId: entry.sportId });
+
     res.status(existingEntry ? 200 : 201).json(entry);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -287,6 +531,37 @@ router.post("/", authenticate, requireRole("admin"), async (req: AuthRequest, re
   }
 });
 
+// Recompute scores from the points table (root admin only)
+router.post("/recompute", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const data = recomputeSchema.parse(req.body ?? {});
+
+    const result = await recomputeLeaderboardScores(data.sportId);
+
+    if (!result.rulesConfigured) {
+      return res.status(400).json({
+        error: "No points system configured",
+        message: "Add points rules to the \"points_system\" tournament format before recomputing scores.",
+      });
+    }
+
+    const { changed, ...summary } = result;
+    for (const entry of changed) {
+      await recordAudit(req, "update", "leaderboardEntry", entry.id, { score: entry.previous }, { score: entry.score });
+    }
+    if (changed.length > 0) {
+      publishEvent("leaderboard", { sportId: data.sportId ?? null });
+    }
+
+    res.json(summary);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to recompute leaderboard scores" });
+  }
+});
+
 // Update score entry (root admin only)
 router.patch("/:id", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
   try {
@@ -312,13 +587,11 @@ router.patch("/:id", authenticate, requireRole("admin"), async (req: AuthRequest
       }
     }
 
-    if (data.sportId) {
-      const sport = await prisma.sport.findUnique({
-        where: { id: data.sportId },
-      });
-      if (!sport) {
-        return res.status(404).json({ error: "Sport not found" });
-      }
+    const sport = await prisma.sport.findUnique({
+      where: { id: data.sportId || existingEntry.sportId },
+    });
+    if (!sport) {
+      return res.status(404).json({ error: "Sport not found" });
     }
 
     // Check for duplicate if communityId or sportId is being changed
@@ -348,8 +621,32 @@ router.patch("/:id", authenticate, requireRole("admin"), async (req: AuthRequest
     if (data.score !== undefined) updateData.score = data.score;
     if (data.position !== undefined) updateData.position = data.position ?? null;
     if (data.medalType !== undefined) updateData.medalType = (data.medalType as MedalType) || "none";
+    // A placing typed in by hand is no longer tracked from match results
+    if (data.position !== undefined || data.medalType !== undefined) updateData.fromResults = false;
+    if (data.teamId !== undefined) updateData.teamId = data.teamId ?? null;
     if (data.notes !== undefined) updateData.notes = data.notes ?? null;
 
+    const teamId = data.teamId !== undefined ? data.teamId : existingEntry.teamId;
+    const teamError = await findTeamError(
+      teamId,
+      data.communityId || existingEntry.communityId,
+      data.sportId || existingEntry.sportId
+    );
+    if (teamError) {
+      return res.status(400).json({ error: teamError });
+    }
+
+    // With a points table configured the score always follows the recorded result
+    const rules = await loadPointsRules();
+    if (rules) {
+      updateData.score = deriveScore(
+        rules,
+        sport,
+        updateData.medalType ?? existingEntry.medalType,
+        updateData.position !== undefined ? updateData.position : existingEntry.position
+      );
+    }
+
     const entry = await prisma.leaderboardEntry.update({
       where: { id },
       data: updateData,
@@ -366,9 +663,18 @@ router.patch("/:id", authenticate, requireRole("admin"), async (req: AuthRequest
             name: true,
           },
         },
+        team: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
     });
 
+    await recordAudit(req, "update", "leaderboardEntry", id, existingEntry, entrySnapshot(entry));
+    publishEvent("leaderboard", { sportId: entry.sportId });
+
     res.json(entry);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -386,10 +692,13 @@ router.delete("/:id", authenticate, requireRole("admin"), async (req: AuthReques
   try {
     const { id } = req.params;
 
-    await prisma.leaderboardEntry.delete({
+    const entry = await prisma.leaderboardEntry.delete({
       where: { id },
     });
 
+    await recordAudit(req, "delete", "leaderboardEntry", id, entry, null);
+    publishEvent("leaderboard", { sportId: entry.sportId });
+
     res.json({ success: true });
   } catch (error: any) {
     if (error.code === "P2025") {
@@ -0,0 +1,719 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { randomUUID } from "crypto";
+import { prisma } from "../index";
+import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
+import { DrawFormat, Match, MatchSlot, MatchStatus, Prisma } from "@prisma/client";
+import { planDraw, DrawEntrant } from "../utils/draws";
+import { otherSide, settleResult, sideEntrant } from "../utils/results";
+import { recordAudit } from "./audit";
+import { syncLeaderboardFromResults } from "./leaderboard";
+import { publishEvent } from "./events";
+
+const router = Router();
+
+const generateDrawSchema = z.object({
+  sportId: z.string().min(1),
+  format: z.enum(["single_elimination", "double_elimination", "round_robin"]),
+  entrantType: z.enum(["community", "team", "participant"]).optional(),
+  groupCount: z.number().int().min(1).max(16).optional(),
+  shuffle: z.boolean().optional(),
+  replace: z.boolean().optional(),
+});
+
+const updateMatchSchema = z.object({
+  venue: z.string().optional().nullable(),
+  scheduledAt: z.string().or(z.date()).optional().nullable(),
+  // Matches are completed by recording a result
+  status: z.enum(["scheduled", "in_progress", "cancelled"]).optional(),
+  homeCommunityId: z.string().optional().nullable(),
+  awayCommunityId: z.string().optional().nullable(),
+  homeParticipantId: z.string().optional().nullable(),
+  awayParticipantId: z.string().optional().nullable(),
+  homeTeamId: z.string().optional().nullable(),
+  awayTeamId: z.string().optional().nullable(),
+});
+
+const matchResultSchema = z.object({
+  resultType: z.enum(["normal", "walkover", "forfeit", "abandoned"]),
+  homeScore: z.number().int().min(0).optional().nullable(),
+  awayScore: z.number().int().min(0).optional().nullable(),
+  sets: z
+    .array(z.object({ home: z.number().int().min(0), away: z.number().int().min(0) }))
+    .max(9)
+    .optional()
+    .nullable(),
+  winner: z.enum(["home", "away"]).optional().nullable(),
+  mvpParticipantId: z.string().optional().nullable(),
+  resultNotes: z.string().max(500).optional().nullable(),
+  homeFairPlay: z.number().int().min(0).optional().nullable(),
+  awayFairPlay: z.number().int().min(0).optional().nullable(),
+});
+
+type EntrantType = "community" | "team" | "participant";
+
+export const matchInclude = {
+  sport: {
+    select: {
+      id: true,
+      name: true,
+      type: true,
+    },
+  },
+  homeCommunity: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  awayCommunity: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  homeParticipant: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      communityId: true,
+    },
+  },
+  awayParticipant: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      communityId: true,
+    },
+  },
+  homeTeam: {
+    select: {
+      id: true,
+      name: true,
+      communityId: true,
+    },
+  },
+  awayTeam: {
+    select: {
+      id: true,
+      name: true,
+      communityId: true,
+    },
+  },
+  mvp: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      communityId: true,
+    },
+  },
+};
+
+export const matchOrderBy = [
+  { bracket: "asc" as const },
+  { round: "asc" as const },
+  { matchNumber: "asc" as const },
+];
+
+// Audit snapshot of a match: its own fields without the included relations
+function matchSnapshot({ sport, homeCommunity, awayCommunity, homeParticipant, awayParticipant, homeTeam, awayTeam, mvp, ...fields }: any) {
+  return fields;
+}
+
+// Load the entrants for a sport: its teams, accepted participants, or the communities they represent
+async function loadDrawEntrants(sportId: string, entrantType: EntrantType, shuffle: boolean) {
+  let entrants: DrawEntrant[];
+  if (entrantType === "team") {
+    const teams = await prisma.team.findMany({
+      where: { sportId },
+      orderBy: { createdAt: "asc" },
+    });
+    entrants = teams.map((team) => ({ teamId: team.id, communityId: team.communityId }));
+  } else {
+    const entries = await prisma.participantSport.findMany({
+      where: {
+        sportId,
+        status: "registered",
+        participant: { status: "accepted" },
+      },
+      include: {
+        participant: {
+          select: { id: true, communityId: true },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    if (entrantType === "community") {
+      const communityIds = Array.from(new Set(entries.map((entry) => entry.participant.communityId)));
+      entrants = communityIds.map((communityId) => ({ communityId }));
+    } else {
+      entrants = entries.map((entry) => ({
+        participantId: entry.participant.id,
+        communityId: entry.participant.communityId,
+      }));
+    }
+  }
+
+  if (shuffle) {
+    for (let i = entrants.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [entrants[i], entrants[j]] = [entrants[j], entrants[i]];
+    }
+  }
+
+  return entrants;
+}
+
+// Name the first of the given entrants that is not entered in the sport, or null when all are
+async function findEntrantOutsideSport(
+  sportId: string,
+  entrants: { communityIds: string[]; participantIds: string[]; teamIds: string[] }
+): Promise<string | null> {
+  if (entrants.teamIds.length > 0) {
+    const teams = await prisma.team.findMany({
+      where: { id: { in: entrants.teamIds }, sportId },
+      select: { id: true },
+    });
+    if (teams.length < new Set(entrants.teamIds).size) {
+      return "Team is not entered in this sport";
+    }
+  }
+
+  if (entrants.participantIds.length > 0) {
+    const entries = await prisma.participantSport.findMany({
+      where: {
+        sportId,
+        participantId: { in: entrants.participantIds },
+        status: "registered",
+        participant: { status: "accepted" },
+      },
+      select: { participantId: true },
+    });
+    if (entries.length < new Set(entrants.participantIds).size) {
+      return "Participant is not an accepted entrant in this sport";
+    }
+  }
+
+  for (const communityId of new Set(entrants.communityIds)) {
+    const entry = await prisma.participantSport.findFirst({
+      where: {
+        sportId,
+        status: "registered",
+        participant: { status: "accepted", communityId },
+      },
+      select: { id: true },
+    });
+    if (!entry) {
+      return "Community has no accepted entrants in this sport";
+    }
+  }
+
+  return null;
+}
+
+function entrantColumns(entrant: DrawEntrant | null, side: "home" | "away", entrantType: EntrantType) {
+  if (side === "home") {
+    return {
+      homeCommunityId: entrant?.communityId ?? null,
+      homeTeamId: entrantType === "team" ? entrant?.teamId ?? null : null,
+      homeParticipantId: entrantType === "participant" ? entrant?.participantId ?? null : null,
+    };
+  }
+  return {
+    awayCommunityId: entrant?.communityId ?? null,
+    awayTeamId: entrantType === "team" ? entrant?.teamId ?? null : null,
+    awayParticipantId: entrantType === "participant" ? entrant?.participantId ?? null : null,
+  };
+}
+
+// Columns that put one side of a decided match into a slot of the match it feeds; empty when nobody moves on
+function advanceColumns(match: Match, from: MatchSlot | null, slot: MatchSlot) {
+  const entrant = from ? sideEntrant(match, from) : null;
+  if (slot === "home") {
+    return {
+      homeCommunityId: entrant?.communityId ?? null,
+      homeTeamId: entrant?.teamId ?? null,
+      homeParticipantId: entrant?.participantId ?? null,
+    };
+  }
+  return {
+    awayCommunityId: entrant?.communityId ?? null,
+    awayTeamId: entrant?.teamId ?? null,
+    awayParticipantId: entrant?.participantId ?? null,
+  };
+}
+
+/**
+ * Plan the slot updates that carry a match's winner and loser on to the matches they feed.
+ * `winnerSlot` null clears those slots. Returns an error when a match that would change
+ * already has a result of its own.
+ */
+async function planProgression(match: Match, winnerSlot: MatchSlot | null) {
+  const moves = [
+    { matchId: match.nextMatchId, slot: match.nextMatchSlot, from: winnerSlot },
+    { matchId: match.loserMatchId, slot: match.loserMatchSlot, from: winnerSlot && otherSide(winnerSlot) },
+  ];
+
+  const updates: Array<{ id: string; data: ReturnType<typeof advanceColumns> }> = [];
+  for (const move of moves) {
+    if (!move.matchId || !move.slot) continue;
+    const target = await prisma.match.findUnique({
+      where: { id: move.matchId },
+    });
+    if (!target) continue;
+
+    const data = advanceColumns(match, move.from, move.slot);
+    const changed = Object.entries(data).some(([column, value]) => target[column as keyof Match] !== value);
+    if (!changed) continue;
+    if (target.resultType) {
+      return { error: `Match ${target.matchNumber} in round ${target.round} already has a result. Clear it first.` };
+    }
+    updates.push({ id: target.id, data });
+  }
+
+  return { updates };
+}
+
+// Bring a sport's leaderboard placings in line with its results, auditing the entries rewritten
+export async function syncResults(req: AuthRequest, sportId: string) {
+  const changes = await syncLeaderboardFromResults(sportId);
+  for (const change of changes) {
+    await recordAudit(req, change.before ? "update" : "create", "leaderboardEntry", change.id, change.before, change.after);
+  }
+  if (changes.length > 0) {
+    publishEvent("leaderboard", { sportId });
+  }
+}
+
+const entrantLabels: Record<EntrantType, string> = {
+  community: "communities",
+  team: "teams",
+  participant: "participants",
+};
+
+// List matches (public - used by the calendar and draw views)
+router.get("/", async (req: AuthRequest, res: Response) => {
+  try {
+    const { sportId } = req.query;
+
+    const where: any = {};
+    if (sportId) {
+      where.sportId = sportId as string;
+    }
+
+    const matches = await prisma.match.findMany({
+      where,
+      include: matchInclude,
+      orderBy: matchOrderBy,
+    });
+
+    res.json(matches);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to list matches" });
+  }
+});
+
+// Get match by ID
+router.get("/:id", async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const match = await prisma.match.findUnique({
+      where: { id },
+      include: matchInclude,
+    });
+
+    if (!match) {
+      return res.status(404).json({ error: "Match not found" });
+    }
+
+    res.json(match);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to get match" });
+  }
+});
+
+// Generate a draw for a sport from its accepted entrants
+router.post("/generate", authenticate, requireRole("admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const data = generateDrawSchema.parse(req.body);
+
+    // Sports admins can only generate draws for their own sport
+    if (req.user!.role === "sports_admin" && req.user!.sportId !== data.sportId) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const sport = await prisma.sport.findUnique({
+      where: { id: data.sportId },
+    });
+
+    if (!sport) {
+      return res.status(404).json({ error: "Sport not found" });
+    }
+
+    const existingCount = await prisma.match.count({
+      where: { sportId: data.sportId },
+    });
+
+    if (existingCount > 0 && !data.replace) {
+      return res.status(409).json({
+        error: "A draw already exists for this sport",
+        message: "Set replace to true to discard the existing draw and generate a new one.",
+      });
+    }
+
+    // Team sports draw registered teams when there are any, otherwise whole communities
+    let entrantType: EntrantType = data.entrantType ?? "participant";
+    if (!data.entrantType && sport.type === "team") {
+      const teamCount = await prisma.team.count({
+        where: { sportId: data.sportId },
+      });
+      entrantType = teamCount > 0 ? "team" : "community";
+    }
+    const entrants = await loadDrawEntrants(data.sportId, entrantType, data.shuffle ?? true);
+
+    if (entrants.length < 2) {
+      return res.status(400).json({
+        error: `At least two ${entrantType === "team" ? "" : "accepted "}${entrantLabels[entrantType]} are required to generate a draw`,
+      });
+    }
+
+    const planned = planDraw(data.format as DrawFormat, entrants, { groupCount: data.groupCount });
+
+    // Assign ids up front so progression links can be written in the same transaction
+    const ids = new Map(planned.map((match) => [match.key, randomUUID()]));
+
+    await prisma.$transaction([
+      prisma.match.deleteMany({
+        where: { sportId: data.sportId },
+      }),
+      prisma.match.createMany({
+        data: planned.map((match) => ({
+          id: ids.get(match.key)!,
+          sportId: data.sportId,
+          format: data.format as DrawFormat,
+          bracket: match.bracket,
+          group: match.group,
+          round: match.round,
+          matchNumber: match.matchNumber,
+          venue: sport.venue,
+          ...entrantColumns(match.home, "home", entrantType),
+          ...entrantColumns(match.away, "away", entrantType),
+        })),
+      }),
+      ...planned
+        .filter((match) => match.next || match.loser)
+        .map((match) =>
+          prisma.match.update({
+            where: { id: ids.get(match.key)! },
+            data: {
+              nextMatchId: match.next ? ids.get(match.next.key)! : null,
+              nextMatchSlot: match.next?.slot ?? null,
+              loserMatchId: match.loser ? ids.get(match.loser.key)! : null,
+              loserMatchSlot: match.loser?.slot ?? null,
+            },
+          })
+        ),
+    ]);
+
+    const matches = await prisma.match.findMany({
+      where: { sportId: data.sportId },
+      include: matchInclude,
+      orderBy: matchOrderBy,
+    });
+
+    // A draw is audited as a whole rather than one event per generated match
+    await recordAudit(
+      req,
+      existingCount > 0 ? "update" : "create",
+      "draw",
+      data.sportId,
+      existingCount > 0 ? { matchCount: existingCount } : null,
+      { format: data.format, entrantType, entrantCount: entrants.length, matchCount: matches.length }
+    );
+    publishEvent("results", { sportId: data.sportId });
+    // Placings from the discarded draw's results no longer stand
+    if (existingCount > 0) {
+      await syncResults(req, data.sportId);
+    }
+
+    res.status(201).json(matches);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to generate draw" });
+  }
+});
+
+// Update match (schedule, venue, status or entrants)
+router.patch("/:id", authenticate, requireRole("admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = updateMatchSchema.parse(req.body);
+
+    const existing = await prisma.match.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: "Match not found" });
+    }
+
+    if (req.user!.role === "sports_admin" && req.user!.sportId !== existing.sportId) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    // Entrants are fixed once a result has been recorded, as the winner may have moved on
+    const entrantFields = [
+      "homeCommunityId",
+      "awayCommunityId",
+      "homeParticipantId",
+      "awayParticipantId",
+      "homeTeamId",
+      "awayTeamId",
+    ] as const;
+    if (entrantFields.some((field) => data[field] !== undefined)) {
+      if (existing.resultType) {
+        return res.status(409).json({ error: "Clear the result before changing the entrants" });
+      }
+
+      const ids = (fields: typeof entrantFields[number][]) =>
+        fields.map((field) => data[field]).filter((value): value is string => !!value);
+      const outside = await findEntrantOutsideSport(existing.sportId, {
+        communityIds: ids(["homeCommunityId", "awayCommunityId"]),
+        participantIds: ids(["homeParticipantId", "awayParticipantId"]),
+        teamIds: ids(["homeTeamId", "awayTeamId"]),
+      });
+      if (outside) {
+        return res.status(400).json({ error: outside });
+      }
+    }
+
+    const updateData: any = { ...data };
+    if (data.scheduledAt !== undefined) {
+      if (data.scheduledAt === null || data.scheduledAt === "") {
+        updateData.scheduledAt = null;
+      } else {
+        const scheduledAt = typeof data.scheduledAt === "string" ? new Date(data.scheduledAt) : data.scheduledAt;
+        if (isNaN(scheduledAt.getTime())) {
+          return res.status(400).json({ error: "Invalid date format" });
+        }
+        updateData.scheduledAt = scheduledAt;
+      }
+    }
+    if (data.status !== undefined) {
+      updateData.status = data.status as MatchStatus;
+    }
+
+    const match = await prisma.match.update({
+      where: { id },
+      data: updateData,
+      include: matchInclude,
+    });
+
+    await recordAudit(req, "update", "match", id, existing, matchSnapshot(match));
+    publishEvent("results", { sportId: existing.sportId });
+
+    res.json(match);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Match not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to update match" });
+  }
+});
+
+// Record a match result and move the winner (and loser, in double elimination) on through the draw
+router.put("/:id/result", authenticate, requireRole("admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = matchResultSchema.parse(req.body);
+
+    const existing = await prisma.match.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: "Match not found" });
+    }
+
+    if (req.user!.role === "sports_admin" && req.user!.sportId !== existing.sportId) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    if (!sideEntrant(existing, "home") || !sideEntrant(existing, "away")) {
+      return res.status(400).json({ error: "Both sides must be known before a result can be entered" });
+    }
+
+    const settled = settleResult(data, existing.bracket === "group");
+    if ("error" in settled) {
+      return res.status(400).json({ error: settled.error });
+    }
+    const { result } = settled;
+
+    if (data.mvpParticipantId) {
+      const mvp = await prisma.participant.findUnique({
+        where: { id: data.mvpParticipantId },
+      });
+      if (!mvp) {
+        return res.status(404).json({ error: "MVP participant not found" });
+      }
+      // Individual matches name the two players; otherwise the MVP must be entered in the
+      // sport, on one of the two teams or from one of the two communities
+      let onSide: boolean;
+      if (existing.homeParticipantId) {
+        onSide = mvp.id === existing.homeParticipantId || mvp.id === existing.awayParticipantId;
+      } else {
+        const entry = await prisma.participantSport.findFirst({
+          where: { participantId: mvp.id, sportId: existing.sportId, status: "registered" },
+          select: { teamId: true },
+        });
+        onSide = existing.homeTeamId
+          ? !!entry?.teamId && (entry.teamId === existing.homeTeamId || entry.teamId === existing.awayTeamId)
+          : !!entry && (mvp.communityId === existing.homeCommunityId || mvp.communityId === existing.awayCommunityId);
+      }
+      if (!onSide) {
+        return res.status(400).json({ error: "The MVP must come from one of the two sides" });
+      }
+    }
+
+    const progression = await planProgression(existing, result.winnerSlot);
+    if ("error" in progression) {
+      return res.status(409).json({ error: progression.error });
+    }
+
+    const [match] = await prisma.$transaction([
+      prisma.match.update({
+        where: { id },
+        data: {
+          resultType: result.resultType,
+          homeScore: result.homeScore,
+          awayScore: result.awayScore,
+          sets: result.sets ?? Prisma.DbNull,
+          winnerSlot: result.winnerSlot,
+          mvpParticipantId: data.mvpParticipantId || null,
+          resultNotes: data.resultNotes || null,
+          homeFairPlay: data.homeFairPlay ?? null,
+          awayFairPlay: data.awayFairPlay ?? null,
+          status: "completed",
+        },
+        include: matchInclude,
+      }),
+      ...progression.updates.map((update) =>
+        prisma.match.update({
+          where: { id: update.id },
+          data: update.data,
+        })
+      ),
+    ]);
+
+    await recordAudit(req, "update", "match", id, existing, matchSnapshot(match));
+    publishEvent("results", { sportId: existing.sportId });
+    await syncResults(req, existing.sportId);
+
+    res.json(match);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Match not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to record match result" });
+  }
+});
+
+// Clear a match result, taking its winner and loser back out of the matches they moved on to
+router.delete("/:id/result", authenticate, requireRole("admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.match.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: "Match not found" });
+    }
+
+    if (req.user!.role === "sports_admin" && req.user!.sportId !== existing.sportId) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const progression = await planProgression(existing, null);
+    if ("error" in progression) {
+      return res.status(409).json({ error: progression.error });
+    }
+
+    const [match] = await prisma.$transaction([
+      prisma.match.update({
+        where: { id },
+        data: {
+          resultType: null,
+          homeScore: null,
+          awayScore: null,
+          sets: Prisma.DbNull,
+          winnerSlot: null,
+          mvpParticipantId: null,
+          resultNotes: null,
+          homeFairPlay: null,
+          awayFairPlay: null,
+          status: "scheduled",
+        },
+        include: matchInclude,
+      }),
+      ...progression.updates.map((update) =>
+        prisma.match.update({
+          where: { id: update.id },
+          data: update.data,
+        })
+      ),
+    ]);
+
+    await recordAudit(req, "update", "match", id, existing, matchSnapshot(match));
+    publishEvent("results", { sportId: existing.sportId });
+    await syncResults(req, existing.sportId);
+
+    res.json(match);
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Match not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to clear match result" });
+  }
+});
+
+// Delete the whole draw for a sport
+router.delete("/sport/:sportId", authenticate, requireRole("admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { sportId } = req.params;
+
+    if (req.user!.role === "sports_admin" && req.user!.sportId !== sportId) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const result = await prisma.match.deleteMany({
+      where: { sportId },
+    });
+
+    if (result.count > 0) {
+      await recordAudit(req, "delete", "draw", sportId, { matchCount: result.count }, null);
+      publishEvent("results", { sportId });
+      await syncResults(req, sportId);
+    }
+
+    res.json({ success: true, deleted: result.count });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to delete draw" });
+  }
+});
+
+export default router;
@@ -6,10 +6,24 @@ import path from "path";
 import fs from "fs";
 import { prisma } from "../index";
 import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
-import { ParticipantStatus, Gender, Role, Prisma } from "@prisma/client";
+import { ParticipantImport, ParticipantStatus, Gender, Role, Prisma } from "@prisma/client";
 import { hashPassword } from "../utils/password";
-import { sendEmail } from "../utils/email";
-import { sendExport } from "../utils/export";
+import { ExportFormat, sendExport } from "../utils/export";
+import { renderBadgeSheetPdf, signCredential } from "../utils/credentials";
+import { EligibilityParticipant, EligibilitySport, findIneligibleSports, formatIneligibilityError } from "../utils/eligibility";
+import {
+  emptyImportRow,
+  IMPORT_FIELDS,
+  ImportContext,
+  ImportField,
+  ImportRow,
+  ImportRowResult,
+  validateImportRows,
+} from "../utils/participant-import";
+import { recordAudit } from "./audit";
+import { sendVerificationEmail } from "./auth";
+import { enqueueEmail } from "./email";
+import { renderEmail } from "./email-templates";
 
 const router = Router();
 
@@ -108,14 +122,18 @@ router.get("/", authenticate, requireRole("admin", "community_admin", "sports_ad
             sport: true,
           },
         },
+        user: {
+          select: { emailVerifiedAt: true },
+        },
       },
       orderBy: { createdAt: "desc" },
     });
     
-    // Include pendingSports in the response
-    const participantsWithPending = participants.map((p: any) => ({
+    // Include pendingSports, waitlist positions and whether the email was verified in the response
+    const participantsWithPending = (await withWaitlistPositions(participants)).map(({ user, ...p }: any) => ({
       ...p,
       pendingSports: p.pendingSports,
+      emailVerified: Boolean(user?.emailVerifiedAt),
     }));
     
     // Debug logging for community admins
@@ -155,15 +173,249 @@ router.get("/me", authenticate, async (req: AuthRequest, res: Response) => {
       },
     });
 
-    res.json(participant);
+    res.json(participant ? (await withWaitlistPositions([participant]))[0] : participant);
   } catch (error: any) {
     res.status(500).json({ error: error.message || "Failed to get participant" });
   }
 });
 
+// Date ages are calculated on (Settings.ageCalculatorDate, falling back to today)
+async function getAgeReferenceDate(): Promise<Date> {
+  const settings = await prisma.settings.findFirst();
+  return settings?.ageCalculatorDate ?? new Date();
+}
+
+const eligibilitySportSelect = {
+  id: true,
+  name: true,
+  gender: true,
+  ageLimitMin: true,
+  ageLimitMax: true,
+  parent: {
+    select: {
+      gender: true,
+      ageLimitMin: true,
+      ageLimitMax: true,
+    },
+  },
+};
+
+// Check a participant's gender and date of birth against the selected sports
+async function checkSportsEligibility(sportIds: string[], participant: EligibilityParticipant) {
+  const sports: EligibilitySport[] = await prisma.sport.findMany({
+    where: { id: { in: sportIds } },
+    select: eligibilitySportSelect,
+  });
+  return findIneligibleSports(sports, participant, await getAgeReferenceDate());
+}
+
+// Audit snapshot of a participant: its own fields plus the sports it is entered in
+function participantSnapshot({ community, sports, ...fields }: any) {
+  return {
+    ...fields,
+    sports: (sports ?? []).map((entry: any) =>
+      entry.status === "waitlisted" ? `${entry.sportId} (waitlisted)` : entry.sportId
+    ),
+  };
+}
+
+interface CapacitySport {
+  id: string;
+  maxPerCommunity: number | null;
+  maxTotal: number | null;
+  maxTeamSize: number | null;
+}
+
+// Count places taken in a sport by accepted participants, optionally within one community
+function countSportPlaces(db: Prisma.TransactionClient, sportId: string, options: { communityId?: string; excludeParticipantId?: string } = {}) {
+  return db.participantSport.count({
+    where: {
+      sportId,
+      status: "registered",
+      participantId: options.excludeParticipantId ? { not: options.excludeParticipantId } : undefined,
+      participant: {
+        status: "accepted",
+        communityId: options.communityId,
+      },
+    },
+  });
+}
+
+// Whether a sport has room for another participant from a community
+async function hasSportCapacity(db: Prisma.TransactionClient, sport: CapacitySport, communityId: string, participantId: string) {
+  if (sport.maxTotal !== null) {
+    const total = await countSportPlaces(db, sport.id, { excludeParticipantId: participantId });
+    if (total >= sport.maxTotal) {
+      return false;
+    }
+  }
+
+  // A community's entry is capped by both its quota and the maximum team size
+  const limits = [sport.maxPerCommunity, sport.maxTeamSize].filter((limit): limit is number => limit !== null);
+  if (limits.length > 0) {
+    const communityTotal = await countSportPlaces(db, sport.id, { communityId, excludeParticipantId: participantId });
+    if (communityTotal >= Math.min(...limits)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Give an accepted participant a place in each of their sports, waitlisting any sport that
+ * is full. Runs in its own transaction unless one is passed in.
+ */
+async function allocateSportPlaces(participantId: string, tx?: Prisma.TransactionClient): Promise<string[]> {
+  if (!tx) {
+    return prisma.$transaction((client) => allocateSportPlaces(participantId, client));
+  }
+
+  const participant = await tx.participant.findUniqueOrThrow({
+    where: { id: participantId },
+    include: {
+      sports: {
+        include: {
+          sport: true,
+        },
+      },
+    },
+  });
+
+  const waitlisted: string[] = [];
+  for (const entry of participant.sports) {
+    if (await hasSportCapacity(tx, entry.sport, participant.communityId, participant.id)) {
+      if (entry.status !== "registered") {
+        await tx.participantSport.update({
+          where: { id: entry.id },
+          data: { status: "registered", waitlistedAt: null },
+        });
+      }
+    } else {
+      waitlisted.push(entry.sport.name);
+      if (entry.status !== "waitlisted") {
+        await tx.participantSport.update({
+          where: { id: entry.id },
+          data: { status: "waitlisted", waitlistedAt: new Date(), teamId: null },
+        });
+      }
+    }
+  }
+
+  return waitlisted;
+}
+
+// Clear waitlist state and team places for a participant who is no longer accepted
+async function releaseSportPlaces(participantId: string) {
+  await prisma.participantSport.updateMany({
+    where: { participantId, status: "waitlisted" },
+    data: { status: "registered", waitlistedAt: null },
+  });
+  await prisma.participantSport.updateMany({
+    where: { participantId, teamId: { not: null } },
+    data: { teamId: null },
+  });
+}
+
+/**
+ * Promote waitlisted participants into places freed up in a sport, oldest first.
+ * Called whenever a place may have opened (rejection, deletion, sports changes or
+ * a capacity increase).
+ */
+export async function promoteWaitlist(sportId: string) {
+  const sport = await prisma.sport.findUnique({
+    where: { id: sportId },
+  });
+
+  if (!sport) {
+    return 0;
+  }
+
+  const promoted = await prisma.$transaction(async (tx) => {
+    const waiting = await tx.participantSport.findMany({
+      where: {
+        sportId,
+        status: "waitlisted",
+        participant: { status: "accepted" },
+      },
+      include: {
+        participant: true,
+      },
+      orderBy: { waitlistedAt: "asc" },
+    });
+
+    const promotedParticipants: typeof waiting[number]["participant"][] = [];
+    for (const entry of waiting) {
+      if (await hasSportCapacity(tx, sport, entry.participant.communityId, entry.participantId)) {
+        await tx.participantSport.update({
+          where: { id: entry.id },
+          data: { status: "registered", waitlistedAt: null },
+        });
+        promotedParticipants.push(entry.participant);
+      }
+    }
+    return promotedParticipants;
+  });
+
+  for (const participant of promoted) {
+    await notifyWaitlistPromotion(participant, sport.name);
+  }
+
+  return promoted.length;
+}
+
+async function notifyWaitlistPromotion(participant: { firstName: string; lastName: string; email: string }, sportName: string) {
+  try {
+    const from = process.env.REGISTRATION_EMAIL || process.env.SMTP_USER || "registration@fof.co.ke";
+    const message = await renderEmail(prisma, "waitlist_promoted", {
+      name: `${participant.firstName} ${participant.lastName}`,
+      sport: sportName,
+    });
+    await enqueueEmail(prisma, { to: participant.email, from, ...message });
+  } catch (emailError: any) {
+    console.error("Failed to queue waitlist promotion email:", emailError);
+  }
+}
+
+// Add each waitlisted entry's position in its sport's waitlist
+async function withWaitlistPositions<T extends { sports: Array<{ id: string; sportId: string; status: string }> }>(participants: T[]) {
+  const sportIds = Array.from(
+    new Set(participants.flatMap((p) => p.sports.filter((ps) => ps.status === "waitlisted").map((ps) => ps.sportId)))
+  );
+
+  if (sportIds.length === 0) {
+    return participants;
+  }
+
+  const waiting = await prisma.participantSport.findMany({
+    where: {
+      sportId: { in: sportIds },
+      status: "waitlisted",
+      participant: { status: "accepted" },
+    },
+    select: { id: true, sportId: true },
+    orderBy: { waitlistedAt: "asc" },
+  });
+
+  const positions = new Map<string, number>();
+  const counters = new Map<string, number>();
+  for (const entry of waiting) {
+    const position = (counters.get(entry.sportId) ?? 0) + 1;
+    counters.set(entry.sportId, position);
+    positions.set(entry.id, position);
+  }
+
+  return participants.map((p) => ({
+    ...p,
+    sports: p.sports.map((ps) => ({
+      ...ps,
+      waitlistPosition: positions.get(ps.id) ?? null,
+    })),
+  }));
+}
+
 // Create participant
 router.post("/", async (req: AuthRequest, res: Response) => {
-  let createdUserId: string | null = null;
   try {
     const data = createParticipantSchema.parse(req.body);
 
@@ -177,6 +429,9 @@ router.post("/", async (req: AuthRequest, res: Response) => {
 
     // Parse date
     const dob = typeof data.dob === "string" ? new Date(data.dob) : data.dob;
+    if (isNaN(dob.getTime())) {
+      return res.status(400).json({ error: "Invalid date format" });
+    }
 
     // Normalize sports array - extract sportIds for validation
     const sportIds = data.sports.map((s: any) => typeof s === "string" ? s : s.sportId);
@@ -210,75 +465,88 @@ router.post("/", async (req: AuthRequest, res: Response) => {
       }
     }
 
+    // Check gender restrictions and age limits on the configured age calculator date
+    const ineligibleSports = await checkSportsEligibility(sportIds, { dob, gender: data.gender as Gender });
+    if (ineligibleSports.length > 0) {
+      return res.status(400).json({
+        error: formatIneligibilityError(ineligibleSports),
+        ineligibleSports,
+      });
+    }
+
     // Hash password
     const hashedPassword = await hashPassword(data.password);
 
-    // Create user account first
-    const user = await prisma.user.create({
-      data: {
-        username: data.username,
-        email: data.email,
-        password: hashedPassword,
-        role: Role.user,
-      },
-    });
+    // The account, the participant and the queued confirmation email are created together
+    const participant = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.create({
+        data: {
+          username: data.username,
+          email: data.email,
+          password: hashedPassword,
+          role: Role.user,
+        },
+      });
 
-    createdUserId = user.id;
-
-    const participantData: Prisma.ParticipantUncheckedCreateInput = {
-      firstName: data.firstName,
-      middleName: data.middleName,
-      lastName: data.lastName,
-      gender: data.gender as Gender,
-      dob,
-      email: data.email,
-      phone: data.phone,
-      communityId: data.communityId,
-      nextOfKin: data.nextOfKin as any,
-      teamName: data.teamName ?? null,
-      userId: user.id,
-      sports: {
-        create: data.sports.map((s: any) => {
-          if (typeof s === "string") {
-            return { sportId: s };
-          }
-          return {
-            sportId: s.sportId,
-            notes: s.notes && s.notes.trim().length > 0 ? s.notes.trim() : null,
-          };
-        }),
-      },
-    };
+      const participantData: Prisma.ParticipantUncheckedCreateInput = {
+        firstName: data.firstName,
+        middleName: data.middleName,
+        lastName: data.lastName,
+        gender: data.gender as Gender,
+        dob,
+        email: data.email,
+        phone: data.phone,
+        communityId: data.communityId,
+        nextOfKin: data.nextOfKin as any,
+        teamName: data.teamName ?? null,
+        userId: user.id,
+        sports: {
+          create: data.sports.map((s: any) => {
+            if (typeof s === "string") {
+              return { sportId: s };
+            }
+            return {
+              sportId: s.sportId,
+              notes: s.notes && s.notes.trim().length > 0 ? s.notes.trim() : null,
+            };
+          }),
+        },
+      };
 
-    if (data.notes !== undefined) {
-      (participantData as any).notes =
-        data.notes && data.notes.trim().length > 0 ? data.notes.trim() : null;
-    }
+      if (data.notes !== undefined) {
+        (participantData as any).notes =
+          data.notes && data.notes.trim().length > 0 ? data.notes.trim() : null;
+      }
 
-    const participant = await prisma.participant.create({
-      data: participantData,
-      include: {
-        community: true,
-        sports: {
-          include: {
-            sport: true,
+      const participant = await tx.participant.create({
+        data: participantData,
+        include: {
+          community: true,
+          sports: {
+            include: {
+              sport: true,
+            },
           },
         },
-      },
+      });
+
+      await sendVerificationEmail(
+        tx,
+        { id: user.id, email: data.email, name: `${data.firstName} ${data.lastName}` },
+        "participant_registration",
+        {
+          community: participant.community?.name || "your community",
+          sports: participant.sports.map((ps) => ps.sport.name).join(", "),
+        }
+      );
+
+      return participant;
     });
 
+    await recordAudit(req, "create", "participant", participant.id, null, participantSnapshot(participant));
+
     res.status(201).json(participant);
   } catch (error: any) {
-    if (createdUserId) {
-      try {
-        await prisma.user.delete({
-          where: { id: createdUserId },
-        });
-      } catch {
-        // Ignore cleanup errors
-      }
-    }
-
     if (error.name === "ZodError") {
       return res.status(400).json({ error: "Invalid input", details: error.errors });
     }
@@ -326,34 +594,39 @@ router.patch("/:id/status", authenticate, requireRole("admin", "community_admin"
       }
     }
 
+    const wasAccepted = participant.status === "accepted";
+    const previousSportIds: string[] = participant.sports.map((ps: any) => ps.sportId);
+
     // If accepting and there are pending sports, apply them
     let updateData: any = { status: status as ParticipantStatus };
     
     if (status === "accepted" && participant.pendingSports) {
       const pendingSports = participant.pendingSports as any[];
       
-      // Delete existing sports
+      // Normalise pendingSports (handle both string IDs and objects)
+      const entries = pendingSports.map((s: any) =>
+        typeof s === "string"
+          ? { sportId: s as string, notes: null }
+          : { sportId: s.sportId as string, notes: s.notes && s.notes.trim().length > 0 ? s.notes.trim() : null }
+      );
+      const pendingSportIds = entries.map((entry) => entry.sportId);
+
+      // Remove dropped sports but keep existing entries (and their team places) for the rest
       await prisma.participantSport.deleteMany({
-        where: { participantId: participant.id },
+        where: { participantId: participant.id, sportId: { notIn: pendingSportIds } },
       });
 
-      // Create new sports from pendingSports (handle both string IDs and objects)
-      if (pendingSports.length > 0) {
-        await prisma.participantSport.createMany({
-          data: pendingSports.map((s: any) => {
-            if (typeof s === "string") {
-              return {
-                participantId: participant.id,
-                sportId: s,
-              };
-            }
-            return {
-              participantId: participant.id,
-              sportId: s.sportId,
-              notes: s.notes && s.notes.trim().length > 0 ? s.notes.trim() : null,
-            };
-          }),
-        });
+      for (const entry of entries) {
+        if (previousSportIds.includes(entry.sportId)) {
+          await prisma.participantSport.update({
+            where: { participantId_sportId: { participantId: participant.id, sportId: entry.sportId } },
+            data: { notes: entry.notes },
+          });
+        } else {
+          await prisma.participantSport.create({
+            data: { participantId: participant.id, ...entry },
+          });
+        }
       }
 
       // Clear pendingSports
@@ -363,9 +636,28 @@ router.patch("/:id/status", authenticate, requireRole("admin", "community_admin"
       updateData.pendingSports = null;
     }
 
-    const updated = await prisma.participant.update({
+    await prisma.participant.update({
       where: { id },
       data: updateData,
+    });
+
+    // Take up places on acceptance (waitlisting full sports); otherwise release any waitlist spots
+    let waitlistedSports: string[] = [];
+    if (status === "accepted") {
+      waitlistedSports = await allocateSportPlaces(participant.id);
+    } else {
+      await releaseSportPlaces(participant.id);
+    }
+
+    // Places may have opened up in sports the participant held before this change
+    if (wasAccepted) {
+      for (const sportId of previousSportIds) {
+        await promoteWaitlist(sportId);
+      }
+    }
+
+    const updated = await prisma.participant.findUniqueOrThrow({
+      where: { id },
       include: {
         community: true,
         sports: {
@@ -376,74 +668,40 @@ router.patch("/:id/status", authenticate, requireRole("admin", "community_admin"
       },
     });
 
-    // Send email notification based on status change
+    await recordAudit(req, "update", "participant", id, participantSnapshot(participant), participantSnapshot(updated));
+
+    // Queue an email notification based on status change
     if (status === "accepted" || status === "rejected") {
       try {
         const participantName = `${updated.firstName} ${updated.middleName || ""} ${updated.lastName}`.trim();
         const communityName = updated.community?.name || "your community";
-        const sportNames = updated.sports.map((ps: any) => ps.sport.name).join(", ");
-        
-        let emailSubject = "";
-        let emailBody = "";
+        const sportNames = updated.sports
+          .filter((ps) => ps.status === "registered")
+          .map((ps) => ps.sport.name)
+          .join(", ");
+        const waitlistNotice = waitlistedSports.length > 0
+          ? `\n\nThe following sports are currently full, so you have been placed on the waitlist. We will email you if a place opens up:\n${waitlistedSports.join(", ")}`
+          : "";
         
-        if (status === "accepted") {
-          emailSubject = "FOF 2026 - Registration Accepted!";
-          emailBody = `
-Dear ${participantName},
-
-Congratulations! Your registration for the Festival of Friendship (FOF) 2026 has been accepted!
-
-You have been accepted into ${communityName} for the following sports:
-${sportNames}
-
-You can now log in to your account and access your dashboard to view your registration details and upcoming events.
-
-If you have any questions, please don't hesitate to contact us.
-
-Best regards,
-FOF 2026 Team
-          `.trim();
-        } else if (status === "rejected") {
-          emailSubject = "FOF 2026 - Registration Update";
-          emailBody = `
-Dear ${participantName},
-
-Thank you for your interest in the Festival of Friendship (FOF) 2026.
-
-Unfortunately, we are unable to accept your registration at this time. If you have any questions or would like to discuss this further, please contact us.
-
-We appreciate your understanding.
-
-Best regards,
-FOF 2026 Team
-          `.trim();
-        }
+        const message = await renderEmail(
+          prisma,
+          status === "accepted" ? "participant_accepted" : "participant_rejected",
+          { name: participantName, community: communityName, sports: sportNames || "-", waitlistNotice }
+        );
 
-        // Send the email
-        await sendEmail({
+        // The outbox worker delivers it and retries if the mail server is unavailable
+        await enqueueEmail(prisma, {
           to: updated.email,
-          subject: emailSubject,
-          body: emailBody,
           from: process.env.REGISTRATION_EMAIL || process.env.SMTP_USER || "registration@fof.co.ke",
-        });
-
-        // Store in database for record keeping
-        await prisma.email.create({
-          data: {
-            to: updated.email,
-            from: process.env.REGISTRATION_EMAIL || process.env.SMTP_USER || "registration@fof.co.ke",
-            subject: emailSubject,
-            body: emailBody,
-          },
+          ...message,
         });
       } catch (emailError: any) {
-        // Log email error but don't fail the status update
-        console.error("Failed to send status notification email:", emailError);
-        // Continue with the response even if email fails
+        // Log the error but don't fail the status update
+        console.error("Failed to queue status notification email:", emailError);
       }
     }
 
-    res.json(updated);
+    res.json((await withWaitlistPositions([updated]))[0]);
   } catch (error: any) {
     res.status(500).json({ error: error.message || "Failed to update status" });
   }
@@ -497,6 +755,9 @@ router.patch("/me", authenticate, async (req: AuthRequest, res: Response) => {
 
     const participant = await prisma.participant.findUnique({
       where: { userId: req.user!.id },
+      include: {
+        sports: true,
+      },
     });
 
     if (!participant) {
@@ -527,6 +788,8 @@ router.patch("/me", authenticate, async (req: AuthRequest, res: Response) => {
       },
     });
 
+    await recordAudit(req, "update", "participant", participant.id, participantSnapshot(participant), participantSnapshot(updated));
+
     res.json(updated);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -589,6 +852,15 @@ router.patch("/me/sports", authenticate, async (req: AuthRequest, res: Response)
       return res.json(updated);
     }
 
+    // Check gender restrictions and age limits for the new selection
+    const ineligibleSports = await checkSportsEligibility(sportIds, participant);
+    if (ineligibleSports.length > 0) {
+      return res.status(400).json({
+        error: formatIneligibilityError(ineligibleSports),
+        ineligibleSports,
+      });
+    }
+
     // If participant was previously accepted, set status to pending and store new sports in pendingSports
     // If already pending, just update pendingSports with the latest selection
     const updateData: any = {
@@ -605,6 +877,14 @@ router.patch("/me/sports", authenticate, async (req: AuthRequest, res: Response)
       data: updateData,
     });
 
+    // Going back to pending frees the participant's places for anyone waitlisted
+    if (participant.status === "accepted") {
+      await releaseSportPlaces(participant.id);
+      for (const ps of participant.sports) {
+        await promoteWaitlist(ps.sportId);
+      }
+    }
+
     const updated = await prisma.participant.findUnique({
       where: { id: participant.id },
       include: {
@@ -617,6 +897,8 @@ router.patch("/me/sports", authenticate, async (req: AuthRequest, res: Response)
       },
     });
 
+    await recordAudit(req, "update", "participant", participant.id, participantSnapshot(participant), participantSnapshot(updated));
+
     res.json(updated);
   } catch (error: any) {
     res.status(500).json({ error: error.message || "Failed to update sports" });
@@ -660,29 +942,21 @@ router.delete("/:id", authenticate, requireRole("admin", "community_admin", "spo
       where: { id },
     });
 
+    await recordAudit(req, "delete", "participant", id, participantSnapshot(participant), null);
+
+    // Fill any places the participant held from the waitlist
+    if (participant.status === "accepted") {
+      for (const ps of participant.sports) {
+        await promoteWaitlist(ps.sportId);
+      }
+    }
+
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message || "Failed to delete participant" });
   }
 });
 
-// Helper function to generate username from email
-function generateUsernameFromEmail(email: string): string {
-  let prefix = email.split("@")[0].toLowerCase().replace(/[^a-z0-9]/g, "");
-  
-  // If prefix is too short or empty, generate a random one
-  if (prefix.length < 3) {
-    prefix = "user" + Math.random().toString(36).substring(2, 8);
-  }
-  
-  // Ensure it's not longer than 30 characters
-  if (prefix.length > 27) {
-    prefix = prefix.substring(0, 27);
-  }
-  
-  return prefix;
-}
-
 // Helper function to generate random password
 function generatePassword(): string {
   const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
@@ -693,50 +967,6 @@ function generatePassword(): string {
   return password;
 }
 
-// Helper function to parse date from various formats
-function parseDate(dateStr: string): Date | null {
-  if (!dateStr || typeof dateStr !== "string") return null;
-  
-  const trimmed = dateStr.trim();
-  
-  // Try ISO format (YYYY-MM-DD)
-  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
-    const date = new Date(trimmed);
-    if (!isNaN(date.getTime())) return date;
-  }
-  
-  // Try DD/MM/YYYY or MM/DD/YYYY
-  const slashParts = trimmed.split("/");
-  if (slashParts.length === 3) {
-    const [a, b, c] = slashParts.map(Number);
-    // Try DD/MM/YYYY first
-    if (a <= 31 && b <= 12) {
-      const date = new Date(c, b - 1, a);
-      if (!isNaN(date.getTime())) return date;
-    }
-    // Try MM/DD/YYYY
-    if (a <= 12 && b <= 31) {
-      const date = new Date(c, a - 1, b);
-      if (!isNaN(date.getTime())) return date;
-    }
-  }
-  
-  // Try Excel serial date (if it's a number)
-  const num = Number(trimmed);
-  if (!isNaN(num) && num > 0) {
-    // Excel epoch is 1900-01-01, but Excel incorrectly treats 1900 as a leap year
-    const excelEpoch = new Date(1899, 11, 30);
-    const date = new Date(excelEpoch.getTime() + num * 24 * 60 * 60 * 1000);
-    if (!isNaN(date.getTime())) return date;
-  }
-  
-  // Try general Date parsing
-  const date = new Date(trimmed);
-  if (!isNaN(date.getTime())) return date;
-  
-  return null;
-}
-
 // Helper function to normalize column names (case-insensitive)
 function normalizeColumnName(name: string): string {
   // Remove asterisks and extra whitespace, then normalize
@@ -787,478 +1017,427 @@ function normalizeColumnName(name: string): string {
   return mappings[normalized] || normalized;
 }
 
-// Bulk upload participants
-router.post(
-  "/bulk-upload",
-  authenticate,
-  requireRole("community_admin"),
-  bulkUpload.single("file"),
-  async (req: AuthRequest, res: Response) => {
-    if (!req.file) {
-      return res.status(400).json({ error: "No file provided" });
-    }
-
-    if (!req.user!.communityId) {
-      return res.status(403).json({ error: "Community admin must be associated with a community" });
-    }
-
-    const communityId = req.user!.communityId;
-    const filePath = req.file.path;
-    const fileExt = path.extname(req.file.originalname).toLowerCase();
-
-    let workbook: XLSX.WorkBook;
-    let rows: any[] = [];
-
-    try {
-      // Parse file based on extension
-      if (fileExt === ".csv") {
-        const fileContent = fs.readFileSync(filePath, "utf-8");
-        workbook = XLSX.read(fileContent, { type: "string" });
-      } else {
-        workbook = XLSX.readFile(filePath);
-      }
+// How long a checked upload can be imported before the file has to be uploaded again
+const IMPORT_TTL_MS = 24 * 60 * 60 * 1000;
+// A large sheet creates many accounts in one transaction
+const IMPORT_TRANSACTION_TIMEOUT_MS = 120_000;
+
+const importEditsSchema = z.object({
+  rows: z.array(
+    z.object({
+      row: z.number().int(),
+      data: z.record(z.string()),
+    })
+  ),
+});
 
-      // Get first sheet (skip "Instructions" sheet if it exists)
-      const dataSheetName = workbook.SheetNames.find(name => 
-        !name.toLowerCase().includes("instruction") && 
-        !name.toLowerCase().includes("readme")
+// Read the data rows of an uploaded sheet, skipping blank, header and instruction rows
+async function readUploadRows(file: Express.Multer.File): Promise<ImportRow[]> {
+  try {
+    const fileExt = path.extname(file.originalname).toLowerCase();
+    const workbook =
+      fileExt === ".csv" ? XLSX.read(fs.readFileSync(file.path, "utf-8"), { type: "string" }) : XLSX.readFile(file.path);
+
+    // Use the first sheet that is not the template's instructions
+    const dataSheetName =
+      workbook.SheetNames.find(
+        (name) => !name.toLowerCase().includes("instruction") && !name.toLowerCase().includes("readme")
       ) || workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[dataSheetName];
-      
-      // Convert to JSON, skipping empty rows
-      rows = XLSX.utils.sheet_to_json(worksheet, { 
-        raw: false,
-        defval: "", // Default value for empty cells
-        blankrows: false, // Skip blank rows
-      });
-
-      // Filter out rows that are completely empty or are clearly instruction rows
-      rows = rows.filter((row: any) => {
-        // Check if row has any meaningful data
-        const values = Object.values(row);
-        const keys = Object.keys(row);
-        
-        // Skip if this looks like a header row (all keys are field names)
-        const allKeysAreFieldNames = keys.every(key => {
-          const normalized = normalizeColumnName(key);
-          return normalized === "firstname" || normalized === "email" || normalized === "lastname";
-        });
-        if (allKeysAreFieldNames && values.every(v => !v || String(v).trim() === "")) {
-          return false; // Skip header row
-        }
-        
-        const hasData = values.some((val: any) => {
-          const str = String(val || "").trim().toLowerCase();
-          // Skip rows that look like instructions or headers
-          return str && 
-                 !str.startsWith("field description") &&
-                 !str.startsWith("required field") &&
-                 !str.startsWith("optional field") &&
-                 !str.startsWith("important note") &&
-                 !str.startsWith("bulk upload") &&
-                 !str.startsWith("instruction") &&
-                 !str.startsWith("not") &&
-                 str !== "";
-        });
-        return hasData;
-      });
-
-      if (rows.length === 0) {
-        return res.status(400).json({ error: "File is empty or contains no data" });
-      }
-    } catch (error: any) {
-      // Clean up file
-      fs.unlinkSync(filePath);
-      return res.status(400).json({ error: `Failed to parse file: ${error.message}` });
-    }
-
-    const results = {
-      successCount: 0,
-      skippedCount: 0,
-      errorCount: 0,
-      skipped: [] as Array<{ row: number; email: string; reason: string }>,
-      errors: [] as Array<{ row: number; email?: string; errors: string[] }>,
-    };
-
-    // Process each row
-    for (let i = 0; i < rows.length; i++) {
-      const row = rows[i];
-      const rowNumber = i + 2; // +2 because row 1 is header, and arrays are 0-indexed
-      
-      // Skip if this looks like a header row (check if first column value looks like a field name)
-      const firstValue = Object.values(row)[0];
-      const firstKey = Object.keys(row)[0];
-      const firstKeyNormalized = normalizeColumnName(firstKey || "");
-      
-      // Skip if first column is a field name and the value is also a field name or empty
-      if (firstKeyNormalized === "firstname" && 
-          (String(firstValue || "").toLowerCase().includes("firstname") || !firstValue)) {
-        continue; // Skip header row
-      }
-      
-      // Normalize column names
-      const normalizedRow: any = {};
-      for (const key in row) {
-        const normalizedKey = normalizeColumnName(key);
-        const value = row[key];
-        // Only add non-empty values or keep empty strings for validation
-        normalizedRow[normalizedKey] = value !== null && value !== undefined ? value : "";
-      }
-      
-      // Extract and check basic fields to skip instruction rows
-      const rowEmail = normalizedRow.email?.toString().trim() || "";
-      const rowFirstName = normalizedRow.firstName?.toString().trim() || "";
-      
-      // Skip rows that don't have at least email or firstName (likely instruction rows)
-      // Also skip if the row only contains field names (instruction text)
-      if (!rowEmail && !rowFirstName) {
-        continue; // Skip rows without basic participant data
-      }
-      
-      // Additional check: if the row values look like field descriptions, skip it
-      const allValues = Object.values(normalizedRow).map(v => String(v || "").toLowerCase().trim());
-      const looksLikeInstructions = allValues.some(v => 
-        v.includes("required") || 
-        v.includes("optional") || 
-        v.includes("field") ||
-        v.includes("description") ||
-        (v.length > 50 && !v.includes("@")) // Long text without email is likely instructions
-      );
-      if (looksLikeInstructions && !rowEmail) {
-        continue; // Skip instruction-like rows
-      }
-
-      // Validate required fields
-      const validationErrors: string[] = [];
-      const email = rowEmail;
-      const firstName = rowFirstName;
-      const lastName = normalizedRow.lastName?.toString().trim() || "";
-      const phone = normalizedRow.phone?.toString().trim() || "";
-      const dobStr = normalizedRow.dob?.toString().trim() || "";
-      const gender = normalizedRow.gender?.toString().trim().toLowerCase() || "";
-      const middleName = normalizedRow.middleName?.toString().trim() || undefined;
-      const username = normalizedRow.username?.toString().trim() || "";
-      const password = normalizedRow.password?.toString().trim() || "";
-      
-      // Extract next of kin fields
-      const nextOfKinFirstName = normalizedRow.nextOfKinFirstName?.toString().trim() || "";
-      const nextOfKinLastName = normalizedRow.nextOfKinLastName?.toString().trim() || "";
-      const nextOfKinMiddleName = normalizedRow.nextOfKinMiddleName?.toString().trim() || undefined;
-      const nextOfKinPhone = normalizedRow.nextOfKinPhone?.toString().trim() || "";
-      
-      // Extract payment details (maps to notes field)
-      const paymentDetails = normalizedRow.paymentDetails?.toString().trim() || "";
-      
-      // Extract sports (comma-separated list)
-      const sportsStr = normalizedRow.sports?.toString().trim() || "";
-      
-      // Extract community (optional - will use admin's community if not provided)
-      const communityName = normalizedRow.community?.toString().trim() || "";
-
-      // Validate required fields
-      if (!firstName) validationErrors.push("firstName is required");
-      if (!lastName) validationErrors.push("lastName is required");
-      if (!email) validationErrors.push("email is required");
-      if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
-        validationErrors.push("email must be a valid email address");
-      }
-      if (!phone) validationErrors.push("phone is required");
-      if (!dobStr) validationErrors.push("dob is required");
-      const dob = parseDate(dobStr);
-      if (!dobStr || !dob) {
-        validationErrors.push("dob must be a valid date (format: YYYY-MM-DD, DD/MM/YYYY, or MM/DD/YYYY)");
-      }
-      if (!gender) validationErrors.push("gender is required");
-      if (gender && !["male", "female"].includes(gender)) {
-        validationErrors.push("gender must be 'male' or 'female'");
-      }
-      
-      // Validate required next of kin fields
-      if (!nextOfKinFirstName) validationErrors.push("nextOfKinFirstName is required");
-      if (!nextOfKinLastName) validationErrors.push("nextOfKinLastName is required");
-      if (!nextOfKinPhone) validationErrors.push("nextOfKinPhone is required");
-      
-      // Validate required payment details
-      if (!paymentDetails) validationErrors.push("paymentDetails is required");
-      
-      // Validate required sports
-      if (!sportsStr) validationErrors.push("sports is required");
-
-      if (validationErrors.length > 0) {
-        results.errorCount++;
-        results.errors.push({
-          row: rowNumber,
-          email: email || undefined,
-          errors: validationErrors,
-        });
-        continue;
-      }
+    const sheetRows: Record<string, unknown>[] = XLSX.utils.sheet_to_json(workbook.Sheets[dataSheetName], {
+      raw: false,
+      defval: "", // Default value for empty cells
+      blankrows: false, // Skip blank rows
+    });
 
-      // Generate username if not provided
-      let finalUsername = username;
-      if (!finalUsername) {
-        finalUsername = generateUsernameFromEmail(email);
-        // Ensure uniqueness by appending suffix if needed
-        let counter = 1;
-        let uniqueUsername = finalUsername;
-        while (await prisma.user.findUnique({ where: { username: uniqueUsername } })) {
-          uniqueUsername = `${finalUsername}${counter}`;
-          counter++;
-        }
-        finalUsername = uniqueUsername;
-      } else {
-        // Validate username format
-        if (!/^[a-zA-Z0-9_.-]+$/.test(finalUsername) || finalUsername.length < 3 || finalUsername.length > 30) {
-          results.errorCount++;
-          results.errors.push({
-            row: rowNumber,
-            email,
-            errors: ["username must be 3-30 characters and contain only letters, numbers, underscores, hyphens, or dots"],
-          });
-          continue;
+    const rows: ImportRow[] = [];
+    for (let i = 0; i < sheetRows.length; i++) {
+      const sheetRow = sheetRows[i];
+      const data = emptyImportRow();
+      let password = "";
+      for (const key in sheetRow) {
+        const field = normalizeColumnName(key);
+        const value = String(sheetRow[key] ?? "").trim();
+        if (field === "password") {
+          password = value;
+        } else if ((IMPORT_FIELDS as readonly string[]).includes(field)) {
+          data[field as ImportField] = value;
         }
       }
 
-      // Check for duplicate username
-      const existingUsername = await prisma.user.findUnique({
-        where: { username: finalUsername },
-      });
-
-      if (existingUsername) {
-        results.skippedCount++;
-        results.skipped.push({
-          row: rowNumber,
-          email,
-          reason: "Username already exists",
-        });
+      // Rows without a name or email are blank or the template's notes
+      if (!data.email && !data.firstName) {
         continue;
       }
-
-      // Generate password if not provided
-      const finalPassword = password || generatePassword();
-
-      // Validate password
-      if (finalPassword.length < 6) {
-        results.errorCount++;
-        results.errors.push({
-          row: rowNumber,
-          email,
-          errors: ["password must be at least 6 characters"],
-        });
+      // So are rows that repeat the headers or describe the fields
+      const values = Object.values(data).map((value) => value.toLowerCase());
+      if (data.firstName.toLowerCase().includes("firstname")) {
         continue;
       }
-
-      // Parse sports (comma-separated list)
-      const sportNames = sportsStr.split(",").map((s: string) => s.trim()).filter((s: string) => s.length > 0);
-      if (sportNames.length === 0) {
-        results.errorCount++;
-        results.errors.push({
-          row: rowNumber,
-          email,
-          errors: ["At least one sport is required"],
-        });
+      const looksLikeInstructions = values.some(
+        (value) =>
+          value.includes("required") ||
+          value.includes("optional") ||
+          value.includes("field") ||
+          value.includes("description") ||
+          (value.length > 50 && !value.includes("@"))
+      );
+      if (looksLikeInstructions && !data.email) {
         continue;
       }
 
-      // Find sport IDs by name (case-insensitive)
-      // Load all sports with parent relationships
-      const allSports = await prisma.sport.findMany({
-        where: { active: true },
-        include: {
-          parent: true,
-        },
+      rows.push({
+        // Line in the sheet, counting the header row
+        row: typeof sheetRow.__rowNum__ === "number" ? sheetRow.__rowNum__ + 1 : i + 2,
+        data,
+        passwordHash: password.length >= 6 ? await hashPassword(password) : null,
+        passwordTooShort: password.length > 0 && password.length < 6,
       });
+    }
+    return rows;
+  } finally {
+    fs.promises.unlink(file.path).catch((error) => console.error("Failed to delete uploaded file:", error));
+  }
+}
 
-      // Match sports by name (case-insensitive)
-      // Support both "Child Name" and "Parent Name - Child Name" formats
-      const matchedSports: Array<typeof allSports[0]> = [];
-      const missingSports: string[] = [];
-
-      for (const sportNameInput of sportNames) {
-        let matched = false;
-        
-        // Check if format is "Parent Name - Child Name"
-        if (sportNameInput.includes(" - ")) {
-          const [parentName, childName] = sportNameInput.split(" - ").map((s: string) => s.trim());
-          
-          // Find parent sport
-          const parentSport = allSports.find(
-            (s) => !s.parentId && s.name.toLowerCase() === parentName.toLowerCase()
-          );
-          
-          if (parentSport) {
-            // Find child sport with this parent
-            const childSport = allSports.find(
-              (s) => s.parentId === parentSport.id && s.name.toLowerCase() === childName.toLowerCase()
-            );
-            
-            if (childSport) {
-              matchedSports.push(childSport);
-              matched = true;
-            }
-          }
-        }
-        
-        // If not matched yet, try direct name match (for sports without parents or just child name)
-        if (!matched) {
-          // First try exact match
-          let sport = allSports.find(
-            (s) => s.name.toLowerCase() === sportNameInput.toLowerCase()
-          );
-          
-          // If not found and it might be a child sport, check if there's a unique child with this name
-          if (!sport) {
-            const sportsWithSameName = allSports.filter(
-              (s) => s.name.toLowerCase() === sportNameInput.toLowerCase()
-            );
-            
-            // If only one sport with this name, use it
-            if (sportsWithSameName.length === 1) {
-              sport = sportsWithSameName[0];
-            } else if (sportsWithSameName.length > 1) {
-              // Multiple sports with same name - need parent specification
-              missingSports.push(`${sportNameInput} (multiple found - use "Parent Name - ${sportNameInput}" format)`);
-              continue;
-            }
-          }
-          
-          if (sport) {
-            // If it's a child sport, we should prefer the "Parent - Child" format, but allow direct match
-            matchedSports.push(sport);
-            matched = true;
-          }
-        }
-        
-        if (!matched) {
-          missingSports.push(sportNameInput);
-        }
-      }
-
-      if (missingSports.length > 0) {
-        results.errorCount++;
-        results.errors.push({
-          row: rowNumber,
-          email,
-          errors: [`Sports not found: ${missingSports.join(", ")}`],
-        });
-        continue;
-      }
-
-      // Check for incompatible sports
-      if (matchedSports.length > 1) {
-        const sportIds = matchedSports.map((s) => s.id);
-        let hasIncompatible = false;
-        let incompatibleError = "";
-
-        for (const sport of matchedSports) {
-          const incompatibleIds = await prisma.sportIncompatibility.findMany({
-            where: { sportId: sport.id },
-            select: { incompatibleSportId: true },
-          });
+// Everything rows are checked against: sports, communities, existing accounts and participants
+async function importContext(communityId: string): Promise<ImportContext> {
+  const [sports, incompatibilities, communities, users, participants, ageReferenceDate] = await Promise.all([
+    prisma.sport.findMany({
+      where: { active: true },
+      select: {
+        ...eligibilitySportSelect,
+        parentId: true,
+        parent: { select: { ...eligibilitySportSelect.parent.select, name: true } },
+      },
+    }),
+    prisma.sportIncompatibility.findMany({ select: { sportId: true, incompatibleSportId: true } }),
+    prisma.community.findMany({ select: { id: true, name: true } }),
+    prisma.user.findMany({ select: { username: true } }),
+    prisma.participant.findMany({ select: { email: true, firstName: true, lastName: true, dob: true } }),
+    getAgeReferenceDate(),
+  ]);
+
+  return {
+    sports,
+    incompatibilities,
+    communities,
+    communityId,
+    takenUsernames: new Set(users.map((user) => user.username)),
+    participants,
+    ageReferenceDate,
+  };
+}
 
-          const incompatibleSportIds = incompatibleIds.map((inc) => inc.incompatibleSportId);
-          const conflictingId = sportIds.find(
-            (selectedId) => selectedId !== sport.id && incompatibleSportIds.includes(selectedId)
-          );
-
-          if (conflictingId) {
-            const incompatibleSport = matchedSports.find((s) => s.id === conflictingId);
-            hasIncompatible = true;
-            incompatibleError = `Cannot select ${sport.name} and ${incompatibleSport?.name || "another incompatible sport"} together. These sports are incompatible.`;
-            break;
-          }
-        }
+// Keep the checked values so generated usernames and normalised dates survive a recheck
+function checkedRows(rows: ImportRow[], results: ImportRowResult[]): ImportRow[] {
+  return rows.map((row, index) => ({ ...row, data: results[index].data }));
+}
 
-        if (hasIncompatible) {
-          results.errorCount++;
-          results.errors.push({
-            row: rowNumber,
-            email,
-            errors: [incompatibleError],
-          });
-          continue;
-        }
-      }
+function importPreview(record: ParticipantImport, results: ImportRowResult[]) {
+  return {
+    importId: record.id,
+    fileName: record.fileName,
+    expiresAt: record.expiresAt,
+    rows: results.map(({ row, data, errors, warnings }) => ({ row, data, errors, warnings })),
+  };
+}
 
-      // Handle community if provided (otherwise use admin's community)
-      let finalCommunityId = communityId;
-      if (communityName) {
-        const community = await prisma.community.findUnique({
-          where: { name: communityName },
-        });
-        if (!community) {
-          results.errorCount++;
-          results.errors.push({
-            row: rowNumber,
-            email,
-            errors: [`Community not found: ${communityName}`],
-          });
-          continue;
-        }
-        finalCommunityId = community.id;
+// Apply values corrected in the preview grid to the stored rows
+function applyImportEdits(rows: ImportRow[], edits: z.infer<typeof importEditsSchema>["rows"]): ImportRow[] | { error: string } {
+  const byRow = new Map(rows.map((row) => [row.row, row]));
+  for (const edit of edits) {
+    const row = byRow.get(edit.row);
+    if (!row) {
+      return { error: `Row ${edit.row} is not part of this upload` };
+    }
+    const data = { ...row.data };
+    for (const field of IMPORT_FIELDS) {
+      if (edit.data[field] !== undefined) {
+        data[field] = edit.data[field];
       }
+    }
+    byRow.set(edit.row, { ...row, data });
+  }
+  return rows.map((row) => byRow.get(row.row)!);
+}
 
-      // Create participant
-      try {
-        const hashedPassword = await hashPassword(finalPassword);
+// An upload the signed-in admin checked that can still be imported
+async function findOpenImport(req: AuthRequest): Promise<{ record: ParticipantImport } | { status: number; error: string }> {
+  const record = await prisma.participantImport.findFirst({
+    where: { id: req.params.importId, createdById: req.user!.id },
+  });
+  if (!record) {
+    return { status: 404, error: "Upload not found" };
+  }
+  if (record.committedAt) {
+    return { status: 409, error: "This upload has already been imported" };
+  }
+  if (record.expiresAt < new Date()) {
+    return { status: 410, error: "This upload has expired. Please upload the file again." };
+  }
+  return { record };
+}
 
-        // Create user account
-        const user = await prisma.user.create({
+/**
+ * Create accepted participants, with their accounts and sport places, for rows that passed
+ * validation. Either every row is imported or none is. `claim` runs first in the same
+ * transaction, so an upload cannot be imported twice.
+ */
+async function importParticipants(
+  req: AuthRequest,
+  rows: Array<{ result: ImportRowResult; passwordHash?: string | null }>,
+  claim?: (tx: Prisma.TransactionClient) => Promise<void>
+) {
+  // Hash outside the transaction; it is the slow part
+  const accounts = await Promise.all(
+    rows.map(async ({ result, passwordHash }) => ({
+      result,
+      passwordHash: passwordHash || (await hashPassword(generatePassword())),
+    }))
+  );
+
+  const created = await prisma.$transaction(
+    async (tx) => {
+      await claim?.(tx);
+
+      const created = [];
+      for (const { result, passwordHash } of accounts) {
+        const { data } = result;
+        const user = await tx.user.create({
           data: {
-            username: finalUsername,
-            email,
-            password: hashedPassword,
+            username: data.username,
+            email: data.email,
+            password: passwordHash,
             role: Role.user,
           },
         });
 
-        // Create participant with accepted status, including nextOfKin and notes
-        const participant = await prisma.participant.create({
+        // Bulk uploads are accepted straight away, with payment details kept as notes
+        const participant = await tx.participant.create({
           data: {
-            firstName,
-            middleName: middleName || null,
-            lastName,
-            gender: gender as Gender,
-            dob: dob!,
-            email,
-            phone,
-            communityId: finalCommunityId,
+            firstName: data.firstName,
+            middleName: data.middleName || null,
+            lastName: data.lastName,
+            gender: data.gender as Gender,
+            dob: result.dob!,
+            email: data.email,
+            phone: data.phone,
+            communityId: result.communityId!,
             userId: user.id,
             status: ParticipantStatus.accepted,
-            notes: paymentDetails || null,
+            notes: data.paymentDetails || null,
             nextOfKin: {
-              firstName: nextOfKinFirstName,
-              middleName: nextOfKinMiddleName || undefined,
-              lastName: nextOfKinLastName,
-              phone: nextOfKinPhone,
+              firstName: data.nextOfKinFirstName,
+              middleName: data.nextOfKinMiddleName || undefined,
+              lastName: data.nextOfKinLastName,
+              phone: data.nextOfKinPhone,
             } as any,
             sports: {
-              create: matchedSports.map((sport) => ({
-                sportId: sport.id,
-              })),
+              create: result.sportIds!.map((sportId) => ({ sportId })),
             },
           },
+          include: {
+            sports: true,
+          },
         });
 
-        results.successCount++;
-      } catch (error: any) {
-        results.errorCount++;
-        results.errors.push({
-          row: rowNumber,
-          email,
-          errors: [error.message || "Failed to create participant"],
+        const waitlisted = await allocateSportPlaces(participant.id, tx);
+        created.push({ row: result.row, participant, waitlisted });
+      }
+      return created;
+    },
+    { timeout: IMPORT_TRANSACTION_TIMEOUT_MS }
+  );
+
+  for (const { participant } of created) {
+    await recordAudit(req, "create", "participant", participant.id, null, participantSnapshot(participant));
+  }
+
+  return {
+    importedCount: created.length,
+    waitlisted: created
+      .filter(({ waitlisted }) => waitlisted.length > 0)
+      .map(({ row, waitlisted }) => ({ row, sports: waitlisted })),
+  };
+}
+
+// Check an uploaded sheet without importing anything; returns each row normalised with its errors and warnings
+router.post(
+  "/bulk-upload/validate",
+  authenticate,
+  requireRole("community_admin"),
+  bulkUpload.single("file"),
+  async (req: AuthRequest, res: Response) => {
+    if (!req.file) {
+      return res.status(400).json({ error: "No file provided" });
+    }
+    if (!req.user!.communityId) {
+      return res.status(403).json({ error: "Community admin must be associated with a community" });
+    }
+
+    let rows: ImportRow[];
+    try {
+      rows = await readUploadRows(req.file);
+    } catch (error: any) {
+      return res.status(400).json({ error: `Failed to parse file: ${error.message}` });
+    }
+    if (rows.length === 0) {
+      return res.status(400).json({ error: "File is empty or contains no data" });
+    }
+
+    try {
+      const results = validateImportRows(rows, await importContext(req.user!.communityId));
+
+      // Uploads that were never imported are of no use once expired
+      await prisma.participantImport.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+      const record = await prisma.participantImport.create({
+        data: {
+          communityId: req.user!.communityId,
+          createdById: req.user!.id,
+          fileName: req.file.originalname,
+          rows: checkedRows(rows, results) as unknown as Prisma.InputJsonValue,
+          expiresAt: new Date(Date.now() + IMPORT_TTL_MS),
+        },
+      });
+
+      res.status(201).json(importPreview(record, results));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message || "Failed to check upload" });
+    }
+  }
+);
+
+// Recheck an upload after rows were corrected in the preview
+router.post("/bulk-upload/:importId/validate", authenticate, requireRole("community_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { rows: edits } = importEditsSchema.parse(req.body);
+    const open = await findOpenImport(req);
+    if ("error" in open) {
+      return res.status(open.status).json({ error: open.error });
+    }
+
+    const rows = applyImportEdits(open.record.rows as unknown as ImportRow[], edits);
+    if ("error" in rows) {
+      return res.status(400).json({ error: rows.error });
+    }
+
+    const results = validateImportRows(rows, await importContext(open.record.communityId));
+    const record = await prisma.participantImport.update({
+      where: { id: open.record.id },
+      data: { rows: checkedRows(rows, results) as unknown as Prisma.InputJsonValue },
+    });
+
+    res.json(importPreview(record, results));
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to check upload" });
+  }
+});
+
+// Import the selected rows of a checked upload, with any corrections, all at once
+router.post("/bulk-upload/:importId/commit", authenticate, requireRole("community_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { rows: selected } = importEditsSchema.parse(req.body);
+    if (selected.length === 0) {
+      return res.status(400).json({ error: "Select at least one row to import" });
+    }
+    const open = await findOpenImport(req);
+    if ("error" in open) {
+      return res.status(open.status).json({ error: open.error });
+    }
+
+    const rows = applyImportEdits(open.record.rows as unknown as ImportRow[], selected);
+    if ("error" in rows) {
+      return res.status(400).json({ error: rows.error });
+    }
+
+    // Rows are checked again together, as other uploads may have taken usernames since
+    const selectedRows = new Set(selected.map((edit) => edit.row));
+    const toImport = rows.filter((row) => selectedRows.has(row.row));
+    const results = validateImportRows(toImport, await importContext(open.record.communityId));
+    const failed = results.filter((result) => result.errors.length > 0);
+    if (failed.length > 0) {
+      return res.status(400).json({
+        error: `${failed.length} selected row${failed.length === 1 ? " has" : "s have"} errors. Check the rows again before importing.`,
+        rows: failed.map(({ row, errors }) => ({ row, errors })),
+      });
+    }
+
+    const imported = await importParticipants(
+      req,
+      results.map((result, index) => ({ result, passwordHash: toImport[index].passwordHash })),
+      async (tx) => {
+        const { count } = await tx.participantImport.updateMany({
+          where: { id: open.record.id, committedAt: null },
+          data: { committedAt: new Date(), rows: rows as unknown as Prisma.InputJsonValue },
         });
+        if (count === 0) {
+          throw new Error("This upload has already been imported");
+        }
       }
+    );
+
+    res.json(imported);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    if (error.message === "This upload has already been imported") {
+      return res.status(409).json({ error: error.message });
     }
+    if (error.code === "P2002") {
+      return res.status(409).json({ error: "A username was taken while importing. Check the rows again and retry." });
+    }
+    res.status(500).json({ error: error.message || "Failed to import participants" });
+  }
+});
 
-    // Clean up uploaded file
+// Check and import a sheet in one step, importing every row without errors
+router.post(
+  "/bulk-upload",
+  authenticate,
+  requireRole("community_admin"),
+  bulkUpload.single("file"),
+  async (req: AuthRequest, res: Response) => {
+    if (!req.file) {
+      return res.status(400).json({ error: "No file provided" });
+    }
+    if (!req.user!.communityId) {
+      return res.status(403).json({ error: "Community admin must be associated with a community" });
+    }
+
+    let rows: ImportRow[];
     try {
-      fs.unlinkSync(filePath);
-    } catch (error) {
-      console.error("Failed to delete uploaded file:", error);
+      rows = await readUploadRows(req.file);
+    } catch (error: any) {
+      return res.status(400).json({ error: `Failed to parse file: ${error.message}` });
+    }
+    if (rows.length === 0) {
+      return res.status(400).json({ error: "File is empty or contains no data" });
     }
 
-    res.json(results);
+    try {
+      const results = validateImportRows(rows, await importContext(req.user!.communityId));
+      const valid = results.flatMap((result, index) =>
+        result.errors.length === 0 ? [{ result, passwordHash: rows[index].passwordHash }] : []
+      );
+      const { importedCount } = valid.length > 0 ? await importParticipants(req, valid) : { importedCount: 0 };
+      const errors = results
+        .filter((result) => result.errors.length > 0)
+        .map(({ row, data, errors }) => ({ row, email: data.email || undefined, errors }));
+
+      res.json({
+        successCount: importedCount,
+        skippedCount: 0,
+        errorCount: errors.length,
+        skipped: [],
+        errors,
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message || "Failed to upload participants" });
+    }
   }
 );
 
@@ -1266,8 +1445,8 @@ router.post(
 router.get("/export/:format", authenticate, requireRole("admin", "community_admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
   try {
     const { format } = req.params;
-    if (!["csv", "excel"].includes(format)) {
-      return res.status(400).json({ error: "Invalid format. Use 'csv' or 'excel'" });
+    if (!["csv", "excel", "pdf"].includes(format)) {
+      return res.status(400).json({ error: "Invalid format. Use 'csv', 'excel' or 'pdf'" });
     }
 
     const where: any = {};
@@ -1284,6 +1463,9 @@ router.get("/export/:format", authenticate, requireRole("admin", "community_admi
         sports: {
           include: {
             sport: true,
+            team: {
+              select: { name: true },
+            },
           },
         },
       },
@@ -1308,6 +1490,11 @@ router.get("/export/:format", authenticate, requireRole("admin", "community_admi
         return sport.name;
       }).join(", ");
 
+      const teamsList = p.sports
+        .filter((ps: any) => ps.team)
+        .map((ps: any) => `${ps.sport.name}: ${ps.team.name}`)
+        .join(", ");
+
       const nextOfKin = p.nextOfKin as any;
       return {
         id: p.id,
@@ -1321,6 +1508,7 @@ router.get("/export/:format", authenticate, requireRole("admin", "community_admi
         community: p.community?.name || "-",
         sports: sportsList || "-",
         teamName: p.teamName || "",
+        teams: teamsList,
         status: p.status,
         nextOfKinFirstName: nextOfKin?.firstName || "",
         nextOfKinMiddleName: nextOfKin?.middleName || "",
@@ -1333,7 +1521,7 @@ router.get("/export/:format", authenticate, requireRole("admin", "community_admi
 
     const headers = [
       "id", "firstName", "middleName", "lastName", "gender", "dob", "email", "phone",
-      "community", "sports", "teamName", "status",
+      "community", "sports", "teamName", "teams", "status",
       "nextOfKinFirstName", "nextOfKinMiddleName", "nextOfKinLastName", "nextOfKinPhone",
       "createdAt", "updatedAt"
     ];
@@ -1344,7 +1532,34 @@ router.get("/export/:format", authenticate, requireRole("admin", "community_admi
       ? `participants-sport-${req.user!.sportId}`
       : "participants";
     
-    sendExport(res, exportData, headers, { filename, format: format as "csv" | "excel" });
+    await sendExport(res, exportData, headers, {
+      filename,
+      format: format as ExportFormat,
+      // Printed as accreditation badges, which only accepted participants receive
+      renderPdf: async () => {
+        const settings = await prisma.settings.findFirst();
+        const eventTitle = settings?.siteTitle || "Sport Sync";
+        const badges = filteredParticipants
+          .filter((p: any) => p.status === "accepted")
+          .sort((a: any, b: any) =>
+            a.community.name.localeCompare(b.community.name) || a.lastName.localeCompare(b.lastName)
+          )
+          .map((p: any) => ({
+            eventTitle,
+            name: `${p.firstName} ${p.lastName}`,
+            roleLabel: "Participant",
+            lines: [
+              p.community.name,
+              p.sports
+                .filter((ps: any) => ps.status === "registered")
+                .map((ps: any) => ps.sport.name)
+                .join(", "),
+            ].filter(Boolean),
+            token: signCredential({ type: "participant", id: p.id }),
+          }));
+        return renderBadgeSheetPdf(badges);
+      },
+    });
   } catch (error: any) {
     res.status(500).json({ error: error.message || "Failed to export participants" });
   }
@@ -5,6 +5,7 @@ import path from "path";
 import fs from "fs";
 import { prisma } from "../index";
 import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
+import { recordAudit } from "./audit";
 
 const router = Router();
 
@@ -80,6 +81,7 @@ router.patch("/", authenticate, requireRole("admin"), async (req: AuthRequest, r
     const data = updateSettingsSchema.parse(req.body);
 
     let settings = await prisma.settings.findFirst();
+    const before = settings;
 
     const updateData: any = {};
     
@@ -135,6 +137,8 @@ router.patch("/", authenticate, requireRole("admin"), async (req: AuthRequest, r
       });
     }
 
+    await recordAudit(req, before ? "update" : "create", "settings", settings.id, before, settings);
+
     res.json(settings);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -161,6 +165,13 @@ router.post(
       const host = req.get("host");
       const imageUrl = `${protocol}://${host}/uploads/${req.file.filename}`;
 
+      await recordAudit(req, "create", "image", req.file.filename, null, {
+        filename: req.file.filename,
+        originalName: req.file.originalname,
+        size: req.file.size,
+        url: imageUrl,
+      });
+
       res.json({ url: imageUrl, filename: req.file.filename });
     } catch (error: any) {
       // If there's an error and a file was uploaded, delete it
@@ -0,0 +1,407 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../index";
+import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
+import { describeShiftConflicts, ShiftConflict } from "../utils/shifts";
+import { recordAudit } from "./audit";
+
+const router = Router();
+
+const createShiftSchema = z.object({
+  title: z.string().trim().min(1),
+  departmentId: z.string().optional().nullable(),
+  sportId: z.string().optional().nullable(),
+  venue: z.string().optional().nullable(),
+  startTime: z.string().or(z.date()),
+  endTime: z.string().or(z.date()),
+  requiredCount: z.number().int().min(1).default(1),
+  notes: z.string().optional().nullable(),
+  volunteerIds: z.array(z.string()).optional(),
+});
+
+const updateShiftSchema = createShiftSchema.omit({ volunteerIds: true }).partial();
+
+const assignVolunteersSchema = z.object({
+  volunteerIds: z.array(z.string()).min(1),
+});
+
+export const shiftInclude = {
+  department: {
+    select: { id: true, name: true },
+  },
+  sport: {
+    select: { id: true, name: true },
+  },
+  assignments: {
+    include: {
+      volunteer: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
+          phone: true,
+        },
+      },
+    },
+    orderBy: { createdAt: "asc" as const },
+  },
+};
+
+// Audit snapshot of a shift: its own fields plus the ids of the assigned volunteers
+export function shiftSnapshot({ department, sport, assignments, ...fields }: any) {
+  return {
+    ...fields,
+    volunteerIds: (assignments ?? []).map((assignment: any) => assignment.volunteerId).sort(),
+  };
+}
+
+function parseDateTime(value: string | Date) {
+  const date = typeof value === "string" ? new Date(value) : value;
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Find other shifts the volunteers are already assigned to that overlap the given time range.
+ * Back-to-back shifts (one ending as the next starts) do not conflict.
+ */
+export async function findShiftConflicts(
+  shift: { id?: string; startTime: Date; endTime: Date },
+  volunteerIds: string[]
+): Promise<ShiftConflict[]> {
+  if (volunteerIds.length === 0) return [];
+
+  const overlapping = await prisma.shiftAssignment.findMany({
+    where: {
+      volunteerId: { in: volunteerIds },
+      shift: {
+        id: shift.id ? { not: shift.id } : undefined,
+        startTime: { lt: shift.endTime },
+        endTime: { gt: shift.startTime },
+      },
+    },
+    include: {
+      shift: true,
+      volunteer: {
+        select: { firstName: true, lastName: true },
+      },
+    },
+    orderBy: { shift: { startTime: "asc" } },
+  });
+
+  return overlapping.map((assignment) => ({
+    volunteerId: assignment.volunteerId,
+    volunteerName: `${assignment.volunteer.firstName} ${assignment.volunteer.lastName}`,
+    shiftId: assignment.shiftId,
+    shiftTitle: assignment.shift.title,
+    startTime: assignment.shift.startTime,
+    endTime: assignment.shift.endTime,
+  }));
+}
+
+// List shifts (optionally filtered by department, sport or date range)
+router.get("/", authenticate, requireRole("admin", "volunteer_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { departmentId, sportId, from, to } = req.query;
+
+    const where: any = {};
+    if (departmentId) {
+      where.departmentId = departmentId as string;
+    }
+    if (sportId) {
+      where.sportId = sportId as string;
+    }
+    if (from || to) {
+      const fromDate = from ? parseDateTime(from as string) : undefined;
+      const toDate = to ? parseDateTime(to as string) : undefined;
+      if (fromDate === null || toDate === null) {
+        return res.status(400).json({ error: "Invalid date format" });
+      }
+      where.startTime = { gte: fromDate, lte: toDate };
+    }
+
+    const shifts = await prisma.shift.findMany({
+      where,
+      include: shiftInclude,
+      orderBy: { startTime: "asc" },
+    });
+
+    res.json(shifts);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to list shifts" });
+  }
+});
+
+// Get my shifts (for volunteers)
+router.get("/me", authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const volunteer = await prisma.volunteer.findUnique({
+      where: { userId: req.user!.id },
+    });
+
+    if (!volunteer) {
+      return res.json([]);
+    }
+
+    const shifts = await prisma.shift.findMany({
+      where: {
+        assignments: { some: { volunteerId: volunteer.id } },
+      },
+      include: {
+        department: shiftInclude.department,
+        sport: shiftInclude.sport,
+      },
+      orderBy: { startTime: "asc" },
+    });
+
+    res.json(shifts);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to get shifts" });
+  }
+});
+
+// Create shift (optionally assigning volunteers straight away)
+router.post("/", authenticate, requireRole("admin", "volunteer_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const data = createShiftSchema.parse(req.body);
+
+    if (!data.departmentId && !data.sportId) {
+      return res.status(400).json({ error: "A shift needs a department or a sport" });
+    }
+
+    const startTime = parseDateTime(data.startTime);
+    const endTime = parseDateTime(data.endTime);
+    if (!startTime || !endTime) {
+      return res.status(400).json({ error: "Invalid date format" });
+    }
+    if (endTime <= startTime) {
+      return res.status(400).json({ error: "A shift must end after it starts" });
+    }
+
+    const volunteerIds = Array.from(new Set(data.volunteerIds ?? []));
+    if (volunteerIds.length > data.requiredCount) {
+      return res.status(400).json({ error: `This shift needs only ${data.requiredCount} volunteer(s)` });
+    }
+
+    const conflicts = await findShiftConflicts({ startTime, endTime }, volunteerIds);
+    if (conflicts.length > 0) {
+      return res.status(409).json({ error: describeShiftConflicts(conflicts), conflicts });
+    }
+
+    const shift = await prisma.shift.create({
+      data: {
+        title: data.title,
+        departmentId: data.departmentId ?? null,
+        sportId: data.sportId ?? null,
+        venue: data.venue ?? null,
+        startTime,
+        endTime,
+        requiredCount: data.requiredCount,
+        notes: data.notes ?? null,
+        assignments: {
+          create: volunteerIds.map((volunteerId) => ({ volunteerId })),
+        },
+      },
+      include: shiftInclude,
+    });
+
+    await recordAudit(req, "create", "shift", shift.id, null, shiftSnapshot(shift));
+
+    res.status(201).json(shift);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    if (error.code === "P2003") {
+      return res.status(400).json({ error: "Department, sport or volunteer not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to create shift" });
+  }
+});
+
+// Update shift
+router.patch("/:id", authenticate, requireRole("admin", "volunteer_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = updateShiftSchema.parse(req.body);
+
+    const existing = await prisma.shift.findUnique({
+      where: { id },
+      include: shiftInclude,
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: "Shift not found" });
+    }
+
+    const departmentId = data.departmentId !== undefined ? data.departmentId : existing.departmentId;
+    const sportId = data.sportId !== undefined ? data.sportId : existing.sportId;
+    if (!departmentId && !sportId) {
+      return res.status(400).json({ error: "A shift needs a department or a sport" });
+    }
+
+    const startTime = data.startTime !== undefined ? parseDateTime(data.startTime) : existing.startTime;
+    const endTime = data.endTime !== undefined ? parseDateTime(data.endTime) : existing.endTime;
+    if (!startTime || !endTime) {
+      return res.status(400).json({ error: "Invalid date format" });
+    }
+    if (endTime <= startTime) {
+      return res.status(400).json({ error: "A shift must end after it starts" });
+    }
+
+    if (data.requiredCount !== undefined && data.requiredCount < existing.assignments.length) {
+      return res.status(400).json({
+        error: `${existing.assignments.length} volunteers are already on this shift; remove some before lowering the number needed`,
+      });
+    }
+
+    // Moving the shift must not double-book anyone already on it
+    const conflicts = await findShiftConflicts(
+      { id, startTime, endTime },
+      existing.assignments.map((assignment) => assignment.volunteerId)
+    );
+    if (conflicts.length > 0) {
+      return res.status(409).json({ error: describeShiftConflicts(conflicts), conflicts });
+    }
+
+    const shift = await prisma.shift.update({
+      where: { id },
+      data: {
+        ...data,
+        startTime,
+        endTime,
+      },
+      include: shiftInclude,
+    });
+
+    await recordAudit(req, "update", "shift", id, shiftSnapshot(existing), shiftSnapshot(shift));
+
+    res.json(shift);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    if (error.code === "P2003") {
+      return res.status(400).json({ error: "Department or sport not found" });
+    }
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Shift not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to update shift" });
+  }
+});
+
+// Delete shift
+router.delete("/:id", authenticate, requireRole("admin", "volunteer_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const shift = await prisma.shift.delete({
+      where: { id },
+      include: shiftInclude,
+    });
+
+    await recordAudit(req, "delete", "shift", id, shiftSnapshot(shift), null);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Shift not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to delete shift" });
+  }
+});
+
+// Assign volunteers to a shift
+router.post("/:id/assignments", authenticate, requireRole("admin", "volunteer_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = assignVolunteersSchema.parse(req.body);
+
+    const existing = await prisma.shift.findUnique({
+      where: { id },
+      include: shiftInclude,
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: "Shift not found" });
+    }
+
+    const assignedIds = new Set(existing.assignments.map((assignment) => assignment.volunteerId));
+    const volunteerIds = Array.from(new Set(data.volunteerIds)).filter((volunteerId) => !assignedIds.has(volunteerId));
+
+    // A shift is full once it has as many volunteers as it needs
+    const openSlots = existing.requiredCount - assignedIds.size;
+    if (volunteerIds.length > openSlots) {
+      return res.status(409).json({
+        error:
+          openSlots > 0
+            ? `This shift has room for only ${openSlots} more volunteer(s)`
+            : "This shift already has all the volunteers it needs",
+      });
+    }
+
+    const conflicts = await findShiftConflicts(existing, volunteerIds);
+    if (conflicts.length > 0) {
+      return res.status(409).json({ error: describeShiftConflicts(conflicts), conflicts });
+    }
+
+    const shift = await prisma.shift.update({
+      where: { id },
+      data: {
+        assignments: {
+          create: volunteerIds.map((volunteerId) => ({ volunteerId })),
+        },
+      },
+      include: shiftInclude,
+    });
+
+    await recordAudit(req, "update", "shift", id, shiftSnapshot(existing), shiftSnapshot(shift));
+
+    res.json(shift);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    if (error.code === "P2003") {
+      return res.status(400).json({ error: "Volunteer not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to assign volunteers" });
+  }
+});
+
+// Remove a volunteer from a shift
+router.delete("/:id/assignments/:volunteerId", authenticate, requireRole("admin", "volunteer_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, volunteerId } = req.params;
+
+    const existing = await prisma.shift.findUnique({
+      where: { id },
+      include: shiftInclude,
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: "Shift not found" });
+    }
+
+    await prisma.shiftAssignment.delete({
+      where: { shiftId_volunteerId: { shiftId: id, volunteerId } },
+    });
+
+    const shift = await prisma.shift.findUniqueOrThrow({
+      where: { id },
+      include: shiftInclude,
+    });
+
+    await recordAudit(req, "update", "shift", id, shiftSnapshot(existing), shiftSnapshot(shift));
+
+    res.json(shift);
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Volunteer is not assigned to this shift" });
+    }
+    res.status(500).json({ error: error.message || "Failed to remove volunteer from shift" });
+  }
+});
+
+export default router;
@@ -4,7 +4,16 @@ import { prisma } from "../index";
 import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
 import { SportType, Gender, Role } from "@prisma/client";
 import { hashPassword } from "../utils/password";
-import { sendExport } from "../utils/export";
+import { ExportFormat, sendExport } from "../utils/export";
+import { checkSportEligibility } from "../utils/eligibility";
+import { promoteWaitlist } from "./participants";
+import { recordAudit } from "./audit";
+import { revokeUserSessions } from "./auth";
+import { resolveVenue } from "./venues";
+import { matchInclude, syncResults } from "./matches";
+import { publishEvent } from "./events";
+import { computeStandings } from "../utils/standings";
+import { entrantKey, sideEntrant } from "../utils/results";
 
 const router = Router();
 
@@ -20,12 +29,22 @@ const createSportSchema = z.object({
   type: z.enum(["individual", "team"]),
   requiresTeamName: z.boolean().optional(),
   parentId: z.string().optional().nullable(),
+  // A registered venue, or a free-text name when venueId is not given
+  venueId: z.string().optional().nullable(),
   venue: z.string().optional().nullable(),
   timings: z.string().optional().nullable(),
   date: z.string().or(z.date()).optional().nullable(),
   gender: z.enum(["male", "female", "mixed"]).optional().nullable(),
   ageLimitMin: z.number().optional(),
   ageLimitMax: z.number().optional(),
+  maxPerCommunity: z.number().int().positive().optional().nullable(),
+  maxTotal: z.number().int().positive().optional().nullable(),
+  minTeamSize: z.number().int().positive().optional().nullable(),
+  maxTeamSize: z.number().int().positive().optional().nullable(),
+  tieBreakers: z
+    .array(z.enum(["head_to_head", "goal_difference", "goals_scored", "fair_play"]))
+    .refine((list) => new Set(list).size === list.length, "Each tie-breaker can only be used once")
+    .optional(),
   rules: z.string().optional().nullable(),
   notes: z.string().max(500).optional().nullable(),
   adminUsername: usernameFormatSchema.optional().nullable(),
@@ -34,6 +53,23 @@ const createSportSchema = z.object({
   incompatibleSportIds: z.array(z.string()).optional(),
 });
 
+const capacityFields = ["maxPerCommunity", "maxTotal", "minTeamSize", "maxTeamSize"] as const;
+
+function validateTeamSize(minTeamSize?: number | null, maxTeamSize?: number | null) {
+  if (minTeamSize != null && maxTeamSize != null && minTeamSize > maxTeamSize) {
+    return "Minimum team size cannot be greater than maximum team size";
+  }
+  return null;
+}
+
+// Audit snapshot of a sport: its own fields plus the ids of incompatible sports
+function sportSnapshot({ incompatibleWith, ...fields }: any) {
+  return {
+    ...fields,
+    incompatibleSportIds: (incompatibleWith ?? []).map((inc: any) => inc.incompatibleSportId).sort(),
+  };
+}
+
 async function syncSportAdminUser(options: {
   sportId: string;
   adminUsername?: string | null;
@@ -74,6 +110,10 @@ async function syncSportAdminUser(options: {
       where: { id: existingAdmin.id },
       data: updateData,
     });
+    // A new password signs the admin out everywhere
+    if (updateData.password) {
+      await revokeUserSessions(existingAdmin.id);
+    }
     return;
   }
 
@@ -180,11 +220,124 @@ router.get("/:id", async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Check whether a date of birth (and optionally gender) is eligible for a sport (public - used by the Register page)
+router.get("/:id/eligibility", async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { dob, gender } = req.query;
+
+    if (!dob || typeof dob !== "string") {
+      return res.status(400).json({ error: "dob query parameter is required" });
+    }
+
+    if (gender !== undefined && gender !== "male" && gender !== "female") {
+      return res.status(400).json({ error: "gender must be 'male' or 'female'" });
+    }
+
+    const dobDate = new Date(dob);
+    if (isNaN(dobDate.getTime())) {
+      return res.status(400).json({ error: "Invalid date format" });
+    }
+
+    const sport = await prisma.sport.findUnique({
+      where: { id },
+      include: {
+        parent: {
+          select: {
+            gender: true,
+            ageLimitMin: true,
+            ageLimitMax: true,
+          },
+        },
+      },
+    });
+
+    if (!sport) {
+      return res.status(404).json({ error: "Sport not found" });
+    }
+
+    const settings = await prisma.settings.findFirst();
+    const referenceDate = settings?.ageCalculatorDate ?? new Date();
+
+    res.json({
+      ...checkSportEligibility(sport, { dob: dobDate, gender: gender as Gender | undefined }, referenceDate),
+      referenceDate,
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to check eligibility" });
+  }
+});
+
+// Group standings from match results (public - used by the leaderboard and sport pages)
+router.get("/:id/standings", async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const sport = await prisma.sport.findUnique({
+      where: { id },
+      select: { id: true, tieBreakers: true },
+    });
+
+    if (!sport) {
+      return res.status(404).json({ error: "Sport not found" });
+    }
+
+    const matches = await prisma.match.findMany({
+      where: { sportId: id, bracket: "group" },
+      include: matchInclude,
+    });
+
+    // Names for each entrant, taken from the matches they appear in
+    type Match = (typeof matches)[number];
+    const names = new Map<string, { community: Match["homeCommunity"]; team: Match["homeTeam"]; participant: Match["homeParticipant"] }>();
+    for (const match of matches) {
+      const home = sideEntrant(match, "home");
+      const away = sideEntrant(match, "away");
+      if (home) {
+        names.set(entrantKey(home), {
+          community: match.homeCommunity,
+          team: match.homeTeam,
+          participant: match.homeParticipant,
+        });
+      }
+      if (away) {
+        names.set(entrantKey(away), {
+          community: match.awayCommunity,
+          team: match.awayTeam,
+          participant: match.awayParticipant,
+        });
+      }
+    }
+
+    const groups = computeStandings(matches, sport.tieBreakers).map((standings) => ({
+      ...standings,
+      rows: standings.rows.map(({ entrant, ...row }) => {
+        const name = names.get(entrantKey(entrant));
+        return {
+          ...row,
+          community: name?.community ?? null,
+          team: name?.team ?? null,
+          participant: name?.participant ?? null,
+        };
+      }),
+    }));
+
+    res.json({ sportId: sport.id, tieBreakers: sport.tieBreakers, groups });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to get standings" });
+  }
+});
+
 // Create sport
 router.post("/", authenticate, requireRole("admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
   try {
     const data = createSportSchema.parse(req.body);
 
+    const teamSizeError = validateTeamSize(data.minTeamSize, data.maxTeamSize);
+    if (teamSizeError) {
+      return res.status(400).json({ error: teamSizeError });
+    }
+
     // Check if admin credentials already exist (if provided)
     if (data.adminEmail) {
       const existingAdmin = await prisma.sport.findFirst({
@@ -220,6 +373,11 @@ router.post("/", authenticate, requireRole("admin", "sports_admin"), async (req:
       return res.status(400).json({ error: "Admin password is required when setting an admin username" });
     }
 
+    const location = await resolveVenue(data.venueId, data.venue);
+    if (!location) {
+      return res.status(404).json({ error: "Venue not found" });
+    }
+
     const sport = await prisma.sport.create({
       data: {
         name: data.name,
@@ -227,12 +385,17 @@ router.post("/", authenticate, requireRole("admin", "sports_admin"), async (req:
         type: data.type as SportType,
         requiresTeamName: data.requiresTeamName ?? false,
         parentId: data.parentId,
-        venue: data.venue,
+        venueId: location.venueId,
+        venue: location.venue,
         timings: data.timings,
         date,
         gender: data.gender as Gender | null,
         ageLimitMin: data.ageLimitMin,
         ageLimitMax: data.ageLimitMax,
+        maxPerCommunity: data.maxPerCommunity ?? null,
+        maxTotal: data.maxTotal ?? null,
+        minTeamSize: data.minTeamSize ?? null,
+        maxTeamSize: data.maxTeamSize ?? null,
         rules: data.rules,
         notes: data.notes,
         adminUsername,
@@ -261,6 +424,8 @@ router.post("/", authenticate, requireRole("admin", "sports_admin"), async (req:
       passwordProvided: Boolean(data.adminPassword),
     });
 
+    await recordAudit(req, "create", "sport", sport.id, null, sportSnapshot(sport));
+
     res.status(201).json(sport);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -282,6 +447,21 @@ router.patch("/:id", authenticate, requireRole("admin", "sports_admin"), async (
     const { id } = req.params;
     const data = createSportSchema.partial().parse(req.body);
 
+    const capacityChanged = capacityFields.some((field) => data[field] !== undefined);
+    if (data.minTeamSize !== undefined || data.maxTeamSize !== undefined) {
+      const current = await prisma.sport.findUnique({
+        where: { id },
+        select: { minTeamSize: true, maxTeamSize: true },
+      });
+      const teamSizeError = validateTeamSize(
+        data.minTeamSize !== undefined ? data.minTeamSize : current?.minTeamSize,
+        data.maxTeamSize !== undefined ? data.maxTeamSize : current?.maxTeamSize
+      );
+      if (teamSizeError) {
+        return res.status(400).json({ error: teamSizeError });
+      }
+    }
+
     // Parse date if provided
     let date: Date | null | undefined;
     if (data.date !== undefined) {
@@ -333,7 +513,24 @@ router.patch("/:id", authenticate, requireRole("admin", "sports_admin"), async (
       hashedAdminPassword = await hashPassword(data.adminPassword);
     }
 
+    const before = await prisma.sport.findUnique({
+      where: { id },
+      include: { incompatibleWith: true },
+    });
+
+    if (!before) {
+      return res.status(404).json({ error: "Sport not found" });
+    }
+
     const updateData: any = { ...data };
+    if (data.venueId !== undefined || data.venue !== undefined) {
+      const location = await resolveVenue(data.venueId, data.venue);
+      if (!location) {
+        return res.status(404).json({ error: "Venue not found" });
+      }
+      updateData.venueId = location.venueId;
+      updateData.venue = location.venue;
+    }
     // Only include date in update if it was explicitly provided
     if (data.date !== undefined) {
       updateData.date = date;
@@ -399,6 +596,19 @@ router.patch("/:id", authenticate, requireRole("admin", "sports_admin"), async (
       passwordProvided: Boolean(data.adminPassword),
     });
 
+    await recordAudit(req, "update", "sport", sport.id, sportSnapshot(before), sportSnapshot(sport));
+
+    // Tie-breakers can change who finished where in a round robin
+    if (data.tieBreakers !== undefined) {
+      publishEvent("results", { sportId: sport.id });
+      await syncResults(req, sport.id);
+    }
+
+    // Raised (or removed) limits may make room for waitlisted participants
+    if (capacityChanged) {
+      await promoteWaitlist(sport.id);
+    }
+
     res.json(sport);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -422,6 +632,15 @@ router.delete("/:id", authenticate, requireRole("admin", "sports_admin"), async
   try {
     const { id } = req.params;
 
+    const sport = await prisma.sport.findUnique({
+      where: { id },
+      include: { incompatibleWith: true },
+    });
+
+    if (!sport) {
+      return res.status(404).json({ error: "Sport not found" });
+    }
+
     // Delete children first (cascade should handle this, but let's be explicit)
     await prisma.sport.deleteMany({
       where: { parentId: id },
@@ -432,6 +651,8 @@ router.delete("/:id", authenticate, requireRole("admin", "sports_admin"), async
       where: { id },
     });
 
+    await recordAudit(req, "delete", "sport", id, sportSnapshot(sport), null);
+
     res.json({ success: true });
   } catch (error: any) {
     if (error.code === "P2025") {
@@ -445,8 +666,8 @@ router.delete("/:id", authenticate, requireRole("admin", "sports_admin"), async
 router.get("/export/:format", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
   try {
     const { format } = req.params;
-    if (!["csv", "excel"].includes(format)) {
-      return res.status(400).json({ error: "Invalid format. Use 'csv' or 'excel'" });
+    if (!["csv", "excel", "pdf"].includes(format)) {
+      return res.status(400).json({ error: "Invalid format. Use 'csv', 'excel' or 'pdf'" });
     }
 
     const sports = await prisma.sport.findMany({
@@ -484,7 +705,7 @@ router.get("/export/:format", authenticate, requireRole("admin"), async (req: Au
       "id", "name", "type", "requiresTeamName", "parent", "active", "venue", "timings", "date",
       "gender", "ageLimitMin", "ageLimitMax", "rules", "adminUsername", "adminEmail", "createdAt", "updatedAt"
     ];
-    sendExport(res, exportData, headers, { filename: "sports", format: format as "csv" | "excel" });
+    await sendExport(res, exportData, headers, { filename: "sports", title: "Sports", format: format as ExportFormat });
   } catch (error: any) {
     res.status(500).json({ error: error.message || "Failed to export sports" });
   }
@@ -0,0 +1,476 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../index";
+import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
+import { ExportFormat, sendExport } from "../utils/export";
+import { renderTeamSheetsPdf, TeamSheet } from "../utils/pdf";
+import { recordAudit } from "./audit";
+
+const router = Router();
+
+const createTeamSchema = z.object({
+  name: z.string().min(1),
+  communityId: z.string().min(1),
+  sportId: z.string().min(1),
+  captainId: z.string().optional().nullable(),
+  memberIds: z.array(z.string()).default([]),
+  notes: z.string().optional().nullable(),
+});
+
+const updateTeamSchema = z.object({
+  name: z.string().min(1).optional(),
+  captainId: z.string().optional().nullable(),
+  memberIds: z.array(z.string()).optional(),
+  notes: z.string().optional().nullable(),
+});
+
+export const teamInclude = {
+  community: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  sport: {
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      minTeamSize: true,
+      maxTeamSize: true,
+    },
+  },
+  captain: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  members: {
+    include: {
+      participant: {
+        select: {
+          id: true,
+          firstName: true,
+          middleName: true,
+          lastName: true,
+          gender: true,
+          email: true,
+          phone: true,
+        },
+      },
+    },
+    orderBy: { createdAt: "asc" as const },
+  },
+};
+
+/**
+ * Resolve the roster for a team into ParticipantSport entries. Members must be accepted,
+ * registered (not waitlisted) for the sport from the team's community, may only play for
+ * one team per sport, and the roster must respect the sport's team size limits.
+ */
+async function resolveRoster(
+  team: { id?: string; communityId: string; sportId: string },
+  sport: { name: string; minTeamSize: number | null; maxTeamSize: number | null },
+  memberIds: string[],
+  captainId: string | null | undefined
+): Promise<{ entryIds: string[] } | { status: number; error: string }> {
+  const participantIds = Array.from(new Set(memberIds));
+
+  if (sport.minTeamSize !== null && participantIds.length < sport.minTeamSize) {
+    return { status: 400, error: `${sport.name} teams need at least ${sport.minTeamSize} members` };
+  }
+  if (sport.maxTeamSize !== null && participantIds.length > sport.maxTeamSize) {
+    return { status: 400, error: `${sport.name} teams can have at most ${sport.maxTeamSize} members` };
+  }
+  if (captainId && !participantIds.includes(captainId)) {
+    return { status: 400, error: "The captain must be a member of the team" };
+  }
+
+  const entries = await prisma.participantSport.findMany({
+    where: {
+      sportId: team.sportId,
+      participantId: { in: participantIds },
+    },
+    include: {
+      participant: {
+        select: { id: true, firstName: true, lastName: true, communityId: true, status: true },
+      },
+      team: {
+        select: { id: true, name: true },
+      },
+    },
+  });
+
+  if (entries.length !== participantIds.length) {
+    return { status: 400, error: `All members must be registered for ${sport.name}` };
+  }
+
+  for (const entry of entries) {
+    const name = `${entry.participant.firstName} ${entry.participant.lastName}`;
+    if (entry.participant.communityId !== team.communityId) {
+      return { status: 400, error: `${name} is not from this team's community` };
+    }
+    if (entry.participant.status !== "accepted") {
+      return { status: 400, error: `${name} has not been accepted` };
+    }
+    if (entry.status === "waitlisted") {
+      return { status: 400, error: `${name} is on the waitlist for ${sport.name}` };
+    }
+    if (entry.team && entry.team.id !== team.id) {
+      return { status: 409, error: `${name} already plays for ${entry.team.name}` };
+    }
+  }
+
+  return { entryIds: entries.map((entry) => entry.id) };
+}
+
+// Audit snapshot of a team: its own fields plus the ids of its members
+function teamSnapshot({ community, sport, captain, members, ...fields }: any) {
+  return {
+    ...fields,
+    memberIds: (members ?? []).map((member: any) => member.participantId).sort(),
+  };
+}
+
+// Community admins can only manage their own community's teams
+function canManageCommunity(req: AuthRequest, communityId: string) {
+  return req.user!.role === "admin" || req.user!.communityId === communityId;
+}
+
+// List teams (optionally filtered by sport or community)
+router.get("/", authenticate, requireRole("admin", "community_admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { sportId, communityId } = req.query;
+
+    const where: any = {};
+    if (sportId) {
+      where.sportId = sportId as string;
+    }
+    if (communityId) {
+      where.communityId = communityId as string;
+    }
+
+    if (req.user!.role === "community_admin") {
+      where.communityId = req.user!.communityId;
+    } else if (req.user!.role === "sports_admin") {
+      where.sportId = req.user!.sportId;
+    }
+
+    const teams = await prisma.team.findMany({
+      where,
+      include: teamInclude,
+      orderBy: [{ sport: { name: "asc" } }, { name: "asc" }],
+    });
+
+    res.json(teams);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to list teams" });
+  }
+});
+
+// Export team sheets (one row per team member, or printable sheets per sport as PDF)
+router.get("/export/:format", authenticate, requireRole("admin", "community_admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { format } = req.params;
+    if (!["csv", "excel", "pdf"].includes(format)) {
+      return res.status(400).json({ error: "Invalid format. Use 'csv', 'excel' or 'pdf'" });
+    }
+
+    const where: any = {};
+    if (req.user!.role === "community_admin") {
+      where.communityId = req.user!.communityId;
+    } else if (req.user!.role === "sports_admin") {
+      where.sportId = req.user!.sportId;
+    }
+
+    const teams = await prisma.team.findMany({
+      where,
+      include: teamInclude,
+      orderBy: [{ sport: { name: "asc" } }, { name: "asc" }],
+    });
+
+    const exportData = teams.flatMap((team) =>
+      team.members.map((member) => ({
+        team: team.name,
+        sport: team.sport.name,
+        community: team.community.name,
+        captain: member.participantId === team.captainId ? "Yes" : "No",
+        firstName: member.participant.firstName,
+        middleName: member.participant.middleName || "",
+        lastName: member.participant.lastName,
+        gender: member.participant.gender,
+        email: member.participant.email,
+        phone: member.participant.phone,
+      }))
+    );
+
+    const headers = [
+      "team", "sport", "community", "captain", "firstName", "middleName", "lastName", "gender", "email", "phone"
+    ];
+
+    const filename = req.user!.role === "community_admin"
+      ? `teams-community-${req.user!.communityId}`
+      : req.user!.role === "sports_admin"
+      ? `teams-sport-${req.user!.sportId}`
+      : "teams";
+
+    // Printed team sheets: one section per sport, grouped by community
+    const sheets = new Map<string, TeamSheet>();
+    for (const team of teams) {
+      const sheet = sheets.get(team.sportId) || { sport: team.sport.name, communities: [] };
+      sheets.set(team.sportId, sheet);
+
+      let community = sheet.communities.find((entry) => entry.name === team.community.name);
+      if (!community) {
+        community = { name: team.community.name, teams: [] };
+        sheet.communities.push(community);
+      }
+      community.teams.push({
+        name: team.name,
+        members: team.members.map((member) => ({
+          name: [member.participant.firstName, member.participant.middleName, member.participant.lastName]
+            .filter(Boolean)
+            .join(" "),
+          gender: member.participant.gender,
+          phone: member.participant.phone,
+          captain: member.participantId === team.captainId,
+        })),
+      });
+    }
+
+    await sendExport(res, exportData, headers, {
+      filename,
+      format: format as ExportFormat,
+      renderPdf: async () => {
+        const settings = await prisma.settings.findFirst();
+        const sorted = [...sheets.values()].map((sheet) => ({
+          ...sheet,
+          communities: sheet.communities.sort((a, b) => a.name.localeCompare(b.name)),
+        }));
+        return renderTeamSheetsPdf(settings?.siteTitle || "Sport Sync", sorted);
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to export teams" });
+  }
+});
+
+// Get team by ID
+router.get("/:id", authenticate, requireRole("admin", "community_admin", "sports_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const team = await prisma.team.findUnique({
+      where: { id },
+      include: teamInclude,
+    });
+
+    if (!team) {
+      return res.status(404).json({ error: "Team not found" });
+    }
+
+    if (
+      (req.user!.role === "community_admin" && team.communityId !== req.user!.communityId) ||
+      (req.user!.role === "sports_admin" && team.sportId !== req.user!.sportId)
+    ) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    res.json(team);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to get team" });
+  }
+});
+
+// Create team
+router.post("/", authenticate, requireRole("admin", "community_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const data = createTeamSchema.parse(req.body);
+
+    if (!canManageCommunity(req, data.communityId)) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    const sport = await prisma.sport.findUnique({
+      where: { id: data.sportId },
+    });
+
+    if (!sport) {
+      return res.status(404).json({ error: "Sport not found" });
+    }
+
+    if (sport.type !== "team") {
+      return res.status(400).json({ error: `${sport.name} is not a team sport` });
+    }
+
+    const community = await prisma.community.findUnique({
+      where: { id: data.communityId },
+    });
+
+    if (!community) {
+      return res.status(404).json({ error: "Community not found" });
+    }
+
+    const roster = await resolveRoster(data, sport, data.memberIds, data.captainId);
+    if ("error" in roster) {
+      return res.status(roster.status).json({ error: roster.error });
+    }
+
+    const team = await prisma.$transaction(async (tx) => {
+      const created = await tx.team.create({
+        data: {
+          name: data.name.trim(),
+          communityId: data.communityId,
+          sportId: data.sportId,
+          captainId: data.captainId ?? null,
+          notes: data.notes ?? null,
+        },
+      });
+
+      await tx.participantSport.updateMany({
+        where: { id: { in: roster.entryIds } },
+        data: { teamId: created.id },
+      });
+
+      return tx.team.findUniqueOrThrow({
+        where: { id: created.id },
+        include: teamInclude,
+      });
+    });
+
+    await recordAudit(req, "create", "team", team.id, null, teamSnapshot(team));
+
+    res.status(201).json(team);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    if (error.code === "P2002") {
+      return res.status(409).json({ error: "This community already has a team with that name for the sport" });
+    }
+    res.status(500).json({ error: error.message || "Failed to create team" });
+  }
+});
+
+// Update team (name, captain, notes or roster)
+router.patch("/:id", authenticate, requireRole("admin", "community_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = updateTeamSchema.parse(req.body);
+
+    const existing = await prisma.team.findUnique({
+      where: { id },
+      include: {
+        sport: true,
+        members: {
+          select: { participantId: true },
+        },
+      },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: "Team not found" });
+    }
+
+    if (!canManageCommunity(req, existing.communityId)) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    // Only a new roster is checked against the rules, so a team whose older members no
+    // longer meet them can still be renamed; a new captain must be on the roster
+    const captainId = data.captainId !== undefined ? data.captainId : existing.captainId;
+    let entryIds: string[] = [];
+    if (data.memberIds) {
+      const roster = await resolveRoster(existing, existing.sport, data.memberIds, captainId);
+      if ("error" in roster) {
+        return res.status(roster.status).json({ error: roster.error });
+      }
+      entryIds = roster.entryIds;
+    } else if (data.captainId && !existing.members.some((member) => member.participantId === data.captainId)) {
+      return res.status(400).json({ error: "The captain must be a member of the team" });
+    }
+
+    const team = await prisma.$transaction(async (tx) => {
+      await tx.team.update({
+        where: { id },
+        data: {
+          name: data.name?.trim(),
+          captainId: data.captainId,
+          notes: data.notes,
+        },
+      });
+
+      if (data.memberIds) {
+        await tx.participantSport.updateMany({
+          where: { teamId: id, id: { notIn: entryIds } },
+          data: { teamId: null },
+        });
+        await tx.participantSport.updateMany({
+          where: { id: { in: entryIds } },
+          data: { teamId: id },
+        });
+      }
+
+      return tx.team.findUniqueOrThrow({
+        where: { id },
+        include: teamInclude,
+      });
+    });
+
+    await recordAudit(req, "update", "team", id, teamSnapshot(existing), teamSnapshot(team));
+
+    res.json(team);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    if (error.code === "P2002") {
+      return res.status(409).json({ error: "This community already has a team with that name for the sport" });
+    }
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Team not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to update team" });
+  }
+});
+
+// Delete team (members stay registered for the sport)
+router.delete("/:id", authenticate, requireRole("admin", "community_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const team = await prisma.team.findUnique({
+      where: { id },
+      include: {
+        members: {
+          select: { participantId: true },
+        },
+      },
+    });
+
+    if (!team) {
+      return res.status(404).json({ error: "Team not found" });
+    }
+
+    if (!canManageCommunity(req, team.communityId)) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    await prisma.team.delete({
+      where: { id },
+    });
+
+    await recordAudit(req, "delete", "team", id, teamSnapshot(team), null);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Team not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to delete team" });
+  }
+});
+
+export default router;
@@ -2,6 +2,9 @@ import { Router, Response } from "express";
 import { z } from "zod";
 import { prisma } from "../index";
 import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
+import { Prisma } from "@prisma/client";
+import { POINTS_SYSTEM_CATEGORY, pointsRulesSchema } from "../utils/points";
+import { recordAudit } from "./audit";
 
 const router = Router();
 
@@ -9,8 +12,22 @@ const createFormatSchema = z.object({
   category: z.string().min(1),
   title: z.string().min(1),
   content: z.string().min(1),
+  rules: z.unknown().optional().nullable(),
 });
 
+const rulesNotSupportedError = `Rules are only supported for the "${POINTS_SYSTEM_CATEGORY}" format`;
+
+// Validate machine-readable rules; only the points system defines any today
+function parseRules(rules: unknown) {
+  if (rules === undefined) {
+    return undefined;
+  }
+  if (rules === null) {
+    return Prisma.JsonNull;
+  }
+  return pointsRulesSchema.parse(rules);
+}
+
 // List all tournament formats
 router.get("/", async (req: AuthRequest, res: Response) => {
   try {
@@ -79,10 +96,21 @@ router.post("/", authenticate, requireRole("admin"), async (req: AuthRequest, re
       });
     }
 
+    if (data.rules != null && data.category !== POINTS_SYSTEM_CATEGORY) {
+      return res.status(400).json({ error: rulesNotSupportedError });
+    }
+
     const format = await prisma.tournamentFormat.create({
-      data,
+      data: {
+        category: data.category,
+        title: data.title,
+        content: data.content,
+        rules: parseRules(data.rules),
+      },
     });
 
+    await recordAudit(req, "create", "tournamentFormat", format.id, null, format);
+
     res.status(201).json(format);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -104,11 +132,29 @@ router.patch("/:id", authenticate, requireRole("admin"), async (req: AuthRequest
     const { id } = req.params;
     const data = createFormatSchema.partial().parse(req.body);
 
+    const existing = await prisma.tournamentFormat.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return res.status(404).json({ error: "Tournament format not found" });
+    }
+
+    const { rules, ...fields } = data;
+    if (rules != null && (fields.category ?? existing.category) !== POINTS_SYSTEM_CATEGORY) {
+      return res.status(400).json({ error: rulesNotSupportedError });
+    }
+
     const format = await prisma.tournamentFormat.update({
       where: { id },
-      data,
+      data: {
+        ...fields,
+        rules: parseRules(rules),
+      },
     });
 
+    await recordAudit(req, "update", "tournamentFormat", id, existing, format);
+
     res.json(format);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -129,10 +175,12 @@ router.delete("/:id", authenticate, requireRole("admin"), async (req: AuthReques
   try {
     const { id } = req.params;
 
-    await prisma.tournamentFormat.delete({
+    const format = await prisma.tournamentFormat.delete({
       where: { id },
     });
 
+    await recordAudit(req, "delete", "tournamentFormat", id, format, null);
+
     res.json({ success: true });
   } catch (error: any) {
     if (error.code === "P2025") {
@@ -4,7 +4,9 @@ import { prisma } from "../index";
 import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
 import { hashPassword } from "../utils/password";
 import { Role } from "@prisma/client";
-import { sendExport } from "../utils/export";
+import { ExportFormat, sendExport } from "../utils/export";
+import { recordAudit } from "./audit";
+import { revokeUserSessions } from "./auth";
 
 const router = Router();
 
@@ -107,6 +109,8 @@ router.post("/", authenticate, requireRole("admin"), async (req: AuthRequest, re
       },
     });
 
+    await recordAudit(req, "create", "user", user.id, null, { ...user, password: hashedPassword });
+
     res.status(201).json(user);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -142,6 +146,14 @@ router.patch("/:id", authenticate, requireRole("admin"), async (req: AuthRequest
       hashedPassword = await hashPassword(data.password);
     }
 
+    const before = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!before) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
     const updateData: any = { ...data };
     if (hashedPassword !== undefined) {
       updateData.password = hashedPassword;
@@ -162,6 +174,13 @@ router.patch("/:id", authenticate, requireRole("admin"), async (req: AuthRequest
       },
     });
 
+    // A new password signs the user out everywhere
+    if (hashedPassword !== undefined) {
+      await revokeUserSessions(id);
+    }
+
+    await recordAudit(req, "update", "user", id, before, { ...user, password: hashedPassword ?? before.password });
+
     res.json(user);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -174,15 +193,42 @@ router.patch("/:id", authenticate, requireRole("admin"), async (req: AuthRequest
   }
 });
 
+// Revoke all sessions for a user (signs them out on every device)
+router.post("/:id/revoke-sessions", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const revoked = await revokeUserSessions(id);
+
+    if (revoked > 0) {
+      await recordAudit(req, "update", "user", id, { activeSessions: revoked }, { activeSessions: 0 });
+    }
+
+    res.json({ success: true, revoked });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to revoke sessions" });
+  }
+});
+
 // Delete user
 router.delete("/:id", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
 
-    await prisma.user.delete({
+    const user = await prisma.user.delete({
       where: { id },
     });
 
+    await recordAudit(req, "delete", "user", id, user, null);
+
     res.json({ success: true });
   } catch (error: any) {
     if (error.code === "P2025") {
@@ -196,8 +242,8 @@ router.delete("/:id", authenticate, requireRole("admin"), async (req: AuthReques
 router.get("/export/:format", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
   try {
     const { format } = req.params;
-    if (!["csv", "excel"].includes(format)) {
-      return res.status(400).json({ error: "Invalid format. Use 'csv' or 'excel'" });
+    if (!["csv", "excel", "pdf"].includes(format)) {
+      return res.status(400).json({ error: "Invalid format. Use 'csv', 'excel' or 'pdf'" });
     }
 
     const users = await prisma.user.findMany({
@@ -243,7 +289,7 @@ router.get("/export/:format", authenticate, requireRole("admin"), async (req: Au
     });
 
     const headers = ["id", "username", "email", "role", "community", "sport", "createdAt", "updatedAt"];
-    sendExport(res, exportData, headers, { filename: "users", format: format as "csv" | "excel" });
+    await sendExport(res, exportData, headers, { filename: "users", title: "Users", format: format as ExportFormat });
   } catch (error: any) {
     res.status(500).json({ error: error.message || "Failed to export users" });
   }
@@ -0,0 +1,312 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../index";
+import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
+import { recordAudit } from "./audit";
+
+const router = Router();
+
+const createVenueSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .transform((value) => value.replace(/\s+/g, " ")),
+  address: z.string().optional().nullable(),
+  capacity: z.number().int().positive().optional().nullable(),
+  surfaces: z.array(z.string().trim().min(1)).optional(),
+  latitude: z.number().min(-90).max(90).optional().nullable(),
+  longitude: z.number().min(-180).max(180).optional().nullable(),
+  accessibilityNotes: z.string().optional().nullable(),
+});
+
+const mergeVenuesSchema = z.object({
+  venueIds: z.array(z.string().min(1)).min(1),
+});
+
+const venueListInclude = {
+  _count: {
+    select: { sports: true, calendarItems: true },
+  },
+};
+
+const venueDetailInclude = {
+  sports: {
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      date: true,
+      timings: true,
+      active: true,
+      parent: { select: { id: true, name: true } },
+    },
+    orderBy: { name: "asc" as const },
+  },
+  calendarItems: {
+    include: {
+      sport: { select: { id: true, name: true } },
+    },
+    orderBy: [{ date: "asc" as const }, { startTime: "asc" as const }],
+  },
+};
+
+// Audit snapshot of a venue: its own fields only
+function venueSnapshot({ _count, sports, calendarItems, ...fields }: any) {
+  return fields;
+}
+
+function findVenueByName(name: string, excludeId?: string) {
+  return prisma.venue.findFirst({
+    where: {
+      name: { equals: name, mode: "insensitive" },
+      id: excludeId ? { not: excludeId } : undefined,
+    },
+  });
+}
+
+/**
+ * Work out the venue link and display name for a sport or calendar item. A `venueId`
+ * wins; otherwise a typed name is linked to the registered venue of that name when there
+ * is one and kept as free text when there isn't. Returns null for an unknown `venueId`.
+ */
+export async function resolveVenue(
+  venueId: string | null | undefined,
+  venue: string | null | undefined
+): Promise<{ venueId: string | null; venue: string | null } | null> {
+  if (venueId) {
+    const found = await prisma.venue.findUnique({ where: { id: venueId } });
+    return found ? { venueId: found.id, venue: found.name } : null;
+  }
+
+  const name = venue?.trim().replace(/\s+/g, " ");
+  if (!name) {
+    return { venueId: null, venue: null };
+  }
+
+  const found = await findVenueByName(name);
+  return found ? { venueId: found.id, venue: found.name } : { venueId: null, venue: name };
+}
+
+function coordinatesError(latitude?: number | null, longitude?: number | null) {
+  if ((latitude == null) !== (longitude == null)) {
+    return "Latitude and longitude must be set together";
+  }
+  return null;
+}
+
+// List venues (public endpoint for the sports and calendar pages)
+router.get("/", async (req, res: Response) => {
+  try {
+    const venues = await prisma.venue.findMany({
+      include: venueListInclude,
+      orderBy: { name: "asc" },
+    });
+
+    res.json(venues);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to list venues" });
+  }
+});
+
+// Get venue with everything scheduled there (public)
+router.get("/:id", async (req, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const venue = await prisma.venue.findUnique({
+      where: { id },
+      include: venueDetailInclude,
+    });
+
+    if (!venue) {
+      return res.status(404).json({ error: "Venue not found" });
+    }
+
+    res.json(venue);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to get venue" });
+  }
+});
+
+// Create venue
+router.post("/", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const data = createVenueSchema.parse(req.body);
+
+    const invalidCoordinates = coordinatesError(data.latitude, data.longitude);
+    if (invalidCoordinates) {
+      return res.status(400).json({ error: invalidCoordinates });
+    }
+    if (await findVenueByName(data.name)) {
+      return res.status(409).json({ error: "A venue with this name already exists" });
+    }
+
+    const venue = await prisma.venue.create({
+      data: {
+        name: data.name,
+        address: data.address || null,
+        capacity: data.capacity ?? null,
+        surfaces: data.surfaces ?? [],
+        latitude: data.latitude ?? null,
+        longitude: data.longitude ?? null,
+        accessibilityNotes: data.accessibilityNotes || null,
+      },
+      include: venueListInclude,
+    });
+
+    await recordAudit(req, "create", "venue", venue.id, null, venueSnapshot(venue));
+
+    res.status(201).json(venue);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    if (error.code === "P2002") {
+      return res.status(409).json({ error: "A venue with this name already exists" });
+    }
+    res.status(500).json({ error: error.message || "Failed to create venue" });
+  }
+});
+
+// Update venue (a rename carries through to its sports and calendar items)
+router.patch("/:id", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = createVenueSchema.partial().parse(req.body);
+
+    const before = await prisma.venue.findUnique({
+      where: { id },
+    });
+
+    if (!before) {
+      return res.status(404).json({ error: "Venue not found" });
+    }
+
+    const invalidCoordinates = coordinatesError(
+      data.latitude !== undefined ? data.latitude : before.latitude,
+      data.longitude !== undefined ? data.longitude : before.longitude
+    );
+    if (invalidCoordinates) {
+      return res.status(400).json({ error: invalidCoordinates });
+    }
+    if (data.name && (await findVenueByName(data.name, id))) {
+      return res.status(409).json({ error: "A venue with this name already exists" });
+    }
+
+    const venue = await prisma.$transaction(async (tx) => {
+      const updated = await tx.venue.update({
+        where: { id },
+        data,
+        include: venueListInclude,
+      });
+
+      if (updated.name !== before.name) {
+        await tx.sport.updateMany({ where: { venueId: id }, data: { venue: updated.name } });
+        await tx.calendarItem.updateMany({ where: { venueId: id }, data: { venue: updated.name } });
+      }
+
+      return updated;
+    });
+
+    await recordAudit(req, "update", "venue", id, venueSnapshot(before), venueSnapshot(venue));
+
+    res.json(venue);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    if (error.code === "P2002") {
+      return res.status(409).json({ error: "A venue with this name already exists" });
+    }
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Venue not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to update venue" });
+  }
+});
+
+// Merge duplicate venues into this one, moving their sports and calendar items across
+router.post("/:id/merge", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { venueIds } = mergeVenuesSchema.parse(req.body);
+    const mergedIds = venueIds.filter((venueId) => venueId !== id);
+
+    const target = await prisma.venue.findUnique({
+      where: { id },
+    });
+
+    if (!target) {
+      return res.status(404).json({ error: "Venue not found" });
+    }
+
+    const merged = await prisma.venue.findMany({
+      where: { id: { in: mergedIds } },
+    });
+
+    if (merged.length !== mergedIds.length) {
+      return res.status(404).json({ error: "One or more venues not found" });
+    }
+
+    const venue = await prisma.$transaction(async (tx) => {
+      await tx.sport.updateMany({
+        where: { venueId: { in: mergedIds } },
+        data: { venueId: id, venue: target.name },
+      });
+      await tx.calendarItem.updateMany({
+        where: { venueId: { in: mergedIds } },
+        data: { venueId: id, venue: target.name },
+      });
+      await tx.venue.deleteMany({
+        where: { id: { in: mergedIds } },
+      });
+
+      return tx.venue.findUniqueOrThrow({
+        where: { id },
+        include: venueListInclude,
+      });
+    });
+
+    for (const removed of merged) {
+      await recordAudit(req, "delete", "venue", removed.id, venueSnapshot(removed), null);
+    }
+
+    res.json(venue);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to merge venues" });
+  }
+});
+
+// Delete venue (its sports and calendar items keep the name as free text)
+router.delete("/:id", authenticate, requireRole("admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const venue = await prisma.venue.findUnique({
+      where: { id },
+    });
+
+    if (!venue) {
+      return res.status(404).json({ error: "Venue not found" });
+    }
+
+    await prisma.venue.delete({
+      where: { id },
+    });
+
+    await recordAudit(req, "delete", "venue", id, venueSnapshot(venue), null);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    if (error.code === "P2025") {
+      return res.status(404).json({ error: "Venue not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to delete venue" });
+  }
+});
+
+export default router;
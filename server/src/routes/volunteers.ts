@@ -4,7 +4,11 @@ import { prisma } from "../index";
 import { authenticate, AuthRequest, requireRole } from "../middleware/auth";
 import { Gender, Role } from "@prisma/client";
 import { hashPassword } from "../utils/password";
-import { sendExport } from "../utils/export";
+import { ExportFormat, sendExport } from "../utils/export";
+import { suggestAssignments, SuggestionTarget } from "../utils/shifts";
+import { sendVerificationEmail } from "./auth";
+import { recordAudit } from "./audit";
+import { findShiftConflicts, shiftInclude, shiftSnapshot } from "./shifts";
 
 const router = Router();
 
@@ -38,8 +42,67 @@ const updateVolunteerSchema = z.object({
   phone: z.string().min(1).optional(),
   password: z.string().min(6).optional(),
   sportId: z.string().optional().nullable(),
+  departmentId: z.string().optional().nullable(),
 });
 
+const availabilitySchema = z.object({
+  windows: z
+    .array(
+      z.object({
+        startTime: z.string().or(z.date()),
+        endTime: z.string().or(z.date()),
+      })
+    )
+    .max(100),
+  preferredDepartmentIds: z.array(z.string()).default([]),
+  preferredSportIds: z.array(z.string()).default([]),
+});
+
+const suggestionsQuerySchema = z.object({
+  kind: z.enum(["shift", "calendarItem"]).optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+});
+
+const acceptSuggestionsSchema = z.object({
+  suggestions: z
+    .array(
+      z.object({
+        kind: z.enum(["shift", "calendarItem"]),
+        targetId: z.string(),
+        volunteerId: z.string(),
+      })
+    )
+    .min(1)
+    .max(200),
+});
+
+function parseDateTime(value: string | Date) {
+  const date = typeof value === "string" ? new Date(value) : value;
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Availability windows and preferences in the shape the volunteer edits them
+async function getAvailability(volunteerId: string) {
+  const volunteer = await prisma.volunteer.findUniqueOrThrow({
+    where: { id: volunteerId },
+    select: {
+      availability: {
+        select: { id: true, startTime: true, endTime: true },
+        orderBy: { startTime: "asc" },
+      },
+      preferredDepartments: { select: { departmentId: true } },
+      preferredSports: { select: { sportId: true } },
+    },
+  });
+
+  return {
+    windows: volunteer.availability,
+    preferredDepartmentIds: volunteer.preferredDepartments.map((preference) => preference.departmentId),
+    preferredSportIds: volunteer.preferredSports.map((preference) => preference.sportId),
+  };
+}
+
 // Get my volunteer (for volunteers)
 router.get("/me", authenticate, async (req: AuthRequest, res: Response) => {
   try {
@@ -158,20 +221,95 @@ router.patch("/me/sport", authenticate, async (req: AuthRequest, res: Response)
   }
 });
 
+// Get my availability and preferences (for volunteers)
+router.get("/me/availability", authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const volunteer = await prisma.volunteer.findUnique({
+      where: { userId: req.user!.id },
+    });
+
+    if (!volunteer) {
+      return res.status(404).json({ error: "Volunteer not found" });
+    }
+
+    res.json(await getAvailability(volunteer.id));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to get availability" });
+  }
+});
+
+// Replace my availability and preferences (for volunteers)
+router.put("/me/availability", authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const data = availabilitySchema.parse(req.body);
+
+    const volunteer = await prisma.volunteer.findUnique({
+      where: { userId: req.user!.id },
+    });
+
+    if (!volunteer) {
+      return res.status(404).json({ error: "Volunteer not found" });
+    }
+
+    const windows = [];
+    for (const window of data.windows) {
+      const startTime = parseDateTime(window.startTime);
+      const endTime = parseDateTime(window.endTime);
+      if (!startTime || !endTime) {
+        return res.status(400).json({ error: "Invalid date format" });
+      }
+      if (endTime <= startTime) {
+        return res.status(400).json({ error: "Each availability window must end after it starts" });
+      }
+      windows.push({ volunteerId: volunteer.id, startTime, endTime });
+    }
+
+    const preferredDepartmentIds = Array.from(new Set(data.preferredDepartmentIds));
+    const preferredSportIds = Array.from(new Set(data.preferredSportIds));
+
+    await prisma.$transaction([
+      prisma.volunteerAvailability.deleteMany({ where: { volunteerId: volunteer.id } }),
+      prisma.volunteerAvailability.createMany({ data: windows }),
+      prisma.volunteerDepartmentPreference.deleteMany({ where: { volunteerId: volunteer.id } }),
+      prisma.volunteerDepartmentPreference.createMany({
+        data: preferredDepartmentIds.map((departmentId) => ({ volunteerId: volunteer.id, departmentId })),
+      }),
+      prisma.volunteerSportPreference.deleteMany({ where: { volunteerId: volunteer.id } }),
+      prisma.volunteerSportPreference.createMany({
+        data: preferredSportIds.map((sportId) => ({ volunteerId: volunteer.id, sportId })),
+      }),
+    ]);
+
+    res.json(await getAvailability(volunteer.id));
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    if (error.code === "P2003") {
+      return res.status(400).json({ error: "Department or sport not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to update availability" });
+  }
+});
+
 // List volunteers
 router.get("/", authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const { sportId } = req.query;
+    const { sportId, departmentId } = req.query;
 
     const where: any = {};
     if (sportId) {
       where.sportId = sportId as string;
     }
+    if (departmentId) {
+      where.departmentId = departmentId as string;
+    }
 
     const volunteers = await prisma.volunteer.findMany({
       where,
       include: {
         sport: true,
+        department: true,
       },
       orderBy: { createdAt: "desc" },
     });
@@ -220,32 +358,41 @@ router.post("/", async (req: AuthRequest, res: Response) => {
     // Hash password
     const hashedPassword = await hashPassword(data.password);
 
-    // Create user account first
-    const user = await prisma.user.create({
-      data: {
-        username: data.username,
-        email: data.email,
-        password: hashedPassword,
-        role: Role.volunteer,
-      },
-    });
+    // The account, the volunteer and the queued confirmation email are created together
+    const volunteer = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.create({
+        data: {
+          username: data.username,
+          email: data.email,
+          password: hashedPassword,
+          role: Role.volunteer,
+        },
+      });
 
-    // Create volunteer
-    const volunteer = await prisma.volunteer.create({
-      data: {
-        firstName: data.firstName,
-        middleName: data.middleName,
-        lastName: data.lastName,
-        gender: data.gender as Gender,
-        dob,
-        email: data.email,
-        phone: data.phone,
-        sportId: data.sportId,
-        userId: user.id,
-      },
-      include: {
-        sport: true,
-      },
+      const volunteer = await tx.volunteer.create({
+        data: {
+          firstName: data.firstName,
+          middleName: data.middleName,
+          lastName: data.lastName,
+          gender: data.gender as Gender,
+          dob,
+          email: data.email,
+          phone: data.phone,
+          sportId: data.sportId,
+          userId: user.id,
+        },
+        include: {
+          sport: true,
+        },
+      });
+
+      await sendVerificationEmail(
+        tx,
+        { id: user.id, email: data.email, name: `${data.firstName} ${data.lastName}` },
+        "volunteer_registration"
+      );
+
+      return volunteer;
     });
 
     res.status(201).json(volunteer);
@@ -253,23 +400,18 @@ router.post("/", async (req: AuthRequest, res: Response) => {
     if (error.name === "ZodError") {
       return res.status(400).json({ error: "Invalid input", details: error.errors });
     }
-    // If user creation succeeded but volunteer creation failed, clean up user
     if (error.code === "P2002") {
-      const email = req.body?.email;
-      if (email) {
-        try {
-          await prisma.user.deleteMany({
-            where: { email },
-          });
-        } catch (cleanupError) {
-          // Ignore cleanup errors
-        }
-      }
+      return res.status(409).json({ error: "An account with this username or email already exists" });
     }
     res.status(500).json({ error: error.message || "Failed to create volunteer" });
   }
 });
 
+// Audit snapshot of a volunteer: their own fields plus their account's username and password
+function volunteerSnapshot({ sport, department, user, ...fields }: any) {
+  return { ...fields, username: user?.username ?? null, password: user?.password ?? null };
+}
+
 // Update volunteer
 router.patch("/:id", authenticate, requireRole("admin", "volunteer_admin"), async (req: AuthRequest, res: Response) => {
   try {
@@ -278,7 +420,7 @@ router.patch("/:id", authenticate, requireRole("admin", "volunteer_admin"), asyn
 
     const volunteerRecord = await prisma.volunteer.findUnique({
       where: { id },
-      select: { userId: true, email: true },
+      include: { user: { select: { username: true, password: true } } },
     });
 
     if (!volunteerRecord) {
@@ -309,6 +451,7 @@ router.patch("/:id", authenticate, requireRole("admin", "volunteer_admin"), asyn
       data: volunteerData,
       include: {
         sport: true,
+        department: true,
       },
     });
 
@@ -323,13 +466,24 @@ router.patch("/:id", authenticate, requireRole("admin", "volunteer_admin"), asyn
       userUpdateData.password = await hashPassword(newPassword);
     }
 
+    let account = volunteerRecord.user;
     if (Object.keys(userUpdateData).length > 0) {
-      await prisma.user.update({
+      account = await prisma.user.update({
         where: { id: volunteerRecord.userId },
         data: userUpdateData,
+        select: { username: true, password: true },
       });
     }
 
+    await recordAudit(
+      req,
+      "update",
+      "volunteer",
+      id,
+      volunteerSnapshot(volunteerRecord),
+      volunteerSnapshot({ ...volunteer, user: account })
+    );
+
     res.json(volunteer);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -342,12 +496,192 @@ router.patch("/:id", authenticate, requireRole("admin", "volunteer_admin"), asyn
   }
 });
 
+// Suggest volunteers for understaffed shifts and calendar items whose sport has no volunteer
+router.get("/suggestions", authenticate, requireRole("admin", "volunteer_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const query = suggestionsQuerySchema.parse(req.query);
+
+    const from = query.from ? parseDateTime(query.from) : new Date();
+    const to = query.to ? parseDateTime(query.to) : undefined;
+    if (!from || to === null) {
+      return res.status(400).json({ error: "Invalid date format" });
+    }
+
+    const volunteers = await prisma.volunteer.findMany({
+      include: {
+        availability: true,
+        preferredDepartments: { select: { departmentId: true } },
+        preferredSports: { select: { sportId: true } },
+        shiftAssignments: {
+          select: { shift: { select: { startTime: true, endTime: true } } },
+        },
+      },
+    });
+
+    const targets: SuggestionTarget[] = [];
+
+    if (query.kind !== "calendarItem") {
+      const shifts = await prisma.shift.findMany({
+        where: { startTime: { gte: from, lte: to } },
+        include: { assignments: { select: { volunteerId: true } } },
+      });
+      for (const shift of shifts) {
+        targets.push({
+          kind: "shift",
+          id: shift.id,
+          label: shift.title,
+          startTime: shift.startTime,
+          endTime: shift.endTime,
+          departmentId: shift.departmentId,
+          sportId: shift.sportId,
+          openSlots: shift.requiredCount - shift.assignments.length,
+          excludedVolunteerIds: shift.assignments.map((assignment) => assignment.volunteerId),
+        });
+      }
+    }
+
+    if (query.kind !== "shift") {
+      const dayStart = new Date(from);
+      dayStart.setUTCHours(0, 0, 0, 0);
+      const items = await prisma.calendarItem.findMany({
+        where: { date: { gte: dayStart, lte: to } },
+        include: { sport: { select: { name: true } } },
+        orderBy: { date: "asc" },
+      });
+      const coveredSportIds = new Set(volunteers.map((volunteer) => volunteer.sportId).filter(Boolean));
+      for (const item of items) {
+        if (coveredSportIds.has(item.sportId)) continue;
+        coveredSportIds.add(item.sportId);
+
+        // Items without a structured start/end take up their whole day
+        const itemDay = new Date(item.date);
+        itemDay.setUTCHours(0, 0, 0, 0);
+        targets.push({
+          kind: "calendarItem",
+          id: item.id,
+          label: `${item.sport.name} ${item.type} (${item.time}, ${item.venue})`,
+          startTime: item.startTime ?? itemDay,
+          endTime: item.endTime ?? new Date(itemDay.getTime() + 24 * 60 * 60 * 1000),
+          departmentId: null,
+          sportId: item.sportId,
+          openSlots: 1,
+          excludedVolunteerIds: [],
+        });
+      }
+    }
+
+    const suggestions = suggestAssignments(
+      targets,
+      volunteers.map((volunteer) => ({
+        id: volunteer.id,
+        name: `${volunteer.firstName} ${volunteer.lastName}`,
+        departmentId: volunteer.departmentId,
+        sportId: volunteer.sportId,
+        availability: volunteer.availability,
+        preferredDepartmentIds: volunteer.preferredDepartments.map((preference) => preference.departmentId),
+        preferredSportIds: volunteer.preferredSports.map((preference) => preference.sportId),
+        commitments: volunteer.shiftAssignments.map((assignment) => assignment.shift),
+      }))
+    );
+
+    res.json(suggestions);
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    res.status(500).json({ error: error.message || "Failed to suggest volunteers" });
+  }
+});
+
+// Accept one or more suggestions. Each is re-checked and applied on its own, so one stale
+// suggestion doesn't block the rest.
+router.post("/suggestions/accept", authenticate, requireRole("admin", "volunteer_admin"), async (req: AuthRequest, res: Response) => {
+  try {
+    const data = acceptSuggestionsSchema.parse(req.body);
+
+    let accepted = 0;
+    const failed: Array<{ kind: string; targetId: string; volunteerId: string; error: string }> = [];
+
+    for (const suggestion of data.suggestions) {
+      const fail = (error: string) => failed.push({ ...suggestion, error });
+
+      if (suggestion.kind === "shift") {
+        const shift = await prisma.shift.findUnique({
+          where: { id: suggestion.targetId },
+          include: shiftInclude,
+        });
+        if (!shift) {
+          fail("Shift not found");
+          continue;
+        }
+        if (shift.assignments.some((assignment) => assignment.volunteerId === suggestion.volunteerId)) {
+          fail("Volunteer is already on this shift");
+          continue;
+        }
+        if (shift.assignments.length >= shift.requiredCount) {
+          fail("Shift is already fully staffed");
+          continue;
+        }
+        const conflicts = await findShiftConflicts(shift, [suggestion.volunteerId]);
+        if (conflicts.length > 0) {
+          fail(`Volunteer is already on "${conflicts[0].shiftTitle}" at that time`);
+          continue;
+        }
+
+        const updated = await prisma.shift.update({
+          where: { id: shift.id },
+          data: { assignments: { create: { volunteerId: suggestion.volunteerId } } },
+          include: shiftInclude,
+        });
+        await recordAudit(req, "update", "shift", shift.id, shiftSnapshot(shift), shiftSnapshot(updated));
+      } else {
+        const item = await prisma.calendarItem.findUnique({
+          where: { id: suggestion.targetId },
+        });
+        if (!item) {
+          fail("Calendar item not found");
+          continue;
+        }
+        const volunteer = await prisma.volunteer.findUnique({
+          where: { id: suggestion.volunteerId },
+        });
+        if (!volunteer) {
+          fail("Volunteer not found");
+          continue;
+        }
+        if (volunteer.sportId && volunteer.sportId !== item.sportId) {
+          fail("Volunteer is already assigned to another sport");
+          continue;
+        }
+
+        await prisma.volunteer.update({
+          where: { id: volunteer.id },
+          data: { sportId: item.sportId },
+        });
+        await recordAudit(req, "update", "volunteer", volunteer.id, { sportId: volunteer.sportId }, { sportId: item.sportId });
+      }
+
+      accepted++;
+    }
+
+    res.json({ accepted, failed });
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    if (error.code === "P2003") {
+      return res.status(400).json({ error: "Volunteer not found" });
+    }
+    res.status(500).json({ error: error.message || "Failed to accept suggestions" });
+  }
+});
+
 // Export volunteers
 router.get("/export/:format", authenticate, requireRole("admin", "volunteer_admin"), async (req: AuthRequest, res: Response) => {
   try {
     const { format } = req.params;
-    if (!["csv", "excel"].includes(format)) {
-      return res.status(400).json({ error: "Invalid format. Use 'csv' or 'excel'" });
+    if (!["csv", "excel", "pdf"].includes(format)) {
+      return res.status(400).json({ error: "Invalid format. Use 'csv', 'excel' or 'pdf'" });
     }
 
     const { sportId } = req.query;
@@ -390,7 +724,7 @@ router.get("/export/:format", authenticate, requireRole("admin", "volunteer_admi
     });
 
     const headers = ["id", "firstName", "middleName", "lastName", "gender", "dob", "email", "phone", "sport", "createdAt", "updatedAt"];
-    sendExport(res, exportData, headers, { filename: "volunteers", format: format as "csv" | "excel" });
+    await sendExport(res, exportData, headers, { filename: "volunteers", title: "Volunteers", format: format as ExportFormat });
   } catch (error: any) {
     res.status(500).json({ error: error.message || "Failed to export volunteers" });
   }
@@ -18,6 +18,7 @@ export interface JwtPayload {
   userId: string;
   username: string;
   role: Role;
+  sessionId: string;
 }
 
 
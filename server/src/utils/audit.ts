@@ -0,0 +1,44 @@
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type AuditRecord = Record<string, unknown>;
+
+// Timestamps change on every write and would drown out the real changes
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+// Secrets are recorded as changed without storing their values
+const REDACTED_FIELDS = new Set(["password", "adminPassword"]);
+const REDACTED = "[redacted]";
+
+function normalize(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+/**
+ * Field-level diff between two snapshots of an entity. Pass null for `before` on create
+ * and for `after` on delete, so every field is recorded on one side.
+ */
+export function diffRecords(before: AuditRecord | null, after: AuditRecord | null): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const previous = normalize(before?.[field]);
+    const next = normalize(after?.[field]);
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+
+    if (REDACTED_FIELDS.has(field)) {
+      changes[field] = {
+        before: previous === null ? null : REDACTED,
+        after: next === null ? null : REDACTED,
+      };
+    } else {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,128 @@
+import jwt from "jsonwebtoken";
+import QRCode from "qrcode";
+import { PdfDocument, renderPdf } from "./pdf";
+
+// Badges are printed once, so credentials do not expire. Check-in only accepts tokens for the
+// check-in audience, which access tokens lack, and the API rejects badges as they name no
+// session. Setting CREDENTIAL_SECRET also signs them with a key of their own.
+const CREDENTIAL_AUDIENCE = "check-in";
+
+function credentialSecret(): string {
+  const secret = process.env.CREDENTIAL_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("CREDENTIAL_SECRET or JWT_SECRET environment variable must be set");
+  }
+  return secret;
+}
+
+export type CredentialHolderType = "participant" | "volunteer";
+
+export interface Credential {
+  type: CredentialHolderType;
+  id: string;
+}
+
+export interface BadgeDetails {
+  eventTitle: string;
+  name: string;
+  roleLabel: string;
+  lines: string[];
+  token: string;
+}
+
+export function signCredential(credential: Credential): string {
+  return jwt.sign({ typ: credential.type }, credentialSecret(), {
+    subject: credential.id,
+    audience: CREDENTIAL_AUDIENCE,
+  });
+}
+
+export function verifyCredential(token: string): Credential | null {
+  const secret = credentialSecret();
+  try {
+    const payload = jwt.verify(token.trim(), secret, { audience: CREDENTIAL_AUDIENCE }) as jwt.JwtPayload;
+    if (!payload.sub || (payload.typ !== "participant" && payload.typ !== "volunteer")) {
+      return null;
+    }
+    return { type: payload.typ, id: payload.sub };
+  } catch {
+    return null;
+  }
+}
+
+export function credentialQrDataUrl(token: string): Promise<string> {
+  return QRCode.toDataURL(token, { errorCorrectionLevel: "M", margin: 1, width: 320 });
+}
+
+function qrBuffer(token: string): Promise<Buffer> {
+  return QRCode.toBuffer(token, { errorCorrectionLevel: "M", margin: 1, width: 600 });
+}
+
+// Lay a badge out inside the given box (A6 proportions)
+function drawBadge(doc: PdfDocument, badge: BadgeDetails, qr: Buffer, x: number, y: number, width: number, height: number) {
+  const padding = 24;
+  const textWidth = width - padding * 2;
+  doc.x = x + padding;
+  doc.y = y + padding;
+
+  doc.font("Helvetica-Bold").fontSize(12).fillColor("#000000").text(badge.eventTitle, { align: "center", width: textWidth });
+  doc.moveDown(0.5);
+  doc.fontSize(18).text(badge.name, { align: "center", width: textWidth });
+  doc.font("Helvetica").fontSize(10).fillColor("#555555").text(badge.roleLabel.toUpperCase(), { align: "center", width: textWidth });
+  doc.moveDown(0.5);
+
+  const qrSize = Math.min(160, height / 2);
+  doc.image(qr, x + (width - qrSize) / 2, doc.y, { width: qrSize, height: qrSize });
+  doc.y += qrSize + 8;
+
+  doc.fillColor("#000000").fontSize(9);
+  for (const line of badge.lines) {
+    doc.text(line, x + padding, doc.y, { align: "center", width: textWidth });
+  }
+}
+
+/**
+ * Render an A6 badge with the holder's details and their QR credential.
+ */
+export async function renderBadgePdf(badge: BadgeDetails): Promise<Buffer> {
+  const qr = await qrBuffer(badge.token);
+
+  return renderPdf(
+    { size: "A6", margin: 0 },
+    (doc) => drawBadge(doc, badge, qr, 0, 0, doc.page.width, doc.page.height),
+    { pageNumbers: false }
+  );
+}
+
+/**
+ * Render badges four to an A4 page (each an A6 quarter) with dashed cutting guides.
+ */
+export async function renderBadgeSheetPdf(badges: BadgeDetails[]): Promise<Buffer> {
+  const qrs = await Promise.all(badges.map((badge) => qrBuffer(badge.token)));
+
+  return renderPdf(
+    { size: "A4", margin: 0 },
+    (doc) => {
+      const width = doc.page.width / 2;
+      const height = doc.page.height / 2;
+
+      if (badges.length === 0) {
+        doc.font("Helvetica").fontSize(12).text("No accepted participants to print badges for.", 40, 40);
+        return;
+      }
+
+      badges.forEach((badge, index) => {
+        const slot = index % 4;
+        if (slot === 0) {
+          if (index > 0) doc.addPage();
+          doc.save().dash(4, { space: 4 }).lineWidth(0.5).strokeColor("#999999");
+          doc.moveTo(width, 0).lineTo(width, doc.page.height).stroke();
+          doc.moveTo(0, height).lineTo(doc.page.width, height).stroke();
+          doc.restore();
+        }
+        drawBadge(doc, badge, qrs[index], (slot % 2) * width, Math.floor(slot / 2) * height, width, height);
+      });
+    },
+    { pageNumbers: false }
+  );
+}
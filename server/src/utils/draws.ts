@@ -0,0 +1,282 @@
+import { DrawFormat, MatchBracket, MatchSlot } from "@prisma/client";
+
+/**
+ * A side in a draw: a community, one of its teams, or a single participant
+ */
+export interface DrawEntrant {
+  communityId?: string;
+  teamId?: string;
+  participantId?: string;
+}
+
+export interface PlannedMatch {
+  key: string;
+  bracket: MatchBracket;
+  group: string | null;
+  round: number;
+  matchNumber: number;
+  home: DrawEntrant | null;
+  away: DrawEntrant | null;
+  next: { key: string; slot: MatchSlot } | null;
+  loser: { key: string; slot: MatchSlot } | null;
+}
+
+export interface DrawOptions {
+  groupCount?: number;
+}
+
+type SlotSource =
+  | { kind: "entrant"; entrant: DrawEntrant }
+  | { kind: "winner"; key: string }
+  | { kind: "loser"; key: string }
+  | null;
+
+interface DraftMatch {
+  key: string;
+  bracket: MatchBracket;
+  group: string | null;
+  round: number;
+  home: SlotSource;
+  away: SlotSource;
+}
+
+type ResolvedSlot =
+  | { kind: "entrant"; entrant: DrawEntrant }
+  | { kind: "winner"; key: string }
+  | { kind: "loser"; key: string }
+  | { kind: "dead" };
+
+/**
+ * Build the full list of matches for a draw. Entrants are expected in seeding order
+ * (first entry is the top seed).
+ */
+export function planDraw(format: DrawFormat, entrants: DrawEntrant[], options: DrawOptions = {}): PlannedMatch[] {
+  if (entrants.length < 2) {
+    throw new Error("At least two entrants are required to generate a draw");
+  }
+
+  switch (format) {
+    case "single_elimination":
+      return resolveDraft(buildEliminationDraft(entrants, false));
+    case "double_elimination":
+      return resolveDraft(buildEliminationDraft(entrants, true));
+    case "round_robin":
+      return planRoundRobin(entrants, options.groupCount ?? 1);
+    default:
+      throw new Error(`Unsupported draw format: ${format}`);
+  }
+}
+
+/**
+ * Standard bracket seeding positions, e.g. size 8 -> [1, 8, 4, 5, 2, 7, 3, 6]
+ */
+function seedPositions(size: number): number[] {
+  let positions = [1];
+  while (positions.length < size) {
+    const roundSize = positions.length * 2;
+    positions = positions.flatMap((seed) => [seed, roundSize + 1 - seed]);
+  }
+  return positions;
+}
+
+function buildEliminationDraft(entrants: DrawEntrant[], doubleElimination: boolean): DraftMatch[] {
+  const size = Math.pow(2, Math.ceil(Math.log2(entrants.length)));
+  const rounds = Math.log2(size);
+  const drafts: DraftMatch[] = [];
+  let counter = 0;
+  const add = (bracket: MatchBracket, round: number, home: SlotSource, away: SlotSource) => {
+    const key = `m${++counter}`;
+    drafts.push({ key, bracket, group: null, round, home, away });
+    return key;
+  };
+
+  // Winners bracket; seeds beyond the entrant count are byes (null slots)
+  const slots: SlotSource[] = seedPositions(size).map((seed) =>
+    seed <= entrants.length ? { kind: "entrant", entrant: entrants[seed - 1] } : null
+  );
+  const winnersByRound: string[][] = [];
+  let current = slots;
+  for (let round = 1; round <= rounds; round++) {
+    const keys: string[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      keys.push(add("winners", round, current[i], current[i + 1]));
+    }
+    winnersByRound.push(keys);
+    current = keys.map((key) => ({ kind: "winner", key }));
+  }
+
+  if (!doubleElimination) {
+    return drafts;
+  }
+
+  const losersOf = (round: number): SlotSource[] =>
+    winnersByRound[round - 1].map((key) => ({ kind: "loser", key }));
+
+  // Losers bracket: an opening round among first-round losers, then alternating
+  // drop-in rounds (losers from the winners bracket join) and consolidation rounds.
+  let losersRound = 0;
+  let survivors: SlotSource[];
+  if (rounds === 1) {
+    survivors = losersOf(1);
+  } else {
+    losersRound++;
+    const opening = losersOf(1);
+    survivors = [];
+    for (let i = 0; i < opening.length; i += 2) {
+      survivors.push({ kind: "winner", key: add("losers", losersRound, opening[i], opening[i + 1]) });
+    }
+
+    for (let round = 2; round <= rounds; round++) {
+      // Reverse the drop-in order on alternate rounds to avoid immediate rematches
+      const dropping = round % 2 === 0 ? losersOf(round).reverse() : losersOf(round);
+      losersRound++;
+      survivors = survivors.map((survivor, i) => ({
+        kind: "winner",
+        key: add("losers", losersRound, survivor, dropping[i]),
+      }));
+
+      if (round < rounds) {
+        losersRound++;
+        const next: SlotSource[] = [];
+        for (let i = 0; i < survivors.length; i += 2) {
+          next.push({ kind: "winner", key: add("losers", losersRound, survivors[i], survivors[i + 1]) });
+        }
+        survivors = next;
+      }
+    }
+  }
+
+  const winnersFinal = winnersByRound[rounds - 1][0];
+  add("grand_final", 1, { kind: "winner", key: winnersFinal }, survivors[0]);
+
+  return drafts;
+}
+
+/**
+ * Collapse matches that can never be played (byes, or losers-bracket slots fed by a bye)
+ * so their single live entrant moves straight to the following match, then wire up
+ * winner/loser progression between the matches that remain.
+ */
+function resolveDraft(drafts: DraftMatch[]): PlannedMatch[] {
+  const passThrough = new Map<string, ResolvedSlot>();
+  const kept: Array<{ draft: DraftMatch; home: ResolvedSlot; away: ResolvedSlot }> = [];
+
+  const resolve = (source: SlotSource): ResolvedSlot => {
+    if (!source) return { kind: "dead" };
+    if (source.kind === "entrant") return source;
+    const collapsed = passThrough.get(source.key);
+    if (!collapsed) return source;
+    // A collapsed match was never played, so it has no loser
+    return source.kind === "winner" ? collapsed : { kind: "dead" };
+  };
+
+  for (const draft of drafts) {
+    const home = resolve(draft.home);
+    const away = resolve(draft.away);
+    if (home.kind === "dead" || away.kind === "dead") {
+      passThrough.set(draft.key, home.kind === "dead" ? away : home);
+      continue;
+    }
+    kept.push({ draft, home, away });
+  }
+
+  // Renumber rounds and matches so collapsed rounds leave no gaps
+  const roundMaps = new Map<MatchBracket, Map<number, number>>();
+  const matchCounters = new Map<string, number>();
+  const planned = new Map<string, PlannedMatch>();
+
+  for (const { draft, home, away } of kept) {
+    let roundMap = roundMaps.get(draft.bracket);
+    if (!roundMap) {
+      roundMap = new Map();
+      roundMaps.set(draft.bracket, roundMap);
+    }
+    if (!roundMap.has(draft.round)) {
+      roundMap.set(draft.round, roundMap.size + 1);
+    }
+    const round = roundMap.get(draft.round)!;
+    const counterKey = `${draft.bracket}:${round}`;
+    const matchNumber = (matchCounters.get(counterKey) ?? 0) + 1;
+    matchCounters.set(counterKey, matchNumber);
+
+    planned.set(draft.key, {
+      key: draft.key,
+      bracket: draft.bracket,
+      group: draft.group,
+      round,
+      matchNumber,
+      home: home.kind === "entrant" ? home.entrant : null,
+      away: away.kind === "entrant" ? away.entrant : null,
+      next: null,
+      loser: null,
+    });
+  }
+
+  for (const { draft, home, away } of kept) {
+    const sides: Array<[ResolvedSlot, MatchSlot]> = [[home, "home"], [away, "away"]];
+    for (const [slot, side] of sides) {
+      if (slot.kind === "winner") {
+        planned.get(slot.key)!.next = { key: draft.key, slot: side };
+      } else if (slot.kind === "loser") {
+        planned.get(slot.key)!.loser = { key: draft.key, slot: side };
+      }
+    }
+  }
+
+  return Array.from(planned.values());
+}
+
+/**
+ * Round robin using the circle method. With more than one group, entrants are
+ * distributed in snake order so seeds are spread evenly across groups.
+ */
+function planRoundRobin(entrants: DrawEntrant[], groupCount: number): PlannedMatch[] {
+  const groups = Math.max(1, Math.min(groupCount, Math.floor(entrants.length / 2)));
+  const members: DrawEntrant[][] = Array.from({ length: groups }, () => []);
+  entrants.forEach((entrant, index) => {
+    const lap = Math.floor(index / groups);
+    const position = index % groups;
+    members[lap % 2 === 0 ? position : groups - 1 - position].push(entrant);
+  });
+
+  const matches: PlannedMatch[] = [];
+  const matchCounters = new Map<number, number>();
+  let counter = 0;
+
+  members.forEach((groupEntrants, groupIndex) => {
+    const group = groups > 1 ? `Group ${String.fromCharCode(65 + groupIndex)}` : null;
+    const rotation: Array<DrawEntrant | null> = [...groupEntrants];
+    if (rotation.length % 2 === 1) {
+      rotation.push(null);
+    }
+
+    for (let round = 1; round < rotation.length; round++) {
+      for (let i = 0; i < rotation.length / 2; i++) {
+        let home = rotation[i];
+        let away = rotation[rotation.length - 1 - i];
+        if (!home || !away) continue;
+        // Alternate home/away for the fixed entrant so it is not always at home
+        if (i === 0 && round % 2 === 0) {
+          [home, away] = [away, home];
+        }
+        const matchNumber = (matchCounters.get(round) ?? 0) + 1;
+        matchCounters.set(round, matchNumber);
+        matches.push({
+          key: `m${++counter}`,
+          bracket: "group",
+          group,
+          round,
+          matchNumber,
+          home,
+          away,
+          next: null,
+          loser: null,
+        });
+      }
+      // Keep the first entrant fixed and rotate the rest clockwise
+      rotation.splice(1, 0, rotation.pop()!);
+    }
+  });
+
+  return matches;
+}
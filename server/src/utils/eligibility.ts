@@ -0,0 +1,102 @@
+import { Gender } from "@prisma/client";
+
+export interface EligibilitySport {
+  id: string;
+  name: string;
+  gender: Gender | null;
+  ageLimitMin: number | null;
+  ageLimitMax: number | null;
+  parent?: {
+    gender: Gender | null;
+    ageLimitMin: number | null;
+    ageLimitMax: number | null;
+  } | null;
+}
+
+export interface EligibilityParticipant {
+  dob: Date;
+  gender?: Gender | null;
+}
+
+export interface EligibilityResult {
+  sportId: string;
+  sportName: string;
+  eligible: boolean;
+  age: number;
+  gender: Gender | null;
+  ageLimitMin: number | null;
+  ageLimitMax: number | null;
+  reasons: string[];
+}
+
+/**
+ * Age in whole years on the reference date (the configured age calculator date).
+ * Dates are stored as UTC midnight, so compare UTC components.
+ */
+export function calculateAge(dob: Date, referenceDate: Date): number {
+  let age = referenceDate.getUTCFullYear() - dob.getUTCFullYear();
+  const monthDiff = referenceDate.getUTCMonth() - dob.getUTCMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && referenceDate.getUTCDate() < dob.getUTCDate())) {
+    age--;
+  }
+  return age;
+}
+
+/**
+ * Check a participant against a sport's restrictions. Subsports without their own
+ * gender or age limits inherit those of their parent sport.
+ */
+export function checkSportEligibility(
+  sport: EligibilitySport,
+  participant: EligibilityParticipant,
+  referenceDate: Date
+): EligibilityResult {
+  const age = calculateAge(participant.dob, referenceDate);
+  const gender = sport.gender ?? sport.parent?.gender ?? null;
+  const ageLimitMin = sport.ageLimitMin ?? sport.parent?.ageLimitMin ?? null;
+  const ageLimitMax = sport.ageLimitMax ?? sport.parent?.ageLimitMax ?? null;
+  const reasons: string[] = [];
+
+  if (participant.gender && gender && gender !== "mixed" && gender !== participant.gender) {
+    reasons.push(`${sport.name} is only open to ${gender} participants`);
+  }
+
+  if (ageLimitMin !== null && age < ageLimitMin) {
+    reasons.push(`${sport.name} requires a minimum age of ${ageLimitMin} (age on ${formatDate(referenceDate)} is ${age})`);
+  }
+  if (ageLimitMax !== null && age > ageLimitMax) {
+    reasons.push(`${sport.name} has a maximum age of ${ageLimitMax} (age on ${formatDate(referenceDate)} is ${age})`);
+  }
+
+  return {
+    sportId: sport.id,
+    sportName: sport.name,
+    eligible: reasons.length === 0,
+    age,
+    gender,
+    ageLimitMin,
+    ageLimitMax,
+    reasons,
+  };
+}
+
+export function findIneligibleSports(
+  sports: EligibilitySport[],
+  participant: EligibilityParticipant,
+  referenceDate: Date
+): EligibilityResult[] {
+  return sports
+    .map((sport) => checkSportEligibility(sport, participant, referenceDate))
+    .filter((result) => !result.eligible);
+}
+
+/**
+ * Single error message summarising every ineligible sport
+ */
+export function formatIneligibilityError(results: EligibilityResult[]): string {
+  return `Not eligible for the selected sports: ${results.flatMap((result) => result.reasons).join("; ")}`;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,299 @@
+export type EmailTemplateKey =
+  | "participant_registration"
+  | "volunteer_registration"
+  | "verification_resend"
+  | "password_reset"
+  | "participant_accepted"
+  | "participant_rejected"
+  | "waitlist_promoted"
+  | "contact_notification"
+  | "contact_confirmation";
+
+export interface EmailTemplateContent {
+  subject: string;
+  textBody: string;
+  htmlBody: string | null; // Null sends the escaped text body with line breaks
+}
+
+export interface EmailTemplateDefinition {
+  key: EmailTemplateKey;
+  name: string;
+  description: string;
+  placeholders: string[];
+  sample: Record<string, string>; // Values used for previews and test sends
+  defaults: EmailTemplateContent;
+}
+
+export type TemplateValues = Record<string, string | null | undefined>;
+
+export interface RenderedEmail {
+  subject: string;
+  body: string;
+  html: string;
+}
+
+// Fallback for {{siteTitle}} until one is set in Settings, matching the site header
+export const DEFAULT_SITE_TITLE = "FOF 2026";
+
+// Placeholders a bulk message can use; each recipient's values are filled in
+export const CAMPAIGN_PLACEHOLDERS = ["name", "firstName", "community", "sports", "siteTitle"];
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+const sampleLink = "https://example.org/link";
+
+export const EMAIL_TEMPLATES: Record<EmailTemplateKey, EmailTemplateDefinition> = {
+  participant_registration: {
+    key: "participant_registration",
+    name: "Registration received",
+    description: "Sent when a participant registers. Contains the link to confirm their email address.",
+    placeholders: ["name", "community", "sports", "link", "siteTitle"],
+    sample: { name: "Jane Doe", community: "Nairobi", sports: "Football, Netball", link: sampleLink },
+    defaults: {
+      subject: "{{siteTitle}} - Confirm your email address",
+      textBody: `Dear {{name}},
+
+Thank you for registering for {{siteTitle}}! Your registration for {{sports}} with {{community}} has been received and is currently pending approval. You will receive another email once it has been reviewed by our team.
+
+Please confirm your email address by opening the link below. It expires in 7 days.
+
+{{link}}
+
+If you did not register for {{siteTitle}}, you can ignore this email.
+
+Best regards,
+{{siteTitle}} Team`,
+      htmlBody: null,
+    },
+  },
+  volunteer_registration: {
+    key: "volunteer_registration",
+    name: "Volunteer sign-up received",
+    description: "Sent when a volunteer signs up. Contains the link to confirm their email address.",
+    placeholders: ["name", "link", "siteTitle"],
+    sample: { name: "Jane Doe", link: sampleLink },
+    defaults: {
+      subject: "{{siteTitle}} - Confirm your email address",
+      textBody: `Dear {{name}},
+
+Thank you for signing up to volunteer at {{siteTitle}}! We have received your details and will be in touch about your role.
+
+Please confirm your email address by opening the link below. It expires in 7 days.
+
+{{link}}
+
+If you did not sign up for {{siteTitle}}, you can ignore this email.
+
+Best regards,
+{{siteTitle}} Team`,
+      htmlBody: null,
+    },
+  },
+  verification_resend: {
+    key: "verification_resend",
+    name: "Email confirmation link",
+    description: "Sent when someone asks for a new link to confirm their email address.",
+    placeholders: ["name", "link", "siteTitle"],
+    sample: { name: "Jane Doe", link: sampleLink },
+    defaults: {
+      subject: "{{siteTitle}} - Confirm your email address",
+      textBody: `Dear {{name}},
+
+You asked us to resend the link to confirm your email address.
+
+Please confirm your email address by opening the link below. It expires in 7 days.
+
+{{link}}
+
+If you did not register for {{siteTitle}}, you can ignore this email.
+
+Best regards,
+{{siteTitle}} Team`,
+      htmlBody: null,
+    },
+  },
+  password_reset: {
+    key: "password_reset",
+    name: "Password reset",
+    description: "Sent when someone asks to reset their password. Contains a one-time link.",
+    placeholders: ["name", "username", "link", "siteTitle"],
+    sample: { name: "Jane", username: "janedoe", link: sampleLink },
+    defaults: {
+      subject: "{{siteTitle}} - Reset your password",
+      textBody: `Dear {{name}},
+
+We received a request to reset the password for your {{siteTitle}} account (username: {{username}}).
+
+To choose a new password, open the link below. It expires in 1 hour and can only be used once.
+
+{{link}}
+
+If you did not request this, you can ignore this email and your password will stay the same.
+
+Best regards,
+{{siteTitle}} Team`,
+      htmlBody: null,
+    },
+  },
+  participant_accepted: {
+    key: "participant_accepted",
+    name: "Registration accepted",
+    description: "Sent when a participant's registration is accepted.",
+    placeholders: ["name", "community", "sports", "waitlistNotice", "siteTitle"],
+    sample: {
+      name: "Jane Doe",
+      community: "Nairobi",
+      sports: "Football, Netball",
+      waitlistNotice:
+        "\n\nThe following sports are currently full, so you have been placed on the waitlist. We will email you if a place opens up:\nSwimming",
+    },
+    defaults: {
+      subject: "{{siteTitle}} - Registration Accepted!",
+      textBody: `Dear {{name}},
+
+Congratulations! Your registration for {{siteTitle}} has been accepted!
+
+You have been accepted into {{community}} for the following sports:
+{{sports}}{{waitlistNotice}}
+
+You can now log in to your account and access your dashboard to view your registration details and upcoming events.
+
+If you have any questions, please don't hesitate to contact us.
+
+Best regards,
+{{siteTitle}} Team`,
+      htmlBody: null,
+    },
+  },
+  participant_rejected: {
+    key: "participant_rejected",
+    name: "Registration not accepted",
+    description: "Sent when a participant's registration is rejected.",
+    placeholders: ["name", "community", "siteTitle"],
+    sample: { name: "Jane Doe", community: "Nairobi" },
+    defaults: {
+      subject: "{{siteTitle}} - Registration Update",
+      textBody: `Dear {{name}},
+
+Thank you for your interest in {{siteTitle}}.
+
+Unfortunately, we are unable to accept your registration at this time. If you have any questions or would like to discuss this further, please contact us.
+
+We appreciate your understanding.
+
+Best regards,
+{{siteTitle}} Team`,
+      htmlBody: null,
+    },
+  },
+  waitlist_promoted: {
+    key: "waitlist_promoted",
+    name: "Waitlist place",
+    description: "Sent when a place opens up and a participant is moved off a sport's waitlist.",
+    placeholders: ["name", "sport", "siteTitle"],
+    sample: { name: "Jane Doe", sport: "Swimming" },
+    defaults: {
+      subject: "{{siteTitle}} - You have a place in {{sport}}",
+      textBody: `Dear {{name}},
+
+Good news! A place has opened up in {{sport}} and you have been moved off the waitlist.
+
+You can log in to your dashboard to view your registration details.
+
+Best regards,
+{{siteTitle}} Team`,
+      htmlBody: null,
+    },
+  },
+  contact_notification: {
+    key: "contact_notification",
+    name: "Contact form message",
+    description: "Sent to the organisers when someone submits the contact form.",
+    placeholders: ["name", "email", "message", "siteTitle"],
+    sample: { name: "Jane Doe", email: "jane@example.org", message: "When does registration close?" },
+    defaults: {
+      subject: "Contact Form: New Message from {{name}}",
+      textBody: `New contact form submission:
+
+Name: {{name}}
+Email: {{email}}
+
+Message:
+{{message}}
+
+---
+This email was sent from the contact form on the {{siteTitle}} website.`,
+      htmlBody: null,
+    },
+  },
+  contact_confirmation: {
+    key: "contact_confirmation",
+    name: "Contact form confirmation",
+    description: "Sent to someone who submits the contact form to confirm it arrived.",
+    placeholders: ["name", "siteTitle"],
+    sample: { name: "Jane Doe" },
+    defaults: {
+      subject: "Thank you for contacting us",
+      textBody: `Hi {{name}},
+
+Thank you for reaching out! We have received your message and will get back to you soon.
+
+Best regards,
+{{siteTitle}} Team`,
+      htmlBody: null,
+    },
+  },
+};
+
+export function isEmailTemplateKey(key: string): key is EmailTemplateKey {
+  return Object.prototype.hasOwnProperty.call(EMAIL_TEMPLATES, key);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// HTML version of a plain text email: escaped, with its line breaks kept
+export function textToHtml(text: string): string {
+  return escapeHtml(text).replace(/\n/g, "<br>");
+}
+
+function fill(text: string, values: TemplateValues, escape: boolean): string {
+  return text.replace(PLACEHOLDER, (_match, name: string) => {
+    const value = values[name] ?? "";
+    return escape ? textToHtml(value) : value;
+  });
+}
+
+/**
+ * Placeholders used in a template's subject or bodies that the template does not
+ * supply, so a typo is caught when the template is saved rather than sent blank.
+ */
+export function findUnknownPlaceholders(content: EmailTemplateContent, allowed: string[]): string[] {
+  const unknown = new Set<string>();
+  for (const text of [content.subject, content.textBody, content.htmlBody ?? ""]) {
+    for (const [, name] of text.matchAll(PLACEHOLDER)) {
+      if (!allowed.includes(name)) unknown.add(name);
+    }
+  }
+  return Array.from(unknown);
+}
+
+/**
+ * Fill a template's placeholders. Values are escaped in the HTML variant, which is built
+ * from the text body when the template has none; the text variant and subject use them as given.
+ */
+export function renderTemplate(content: EmailTemplateContent, values: TemplateValues): RenderedEmail {
+  const body = fill(content.textBody, values, false);
+  return {
+    // Subjects are a single line, whatever the values contain
+    subject: fill(content.subject, values, false).replace(/\s*\n\s*/g, " ").trim(),
+    body,
+    html: content.htmlBody ? fill(content.htmlBody, values, true) : textToHtml(body),
+  };
+}
@@ -1,9 +1,24 @@
 import * as XLSX from "xlsx";
 import { Response } from "express";
+import { drawHeading, drawTable, renderPdf } from "./pdf";
+
+export type ExportFormat = "csv" | "excel" | "pdf";
 
 export interface ExportOptions {
   filename: string;
-  format: "csv" | "excel";
+  format: ExportFormat;
+  // PDF heading; defaults to the filename
+  title?: string;
+  // Print layout to use instead of the plain PDF table
+  renderPdf?: () => Promise<Buffer>;
+}
+
+// Flatten a cell value the way a spreadsheet would show it
+function formatCell(value: any): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
 }
 
 /**
@@ -86,16 +101,43 @@ export function convertToExcel(data: any[], headers: string[]): Buffer {
   return Buffer.from(XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }));
 }
 
+/**
+ * Convert data array to a landscape PDF table
+ */
+export function convertToPDF(data: any[], headers: string[], title: string): Promise<Buffer> {
+  // Size columns by their longest value so short flags don't take as much room as emails
+  const weights = headers.map((header) =>
+    Math.min(Math.max(header.length, ...data.map((row) => formatCell(row[header]).length)), 40)
+  );
+
+  return renderPdf({ size: "A4", layout: "landscape", margin: 30 }, (doc) => {
+    drawHeading(doc, title, `${data.length} rows · Generated ${new Date().toLocaleString()}`);
+    drawTable(
+      doc,
+      headers,
+      data.map((row) => headers.map((header) => formatCell(row[header]))),
+      { fontSize: headers.length > 12 ? 6 : 8, weights }
+    );
+  });
+}
+
 /**
  * Send export file as response
  */
-export function sendExport(
+export async function sendExport(
   res: Response,
   data: any[],
   headers: string[],
   options: ExportOptions
-): void {
-  if (options.format === "csv") {
+): Promise<void> {
+  if (options.format === "pdf") {
+    const pdfBuffer = options.renderPdf
+      ? await options.renderPdf()
+      : await convertToPDF(data, headers, options.title || options.filename);
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${options.filename}.pdf"`);
+    res.send(pdfBuffer);
+  } else if (options.format === "csv") {
     const csv = convertToCSV(data, headers);
     res.setHeader("Content-Type", "text/csv");
     res.setHeader("Content-Disposition", `attachment; filename="${options.filename}.csv"`);
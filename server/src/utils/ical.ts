@@ -0,0 +1,191 @@
+// Calendar items store the day and a free-text time ("09:00", "9am - 5pm", "TBC"), so
+// events are written as floating local times: they show at the wall-clock time the
+// organisers entered, whatever timezone the subscriber's phone is in.
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end?: Date;
+  allDay?: boolean;
+  // Start and end are exact instants (e.g. shifts) rather than wall-clock times
+  exact?: boolean;
+  updatedAt: Date;
+}
+
+export interface ClockTime {
+  hours: number;
+  minutes: number;
+}
+
+const PRODUCT_ID = "-//Sport Sync//Calendar//EN";
+const DEFAULT_DURATION_MINUTES = 60;
+
+const TIME_PATTERN = /(\d{1,2})(?:[:.h](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?/i;
+
+function parseClock(text: string): (ClockTime & { meridiem?: "am" | "pm"; explicit: boolean }) | null {
+  const match = text.match(TIME_PATTERN);
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3] ? (match[3].toLowerCase().startsWith("p") ? "pm" : "am") : undefined;
+  if (hours > 23 || minutes > 59 || (meridiem && (hours < 1 || hours > 12))) return null;
+
+  // A bare number ("Day 2") is not a time
+  return { hours, minutes, meridiem, explicit: !!match[2] || !!meridiem };
+}
+
+function minutesOf(time: ClockTime): number {
+  return time.hours * 60 + time.minutes;
+}
+
+function to24Hour(time: ClockTime, meridiem?: "am" | "pm"): ClockTime {
+  const hours = meridiem ? (time.hours % 12) + (meridiem === "pm" ? 12 : 0) : time.hours;
+  return { hours, minutes: time.minutes };
+}
+
+/**
+ * Read a start (and optional end) time out of a calendar item's free-text time.
+ * Returns null when the text has no recognisable time, e.g. "All day" or "TBC".
+ */
+export function parseTimeRange(text: string): { start: ClockTime; end?: ClockTime } | null {
+  const [startText, endText] = text.split(/\s*(?:-|–|—|\bto\b|\buntil\b)\s*/i);
+  const start = startText ? parseClock(startText) : null;
+  const end = endText ? parseClock(endText) : null;
+
+  if (!start || (!start.explicit && !end?.explicit)) return null;
+
+  if (!end) {
+    return { start: to24Hour(start, start.meridiem) };
+  }
+
+  const endTime = to24Hour(end, end.meridiem);
+  let startTime = to24Hour(start, start.meridiem || end.meridiem);
+  // "9-11am" borrows the end's am/pm, but "11-2pm" starts in the morning
+  if (!start.meridiem && end.meridiem === "pm" && minutesOf(startTime) > minutesOf(endTime)) {
+    startTime = to24Hour(start, "am");
+  }
+  return { start: startTime, end: endTime };
+}
+
+/**
+ * Combine a calendar item's day with its free-text time into an event window. Items
+ * without a usable time become all-day events.
+ */
+export function eventWindow(date: Date, time: string): Pick<CalendarEvent, "start" | "end" | "allDay"> {
+  // Dates are stored as midnight UTC of the chosen day
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const range = parseTimeRange(time);
+  if (!range) {
+    return { start: day, allDay: true };
+  }
+
+  const at = (clock: ClockTime) => new Date(day.getTime() + minutesOf(clock) * 60_000);
+  const start = at(range.start);
+  let end = range.end ? at(range.end) : new Date(start.getTime() + DEFAULT_DURATION_MINUTES * 60_000);
+  if (end <= start) {
+    end = new Date(start.getTime() + DEFAULT_DURATION_MINUTES * 60_000);
+  }
+  return { start, end };
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function formatDate(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+// Floating local time: the UTC fields hold the wall-clock time, so no "Z" suffix
+function formatLocalDateTime(date: Date): string {
+  return `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}00`;
+}
+
+function formatUtcDateTime(date: Date): string {
+  return `${formatLocalDateTime(date)}Z`;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf8");
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * Build an iCalendar (RFC 5545) document. SEQUENCE and LAST-MODIFIED follow each
+ * event's updatedAt so subscribed calendars pick up edits on their next refresh.
+ */
+export function buildCalendar(name: string, events: CalendarEvent[]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtcDateTime(event.updatedAt)}`,
+      `LAST-MODIFIED:${formatUtcDateTime(event.updatedAt)}`,
+      `SEQUENCE:${Math.floor(event.updatedAt.getTime() / 1000)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+
+    if (event.allDay) {
+      const nextDay = new Date(event.start.getTime() + 24 * 60 * 60_000);
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(nextDay)}`);
+    } else {
+      const formatTime = event.exact ? formatUtcDateTime : formatLocalDateTime;
+      lines.push(`DTSTART:${formatTime(event.start)}`);
+      if (event.end) {
+        lines.push(`DTEND:${formatTime(event.end)}`);
+      }
+    }
+
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -1,10 +1,15 @@
 import jwt from "jsonwebtoken";
+import { createHash, randomBytes } from "crypto";
 import { JwtPayload } from "../types";
 
 const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
 
+// Access tokens are short-lived; clients renew them with the session's refresh token
+const ACCESS_TOKEN_EXPIRY = "15m";
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
 export function generateToken(payload: JwtPayload): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: "7d" });
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRY });
 }
 
 export function verifyToken(token: string): JwtPayload {
@@ -15,5 +20,17 @@ export function verifyToken(token: string): JwtPayload {
   }
 }
 
+// Refresh tokens are "<sessionId>.<secret>" so a reused (already rotated) token can be traced to its session
+export function generateRefreshToken(sessionId: string): string {
+  return `${sessionId}.${randomBytes(32).toString("hex")}`;
+}
 
+export function getRefreshTokenSessionId(refreshToken: string): string | null {
+  const [sessionId, secret] = refreshToken.split(".");
+  return sessionId && secret ? sessionId : null;
+}
 
+// Only hashes are stored, so a database leak does not expose usable tokens
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,279 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import nodemailer from "nodemailer";
+
+export type MailTransportName = "smtp" | "http" | "file" | "memory" | "console";
+
+const TRANSPORT_NAMES: MailTransportName[] = ["smtp", "http", "file", "memory", "console"];
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailReceipt {
+  messageId: string;
+  response?: string;
+}
+
+export interface MailTransport {
+  name: MailTransportName;
+  description: string; // Where mail ends up, for the startup log
+  send(message: MailMessage): Promise<MailReceipt>;
+  verify(): Promise<void>;
+}
+
+export interface CapturedMail extends MailMessage {
+  messageId: string;
+  sentAt: Date;
+}
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const DEFAULT_MAIL_API_URL = "https://api.resend.com/emails";
+
+// Create transporter with optimized settings for production hosting (Render, etc.)
+function createSmtpTransport(): MailTransport {
+  const smtpUser = process.env.SMTP_USER;
+  const smtpPassword = process.env.SMTP_PASSWORD;
+  const smtpHost = process.env.SMTP_HOST || 'smtp.gmail.com';
+  const smtpPort = process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT) : 587;
+
+  // Validate required environment variables
+  if (!smtpUser || !smtpPassword) {
+    throw new Error('SMTP_USER and SMTP_PASSWORD environment variables must be set');
+  }
+
+  // Create transporter with explicit configuration (more reliable than service: "gmail")
+  const transporter = nodemailer.createTransport({
+    host: smtpHost,
+    port: smtpPort,
+    secure: smtpPort === 465, // true for 465 (SSL), false for 587 (STARTTLS)
+    auth: {
+      user: smtpUser,
+      pass: smtpPassword,
+    },
+    // Critical settings for hosting providers like Render
+    tls: {
+      rejectUnauthorized: false, // Accept self-signed certificates
+      minVersion: 'TLSv1.2',     // Minimum TLS version
+    },
+    // Timeout settings to prevent hanging
+    connectionTimeout: REQUEST_TIMEOUT_MS,  // 10 seconds to establish connection
+    greetingTimeout: REQUEST_TIMEOUT_MS,    // 10 seconds for greeting
+    socketTimeout: REQUEST_TIMEOUT_MS,      // 10 seconds of inactivity
+    // Debug logging (set to false in production for less verbose output)
+    debug: process.env.NODE_ENV !== 'production',
+    logger: process.env.NODE_ENV !== 'production',
+  });
+
+  return {
+    name: "smtp",
+    description: `SMTP ${smtpHost}:${smtpPort} as ${smtpUser}`,
+    async send(message) {
+      try {
+        const info = await transporter.sendMail(message);
+        return { messageId: info.messageId, response: info.response };
+      } catch (error: any) {
+        // Provide helpful error messages based on error type
+        if (error.code === 'ETIMEDOUT') {
+          console.error('   → Connection timeout: SMTP server unreachable');
+          console.error('   → This usually means SMTP ports are blocked by your hosting provider');
+          console.error('   → Consider MAIL_TRANSPORT=http with an API-based service such as Resend');
+          throw new Error('Connection timeout - SMTP port may be blocked by hosting provider');
+        } else if (error.code === 'EAUTH') {
+          console.error('   → Authentication failed: Check SMTP_USER and SMTP_PASSWORD');
+          console.error('   → For Gmail: Make sure you are using an App Password, not your regular password');
+          throw new Error('SMTP authentication failed - verify credentials');
+        } else if (error.code === 'ECONNECTION' || error.code === 'ESOCKET') {
+          console.error('   → Connection error: Cannot reach SMTP server');
+          throw new Error('Cannot connect to SMTP server - check network connectivity');
+        }
+        throw error;
+      }
+    },
+    async verify() {
+      await transporter.verify();
+    },
+  };
+}
+
+/**
+ * Send through a mail provider's HTTP API, for hosts that block SMTP ports. The request
+ * body is the JSON shape Resend expects; point MAIL_API_URL at any API that accepts it.
+ */
+function createHttpTransport(): MailTransport {
+  const url = process.env.MAIL_API_URL || DEFAULT_MAIL_API_URL;
+  const apiKey = process.env.MAIL_API_KEY;
+  if (!apiKey) {
+    throw new Error("MAIL_API_KEY environment variable must be set");
+  }
+
+  return {
+    name: "http",
+    description: `mail API at ${url}`,
+    async send(message) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ ...message, to: [message.to] }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      const text = await response.text();
+      if (!response.ok) {
+        throw new Error(`Mail API responded ${response.status}: ${text.slice(0, 200)}`);
+      }
+
+      let messageId = "";
+      try {
+        messageId = JSON.parse(text).id ?? "";
+      } catch {
+        // Some providers answer with plain text; the status is all that matters
+      }
+      return { messageId, response: `${response.status} ${response.statusText}` };
+    },
+    // There is no standard way to check a key without sending, so only the configuration is checked
+    async verify() {},
+  };
+}
+
+// Write each message as an .eml file that any mail client can open
+function createFileTransport(): MailTransport {
+  const dir = path.resolve(process.env.MAIL_FILE_DIR || "mail");
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+  return {
+    name: "file",
+    description: `.eml files in ${dir}`,
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}.eml`);
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(file, info.message as Buffer);
+      console.log(`📧 Wrote email to ${message.to} to ${file}`);
+      return { messageId: info.messageId, response: file };
+    },
+    async verify() {
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.access(dir, fs.constants.W_OK);
+    },
+  };
+}
+
+// Only the latest messages are kept, so a long-running process does not hold every reset link
+const MAX_CAPTURED_MAIL = 200;
+
+const captured: CapturedMail[] = [];
+
+// Keep messages in this process, for test suites to inspect with capturedMail()
+const memoryTransport: MailTransport = {
+  name: "memory",
+  description: `memory (the last ${MAX_CAPTURED_MAIL} messages are kept in this process only)`,
+  async send(message) {
+    const messageId = `<${randomUUID()}@memory>`;
+    captured.push({ ...message, messageId, sentAt: new Date() });
+    if (captured.length > MAX_CAPTURED_MAIL) {
+      captured.splice(0, captured.length - MAX_CAPTURED_MAIL);
+    }
+    return { messageId };
+  },
+  async verify() {},
+};
+
+const consoleTransport: MailTransport = {
+  name: "console",
+  description: "the console",
+  async send(message) {
+    const messageId = `<${randomUUID()}@console>`;
+    console.log(
+      [`📧 Email to ${message.to}`, `   From: ${message.from}`, `   Subject: ${message.subject}`, "", message.text, ""].join("\n")
+    );
+    return { messageId };
+  },
+  async verify() {},
+};
+
+// Messages sent through the memory transport, oldest first
+export function capturedMail(): CapturedMail[] {
+  return [...captured];
+}
+
+export function clearCapturedMail() {
+  captured.length = 0;
+}
+
+/**
+ * Transport named by MAIL_TRANSPORT. When unset, SMTP is used if it is configured or in
+ * production, the memory transport under NODE_ENV=test and .eml files otherwise, so a
+ * development machine needs no mail server.
+ */
+export function configuredTransportName(): MailTransportName {
+  const configured = process.env.MAIL_TRANSPORT?.trim().toLowerCase();
+  if (configured) {
+    if (!TRANSPORT_NAMES.includes(configured as MailTransportName)) {
+      throw new Error(`Unknown MAIL_TRANSPORT "${configured}"; use one of ${TRANSPORT_NAMES.join(", ")}`);
+    }
+    if (configured === "memory" && process.env.NODE_ENV === "production") {
+      throw new Error("MAIL_TRANSPORT=memory is for tests and cannot be used in production");
+    }
+    return configured as MailTransportName;
+  }
+
+  if ((process.env.SMTP_USER && process.env.SMTP_PASSWORD) || process.env.NODE_ENV === "production") {
+    return "smtp";
+  }
+  return process.env.NODE_ENV === "test" ? "memory" : "file";
+}
+
+let override: MailTransport | null = null;
+
+// Replace the configured transport, e.g. with a stub in a test; null goes back to the configuration
+export function setMailTransport(transport: MailTransport | null) {
+  override = transport;
+}
+
+let cached: { key: string; transport: MailTransport } | null = null;
+
+// Reused between sends; rebuilt when the mail settings change, so they apply without a restart
+export function getMailTransport(): MailTransport {
+  if (override) {
+    return override;
+  }
+
+  const name = configuredTransportName();
+  const key = [
+    name,
+    process.env.SMTP_HOST,
+    process.env.SMTP_PORT,
+    process.env.SMTP_USER,
+    process.env.SMTP_PASSWORD,
+    process.env.MAIL_API_URL,
+    process.env.MAIL_API_KEY,
+    process.env.MAIL_FILE_DIR,
+  ].join("\n");
+  if (cached?.key === key) {
+    return cached.transport;
+  }
+
+  const transport = createTransport(name);
+  cached = { key, transport };
+  return transport;
+}
+
+function createTransport(name: MailTransportName): MailTransport {
+  switch (name) {
+    case "smtp":
+      return createSmtpTransport();
+    case "http":
+      return createHttpTransport();
+    case "file":
+      return createFileTransport();
+    case "memory":
+      return memoryTransport;
+    case "console":
+      return consoleTransport;
+  }
+}
@@ -0,0 +1,340 @@
+import { Gender } from "@prisma/client";
+import { EligibilitySport, findIneligibleSports } from "./eligibility";
+
+// Columns of the bulk upload sheet that are checked and can be corrected before import
+export const IMPORT_FIELDS = [
+  "firstName",
+  "middleName",
+  "lastName",
+  "gender",
+  "dob",
+  "email",
+  "phone",
+  "username",
+  "sports",
+  "community",
+  "paymentDetails",
+  "nextOfKinFirstName",
+  "nextOfKinMiddleName",
+  "nextOfKinLastName",
+  "nextOfKinPhone",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+export type ImportRowData = Record<ImportField, string>;
+
+// A sheet row as kept between validating and importing
+export interface ImportRow {
+  row: number; // Line in the sheet, counting the header as 1
+  data: ImportRowData;
+  passwordHash?: string | null; // From the sheet's password column; a random one is generated otherwise
+  passwordTooShort?: boolean;
+}
+
+export interface ImportSport extends EligibilitySport {
+  parentId: string | null;
+  parent?: (NonNullable<EligibilitySport["parent"]> & { name: string }) | null;
+}
+
+export interface ImportContext {
+  sports: ImportSport[]; // Active sports
+  incompatibilities: Array<{ sportId: string; incompatibleSportId: string }>;
+  communities: Array<{ id: string; name: string }>;
+  communityId: string; // The uploading admin's community, used when a row names none
+  takenUsernames: Set<string>;
+  participants: Array<{ email: string; firstName: string; lastName: string; dob: Date }>;
+  ageReferenceDate: Date;
+}
+
+export interface ImportRowResult {
+  row: number;
+  data: ImportRowData; // Normalised values, as they will be imported
+  errors: string[];
+  warnings: string[];
+  // Resolved from the data when the row has no errors
+  communityId?: string;
+  sportIds?: string[];
+  dob?: Date;
+}
+
+const MIN_PASSWORD_LENGTH = 6;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const USERNAME = /^[a-zA-Z0-9_.-]{3,30}$/;
+
+export function emptyImportRow(): ImportRowData {
+  return Object.fromEntries(IMPORT_FIELDS.map((field) => [field, ""])) as ImportRowData;
+}
+
+// Username suggested from the part of an email address before the @
+export function usernameFromEmail(email: string): string {
+  let prefix = email.split("@")[0].toLowerCase().replace(/[^a-z0-9]/g, "");
+
+  // If prefix is too short or empty, generate a random one
+  if (prefix.length < 3) {
+    prefix = "user" + Math.random().toString(36).substring(2, 8);
+  }
+
+  // Leave room for a numeric suffix within the 30 character limit
+  return prefix.substring(0, 27);
+}
+
+function pad(value: number) {
+  return String(value).padStart(2, "0");
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Read a date of birth as typed in a sheet: YYYY-MM-DD, DD/MM/YYYY (or MM/DD/YYYY when
+ * that is the only reading), an Excel serial number or anything Date understands.
+ * Returns YYYY-MM-DD, or null when the value is not a date.
+ */
+export function normaliseDate(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) {
+    return isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const slashed = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (slashed) {
+    const [a, b, year] = [Number(slashed[1]), Number(slashed[2]), Number(slashed[3])];
+    return isoDate(year, b, a) ?? isoDate(year, a, b);
+  }
+
+  // Excel serial date; Excel counts from 1899-12-30 because it treats 1900 as a leap year
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(trimmed)) * 24 * 60 * 60 * 1000);
+    return isoDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  }
+
+  const date = new Date(trimmed);
+  if (isNaN(date.getTime())) return null;
+  return isoDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+}
+
+// Whether a date could be read either way round, e.g. 05/06/2000
+function isAmbiguousDate(value: string) {
+  const slashed = value.trim().match(/^(\d{1,2})\/(\d{1,2})\/\d{4}$/);
+  return !!slashed && Number(slashed[1]) <= 12 && Number(slashed[2]) <= 12 && slashed[1] !== slashed[2];
+}
+
+function sportLabel(sport: ImportSport) {
+  return sport.parent ? `${sport.parent.name} - ${sport.name}` : sport.name;
+}
+
+/**
+ * Match comma-separated sport names against the active sports, case-insensitively.
+ * Subsports can be given as "Parent - Child", or by their own name when it is unique.
+ */
+export function matchSports(names: string[], sports: ImportSport[]) {
+  const matched: ImportSport[] = [];
+  const missing: string[] = [];
+
+  for (const input of names) {
+    const lower = input.toLowerCase();
+
+    if (input.includes(" - ")) {
+      const [parentName, childName] = input.split(" - ").map((part) => part.trim().toLowerCase());
+      const child = sports.find(
+        (sport) => sport.parent?.name.toLowerCase() === parentName && sport.name.toLowerCase() === childName
+      );
+      if (child) {
+        matched.push(child);
+        continue;
+      }
+    }
+
+    const sameName = sports.filter((sport) => sport.name.toLowerCase() === lower);
+    if (sameName.length === 1) {
+      matched.push(sameName[0]);
+    } else if (sameName.length > 1) {
+      missing.push(`${input} (multiple found - use "Parent Name - ${input}" format)`);
+    } else {
+      missing.push(input);
+    }
+  }
+
+  return { matched, missing };
+}
+
+function duplicateKey(firstName: string, lastName: string, dob: string) {
+  return `${firstName.trim().toLowerCase()}|${lastName.trim().toLowerCase()}|${dob}`;
+}
+
+/**
+ * Check rows from a bulk upload before anything is created. Errors stop a row from being
+ * imported; warnings (likely duplicates, ambiguous dates, another community) are for the
+ * admin to review. Usernames left blank are filled in so the preview shows the final value.
+ */
+export function validateImportRows(rows: ImportRow[], context: ImportContext): ImportRowResult[] {
+  const usernamesInFile = new Map<string, number>();
+  const emailsInFile = new Map<string, number>();
+  const peopleInFile = new Map<string, number>();
+  const registeredEmails = new Set(context.participants.map((participant) => participant.email.trim().toLowerCase()));
+  const registeredPeople = new Set(
+    context.participants.map((participant) =>
+      duplicateKey(participant.firstName, participant.lastName, participant.dob.toISOString().slice(0, 10))
+    )
+  );
+  const communityName = context.communities.find((community) => community.id === context.communityId)?.name;
+
+  return rows.map(({ row, data: raw, passwordTooShort }) => {
+    const data = emptyImportRow();
+    for (const field of IMPORT_FIELDS) {
+      data[field] = (raw[field] ?? "").trim();
+    }
+    data.gender = data.gender.toLowerCase();
+    data.email = data.email.toLowerCase();
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const required: ImportField[] = [
+      "firstName",
+      "lastName",
+      "email",
+      "phone",
+      "dob",
+      "gender",
+      "sports",
+      "paymentDetails",
+      "nextOfKinFirstName",
+      "nextOfKinLastName",
+      "nextOfKinPhone",
+    ];
+    for (const field of required) {
+      if (!data[field]) errors.push(`${field} is required`);
+    }
+
+    if (data.email && !EMAIL.test(data.email)) {
+      errors.push("email must be a valid email address");
+    }
+    if (data.gender && !["male", "female"].includes(data.gender)) {
+      errors.push("gender must be 'male' or 'female'");
+    }
+
+    let dob: Date | undefined;
+    if (data.dob) {
+      const normalised = normaliseDate(data.dob);
+      if (normalised) {
+        if (isAmbiguousDate(data.dob)) {
+          warnings.push(`dob ${data.dob} was read as day/month/year (${normalised})`);
+        }
+        data.dob = normalised;
+        dob = new Date(normalised);
+      } else {
+        errors.push("dob must be a valid date (format: YYYY-MM-DD, DD/MM/YYYY, or MM/DD/YYYY)");
+      }
+    }
+
+    // Usernames: generated when blank, unique across the site and the file
+    if (!data.username && data.email && EMAIL.test(data.email)) {
+      const base = usernameFromEmail(data.email);
+      let candidate = base;
+      for (let counter = 1; context.takenUsernames.has(candidate) || usernamesInFile.has(candidate); counter++) {
+        candidate = `${base}${counter}`;
+      }
+      data.username = candidate;
+    }
+    if (data.username) {
+      if (!USERNAME.test(data.username)) {
+        errors.push("username must be 3-30 characters and contain only letters, numbers, underscores, hyphens, or dots");
+      } else if (context.takenUsernames.has(data.username)) {
+        errors.push("Username already exists");
+      } else if (usernamesInFile.has(data.username)) {
+        errors.push(`Username is also used on row ${usernamesInFile.get(data.username)}`);
+      } else {
+        usernamesInFile.set(data.username, row);
+      }
+    }
+
+    if (passwordTooShort) {
+      warnings.push(`password is shorter than ${MIN_PASSWORD_LENGTH} characters, so a random one will be set`);
+    }
+
+    // Likely duplicates are only warnings: relatives often share an email address
+    if (data.email) {
+      if (registeredEmails.has(data.email)) {
+        warnings.push("A participant with this email is already registered");
+      }
+      if (emailsInFile.has(data.email)) {
+        warnings.push(`Email is also used on row ${emailsInFile.get(data.email)}`);
+      } else {
+        emailsInFile.set(data.email, row);
+      }
+    }
+    if (data.firstName && data.lastName && dob) {
+      const key = duplicateKey(data.firstName, data.lastName, data.dob);
+      if (registeredPeople.has(key)) {
+        warnings.push("A participant with this name and date of birth is already registered");
+      }
+      if (peopleInFile.has(key)) {
+        warnings.push(`Same name and date of birth as row ${peopleInFile.get(key)}`);
+      } else {
+        peopleInFile.set(key, row);
+      }
+    }
+
+    let communityId = context.communityId;
+    if (data.community) {
+      const community = context.communities.find(
+        (candidate) => candidate.name.toLowerCase() === data.community.toLowerCase()
+      );
+      if (community) {
+        data.community = community.name;
+        communityId = community.id;
+        if (community.id !== context.communityId) {
+          warnings.push(`Will be added to ${community.name}, not ${communityName ?? "your community"}`);
+        }
+      } else {
+        errors.push(`Community not found: ${data.community}`);
+      }
+    }
+
+    let sportIds: string[] | undefined;
+    const sportNames = data.sports
+      .split(",")
+      .map((name) => name.trim())
+      .filter((name) => name.length > 0);
+    if (data.sports && sportNames.length === 0) {
+      errors.push("At least one sport is required");
+    } else if (sportNames.length > 0) {
+      const { matched, missing } = matchSports(sportNames, context.sports);
+      if (missing.length > 0) {
+        errors.push(`Sports not found: ${missing.join(", ")}`);
+      } else {
+        data.sports = matched.map(sportLabel).join(", ");
+        sportIds = matched.map((sport) => sport.id);
+
+        const conflict = context.incompatibilities.find(
+          (pair) => sportIds!.includes(pair.sportId) && sportIds!.includes(pair.incompatibleSportId)
+        );
+        if (conflict) {
+          const names = [conflict.sportId, conflict.incompatibleSportId].map(
+            (id) => matched.find((sport) => sport.id === id)!.name
+          );
+          errors.push(`Cannot select ${names[0]} and ${names[1]} together. These sports are incompatible.`);
+        }
+
+        if (dob && ["male", "female"].includes(data.gender)) {
+          const ineligible = findIneligibleSports(matched, { dob, gender: data.gender as Gender }, context.ageReferenceDate);
+          errors.push(...ineligible.flatMap((result) => result.reasons));
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      return { row, data, errors, warnings };
+    }
+    return { row, data, errors, warnings, communityId, sportIds, dob };
+  });
+}
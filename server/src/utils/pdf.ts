@@ -0,0 +1,298 @@
+import PDFDocument from "pdfkit";
+
+export type PdfDocument = PDFKit.PDFDocument;
+
+export interface TeamSheetMember {
+  name: string;
+  gender: string;
+  phone: string;
+  captain: boolean;
+}
+
+export interface TeamSheetTeam {
+  name: string;
+  members: TeamSheetMember[];
+}
+
+export interface TeamSheetCommunity {
+  name: string;
+  teams: TeamSheetTeam[];
+}
+
+export interface TeamSheet {
+  sport: string;
+  communities: TeamSheetCommunity[];
+}
+
+export interface CommunitySportSummary {
+  name: string;
+  registered: number;
+  waitlisted: number;
+  teams: number;
+}
+
+export interface CommunitySummary {
+  name: string;
+  active: boolean;
+  contactPerson: string;
+  phone: string;
+  email: string;
+  participants: {
+    total: number;
+    pending: number;
+    accepted: number;
+    rejected: number;
+  };
+  sports: CommunitySportSummary[];
+}
+
+const MUTED = "#555555";
+const RULE = "#cccccc";
+
+/**
+ * Run a drawing callback against a new document and collect the output into a buffer.
+ * Unless `pageNumbers` is false, every page gets a "Page x of y" footer once drawing has finished.
+ */
+export function renderPdf(
+  options: PDFKit.PDFDocumentOptions,
+  draw: (doc: PdfDocument) => void,
+  { pageNumbers = true }: { pageNumbers?: boolean } = {}
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ ...options, bufferPages: true });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    try {
+      draw(doc);
+
+      const range = doc.bufferedPageRange();
+      for (let i = range.start; pageNumbers && i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+        // Writing inside the bottom margin would otherwise start a new page
+        const bottom = doc.page.margins.bottom;
+        doc.page.margins.bottom = 0;
+        doc.font("Helvetica").fontSize(8).fillColor(MUTED).text(
+          `Page ${i + 1 - range.start} of ${range.count}`,
+          doc.page.margins.left,
+          doc.page.height - bottom / 2 - 4,
+          { width: doc.page.width - doc.page.margins.left - doc.page.margins.right, align: "center" }
+        );
+        doc.page.margins.bottom = bottom;
+      }
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+function contentWidth(doc: PdfDocument): number {
+  return doc.page.width - doc.page.margins.left - doc.page.margins.right;
+}
+
+function pageBottom(doc: PdfDocument): number {
+  return doc.page.height - doc.page.margins.bottom;
+}
+
+// Start a new page unless `height` points still fit on this one
+function ensureSpace(doc: PdfDocument, height: number): void {
+  if (doc.y + height > pageBottom(doc)) {
+    doc.addPage();
+  }
+}
+
+export function drawHeading(doc: PdfDocument, title: string, subtitle?: string): void {
+  const width = contentWidth(doc);
+  doc.x = doc.page.margins.left;
+  doc.font("Helvetica-Bold").fontSize(16).fillColor("#000000").text(title, { width });
+  if (subtitle) {
+    doc.font("Helvetica").fontSize(9).fillColor(MUTED).text(subtitle, { width });
+  }
+  doc.fillColor("#000000").moveDown(0.75);
+}
+
+/**
+ * Draw a ruled table from the current position, repeating the header row on every page.
+ * Column widths are relative weights scaled to the page width (equal when omitted).
+ */
+export function drawTable(
+  doc: PdfDocument,
+  headers: string[],
+  rows: string[][],
+  options: { fontSize?: number; weights?: number[] } = {}
+): void {
+  const left = doc.page.margins.left;
+  const width = contentWidth(doc);
+  const weights = options.weights || headers.map(() => 1);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const widths = weights.map((weight) => (weight / totalWeight) * width);
+  const padding = 3;
+
+  doc.fontSize(options.fontSize || 9);
+
+  const measure = (cells: string[]) =>
+    Math.max(...cells.map((cell, i) => doc.heightOfString(cell || " ", { width: widths[i] - padding * 2 }))) +
+    padding * 2;
+
+  const drawRow = (cells: string[], header: boolean) => {
+    doc.font(header ? "Helvetica-Bold" : "Helvetica");
+    const height = measure(cells);
+    const y = doc.y;
+
+    if (header) {
+      doc.rect(left, y, width, height).fill("#eeeeee");
+    }
+    doc.fillColor("#000000");
+
+    let x = left;
+    cells.forEach((cell, i) => {
+      doc.text(cell, x + padding, y + padding, { width: widths[i] - padding * 2 });
+      x += widths[i];
+    });
+
+    doc.moveTo(left, y + height).lineTo(left + width, y + height).lineWidth(0.5).strokeColor(RULE).stroke();
+    doc.x = left;
+    doc.y = y + height;
+  };
+
+  doc.font("Helvetica-Bold");
+  ensureSpace(doc, measure(headers) * 2);
+  drawRow(headers, true);
+
+  for (const row of rows) {
+    doc.font("Helvetica");
+    if (doc.y + measure(row) > pageBottom(doc)) {
+      doc.addPage();
+      drawRow(headers, true);
+    }
+    drawRow(row, false);
+  }
+
+  doc.x = left;
+  doc.moveDown(0.5);
+}
+
+/**
+ * One section per sport, starting on a fresh page, with each community's teams and
+ * numbered rosters underneath.
+ */
+export function renderTeamSheetsPdf(title: string, sheets: TeamSheet[]): Promise<Buffer> {
+  return renderPdf({ size: "A4", margin: 40 }, (doc) => {
+    if (sheets.length === 0) {
+      drawHeading(doc, title);
+      doc.font("Helvetica").fontSize(10).text("No teams have been set up yet.");
+      return;
+    }
+
+    sheets.forEach((sheet, index) => {
+      if (index > 0) doc.addPage();
+      drawHeading(doc, `${sheet.sport} — Team Sheets`, title);
+
+      for (const community of sheet.communities) {
+        ensureSpace(doc, 80);
+        doc.font("Helvetica-Bold").fontSize(13).fillColor("#000000").text(community.name);
+        doc.moveDown(0.25);
+
+        for (const team of community.teams) {
+          ensureSpace(doc, 60);
+          doc.font("Helvetica-Bold").fontSize(11).text(`${team.name} (${team.members.length} players)`);
+          doc.moveDown(0.25);
+
+          if (team.members.length === 0) {
+            doc.font("Helvetica").fontSize(9).fillColor(MUTED).text("No players on this team yet.");
+            doc.fillColor("#000000").moveDown(0.5);
+            continue;
+          }
+
+          drawTable(
+            doc,
+            ["#", "Name", "Gender", "Phone", "Signature"],
+            team.members.map((member, i) => [
+              String(i + 1),
+              member.captain ? `${member.name} (C)` : member.name,
+              member.gender,
+              member.phone,
+              "",
+            ]),
+            { weights: [0.4, 3, 1, 1.6, 2] }
+          );
+        }
+        doc.moveDown(0.5);
+      }
+    });
+  });
+}
+
+/**
+ * One page per community: contact details, participant counts by status and a
+ * per-sport breakdown of registrations, waitlist places and teams.
+ */
+export function renderCommunitySummariesPdf(title: string, summaries: CommunitySummary[]): Promise<Buffer> {
+  return renderPdf({ size: "A4", margin: 40 }, (doc) => {
+    if (summaries.length === 0) {
+      drawHeading(doc, title);
+      doc.font("Helvetica").fontSize(10).text("No communities have been set up yet.");
+      return;
+    }
+
+    summaries.forEach((summary, index) => {
+      if (index > 0) doc.addPage();
+      drawHeading(doc, summary.name, `${title}${summary.active ? "" : " · Inactive"}`);
+
+      doc.font("Helvetica").fontSize(10);
+      doc.text(`Contact: ${summary.contactPerson}`);
+      doc.text(`Phone: ${summary.phone}`);
+      doc.text(`Email: ${summary.email}`);
+      doc.moveDown();
+
+      drawTable(
+        doc,
+        ["Participants", "Accepted", "Pending", "Rejected"],
+        [[
+          String(summary.participants.total),
+          String(summary.participants.accepted),
+          String(summary.participants.pending),
+          String(summary.participants.rejected),
+        ]],
+        { fontSize: 10 }
+      );
+      doc.moveDown();
+
+      doc.font("Helvetica-Bold").fontSize(12).text("Registrations by sport");
+      doc.moveDown(0.25);
+
+      if (summary.sports.length === 0) {
+        doc.font("Helvetica").fontSize(10).fillColor(MUTED).text("No sport registrations yet.");
+        doc.fillColor("#000000");
+        return;
+      }
+
+      const totals = summary.sports.reduce(
+        (sum, sport) => ({
+          registered: sum.registered + sport.registered,
+          waitlisted: sum.waitlisted + sport.waitlisted,
+          teams: sum.teams + sport.teams,
+        }),
+        { registered: 0, waitlisted: 0, teams: 0 }
+      );
+
+      drawTable(
+        doc,
+        ["Sport", "Registered", "Waitlisted", "Teams"],
+        [
+          ...summary.sports.map((sport) => [
+            sport.name,
+            String(sport.registered),
+            String(sport.waitlisted),
+            String(sport.teams),
+          ]),
+          ["Total", String(totals.registered), String(totals.waitlisted), String(totals.teams)],
+        ],
+        { fontSize: 10, weights: [3, 1, 1, 1] }
+      );
+    });
+  });
+}
@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { MedalType, SportType } from "@prisma/client";
+
+export const POINTS_SYSTEM_CATEGORY = "points_system";
+
+const pointsTableSchema = z.object({
+  gold: z.number().int().min(0),
+  silver: z.number().int().min(0),
+  bronze: z.number().int().min(0),
+  places: z.array(z.number().int().min(0)).default([]), // Points for 4th place onwards
+  participation: z.number().int().min(0).default(0),
+});
+
+/**
+ * Machine-readable rules stored on the "points_system" tournament format.
+ * The most specific table wins: sport (or its parent sport), then sport type, then default.
+ */
+export const pointsRulesSchema = z.object({
+  default: pointsTableSchema,
+  sportTypes: z
+    .object({
+      team: pointsTableSchema.optional(),
+      individual: pointsTableSchema.optional(),
+    })
+    .default({}),
+  sports: z.record(pointsTableSchema).default({}),
+});
+
+export type PointsTable = z.infer<typeof pointsTableSchema>;
+export type PointsRules = z.infer<typeof pointsRulesSchema>;
+
+const medalsByPosition: Record<number, MedalType> = {
+  1: "gold",
+  2: "silver",
+  3: "bronze",
+};
+
+// The medal a finishing position earns, if any
+export function medalForPosition(position?: number | null): MedalType {
+  return (position && medalsByPosition[position]) || "none";
+}
+
+/**
+ * Parse rules stored as JSON, returning null when they are missing or malformed
+ */
+export function parsePointsRules(value: unknown): PointsRules | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const result = pointsRulesSchema.safeParse(value);
+  return result.success ? result.data : null;
+}
+
+export function resolvePointsTable(
+  rules: PointsRules,
+  sport: { id: string; type: SportType; parentId?: string | null }
+): PointsTable {
+  return (
+    rules.sports[sport.id] ??
+    (sport.parentId ? rules.sports[sport.parentId] : undefined) ??
+    rules.sportTypes[sport.type] ??
+    rules.default
+  );
+}
+
+/**
+ * Points for a single result. A recorded medal takes precedence; otherwise a top-three
+ * position counts as the matching medal and later positions use the places table.
+ */
+export function calculatePoints(table: PointsTable, medalType: MedalType, position?: number | null): number {
+  const medal = medalType !== "none" ? medalType : medalForPosition(position);
+  if (medal !== "none") {
+    return table[medal];
+  }
+  if (position && position > 3) {
+    const placePoints = table.places[position - 4];
+    if (placePoints !== undefined) {
+      return placePoints;
+    }
+  }
+  return table.participation;
+}
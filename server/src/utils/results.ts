@@ -0,0 +1,175 @@
+import { DrawFormat, MatchBracket, MatchResultType, MatchSlot } from "@prisma/client";
+import { DrawEntrant } from "./draws";
+
+// A type alias rather than an interface so set lists can be stored as JSON
+export type SetScore = {
+  home: number;
+  away: number;
+};
+
+export interface ResultInput {
+  resultType: MatchResultType;
+  homeScore?: number | null;
+  awayScore?: number | null;
+  sets?: SetScore[] | null;
+  // Who went through or was awarded the match; needed for walkovers, forfeits and drawn knockout games
+  winner?: MatchSlot | null;
+}
+
+export interface SettledResult {
+  resultType: MatchResultType;
+  homeScore: number | null;
+  awayScore: number | null;
+  sets: SetScore[] | null;
+  winnerSlot: MatchSlot | null;
+}
+
+/**
+ * The columns of a match that the results code reads. Prisma's Match model satisfies it.
+ */
+export interface ResultMatch {
+  id: string;
+  format: DrawFormat;
+  bracket: MatchBracket;
+  group: string | null;
+  nextMatchId: string | null;
+  loserMatchId: string | null;
+  resultType: MatchResultType | null;
+  winnerSlot: MatchSlot | null;
+  homeScore: number | null;
+  awayScore: number | null;
+  homeCommunityId: string | null;
+  awayCommunityId: string | null;
+  homeParticipantId: string | null;
+  awayParticipantId: string | null;
+  homeTeamId: string | null;
+  awayTeamId: string | null;
+  homeFairPlay: number | null;
+  awayFairPlay: number | null;
+}
+
+export interface Placing {
+  entrant: DrawEntrant;
+  position: number;
+}
+
+export function otherSide(side: MatchSlot): MatchSlot {
+  return side === "home" ? "away" : "home";
+}
+
+/**
+ * The entrant in one side of a match, or null while the slot is still waiting on an earlier result
+ */
+export function sideEntrant(match: ResultMatch, side: MatchSlot): DrawEntrant | null {
+  const entrant =
+    side === "home"
+      ? { communityId: match.homeCommunityId, teamId: match.homeTeamId, participantId: match.homeParticipantId }
+      : { communityId: match.awayCommunityId, teamId: match.awayTeamId, participantId: match.awayParticipantId };
+  if (!entrant.communityId && !entrant.teamId && !entrant.participantId) {
+    return null;
+  }
+  return {
+    communityId: entrant.communityId ?? undefined,
+    teamId: entrant.teamId ?? undefined,
+    participantId: entrant.participantId ?? undefined,
+  };
+}
+
+export function entrantKey(entrant: DrawEntrant): string {
+  return [entrant.communityId, entrant.teamId, entrant.participantId].join("|");
+}
+
+/**
+ * Work out the score line and winner of a result. When only set scores are given the
+ * score line is the number of sets each side won. Returns an error message when the
+ * result doesn't add up; draws are only allowed where `allowDraw` is set (group games).
+ */
+export function settleResult(input: ResultInput, allowDraw: boolean): { result: SettledResult } | { error: string } {
+  const sets = input.sets?.length ? input.sets : null;
+  let homeScore = input.homeScore ?? null;
+  let awayScore = input.awayScore ?? null;
+
+  if ((homeScore === null) !== (awayScore === null)) {
+    return { error: "Enter a score for both sides" };
+  }
+  if (homeScore === null && sets) {
+    homeScore = sets.filter((set) => set.home > set.away).length;
+    awayScore = sets.filter((set) => set.away > set.home).length;
+  }
+
+  const settled = (winnerSlot: MatchSlot | null) => ({
+    result: { resultType: input.resultType, homeScore, awayScore, sets, winnerSlot },
+  });
+
+  if (input.resultType === "abandoned") {
+    if (input.winner) {
+      return { error: "An abandoned match has no winner" };
+    }
+    return settled(null);
+  }
+
+  if (input.resultType === "walkover" || input.resultType === "forfeit") {
+    if (!input.winner) {
+      return { error: "Choose which side was awarded the match" };
+    }
+    return settled(input.winner);
+  }
+
+  if (homeScore === null || awayScore === null) {
+    return { error: "Enter the score or the set scores" };
+  }
+
+  if (homeScore !== awayScore) {
+    const leader: MatchSlot = homeScore > awayScore ? "home" : "away";
+    if (input.winner && input.winner !== leader) {
+      return { error: "The winner doesn't match the score" };
+    }
+    return settled(leader);
+  }
+
+  // Level scores: a group game is a draw, a knockout game was decided some other way (e.g. penalties)
+  if (input.winner) {
+    return settled(input.winner);
+  }
+  if (!allowDraw) {
+    return { error: "A knockout match can't end in a draw. Choose who went through." };
+  }
+  return settled(null);
+}
+
+/**
+ * Final positions decided so far in an elimination draw. An entrant is out once it loses
+ * a match with nowhere to drop to; the closer that match is to the final, the better its
+ * position, and everyone knocked out at the same distance shares it (e.g. joint third).
+ */
+export function eliminationPlacings(matches: ResultMatch[]): Placing[] {
+  const byId = new Map(matches.map((match) => [match.id, match]));
+  const distances = new Map<string, number>();
+  const distance = (match: ResultMatch): number => {
+    if (!distances.has(match.id)) {
+      const next = match.nextMatchId ? byId.get(match.nextMatchId) : undefined;
+      distances.set(match.id, next ? distance(next) + 1 : 0);
+    }
+    return distances.get(match.id)!;
+  };
+
+  const eliminating = matches.filter((match) => !match.loserMatchId);
+  const placings: Placing[] = [];
+
+  for (const match of eliminating) {
+    if (!match.winnerSlot) continue;
+    const winner = sideEntrant(match, match.winnerSlot);
+    const loser = sideEntrant(match, otherSide(match.winnerSlot));
+    const matchDistance = distance(match);
+
+    if (!match.nextMatchId && winner) {
+      placings.push({ entrant: winner, position: 1 });
+    }
+    if (loser) {
+      const knockedOutLater = eliminating.filter((other) => distance(other) < matchDistance).length;
+      placings.push({ entrant: loser, position: 2 + knockedOutLater });
+    }
+  }
+
+  return placings;
+}
@@ -0,0 +1,101 @@
+import { rangesOverlap, TimeRange } from "./shifts";
+
+export interface ScheduleItem extends TimeRange {
+  id: string;
+  sportId: string;
+  sportName: string;
+  type: string;
+  venueId: string | null;
+  venue: string;
+}
+
+export interface ScheduleEntrant {
+  participantId: string;
+  name: string;
+  community: string;
+}
+
+export interface VenueConflict {
+  venue: string;
+  items: [ScheduleItem, ScheduleItem];
+}
+
+export interface ParticipantClash {
+  participant: ScheduleEntrant;
+  items: [ScheduleItem, ScheduleItem];
+}
+
+// "Main Stadium " and "main  stadium" are the same place
+export function venueKey(venue: string): string {
+  return venue.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Registered venues compare by id; free-text ones fall back to the name
+function sameVenue(a: ScheduleItem, b: ScheduleItem): boolean {
+  if (a.venueId && b.venueId) return a.venueId === b.venueId;
+  return venueKey(a.venue) === venueKey(b.venue);
+}
+
+// Every overlapping pair, found by sweeping the items in start order
+function overlappingPairs(items: ScheduleItem[], focusId?: string): Array<[ScheduleItem, ScheduleItem]> {
+  const sorted = [...items].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  const pairs: Array<[ScheduleItem, ScheduleItem]> = [];
+
+  sorted.forEach((item, index) => {
+    for (const other of sorted.slice(index + 1)) {
+      if (other.startTime >= item.endTime) break;
+      if (!rangesOverlap(item, other)) continue;
+      if (focusId && item.id !== focusId && other.id !== focusId) continue;
+      // Keep the focused item first so callers can read the pair as "this clashes with that"
+      pairs.push(other.id === focusId ? [other, item] : [item, other]);
+    }
+  });
+
+  return pairs;
+}
+
+/**
+ * Items booked into the same venue at overlapping times. With `focusId`, only pairs
+ * involving that item are returned.
+ */
+export function findVenueConflicts(items: ScheduleItem[], focusId?: string): VenueConflict[] {
+  return overlappingPairs(items, focusId)
+    .filter(([a, b]) => sameVenue(a, b))
+    .map((pair) => ({ venue: pair[0].venue, items: pair }));
+}
+
+/**
+ * Participants entered in the sports of two overlapping items. `entrants` maps each
+ * item's sportId to the people registered for it; items of the same sport never clash
+ * with each other (heats and pools run side by side).
+ */
+export function findParticipantClashes(
+  items: ScheduleItem[],
+  entrants: Map<string, ScheduleEntrant[]>,
+  focusId?: string
+): ParticipantClash[] {
+  const clashes: ParticipantClash[] = [];
+
+  for (const [a, b] of overlappingPairs(items, focusId)) {
+    if (a.sportId === b.sportId) continue;
+
+    const inB = new Set((entrants.get(b.sportId) || []).map((entrant) => entrant.participantId));
+    for (const participant of entrants.get(a.sportId) || []) {
+      if (inB.has(participant.participantId)) {
+        clashes.push({ participant, items: [a, b] });
+      }
+    }
+  }
+
+  return clashes.sort((x, y) => x.participant.name.localeCompare(y.participant.name));
+}
+
+function formatItem(item: ScheduleItem): string {
+  const start = item.startTime.toISOString().slice(0, 16).replace("T", " ");
+  const end = item.endTime.toISOString().slice(11, 16);
+  return `${item.sportName} ${item.type} (${start}-${end} UTC)`;
+}
+
+export function describeVenueConflicts(conflicts: VenueConflict[]): string {
+  return `${conflicts[0].items[1].venue} is already booked at that time: ${conflicts.map((conflict) => formatItem(conflict.items[1])).join("; ")}`;
+}
@@ -0,0 +1,156 @@
+export interface ShiftConflict {
+  volunteerId: string;
+  volunteerName: string;
+  shiftId: string;
+  shiftTitle: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+export function formatShiftConflict(conflict: ShiftConflict): string {
+  const start = conflict.startTime.toISOString().slice(0, 16).replace("T", " ");
+  const end = conflict.endTime.toISOString().slice(11, 16);
+  return `${conflict.volunteerName} is already on "${conflict.shiftTitle}" (${start}-${end} UTC)`;
+}
+
+export function describeShiftConflicts(conflicts: ShiftConflict[]): string {
+  return conflicts.length === 1
+    ? formatShiftConflict(conflicts[0])
+    : `${conflicts.length} volunteers already have overlapping shifts: ${conflicts.map(formatShiftConflict).join("; ")}`;
+}
+
+export interface TimeRange {
+  startTime: Date;
+  endTime: Date;
+}
+
+export type SuggestionKind = "shift" | "calendarItem";
+
+export interface SuggestionTarget extends TimeRange {
+  kind: SuggestionKind;
+  id: string;
+  label: string;
+  departmentId: string | null;
+  sportId: string | null;
+  openSlots: number;
+  excludedVolunteerIds: string[];
+}
+
+export interface SuggestionCandidate {
+  id: string;
+  name: string;
+  departmentId: string | null;
+  sportId: string | null;
+  availability: TimeRange[];
+  preferredDepartmentIds: string[];
+  preferredSportIds: string[];
+  commitments: TimeRange[];
+}
+
+export interface VolunteerSuggestion {
+  kind: SuggestionKind;
+  targetId: string;
+  targetLabel: string;
+  startTime: Date;
+  endTime: Date;
+  volunteerId: string;
+  volunteerName: string;
+  score: number;
+  reasons: string[];
+}
+
+// Back-to-back ranges (one ending as the next starts) do not overlap
+export function rangesOverlap(a: TimeRange, b: TimeRange): boolean {
+  return a.startTime < b.endTime && b.startTime < a.endTime;
+}
+
+function coversRange(window: TimeRange, range: TimeRange): boolean {
+  return window.startTime <= range.startTime && window.endTime >= range.endTime;
+}
+
+/**
+ * Propose volunteers for open places, earliest target first, never suggesting someone
+ * who is already busy. A shift needs someone whose availability covers it; a calendar
+ * item is covered by giving a volunteer without a sport the item's sport, so any
+ * availability that day qualifies.
+ * Preferences and department/sport membership raise the score and each existing
+ * commitment lowers it, which spreads the load. Suggestions count as commitments for
+ * later targets, so accepting the whole batch never double-books anyone.
+ */
+export function suggestAssignments(
+  targets: SuggestionTarget[],
+  candidates: SuggestionCandidate[]
+): VolunteerSuggestion[] {
+  const pool = candidates.map((candidate) => ({ ...candidate, commitments: [...candidate.commitments] }));
+  const suggestions: VolunteerSuggestion[] = [];
+
+  const ordered = [...targets].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  for (const target of ordered) {
+    if (target.openSlots <= 0) continue;
+    const excluded = new Set(target.excludedVolunteerIds);
+
+    const ranked = pool
+      .filter((candidate) => {
+        if (excluded.has(candidate.id)) return false;
+        if (candidate.commitments.some((commitment) => rangesOverlap(commitment, target))) return false;
+        if (target.kind === "calendarItem") {
+          return !candidate.sportId && candidate.availability.some((window) => rangesOverlap(window, target));
+        }
+        return candidate.availability.some((window) => coversRange(window, target));
+      })
+      .map((candidate) => {
+        const reasons: string[] = [];
+        let score = 0;
+        if (target.departmentId && candidate.preferredDepartmentIds.includes(target.departmentId)) {
+          score += 3;
+          reasons.push("Prefers this department");
+        }
+        if (target.sportId && candidate.preferredSportIds.includes(target.sportId)) {
+          score += 3;
+          reasons.push("Prefers this sport");
+        }
+        if (target.departmentId && candidate.departmentId === target.departmentId) {
+          score += 2;
+          reasons.push("Member of this department");
+        }
+        if (target.sportId && candidate.sportId === target.sportId) {
+          score += 2;
+          reasons.push("Assigned to this sport");
+        }
+        score -= candidate.commitments.length;
+        reasons.push(
+          candidate.commitments.length === 0
+            ? "No other shifts"
+            : `${candidate.commitments.length} other shift${candidate.commitments.length === 1 ? "" : "s"}`
+        );
+        return { candidate, score, reasons };
+      })
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          a.candidate.commitments.length - b.candidate.commitments.length ||
+          a.candidate.name.localeCompare(b.candidate.name)
+      )
+      .slice(0, target.openSlots);
+
+    for (const { candidate, score, reasons } of ranked) {
+      suggestions.push({
+        kind: target.kind,
+        targetId: target.id,
+        targetLabel: target.label,
+        startTime: target.startTime,
+        endTime: target.endTime,
+        volunteerId: candidate.id,
+        volunteerName: candidate.name,
+        score,
+        reasons,
+      });
+      if (target.kind === "calendarItem") {
+        candidate.sportId = target.sportId;
+      }
+      candidate.commitments.push({ startTime: target.startTime, endTime: target.endTime });
+    }
+  }
+
+  return suggestions;
+}
@@ -0,0 +1,192 @@
+import { TieBreaker } from "@prisma/client";
+import { DrawEntrant } from "./draws";
+import { Placing, ResultMatch, entrantKey, sideEntrant } from "./results";
+
+export const POINTS_FOR_WIN = 3;
+export const POINTS_FOR_DRAW = 1;
+
+export interface StandingsRow {
+  entrant: DrawEntrant;
+  position: number;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  scoreFor: number;
+  scoreAgainst: number;
+  difference: number;
+  points: number;
+  fairPlay: number; // Disciplinary points; fewer is better
+}
+
+export interface GroupStandings {
+  group: string | null;
+  complete: boolean; // Every game in the group has a result
+  rows: StandingsRow[];
+}
+
+type TallyRow = Omit<StandingsRow, "position">;
+
+// A game counts towards the table once it has a result, unless it was abandoned
+function counts(match: ResultMatch) {
+  return !!match.resultType && match.resultType !== "abandoned";
+}
+
+// Played/won/drawn/lost, scores and points for every entrant in a set of group games
+function tally(matches: ResultMatch[]) {
+  const rows = new Map<string, TallyRow>();
+  const row = (entrant: DrawEntrant) => {
+    const key = entrantKey(entrant);
+    if (!rows.has(key)) {
+      rows.set(key, {
+        entrant,
+        played: 0,
+        won: 0,
+        drawn: 0,
+        lost: 0,
+        scoreFor: 0,
+        scoreAgainst: 0,
+        difference: 0,
+        points: 0,
+        fairPlay: 0,
+      });
+    }
+    return rows.get(key)!;
+  };
+
+  for (const match of matches) {
+    const home = sideEntrant(match, "home");
+    const away = sideEntrant(match, "away");
+    if (!home || !away) continue;
+    const homeRow = row(home);
+    const awayRow = row(away);
+    homeRow.fairPlay += match.homeFairPlay ?? 0;
+    awayRow.fairPlay += match.awayFairPlay ?? 0;
+    if (!counts(match)) continue;
+
+    const homeScore = match.homeScore ?? 0;
+    const awayScore = match.awayScore ?? 0;
+    homeRow.played++;
+    awayRow.played++;
+    homeRow.scoreFor += homeScore;
+    homeRow.scoreAgainst += awayScore;
+    awayRow.scoreFor += awayScore;
+    awayRow.scoreAgainst += homeScore;
+
+    if (match.winnerSlot === "home") {
+      homeRow.won++;
+      awayRow.lost++;
+      homeRow.points += POINTS_FOR_WIN;
+    } else if (match.winnerSlot === "away") {
+      awayRow.won++;
+      homeRow.lost++;
+      awayRow.points += POINTS_FOR_WIN;
+    } else {
+      homeRow.drawn++;
+      awayRow.drawn++;
+      homeRow.points += POINTS_FOR_DRAW;
+      awayRow.points += POINTS_FOR_DRAW;
+    }
+  }
+
+  for (const entry of rows.values()) {
+    entry.difference = entry.scoreFor - entry.scoreAgainst;
+  }
+  return rows;
+}
+
+// Split rows already sorted by `value` into runs that are level on it
+function splitLevel(rows: TallyRow[], value: (row: TallyRow) => number) {
+  const runs: TallyRow[][] = [];
+  for (const row of rows) {
+    const run = runs[runs.length - 1];
+    if (run && value(run[0]) === value(row)) {
+      run.push(row);
+    } else {
+      runs.push([row]);
+    }
+  }
+  return runs;
+}
+
+/**
+ * Order entrants that are level on points by applying the tie-breakers in turn. Head to
+ * head only looks at the games between the entrants still level. Returns the rows in
+ * order, grouped into runs that no tie-breaker could separate.
+ */
+function breakTies(rows: TallyRow[], matches: ResultMatch[], tieBreakers: TieBreaker[]): TallyRow[][] {
+  if (rows.length < 2 || tieBreakers.length === 0) {
+    return [rows];
+  }
+  const [tieBreaker, ...rest] = tieBreakers;
+
+  let headToHead: Map<string, TallyRow> | undefined;
+  if (tieBreaker === "head_to_head") {
+    const keys = new Set(rows.map((row) => entrantKey(row.entrant)));
+    headToHead = tally(
+      matches.filter((match) => {
+        const home = sideEntrant(match, "home");
+        const away = sideEntrant(match, "away");
+        return !!home && !!away && keys.has(entrantKey(home)) && keys.has(entrantKey(away));
+      })
+    );
+  }
+
+  const value = (row: TallyRow) => {
+    switch (tieBreaker) {
+      case "head_to_head":
+        return headToHead!.get(entrantKey(row.entrant))?.points ?? 0;
+      case "goal_difference":
+        return row.difference;
+      case "goals_scored":
+        return row.scoreFor;
+      case "fair_play":
+        return -row.fairPlay;
+    }
+  };
+
+  const sorted = [...rows].sort((a, b) => value(b) - value(a));
+  return splitLevel(sorted, value).flatMap((run) => breakTies(run, matches, rest));
+}
+
+function groupStandings(group: string | null, matches: ResultMatch[], tieBreakers: TieBreaker[]): GroupStandings {
+  const rows = Array.from(tally(matches).values()).sort((a, b) => b.points - a.points);
+  const runs = splitLevel(rows, (row) => row.points).flatMap((run) => breakTies(run, matches, tieBreakers));
+
+  const ranked: StandingsRow[] = [];
+  for (const run of runs) {
+    // Entrants no tie-breaker could separate share a position
+    const position = ranked.length + 1;
+    ranked.push(...run.map((row) => ({ ...row, position })));
+  }
+
+  return { group, complete: matches.every((match) => !!match.resultType), rows: ranked };
+}
+
+/**
+ * Points tables for each group of a sport's draw, from the group games' results. Level
+ * entrants are separated by the sport's tie-breakers in the order given.
+ */
+export function computeStandings(matches: ResultMatch[], tieBreakers: TieBreaker[]): GroupStandings[] {
+  const groups = new Map<string, ResultMatch[]>();
+  for (const match of matches) {
+    if (match.bracket !== "group") continue;
+    const key = match.group ?? "";
+    groups.set(key, [...(groups.get(key) ?? []), match]);
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([group, groupMatches]) => groupStandings(group || null, groupMatches, tieBreakers));
+}
+
+/**
+ * Final positions from a round robin. Only a single group that has finished is placed;
+ * separate groups have no games between them to rank them against each other.
+ */
+export function standingsPlacings(standings: GroupStandings[]): Placing[] {
+  if (standings.length !== 1 || !standings[0].complete) {
+    return [];
+  }
+  return standings[0].rows.map((row) => ({ entrant: row.entrant, position: row.position }));
+}